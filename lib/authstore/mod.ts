@@ -0,0 +1,478 @@
+import Client, { AuthModel, BaseAuthStore } from "pocketbase";
+
+import { PbdError } from "$errors";
+import { PbdTokenRefresher } from "$refresh";
+import {
+    PbdAuthSnapshot,
+    PbdAuthStorage,
+    PbdAuthStoreOptions,
+    PbdFileAuthStorageOptions,
+    PbdHeadersLike,
+} from "$types";
+
+/**
+ * An auth store that persists the token and model of the client, so the
+ * sessions survive server restarts, and refreshes the token before it
+ * expires. Pass it to the PocketBase client, and {@linkcode load} it before
+ * the first call.
+ *
+ * The store keeps one auth state per named identity (e.g. an admin and a
+ * service user), {@linkcode switchTo} changes the one in use.
+ *
+ * @example Keep the admin session in Deno KV
+ * ```typescript
+ * const store = new PbdAuthStore({
+ *     storage: new PbdKvAuthStorage(await Deno.openKv()),
+ * });
+ * await store.load();
+ *
+ * const pbd = new Pbd({ client: new PocketBase(url, store) });
+ *
+ * if (!store.isValid) {
+ *     await pbd.adminAuthWithPassword({ email, password });
+ * }
+ * ```
+ */
+export class PbdAuthStore extends BaseAuthStore {
+    private storage: PbdAuthStorage;
+    private current: string;
+    private refreshBefore: number;
+    private refresher: PbdTokenRefresher | null = null;
+    private writing: Promise<void> = Promise.resolve();
+    private failure: unknown = null;
+
+    /**
+     * @param options {PbdAuthStoreOptions} - The storage and refresh
+     * options.
+     */
+    constructor(options: PbdAuthStoreOptions) {
+        super();
+        this.storage = options.storage;
+        this.current = options.identity ?? "default";
+        this.refreshBefore = options.refreshBefore ?? 300_000;
+    }
+
+    /**
+     * The name of the identity in use.
+     * @type {string}
+     */
+    get identity(): string {
+        return this.current;
+    }
+
+    /**
+     * Loads the persisted auth state of the identity in use.
+     *
+     * @returns {Promise<void>}
+     */
+    async load(): Promise<void> {
+        await this.writing;
+        const snapshot: PbdAuthSnapshot | null = await this.storage.get(
+            this.current,
+        );
+
+        if (snapshot) {
+            super.save(snapshot.token, snapshot.model);
+        } else {
+            super.clear();
+        }
+    }
+
+    /**
+     * Switches to another identity and loads its auth state. The auth
+     * state of the previous identity is kept.
+     *
+     * @param identity {string} - The name of the identity.
+     * @returns {Promise<void>}
+     */
+    async switchTo(identity: string): Promise<void> {
+        this.current = identity;
+        await this.load();
+    }
+
+    /**
+     * @returns {Promise<string[]>} - The identities with a persisted auth
+     * state.
+     */
+    async identities(): Promise<string[]> {
+        await this.writing;
+        return await this.storage.identities();
+    }
+
+    /**
+     * Saves the auth state in memory and persists it in the background.
+     *
+     * @param token {string} - The auth token.
+     * @param model {AuthModel} - The authenticated admin or record.
+     * @returns {void}
+     */
+    override save(token: string, model?: AuthModel): void {
+        super.save(token, model);
+        this.persist({ token: this.token, model: this.model });
+    }
+
+    /**
+     * Clears the auth state of the identity in use, also from the storage.
+     *
+     * @returns {void}
+     */
+    override clear(): void {
+        super.clear();
+        this.persist(null);
+    }
+
+    /**
+     * Waits until the auth state is persisted.
+     *
+     * @throws {PbdError} - If it couldn't be persisted.
+     * @returns {Promise<void>}
+     */
+    async flush(): Promise<void> {
+        await this.writing;
+
+        if (this.failure !== null) {
+            const cause: unknown = this.failure;
+            this.failure = null;
+            throw new PbdError("The auth state could not be persisted.", {
+                cause,
+            });
+        }
+    }
+
+    /**
+     * Refreshes the token with `authRefresh` or `adminAuthRefresh`. Pbd
+     * calls it on its own before the token expires.
+     *
+     * @throws {PbdError} - If PocketBase rejects the refresh.
+     * @returns {Promise<void>}
+     */
+    async refresh(): Promise<void> {
+        await this.refresher?.refresh();
+    }
+
+    /**
+     * Refreshes the token of this store with `client` before it expires,
+     * see {@linkcode PbdTokenRefresher}. Pbd calls it when its client uses
+     * this store.
+     *
+     * @param client {Client} - The client using this store.
+     * @returns {void}
+     */
+    attach(client: Client): void {
+        this.refresher?.stop();
+        this.refresher = new PbdTokenRefresher(client, {
+            refreshBefore: this.refreshBefore,
+        });
+        this.refresher.start();
+    }
+
+    /**
+     * Stops refreshing the token.
+     *
+     * @returns {void}
+     */
+    detach(): void {
+        this.refresher?.stop();
+        this.refresher = null;
+    }
+
+    /**
+     * Queues a write of the auth state of the identity in use.
+     *
+     * @param snapshot {PbdAuthSnapshot | null} - The auth state.
+     * @returns {void}
+     */
+    private persist(snapshot: PbdAuthSnapshot | null): void {
+        const identity: string = this.current;
+
+        this.writing = this.writing
+            .then(() => this.storage.set(identity, snapshot))
+            .then(() => {
+                this.failure = null;
+            }, (err: unknown) => {
+                this.failure = err;
+            });
+    }
+}
+
+/**
+ * An in-memory auth store holding a single token, never shared with any
+ * other client. The instances returned by {@linkcode Pbd.as} use it.
+ */
+export class PbdTokenAuthStore extends BaseAuthStore {
+    /**
+     * @param token {string} - The auth token, empty for a guest.
+     * @param model {AuthModel} - The authenticated admin or record, if
+     * known.
+     */
+    constructor(token: string = "", model: AuthModel = null) {
+        super();
+        super.save(token, model);
+    }
+}
+
+/**
+ * A {@linkcode PbdAuthStorage} backed by Deno KV, so the sessions are
+ * shared by every instance of a deployment.
+ *
+ * @example
+ * ```typescript
+ * const storage = new PbdKvAuthStorage(await Deno.openKv());
+ * ```
+ */
+export class PbdKvAuthStorage implements PbdAuthStorage {
+    private kv: Deno.Kv;
+    private prefix: string;
+
+    /**
+     * @param kv {Deno.Kv} - The opened KV database.
+     * @param prefix {string} - The first part of every key written.
+     */
+    constructor(kv: Deno.Kv, prefix: string = "pbdq-auth") {
+        this.kv = kv;
+        this.prefix = prefix;
+    }
+
+    /**
+     * @param identity {string} - The name of the identity.
+     * @returns {Promise<PbdAuthSnapshot | null>} - The auth state, or null.
+     */
+    async get(identity: string): Promise<PbdAuthSnapshot | null> {
+        const entry: Deno.KvEntryMaybe<PbdAuthSnapshot> = await this.kv.get<
+            PbdAuthSnapshot
+        >([this.prefix, identity]);
+
+        return entry.value;
+    }
+
+    /**
+     * @param identity {string} - The name of the identity.
+     * @param snapshot {PbdAuthSnapshot | null} - The auth state, null to
+     * forget it.
+     * @returns {Promise<void>}
+     */
+    async set(
+        identity: string,
+        snapshot: PbdAuthSnapshot | null,
+    ): Promise<void> {
+        if (snapshot) {
+            await this.kv.set([this.prefix, identity], snapshot);
+        } else {
+            await this.kv.delete([this.prefix, identity]);
+        }
+    }
+
+    /**
+     * @returns {Promise<string[]>} - The identities with a persisted auth
+     * state.
+     */
+    async identities(): Promise<string[]> {
+        const identities: string[] = [];
+
+        for await (
+            const entry of this.kv.list<PbdAuthSnapshot>({
+                prefix: [this.prefix],
+            })
+        ) {
+            identities.push(String(entry.key[1]));
+        }
+
+        return identities;
+    }
+}
+
+/**
+ * A {@linkcode PbdAuthStorage} that keeps every identity in a JSON file
+ * encrypted with AES-GCM. Handy for a single server without Deno KV. The
+ * file is replaced atomically on every write.
+ *
+ * @example
+ * ```typescript
+ * const storage = new PbdFileAuthStorage({
+ *     path: "./.pbdq-auth",
+ *     secret: Deno.env.get("PBDQ_AUTH_SECRET")!,
+ * });
+ * ```
+ */
+export class PbdFileAuthStorage implements PbdAuthStorage {
+    private path: string;
+    private secret: string | CryptoKey;
+    private key: Promise<CryptoKey> | null = null;
+    private writing: Promise<void> = Promise.resolve();
+
+    /**
+     * @param options {PbdFileAuthStorageOptions} - The path of the file and
+     * its secret.
+     */
+    constructor(options: PbdFileAuthStorageOptions) {
+        this.path = options.path;
+        this.secret = options.secret;
+    }
+
+    /**
+     * @param identity {string} - The name of the identity.
+     * @returns {Promise<PbdAuthSnapshot | null>} - The auth state, or null.
+     */
+    async get(identity: string): Promise<PbdAuthSnapshot | null> {
+        await this.writing;
+        return (await this.read())[identity] ?? null;
+    }
+
+    /**
+     * @param identity {string} - The name of the identity.
+     * @param snapshot {PbdAuthSnapshot | null} - The auth state, null to
+     * forget it.
+     * @returns {Promise<void>}
+     */
+    set(identity: string, snapshot: PbdAuthSnapshot | null): Promise<void> {
+        const write: Promise<void> = this.writing.then(async () => {
+            const snapshots: Record<string, PbdAuthSnapshot> = await this
+                .read();
+
+            if (snapshot) {
+                snapshots[identity] = snapshot;
+            } else {
+                delete snapshots[identity];
+            }
+
+            await this.write(snapshots);
+        });
+        this.writing = write.catch(() => {});
+
+        return write;
+    }
+
+    /**
+     * @returns {Promise<string[]>} - The identities with a persisted auth
+     * state.
+     */
+    async identities(): Promise<string[]> {
+        await this.writing;
+        return Object.keys(await this.read());
+    }
+
+    /**
+     * Reads and decrypts the file.
+     *
+     * @throws {PbdError} - If the file can't be decrypted.
+     * @returns {Promise<Record<string, PbdAuthSnapshot>>} - The auth state
+     * of every identity.
+     */
+    private async read(): Promise<Record<string, PbdAuthSnapshot>> {
+        let file: { iv: string; data: string };
+
+        try {
+            file = JSON.parse(await Deno.readTextFile(this.path));
+        } catch (err: unknown) {
+            if (err instanceof Deno.errors.NotFound) {
+                return {};
+            }
+            throw err;
+        }
+
+        try {
+            const data: ArrayBuffer = await crypto.subtle.decrypt(
+                { name: "AES-GCM", iv: fromBase64(file.iv) },
+                await this.cryptoKey(),
+                fromBase64(file.data),
+            );
+
+            return JSON.parse(new TextDecoder().decode(data));
+        } catch (err: unknown) {
+            throw new PbdError(
+                `${this.path} can't be decrypted, check the secret.`,
+                { cause: err },
+            );
+        }
+    }
+
+    /**
+     * Encrypts and writes the file, through a temporary file.
+     *
+     * @param snapshots {Record<string, PbdAuthSnapshot>} - The auth state
+     * of every identity.
+     * @returns {Promise<void>}
+     */
+    private async write(
+        snapshots: Record<string, PbdAuthSnapshot>,
+    ): Promise<void> {
+        const iv: Uint8Array<ArrayBuffer> = crypto.getRandomValues(
+            new Uint8Array(12),
+        );
+        const data: ArrayBuffer = await crypto.subtle.encrypt(
+            { name: "AES-GCM", iv },
+            await this.cryptoKey(),
+            new TextEncoder().encode(JSON.stringify(snapshots)),
+        );
+        const temporary: string = `${this.path}.tmp`;
+
+        await Deno.writeTextFile(
+            temporary,
+            JSON.stringify({
+                iv: toBase64(iv),
+                data: toBase64(new Uint8Array(data)),
+            }),
+            { mode: 0o600 },
+        );
+        await Deno.rename(temporary, this.path);
+    }
+
+    /**
+     * Returns the AES-GCM key, derived from the secret with SHA-256 when
+     * it's a string.
+     *
+     * @returns {Promise<CryptoKey>} - The key.
+     */
+    private cryptoKey(): Promise<CryptoKey> {
+        if (typeof this.secret !== "string") {
+            return Promise.resolve(this.secret);
+        }
+
+        this.key ??= crypto.subtle
+            .digest("SHA-256", new TextEncoder().encode(this.secret))
+            .then((raw: ArrayBuffer) =>
+                crypto.subtle.importKey("raw", raw, "AES-GCM", false, [
+                    "encrypt",
+                    "decrypt",
+                ])
+            );
+
+        return this.key;
+    }
+}
+
+/**
+ * Reads the auth token of a request from its `Authorization` header,
+ * with or without the `Bearer` scheme.
+ *
+ * @param headers {PbdHeadersLike} - The request headers.
+ * @returns {string} - The token, empty if there is none.
+ */
+export function bearerToken(headers: PbdHeadersLike): string {
+    const value: string | string[] | null | undefined =
+        headers instanceof Headers
+            ? headers.get("authorization")
+            : headers["authorization"] ?? headers["Authorization"];
+    const header: string = (Array.isArray(value) ? value[0] : value) ?? "";
+
+    return header.replace(/^Bearer\s+/i, "").trim();
+}
+
+/**
+ * @param bytes {Uint8Array} - The bytes.
+ * @returns {string} - The bytes in base64.
+ */
+function toBase64(bytes: Uint8Array): string {
+    return btoa(
+        Array.from(bytes, (byte: number) => String.fromCharCode(byte))
+            .join(""),
+    );
+}
+
+/**
+ * @param base64 {string} - Bytes in base64.
+ * @returns {Uint8Array<ArrayBuffer>} - The bytes.
+ */
+function fromBase64(base64: string): Uint8Array<ArrayBuffer> {
+    return Uint8Array.from(atob(base64), (char: string) => char.charCodeAt(0));
+}
@@ -0,0 +1,515 @@
+import Client, { CommonOptions, RecordModel } from "pocketbase";
+import { toPbdError } from "$errors";
+import { PbdTenancy } from "$tenancy";
+import { PbdValidator } from "$validation";
+import {
+    PbdBatchOptions,
+    PbdBatchReport,
+    PbdBatchResult,
+    PbdRunner,
+} from "$types";
+
+/**
+ * The system fields that can't be sent back when restoring a record.
+ */
+const SYSTEM_FIELDS: string[] = [
+    "created",
+    "updated",
+    "collectionId",
+    "collectionName",
+    "expand",
+];
+
+/**
+ * A queued batch operation.
+ */
+interface PbdBatchOperation {
+    action: "create" | "update" | "delete";
+    collectionName: string;
+    recordId?: string;
+    data?: unknown;
+    options?: CommonOptions;
+}
+
+/**
+ * Queues record writes across collections and runs them together. If an
+ * operation fails, the ones that were already applied are undone in
+ * reverse order:
+ *
+ * - Created records are deleted.
+ * - Updated records get their previous values back.
+ * - Deleted records are created again with the same id.
+ *
+ * PocketBase has no transactions over its API, so this is best effort:
+ * the records are read right before they're updated or deleted, and files
+ * of deleted records can't be restored. Check the report for
+ * `"rollback_failed"` results.
+ *
+ * Every request is a call of its own (`batch`) for the middleware, rate
+ * limit, circuit breaker and cache, with the action, collection, record id
+ * and data as its arguments. With tenancy (see {@linkcode PbdTenancy}),
+ * creates and updates get the tenant of the caller set, and the records
+ * of other tenants can't be updated or deleted, like with `create`,
+ * `update` and `delete`.
+ *
+ * Don't create these directly, use {@linkcode Pbd.batch} instead.
+ *
+ * @example Create an order with its items
+ * ```typescript
+ * const report = await pbd.batch({ concurrency: 4 })
+ *     .create("orders", { id: orderId, customer: customerId })
+ *     .create("order_items", { order: orderId, product: "abc" })
+ *     .update("products", "abc", { "stock-": 1 })
+ *     .run();
+ *
+ * if (!report.ok) {
+ *     const failed = report.results.find((r) => r.status === "failed");
+ *     console.log(failed?.error?.message);
+ * }
+ * ```
+ */
+export class PbdBatch {
+    private runner: PbdRunner;
+    private validator: PbdValidator | null;
+    private tenancy: PbdTenancy | null;
+    private options: PbdBatchOptions;
+    private operations: PbdBatchOperation[] = [];
+
+    /**
+     * @param runner {PbdRunner} - Runs the requests of the batch.
+     * @param validator {PbdValidator | null} - Checks creates and updates
+     * before they're sent (if any).
+     * @param tenancy {PbdTenancy | null} - Scopes the writes to the tenant
+     * of the caller (if any).
+     * @param options {PbdBatchOptions} - The concurrency and rollback
+     * options.
+     */
+    constructor(
+        runner: PbdRunner,
+        validator: PbdValidator | null,
+        tenancy: PbdTenancy | null,
+        options: PbdBatchOptions = {},
+    ) {
+        this.runner = runner;
+        this.validator = validator;
+        this.tenancy = tenancy;
+        this.options = options;
+    }
+
+    /**
+     * The number of queued operations.
+     *
+     * @returns {number} - The number of operations.
+     */
+    get size(): number {
+        return this.operations.length;
+    }
+
+    /**
+     * Queues a record creation.
+     *
+     * @param collectionName {string} - The collection to create the record in.
+     * @param data {unknown} - The record data.
+     * @param options {CommonOptions} - PocketBase request options.
+     * @returns {PbdBatch} - The batch, to chain more operations.
+     */
+    create(
+        collectionName: string,
+        data: unknown,
+        options?: CommonOptions,
+    ): PbdBatch {
+        this.operations.push({
+            action: "create",
+            collectionName,
+            data,
+            options,
+        });
+        return this;
+    }
+
+    /**
+     * Queues a record update.
+     *
+     * @param collectionName {string} - The collection of the record.
+     * @param recordId {string} - The id of the record.
+     * @param data {unknown} - The fields to update.
+     * @param options {CommonOptions} - PocketBase request options.
+     * @returns {PbdBatch} - The batch, to chain more operations.
+     */
+    update(
+        collectionName: string,
+        recordId: string,
+        data: unknown,
+        options?: CommonOptions,
+    ): PbdBatch {
+        this.operations.push({
+            action: "update",
+            collectionName,
+            recordId,
+            data,
+            options,
+        });
+        return this;
+    }
+
+    /**
+     * Queues a record deletion.
+     *
+     * @param collectionName {string} - The collection of the record.
+     * @param recordId {string} - The id of the record.
+     * @param options {CommonOptions} - PocketBase request options.
+     * @returns {PbdBatch} - The batch, to chain more operations.
+     */
+    delete(
+        collectionName: string,
+        recordId: string,
+        options?: CommonOptions,
+    ): PbdBatch {
+        this.operations.push({
+            action: "delete",
+            collectionName,
+            recordId,
+            options,
+        });
+        return this;
+    }
+
+    /**
+     * Runs the queued operations. Once an operation fails no new ones are
+     * started, the running ones are awaited and then the applied ones are
+     * rolled back (unless `rollback` is disabled).
+     *
+     * This never throws, every failure is reported in the results. The
+     * cached reads of a collection are dropped by each write to it.
+     *
+     * @returns {Promise<PbdBatchReport>} - The outcome of every operation.
+     */
+    async run(): Promise<PbdBatchReport> {
+        const operations: PbdBatchOperation[] = this.operations;
+        const rollback: boolean = this.options.rollback ?? true;
+        const results: PbdBatchResult[] = operations.map(
+            (operation: PbdBatchOperation, index: number) => ({
+                index,
+                action: operation.action,
+                collectionName: operation.collectionName,
+                recordId: operation.recordId,
+                status: "skipped",
+            }),
+        );
+        const snapshots: Map<number, RecordModel> = new Map();
+
+        let next: number = 0;
+        let failed: boolean = false;
+
+        const worker = async (): Promise<void> => {
+            while (!failed && next < operations.length) {
+                const index: number = next++;
+
+                try {
+                    await this.apply(
+                        operations[index],
+                        results[index],
+                        rollback ? snapshots : null,
+                    );
+                    results[index].status = "applied";
+                } catch (err: unknown) {
+                    failed = true;
+                    results[index].status = "failed";
+                    results[index].error = toPbdError(err, {
+                        method: "batch",
+                        collectionName: operations[index].collectionName,
+                    });
+                }
+            }
+        };
+
+        const concurrency: number = Math.max(
+            1,
+            Math.min(this.options.concurrency ?? 1, operations.length),
+        );
+        await Promise.all(Array.from({ length: concurrency }, worker));
+
+        if (failed && rollback) {
+            for (const result of [...results].reverse()) {
+                if (result.status !== "applied") continue;
+
+                try {
+                    await this.undo(
+                        operations[result.index],
+                        result,
+                        snapshots.get(result.index),
+                    );
+                    result.status = "rolled_back";
+                } catch (err: unknown) {
+                    result.status = "rollback_failed";
+                    result.error = toPbdError(err, {
+                        method: "batch",
+                        collectionName: result.collectionName,
+                    });
+                }
+            }
+        }
+
+        return { ok: !failed, results };
+    }
+
+    /**
+     * Runs a single operation. Records are read before being updated or
+     * deleted so they can be restored. The data is checked once the tenant
+     * is set.
+     *
+     * @param operation {PbdBatchOperation} - The operation.
+     * @param result {PbdBatchResult} - The result to fill in.
+     * @param snapshots {Map<number, RecordModel> | null} - Where to keep the
+     * previous records, null if there won't be a rollback.
+     * @returns {Promise<void>}
+     */
+    private async apply(
+        operation: PbdBatchOperation,
+        result: PbdBatchResult,
+        snapshots: Map<number, RecordModel> | null,
+    ): Promise<void> {
+        const { action, collectionName, recordId, data } = operation;
+        // Operations on the same collection run side by side, so the SDK
+        // must not auto cancel them.
+        const options: CommonOptions = {
+            requestKey: null,
+            ...operation.options,
+        };
+
+        if (action !== "create" && snapshots) {
+            snapshots.set(
+                result.index,
+                await this.send(
+                    "getOne",
+                    collectionName,
+                    recordId,
+                    undefined,
+                    (client: Client) =>
+                        client.collection(collectionName).getOne(
+                            recordId as string,
+                            { requestKey: null },
+                        ),
+                ),
+            );
+        }
+
+        switch (action) {
+            case "create": {
+                const record: RecordModel = await this.send(
+                    action,
+                    collectionName,
+                    recordId,
+                    data,
+                    async (
+                        client: Client,
+                        tenant: string | null | undefined,
+                    ) => await client.collection(collectionName).create(
+                        await this.stamp(action, collectionName, tenant, data),
+                        options,
+                    ),
+                );
+                result.record = record;
+                result.recordId = record.id;
+                break;
+            }
+            case "update":
+                result.record = await this.send(
+                    action,
+                    collectionName,
+                    recordId,
+                    data,
+                    async (
+                        client: Client,
+                        tenant: string | null | undefined,
+                    ) => {
+                        const stamped: { [key: string]: unknown } | FormData =
+                            await this.stamp(
+                                action,
+                                collectionName,
+                                tenant,
+                                data,
+                            );
+
+                        await this.tenancy?.checkStored(
+                            tenant,
+                            client,
+                            collectionName,
+                            recordId as string,
+                        );
+
+                        return await client.collection(collectionName).update(
+                            recordId as string,
+                            stamped,
+                            options,
+                        );
+                    },
+                );
+                break;
+            case "delete":
+                await this.send(
+                    action,
+                    collectionName,
+                    recordId,
+                    undefined,
+                    async (
+                        client: Client,
+                        tenant: string | null | undefined,
+                    ) => {
+                        await this.tenancy?.checkStored(
+                            tenant,
+                            client,
+                            collectionName,
+                            recordId as string,
+                        );
+
+                        return await client.collection(collectionName).delete(
+                            recordId as string,
+                            options,
+                        );
+                    },
+                );
+                break;
+        }
+    }
+
+    /**
+     * Sets the tenant in the data of a create or update (see
+     * {@linkcode PbdTenancy.stamp}) and checks the result.
+     *
+     * @param action {"create" | "update"} - The action.
+     * @param collectionName {string} - The collection of the record.
+     * @param tenant {string | null | undefined} - The tenant of the request.
+     * @param data {unknown} - The record data.
+     * @throws {PbdAuthError} - If the data sets another tenant.
+     * @throws {PbdValidationError} - If `validation` is enabled and the data
+     * doesn't match the collection schema.
+     * @returns {Promise<{ [key: string]: unknown } | FormData>} - The data
+     * to send.
+     */
+    private async stamp(
+        action: "create" | "update",
+        collectionName: string,
+        tenant: string | null | undefined,
+        data: unknown,
+    ): Promise<{ [key: string]: unknown } | FormData> {
+        const stamped: unknown = this.tenancy?.stamp(tenant, data) ?? data;
+
+        await this.validator?.check(collectionName, stamped, action);
+
+        return stamped as { [key: string]: unknown } | FormData;
+    }
+
+    /**
+     * Undoes an applied operation.
+     *
+     * @param operation {PbdBatchOperation} - The operation.
+     * @param result {PbdBatchResult} - The result of the operation.
+     * @param snapshot {RecordModel | undefined} - The record as it was before
+     * the operation (for updates and deletes).
+     * @returns {Promise<void>}
+     */
+    private async undo(
+        operation: PbdBatchOperation,
+        result: PbdBatchResult,
+        snapshot: RecordModel | undefined,
+    ): Promise<void> {
+        const { collectionName } = operation;
+        const recordId: string = result.recordId as string;
+
+        switch (operation.action) {
+            case "create":
+                await this.send(
+                    "delete",
+                    collectionName,
+                    recordId,
+                    undefined,
+                    (client: Client) =>
+                        client.collection(collectionName).delete(recordId, {
+                            requestKey: null,
+                        }),
+                );
+                break;
+            case "update":
+                await this.send(
+                    "update",
+                    collectionName,
+                    recordId,
+                    restorable(snapshot),
+                    (client: Client) =>
+                        client.collection(collectionName).update(
+                            recordId,
+                            restorable(snapshot),
+                            { requestKey: null },
+                        ),
+                );
+                break;
+            case "delete":
+                await this.send(
+                    "create",
+                    collectionName,
+                    recordId,
+                    restorable(snapshot),
+                    (client: Client) =>
+                        client.collection(collectionName).create(
+                            restorable(snapshot),
+                            { requestKey: null },
+                        ),
+                );
+                break;
+        }
+    }
+
+    /**
+     * Sends a request of the batch through the runner. Writes drop the
+     * cached reads of their collection once they succeed.
+     *
+     * @param action {string} - What the request does: `create`, `update`,
+     * `delete`, or `getOne` for the reads of the records to restore.
+     * @param collectionName {string} - The collection of the record.
+     * @param recordId {string | undefined} - The id of the record, if known.
+     * @param data {unknown} - The data written, if any.
+     * @param fn {(client: Client, tenant: string | null | undefined) => Promise<T>}
+     * - The SDK call to run.
+     * @returns {Promise<T>} - The result of the request.
+     */
+    private send<T>(
+        action: string,
+        collectionName: string,
+        recordId: string | undefined,
+        data: unknown,
+        fn: (client: Client, tenant: string | null | undefined) => Promise<T>,
+    ): Promise<T> {
+        const write: boolean = action !== "getOne";
+
+        return this.runner<T>(
+            {
+                method: "batch",
+                collectionName,
+                scoped: true,
+                invalidates: write,
+                idempotent: !write,
+                args: [action, collectionName, recordId, data],
+            },
+            fn,
+        );
+    }
+}
+
+/**
+ * Strips the fields PocketBase doesn't accept back from a record snapshot.
+ *
+ * @param snapshot {RecordModel | undefined} - The record.
+ * @returns {Record<string, unknown>} - The fields to write.
+ */
+function restorable(
+    snapshot: RecordModel | undefined,
+): Record<string, unknown> {
+    const data: Record<string, unknown> = { ...snapshot };
+
+    for (const field of SYSTEM_FIELDS) {
+        delete data[field];
+    }
+
+    return data;
+}
@@ -0,0 +1,328 @@
+import { PbdCacheEntry, PbdCacheOptions, PbdCacheStore } from "$types";
+
+/**
+ * An in-memory {@linkcode PbdCacheStore}. Once `maxEntries` is reached the
+ * least recently used entry is dropped.
+ *
+ * Results are copied when they're stored and when they're read, so a
+ * caller changing a result doesn't change the cached one.
+ *
+ * @example
+ * ```typescript
+ * const pbd = new Pbd({
+ *     client: pb,
+ *     cache: { store: new PbdMemoryCache(500), ttl: 30_000 },
+ * });
+ * ```
+ */
+export class PbdMemoryCache implements PbdCacheStore {
+    private entries: Map<string, Map<string, PbdCacheEntry>> = new Map();
+    private order: Map<string, [string, string]> = new Map();
+    private maxEntries: number;
+
+    /**
+     * @param maxEntries {number} - The maximum number of entries kept.
+     */
+    constructor(maxEntries: number = 1000) {
+        this.maxEntries = maxEntries;
+    }
+
+    /**
+     * The number of entries kept.
+     *
+     * @returns {number} - The number of entries.
+     */
+    get size(): number {
+        return this.order.size;
+    }
+
+    /**
+     * @param collectionName {string} - The collection of the entry.
+     * @param key {string} - The key of the entry.
+     * @returns {Promise<PbdCacheEntry | null>} - The entry, or null.
+     */
+    get(collectionName: string, key: string): Promise<PbdCacheEntry | null> {
+        const entry: PbdCacheEntry | undefined = this.entries
+            .get(collectionName)?.get(key);
+
+        if (!entry) {
+            return Promise.resolve(null);
+        }
+
+        if (entry.staleUntil <= Date.now()) {
+            this.remove(collectionName, key);
+            return Promise.resolve(null);
+        }
+
+        // Move the entry to the end of the LRU order.
+        const id: string = `${collectionName}\u0000${key}`;
+        this.order.delete(id);
+        this.order.set(id, [collectionName, key]);
+
+        return Promise.resolve({
+            ...entry,
+            value: structuredClone(entry.value),
+        });
+    }
+
+    /**
+     * @param collectionName {string} - The collection of the entry.
+     * @param key {string} - The key of the entry.
+     * @param entry {PbdCacheEntry} - The entry.
+     * @returns {Promise<void>}
+     */
+    set(
+        collectionName: string,
+        key: string,
+        entry: PbdCacheEntry,
+    ): Promise<void> {
+        const id: string = `${collectionName}\u0000${key}`;
+
+        if (!this.entries.has(collectionName)) {
+            this.entries.set(collectionName, new Map());
+        }
+
+        this.entries.get(collectionName)?.set(key, {
+            ...entry,
+            value: structuredClone(entry.value),
+        });
+        this.order.delete(id);
+        this.order.set(id, [collectionName, key]);
+
+        while (this.order.size > this.maxEntries) {
+            const [oldestCollection, oldestKey]: [string, string] = this.order
+                .values().next().value as [string, string];
+            this.remove(oldestCollection, oldestKey);
+        }
+
+        return Promise.resolve();
+    }
+
+    /**
+     * @param collectionName {string} - The collection.
+     * @returns {Promise<void>}
+     */
+    invalidate(collectionName: string): Promise<void> {
+        for (const key of this.entries.get(collectionName)?.keys() ?? []) {
+            this.order.delete(`${collectionName}\u0000${key}`);
+        }
+
+        this.entries.delete(collectionName);
+
+        return Promise.resolve();
+    }
+
+    /**
+     * Drops a single entry.
+     *
+     * @param collectionName {string} - The collection of the entry.
+     * @param key {string} - The key of the entry.
+     * @returns {void}
+     */
+    private remove(collectionName: string, key: string): void {
+        this.entries.get(collectionName)?.delete(key);
+        this.order.delete(`${collectionName}\u0000${key}`);
+    }
+}
+
+/**
+ * A {@linkcode PbdCacheStore} backed by Deno KV, so the cache can be shared
+ * by every instance of a deployment. Entries expire on their own.
+ *
+ * Deno KV values are limited to 64 KiB, results that don't fit are just
+ * not cached.
+ *
+ * @example
+ * ```typescript
+ * const kv = await Deno.openKv();
+ * const pbd = new Pbd({
+ *     client: pb,
+ *     cache: { store: new PbdKvCache(kv), ttl: 30_000 },
+ * });
+ * ```
+ */
+export class PbdKvCache implements PbdCacheStore {
+    private kv: Deno.Kv;
+    private prefix: string;
+
+    /**
+     * @param kv {Deno.Kv} - The opened KV database.
+     * @param prefix {string} - The first part of every key written.
+     */
+    constructor(kv: Deno.Kv, prefix: string = "pbdq-cache") {
+        this.kv = kv;
+        this.prefix = prefix;
+    }
+
+    /**
+     * @param collectionName {string} - The collection of the entry.
+     * @param key {string} - The key of the entry.
+     * @returns {Promise<PbdCacheEntry | null>} - The entry, or null.
+     */
+    async get(
+        collectionName: string,
+        key: string,
+    ): Promise<PbdCacheEntry | null> {
+        const entry: Deno.KvEntryMaybe<PbdCacheEntry> = await this.kv.get<
+            PbdCacheEntry
+        >([this.prefix, collectionName, key]);
+
+        if (!entry.value || entry.value.staleUntil <= Date.now()) {
+            return null;
+        }
+
+        return entry.value;
+    }
+
+    /**
+     * @param collectionName {string} - The collection of the entry.
+     * @param key {string} - The key of the entry.
+     * @param entry {PbdCacheEntry} - The entry.
+     * @returns {Promise<void>}
+     */
+    async set(
+        collectionName: string,
+        key: string,
+        entry: PbdCacheEntry,
+    ): Promise<void> {
+        await this.kv.set([this.prefix, collectionName, key], entry, {
+            expireIn: Math.max(1, entry.staleUntil - Date.now()),
+        });
+    }
+
+    /**
+     * @param collectionName {string} - The collection.
+     * @returns {Promise<void>}
+     */
+    async invalidate(collectionName: string): Promise<void> {
+        const entries: Deno.KvListIterator<unknown> = this.kv.list({
+            prefix: [this.prefix, collectionName],
+        });
+
+        for await (const entry of entries) {
+            await this.kv.delete(entry.key);
+        }
+    }
+}
+
+/**
+ * Serves cached results and refreshes them. Used by {@linkcode Pbd} when
+ * the `cache` option is set.
+ *
+ * The cache is best effort: if the store fails, the result is loaded from
+ * PocketBase as if it wasn't cached.
+ */
+export class PbdCache {
+    private store: PbdCacheStore;
+    private ttl: number;
+    private staleWhileRevalidate: number;
+    private pending: Map<string, Promise<unknown>> = new Map();
+    private generations: Map<string, number> = new Map();
+
+    /**
+     * @param options {PbdCacheOptions} - The store and expiration options.
+     */
+    constructor(options: PbdCacheOptions) {
+        this.store = options.store;
+        this.ttl = options.ttl ?? 60_000;
+        this.staleWhileRevalidate = options.staleWhileRevalidate ?? 0;
+    }
+
+    /**
+     * Returns the cached result if it's fresh. Stale results are returned
+     * while a refresh runs in the background, anything else is loaded.
+     *
+     * @param collectionName {string} - The collection that is read.
+     * @param key {string} - Identifies the result within the collection.
+     * @param load {() => Promise<T>} - Loads the result from PocketBase.
+     * @returns {Promise<T>} - The result.
+     */
+    async read<T>(
+        collectionName: string,
+        key: string,
+        load: () => Promise<T>,
+    ): Promise<T> {
+        const entry: PbdCacheEntry | null = await this.store
+            .get(collectionName, key)
+            .catch(() => null);
+        const now: number = Date.now();
+
+        if (entry && entry.expiresAt > now) {
+            return entry.value as T;
+        }
+
+        if (entry && entry.staleUntil > now) {
+            this.refresh(collectionName, key, load).catch(() => {});
+            return entry.value as T;
+        }
+
+        return await this.refresh(collectionName, key, load);
+    }
+
+    /**
+     * Drops every cached result of a collection.
+     *
+     * @param collectionName {string} - The collection that was written.
+     * @returns {Promise<void>}
+     */
+    async invalidate(collectionName: string): Promise<void> {
+        this.generations.set(
+            collectionName,
+            (this.generations.get(collectionName) ?? 0) + 1,
+        );
+
+        await this.store.invalidate(collectionName).catch(() => {});
+    }
+
+    /**
+     * Loads a result and stores it. Concurrent refreshes of the same key
+     * share a single request (each one gets its own copy of the result),
+     * and results loaded while the collection was invalidated are not
+     * stored.
+     *
+     * @param collectionName {string} - The collection that is read.
+     * @param key {string} - Identifies the result within the collection.
+     * @param load {() => Promise<T>} - Loads the result from PocketBase.
+     * @returns {Promise<T>} - The result.
+     */
+    private refresh<T>(
+        collectionName: string,
+        key: string,
+        load: () => Promise<T>,
+    ): Promise<T> {
+        const id: string = `${collectionName}\u0000${key}`;
+        const pending: Promise<unknown> | undefined = this.pending.get(id);
+
+        if (pending) {
+            return pending.then((value: unknown): T =>
+                structuredClone(value) as T
+            );
+        }
+
+        const generation: number = this.generations.get(collectionName) ?? 0;
+        const promise: Promise<T> = (async (): Promise<T> => {
+            try {
+                const value: T = await load();
+
+                if (
+                    generation === (this.generations.get(collectionName) ?? 0)
+                ) {
+                    const now: number = Date.now();
+                    await this.store.set(collectionName, key, {
+                        value,
+                        expiresAt: now + this.ttl,
+                        staleUntil: now + this.ttl + this.staleWhileRevalidate,
+                    }).catch(() => {});
+                }
+
+                return value;
+            } finally {
+                this.pending.delete(id);
+            }
+        })();
+
+        this.pending.set(id, promise);
+
+        return promise;
+    }
+}
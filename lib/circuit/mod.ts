@@ -0,0 +1,260 @@
+import Client, { ClientResponseError } from "pocketbase";
+import { PbdCircuitOpenError, PbdErrorOptions } from "$errors";
+import {
+    PbdCircuitOptions,
+    PbdCircuitState,
+    PbdCircuitStateChange,
+} from "$types";
+
+/**
+ * The outcome of a call, kept while it's inside the window.
+ */
+interface PbdCircuitOutcome {
+    at: number;
+    failed: boolean;
+}
+
+/**
+ * Tracks the failure rate of the calls made to PocketBase and stops
+ * sending them once it gets too high. While the circuit is open every call
+ * fails fast with a {@linkcode PbdCircuitOpenError}, and after each
+ * `cooldown` PocketBase is probed with `client.health.check()` until it
+ * answers again.
+ *
+ * Only failures that say PocketBase is unwell are counted: requests that
+ * never got a response and 5xx errors. A 404 or a validation error is a
+ * healthy PocketBase saying no.
+ *
+ * Don't create these directly, set the `circuit` option of
+ * {@linkcode Pbd} and use {@linkcode Pbd.circuit} instead.
+ *
+ * @example Answer 503 right away while PocketBase is down
+ * ```typescript
+ * const pbd = new Pbd({ client: pb, circuit: { cooldown: 5_000 } });
+ *
+ * pbd.circuit?.onStateChange(({ from, to }) => {
+ *     console.log(`PocketBase circuit ${from} -> ${to}`);
+ * });
+ *
+ * app.use(async (ctx, next) => {
+ *     if (pbd.circuit?.state !== "closed") {
+ *         ctx.response.status = 503;
+ *         return;
+ *     }
+ *     await next();
+ * });
+ * ```
+ */
+export class PbdCircuitBreaker {
+    private client: Client;
+    private failureThreshold: number;
+    private minimumCalls: number;
+    private window: number;
+    private cooldown: number;
+    private outcomes: PbdCircuitOutcome[] = [];
+    private listeners: Set<(change: PbdCircuitStateChange) => void> = new Set();
+    private timer: ReturnType<typeof setTimeout> | null = null;
+    private current: PbdCircuitState = "closed";
+
+    /**
+     * @param client {Client} - The PocketBase client to probe.
+     * @param options {PbdCircuitOptions} - The thresholds and timings.
+     */
+    constructor(client: Client, options: PbdCircuitOptions = {}) {
+        this.client = client;
+        this.failureThreshold = options.failureThreshold ?? 0.5;
+        this.minimumCalls = options.minimumCalls ?? 10;
+        this.window = options.window ?? 30_000;
+        this.cooldown = options.cooldown ?? 10_000;
+    }
+
+    /**
+     * The current state of the circuit.
+     *
+     * @returns {PbdCircuitState} - The state.
+     */
+    get state(): PbdCircuitState {
+        return this.current;
+    }
+
+    /**
+     * The share of failed calls in the window (0 to 1).
+     *
+     * @returns {number} - The failure rate.
+     */
+    get failureRate(): number {
+        this.prune();
+
+        if (this.outcomes.length === 0) {
+            return 0;
+        }
+
+        return this.outcomes.filter((outcome: PbdCircuitOutcome) =>
+            outcome.failed
+        ).length / this.outcomes.length;
+    }
+
+    /**
+     * Calls `listener` every time the circuit changes state.
+     *
+     * @param listener {(change: PbdCircuitStateChange) => void} - The
+     * listener.
+     * @returns {() => void} - Removes the listener.
+     */
+    onStateChange(
+        listener: (change: PbdCircuitStateChange) => void,
+    ): () => void {
+        this.listeners.add(listener);
+        return (): void => {
+            this.listeners.delete(listener);
+        };
+    }
+
+    /**
+     * Runs a call if the circuit is closed and records its outcome.
+     *
+     * @param fn {() => Promise<T>} - The call to run.
+     * @param context {PbdErrorOptions} - The method and collection of the
+     * call, for the error raised when the circuit is open.
+     * @throws {PbdCircuitOpenError} - If the circuit is not closed.
+     * @returns {Promise<T>} - The result of the call.
+     */
+    async run<T>(
+        fn: () => Promise<T>,
+        context: PbdErrorOptions = {},
+    ): Promise<T> {
+        if (this.current !== "closed") {
+            throw new PbdCircuitOpenError(
+                "PocketBase is failing, the circuit breaker is open.",
+                context,
+            );
+        }
+
+        try {
+            const result: T = await fn();
+            this.record(false);
+            return result;
+        } catch (err: unknown) {
+            this.record(unhealthy(err));
+            throw err;
+        }
+    }
+
+    /**
+     * Closes the circuit and forgets every recorded call. This also stops
+     * the pending health check (if any).
+     *
+     * @returns {void}
+     */
+    reset(): void {
+        this.outcomes = [];
+        this.transition("closed");
+    }
+
+    /**
+     * Records the outcome of a call and opens the circuit if the failure
+     * rate crossed the threshold.
+     *
+     * @param failed {boolean} - Whether the call failed.
+     * @returns {void}
+     */
+    private record(failed: boolean): void {
+        // Calls that were running when the circuit opened don't count.
+        if (this.current !== "closed") {
+            return;
+        }
+
+        this.outcomes.push({ at: Date.now(), failed });
+
+        if (
+            this.outcomes.length >= this.minimumCalls &&
+            this.failureRate >= this.failureThreshold
+        ) {
+            this.transition("open");
+        }
+    }
+
+    /**
+     * Checks the health of PocketBase while the circuit is half open. The
+     * circuit closes if it passes and opens again otherwise.
+     *
+     * @returns {Promise<void>}
+     */
+    private async probe(): Promise<void> {
+        this.transition("half_open");
+
+        try {
+            await this.client.health.check({ requestKey: null });
+        } catch {
+            if (this.current === "half_open") this.transition("open");
+            return;
+        }
+
+        if (this.current === "half_open") {
+            this.outcomes = [];
+            this.transition("closed");
+        }
+    }
+
+    /**
+     * Changes the state, schedules the next health check when opening and
+     * notifies the listeners.
+     *
+     * @param to {PbdCircuitState} - The new state.
+     * @returns {void}
+     */
+    private transition(to: PbdCircuitState): void {
+        const from: PbdCircuitState = this.current;
+
+        if (this.timer !== null) {
+            clearTimeout(this.timer);
+            this.timer = null;
+        }
+
+        if (to === "open") {
+            this.timer = setTimeout(() => {
+                this.timer = null;
+                this.probe();
+            }, this.cooldown);
+        }
+
+        if (from === to) {
+            return;
+        }
+
+        this.current = to;
+
+        const change: PbdCircuitStateChange = {
+            from,
+            to,
+            failureRate: this.failureRate,
+        };
+        for (const listener of this.listeners) {
+            listener(change);
+        }
+    }
+
+    /**
+     * Drops the outcomes that left the window.
+     *
+     * @returns {void}
+     */
+    private prune(): void {
+        const since: number = Date.now() - this.window;
+
+        while (this.outcomes.length > 0 && this.outcomes[0].at < since) {
+            this.outcomes.shift();
+        }
+    }
+}
+
+/**
+ * Tells whether a failed call means PocketBase is unwell.
+ *
+ * @param err {unknown} - The error of the call.
+ * @returns {boolean} - True for network errors and 5xx responses.
+ */
+function unhealthy(err: unknown): boolean {
+    return err instanceof ClientResponseError && !err.isAbort &&
+        (err.status === 0 || err.status >= 500);
+}
@@ -0,0 +1,78 @@
+import PocketBase, { CollectionModel } from "pocketbase";
+import Pbd from "$pbdq";
+import { generateSchemaModule } from "$codegen";
+
+const USAGE: string = `Generates TypeScript types from PocketBase collections.
+
+Usage:
+    deno task codegen --input ./pocketbase/collections.json --output ./pbd-schema.ts
+    deno task codegen --url http://127.0.0.1:8090 --output ./pbd-schema.ts
+
+Options:
+    --input <file>   A collections export (Settings > Export collections).
+    --url <url>      A running PocketBase instance. The admin credentials are
+                     read from POCKETBASE_ADMIN_EMAIL and POCKETBASE_ADMIN_SECRET.
+    --output <file>  Where to write the module. Printed to stdout if omitted.
+`;
+
+/**
+ * Reads the value of a `--name value` argument.
+ *
+ * @param name {string} - The argument name, without the dashes.
+ * @returns {string | undefined} - The value, if the argument was passed.
+ */
+function arg(name: string): string | undefined {
+    const index: number = Deno.args.indexOf(`--${name}`);
+    return index === -1 ? undefined : Deno.args[index + 1];
+}
+
+/**
+ * Loads the collections of a running PocketBase instance.
+ *
+ * @param url {string} - The PocketBase URL.
+ * @returns {Promise<CollectionModel[]>} - The collections.
+ */
+async function fetchCollections(url: string): Promise<CollectionModel[]> {
+    const email: string | undefined = Deno.env.get("POCKETBASE_ADMIN_EMAIL");
+    const password: string | undefined = Deno.env.get(
+        "POCKETBASE_ADMIN_SECRET",
+    );
+
+    if (!email || !password) {
+        throw new Error(
+            "POCKETBASE_ADMIN_EMAIL and POCKETBASE_ADMIN_SECRET must be set to read the collections of a running instance.",
+        );
+    }
+
+    const pbd: Pbd = new Pbd({ client: new PocketBase(url) });
+
+    await pbd.adminAuthWithPassword({ email, password });
+
+    return await pbd.getCollectionFullList({
+        collectionName: "",
+        page: 1,
+        perPage: 500,
+        listoptions: {},
+    }) ?? [];
+}
+
+const input: string | undefined = arg("input");
+const url: string | undefined = arg("url");
+const output: string | undefined = arg("output");
+
+if (!input && !url) {
+    await Deno.stderr.write(new TextEncoder().encode(USAGE));
+    Deno.exit(1);
+}
+
+const collections: CollectionModel[] = input
+    ? JSON.parse(await Deno.readTextFile(input))
+    : await fetchCollections(url as string);
+
+const source: string = generateSchemaModule(collections);
+
+if (output) {
+    await Deno.writeTextFile(output, source);
+} else {
+    await Deno.stdout.write(new TextEncoder().encode(source));
+}
@@ -0,0 +1,307 @@
+import { CollectionModel, SchemaField } from "pocketbase";
+
+/**
+ * The shared types emitted at the top of every generated module.
+ */
+const PREAMBLE: string =
+    `// This file was generated by \`deno task codegen\`. Do not edit it by hand.
+
+/**
+ * The id of a PocketBase record.
+ */
+export type RecordIdString = string;
+
+/**
+ * A date as returned by PocketBase, e.g. \`2024-01-01 00:00:00.000Z\`.
+ */
+export type IsoDateString = string;
+
+/**
+ * The fields every record has.
+ */
+export interface BaseSystemFields {
+    id: RecordIdString;
+    created: IsoDateString;
+    updated: IsoDateString;
+    collectionId: string;
+    collectionName: string;
+}
+
+/**
+ * The fields every record of an auth collection has.
+ */
+export interface AuthSystemFields extends BaseSystemFields {
+    username: string;
+    email: string;
+    emailVisibility: boolean;
+    verified: boolean;
+}
+
+/**
+ * The fields accepted when creating a record of an auth collection.
+ */
+export interface AuthCreateFields {
+    username?: string;
+    email?: string;
+    emailVisibility?: boolean;
+    verified?: boolean;
+    password: string;
+    passwordConfirm: string;
+}
+`;
+
+/**
+ * Turns a collection or field name into a PascalCase identifier, e.g.
+ * `blog_posts` into `BlogPosts`.
+ *
+ * @param name {string} - The collection or field name.
+ * @returns {string} - The identifier.
+ */
+function pascalCase(name: string): string {
+    const identifier: string = name
+        .split(/[^A-Za-z0-9]+/)
+        .filter((part: string) => part.length > 0)
+        .map((part: string) => part[0].toUpperCase() + part.slice(1))
+        .join("");
+
+    return /^[0-9]/.test(identifier) ? `_${identifier}` : identifier;
+}
+
+/**
+ * Quotes an object key if it's not a valid identifier.
+ *
+ * @param name {string} - The key.
+ * @returns {string} - The key, quoted if needed.
+ */
+function key(name: string): string {
+    return /^[A-Za-z_$][A-Za-z0-9_$]*$/.test(name)
+        ? name
+        : JSON.stringify(name);
+}
+
+/**
+ * Whether a select, relation or file field holds a single value.
+ *
+ * @param field {SchemaField} - The field.
+ * @returns {boolean} - True if `maxSelect` is 1.
+ */
+function isSingle(field: SchemaField): boolean {
+    return field.options?.maxSelect === 1;
+}
+
+/**
+ * Generates TypeScript types from PocketBase collections. The collections
+ * can come from a `collections.json` export (Settings > Export
+ * collections) or from {@linkcode Pbd.getCollectionFullList}.
+ *
+ * For every collection the module contains:
+ *
+ * - `<Name>Record`: The records returned by PocketBase.
+ * - `<Name>Create`/`<Name>Update`: The data accepted by create/update.
+ * - `<Name><Field>Options`: A union of the values of every select field.
+ * - `<Name>Expand`: The expanded records of every relation field.
+ *
+ * Plus a `PbdSchema` map that can be used as the schema of a
+ * {@linkcode Pbd} instance.
+ *
+ * @param collections {CollectionModel[]} - The collections to generate
+ * types for.
+ * @returns {string} - The source of the generated module.
+ *
+ * @example Generate types from an export
+ * ```typescript
+ * const collections = JSON.parse(
+ *     await Deno.readTextFile("./pocketbase/collections.json"),
+ * );
+ *
+ * await Deno.writeTextFile(
+ *     "./pbd-schema.ts",
+ *     generateSchemaModule(collections),
+ * );
+ * ```
+ */
+export function generateSchemaModule(collections: CollectionModel[]): string {
+    const names: Map<string, string> = new Map();
+
+    for (const collection of collections) {
+        names.set(collection.id, pascalCase(collection.name));
+    }
+
+    const blocks: string[] = [PREAMBLE];
+
+    for (const collection of collections) {
+        blocks.push(generateCollection(collection, names));
+    }
+
+    const entries: string[] = collections.map((collection: CollectionModel) => {
+        const name: string = pascalCase(collection.name);
+        const readonly: boolean = collection.type === "view";
+
+        return [
+            `    ${key(collection.name)}: {`,
+            `        record: ${name}Record;`,
+            `        create: ${readonly ? "never" : `${name}Create`};`,
+            `        update: ${readonly ? "never" : `${name}Update`};`,
+            `    };`,
+        ].join("\n");
+    });
+
+    blocks.push(
+        [
+            "/**",
+            " * Maps every collection name to its record, create and update types.",
+            " * Use it as the schema of a Pbd instance:",
+            ' * `new Pbd<"throw", PbdSchema>({ client: pb })`.',
+            " */",
+            "export type PbdSchema = {",
+            ...entries,
+            "};",
+        ].join("\n") + "\n",
+    );
+
+    return blocks.join("\n");
+}
+
+/**
+ * Generates the types of a single collection.
+ *
+ * @param collection {CollectionModel} - The collection.
+ * @param names {Map<string, string>} - The type names, keyed by collection
+ * id. Used to resolve relations.
+ * @returns {string} - The generated types.
+ */
+function generateCollection(
+    collection: CollectionModel,
+    names: Map<string, string>,
+): string {
+    const name: string = pascalCase(collection.name);
+    const fields: SchemaField[] = collection.schema ?? [];
+    const isAuth: boolean = collection.type === "auth";
+    const lines: string[] = [];
+
+    for (const field of fields) {
+        if (field.type !== "select") continue;
+
+        const values: string[] = field.options?.values ?? [];
+        lines.push(
+            `/**\n * The values of the "${field.name}" field of "${collection.name}".\n */`,
+            `export type ${name}${pascalCase(field.name)}Options =\n${
+                values.length > 0
+                    ? values.map((value: string) =>
+                        `    | ${JSON.stringify(value)}`
+                    ).join("\n")
+                    : "    never"
+            };\n`,
+        );
+    }
+
+    const relations: SchemaField[] = fields.filter((field: SchemaField) =>
+        field.type === "relation"
+    );
+
+    if (relations.length > 0) {
+        lines.push(
+            `/**\n * The expandable relations of "${collection.name}".\n */`,
+            `export interface ${name}Expand {`,
+            ...relations.map((field: SchemaField) => {
+                const target: string | undefined = names.get(
+                    field.options?.collectionId,
+                );
+                const record: string = target
+                    ? `${target}Record`
+                    : "BaseSystemFields";
+
+                return `    ${key(field.name)}?: ${record}${
+                    isSingle(field) ? "" : "[]"
+                };`;
+            }),
+            "}\n",
+        );
+    }
+
+    lines.push(
+        `/**\n * A record of the "${collection.name}" collection.\n */`,
+        `export interface ${name}Record extends ${
+            isAuth ? "AuthSystemFields" : "BaseSystemFields"
+        } {`,
+        ...fields.map((field: SchemaField) =>
+            `    ${key(field.name)}: ${recordType(name, field)};`
+        ),
+        ...(relations.length > 0 ? [`    expand?: ${name}Expand;`] : []),
+        "}\n",
+    );
+
+    if (collection.type === "view") {
+        return lines.join("\n");
+    }
+
+    lines.push(
+        `/**\n * The data accepted when creating a "${collection.name}" record.\n */`,
+        `export interface ${name}Create${
+            isAuth ? " extends AuthCreateFields" : ""
+        } {`,
+        ...fields.map((field: SchemaField) =>
+            `    ${key(field.name)}${field.required ? "" : "?"}: ${
+                createType(name, field)
+            };`
+        ),
+        "}\n",
+        `/**\n * The data accepted when updating a "${collection.name}" record.\n */`,
+        `export type ${name}Update = Partial<${name}Create>${
+            isAuth ? " & { oldPassword?: string }" : ""
+        };\n`,
+    );
+
+    return lines.join("\n");
+}
+
+/**
+ * The type of a field in the records returned by PocketBase.
+ *
+ * @param collection {string} - The type name of the collection.
+ * @param field {SchemaField} - The field.
+ * @returns {string} - The TypeScript type.
+ */
+function recordType(collection: string, field: SchemaField): string {
+    switch (field.type) {
+        case "text":
+        case "editor":
+        case "email":
+        case "url":
+            return "string";
+        case "number":
+            return "number";
+        case "bool":
+            return "boolean";
+        case "date":
+            return "IsoDateString";
+        case "select": {
+            const options: string = `${collection}${
+                pascalCase(field.name)
+            }Options`;
+            return isSingle(field) ? options : `${options}[]`;
+        }
+        case "relation":
+            return isSingle(field) ? "RecordIdString" : "RecordIdString[]";
+        case "file":
+            return isSingle(field) ? "string" : "string[]";
+        default:
+            return "unknown";
+    }
+}
+
+/**
+ * The type of a field in the data sent to create or update a record.
+ * Files are uploaded as `Blob`s, everything else matches the record.
+ *
+ * @param collection {string} - The type name of the collection.
+ * @param field {SchemaField} - The field.
+ * @returns {string} - The TypeScript type.
+ */
+function createType(collection: string, field: SchemaField): string {
+    if (field.type === "file") {
+        return isSingle(field) ? "Blob" : "Blob[]";
+    }
+
+    return recordType(collection, field);
+}
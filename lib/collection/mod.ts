@@ -0,0 +1,209 @@
+import { ListResult } from "pocketbase";
+import type Pbd from "$pbdq";
+import { PbdSubscription } from "$realtime";
+import {
+    PbdCollectionListOptions,
+    PbdCollectionQueryOptions,
+    PbdCollectionSubscribeOptions,
+    PbdCollectionTypes,
+    PbdErrorMode,
+    PbdReturn,
+} from "$types";
+
+/**
+ * The {@linkcode Pbd} methods a {@linkcode PbdCollection} delegates to.
+ * They don't depend on the schema map, so any Pbd instance fits.
+ */
+type PbdRecordMethods<M extends PbdErrorMode> = Pick<
+    Pbd<M>,
+    | "getOne"
+    | "getList"
+    | "getFullList"
+    | "getFirstListItem"
+    | "create"
+    | "update"
+    | "delete"
+    | "subscribe"
+>;
+
+/**
+ * A handle bound to a single collection. The record, create and update
+ * types come from the schema map of the {@linkcode Pbd} instance, so the
+ * collection name and the record type can't get out of sync.
+ *
+ * Every method delegates to the {@linkcode Pbd} method with the same name,
+ * which means error modes and the `unauthorized_errors` guards work the
+ * same way.
+ *
+ * Don't create these directly, use {@linkcode Pbd.collection} instead.
+ *
+ * @example Use the generated schema map
+ * ```typescript
+ * import { PbdSchema } from "./pbd-schema.ts";
+ *
+ * const pbd = new Pbd<"throw", PbdSchema>({ client: pb });
+ * const cats = pbd.collection("Cats");
+ *
+ * // `cat` is a `CatsRecord`
+ * const cat = await cats.create({
+ *     Name: "Gato",
+ *     Age: 2,
+ *     Color: "Brown",
+ *     Breed: "Domestic Short Hair",
+ * });
+ * ```
+ */
+export class PbdCollection<
+    C extends PbdCollectionTypes,
+    M extends PbdErrorMode = "throw",
+> {
+    /**
+     * The name of the collection this handle operates on.
+     * @type {string}
+     */
+    readonly name: string;
+
+    private pbd: PbdRecordMethods<M>;
+
+    /**
+     * @param pbd {Pbd} - The Pbd instance to delegate to.
+     * @param name {string} - The name of the collection.
+     */
+    constructor(pbd: PbdRecordMethods<M>, name: string) {
+        this.pbd = pbd;
+        this.name = name;
+    }
+
+    /**
+     * Gets a single record by its id. See {@linkcode Pbd.getOne}.
+     *
+     * @param record_id {string} - The id of the record.
+     * @param options {PbdCollectionQueryOptions} - The query options.
+     * @returns {Promise<C["record"] | null>} - The record.
+     */
+    async getOne(
+        record_id: string,
+        options: PbdCollectionQueryOptions = {},
+    ): Promise<PbdReturn<C["record"] | null, M>> {
+        return await this.pbd.getOne<C["record"]>(record_id, {
+            ...options,
+            collectionName: this.name,
+        });
+    }
+
+    /**
+     * Gets a page of records. See {@linkcode Pbd.getList}.
+     *
+     * @param options {PbdCollectionListOptions} - The page and query options.
+     * @returns {Promise<ListResult<C["record"]> | null>} - The page.
+     */
+    async getList(
+        options: PbdCollectionListOptions,
+    ): Promise<PbdReturn<ListResult<C["record"]> | null, M>> {
+        return await this.pbd.getList<C["record"]>({
+            ...options,
+            collectionName: this.name,
+        });
+    }
+
+    /**
+     * Gets every record matching the query. See {@linkcode Pbd.getFullList}.
+     *
+     * @param options {PbdCollectionQueryOptions} - The query options.
+     * @returns {Promise<C["record"][] | null>} - The records.
+     */
+    async getFullList(
+        options: PbdCollectionQueryOptions = {},
+    ): Promise<PbdReturn<C["record"][] | null, M>> {
+        return await this.pbd.getFullList<C["record"]>({
+            ...options,
+            collectionName: this.name,
+        });
+    }
+
+    /**
+     * Gets the first record matching the filter. See
+     * {@linkcode Pbd.getFirstListItem}.
+     *
+     * @param options {PbdCollectionQueryOptions} - The query options.
+     * @returns {Promise<C["record"] | null>} - The record.
+     */
+    async getFirstListItem(
+        options: PbdCollectionQueryOptions = {},
+    ): Promise<PbdReturn<C["record"] | null, M>> {
+        return await this.pbd.getFirstListItem<C["record"]>({
+            ...options,
+            collectionName: this.name,
+        });
+    }
+
+    /**
+     * Creates a record. See {@linkcode Pbd.create}.
+     *
+     * @param data {C["create"]} - The data of the new record.
+     * @param options {PbdCollectionQueryOptions} - The query options.
+     * @returns {Promise<C["record"] | null>} - The created record.
+     */
+    async create(
+        data: C["create"],
+        options: PbdCollectionQueryOptions = {},
+    ): Promise<PbdReturn<C["record"] | null, M>> {
+        return await this.pbd.create<C["record"]>(
+            { ...options, collectionName: this.name },
+            data,
+        );
+    }
+
+    /**
+     * Updates a record. See {@linkcode Pbd.update}.
+     *
+     * @param record_id {string} - The id of the record.
+     * @param data {C["update"]} - The fields to update.
+     * @param options {PbdCollectionQueryOptions} - The query options.
+     * @returns {Promise<C["record"] | null>} - The updated record.
+     */
+    async update(
+        record_id: string,
+        data: C["update"],
+        options: PbdCollectionQueryOptions = {},
+    ): Promise<PbdReturn<C["record"] | null, M>> {
+        return await this.pbd.update<C["record"]>(
+            record_id,
+            { ...options, collectionName: this.name },
+            data,
+        );
+    }
+
+    /**
+     * Deletes a record. See {@linkcode Pbd.delete}.
+     *
+     * @param record_id {string} - The id of the record.
+     * @param options {PbdCollectionQueryOptions} - The query options.
+     * @returns {Promise<boolean>} - True if the record was deleted.
+     */
+    async delete(
+        record_id: string,
+        options: PbdCollectionQueryOptions = {},
+    ): Promise<PbdReturn<boolean, M>> {
+        return await this.pbd.delete(record_id, {
+            ...options,
+            collectionName: this.name,
+        });
+    }
+
+    /**
+     * Subscribes to realtime changes. See {@linkcode Pbd.subscribe}.
+     *
+     * @param options {PbdCollectionSubscribeOptions} - The topic and filter.
+     * @returns {Promise<PbdSubscription<C["record"]> | null>} - The
+     * subscription.
+     */
+    async subscribe(
+        options: PbdCollectionSubscribeOptions = {},
+    ): Promise<PbdReturn<PbdSubscription<C["record"]> | null, M>> {
+        return await this.pbd.subscribe<C["record"]>({
+            ...options,
+            collectionName: this.name,
+        });
+    }
+}
@@ -0,0 +1,311 @@
+import { ClientResponseError } from "pocketbase";
+
+/**
+ * A single field error as reported by PocketBase when a record fails
+ * validation. PocketBase returns these inside the `data` object of a
+ * 400 response, keyed by field name.
+ */
+export interface PbdFieldError {
+    /**
+     * The PocketBase validation code, e.g. `validation_required`.
+     * @type {string}
+     */
+    code: string;
+
+    /**
+     * The human readable error message.
+     * @type {string}
+     */
+    message: string;
+}
+
+/**
+ * Extra information attached to every {@linkcode PbdError}.
+ */
+export interface PbdErrorOptions extends ErrorOptions {
+    /**
+     * The HTTP status code of the failed request. `0` when the request
+     * never reached PocketBase.
+     * @type {number}
+     */
+    status?: number;
+
+    /**
+     * The name of the Pbd method that failed, e.g. `getOne`.
+     * @type {string}
+     */
+    method?: string;
+
+    /**
+     * The collection the failed method was operating on (if any).
+     * @type {string}
+     */
+    collectionName?: string;
+
+    /**
+     * The raw response body returned by PocketBase (if any).
+     * @type {{ [key: string]: unknown }}
+     */
+    response?: { [key: string]: unknown };
+}
+
+/**
+ * Base class for every error raised by the Pbd wrapper. All
+ * {@linkcode ClientResponseError} thrown by the PocketBase SDK are mapped
+ * into one of the subclasses below, so you can tell "not found" from
+ * "forbidden" from "network down" with a plain `instanceof` check.
+ *
+ * The original SDK error (if any) is kept in `cause`.
+ *
+ * @example Handle a missing record
+ * ```typescript
+ * try {
+ *     await pbd.getOne<Cat>("123", { collectionName: "cats" });
+ * } catch (err) {
+ *     if (err instanceof PbdNotFoundError) {
+ *         // Do something else
+ *     }
+ * }
+ * ```
+ */
+export class PbdError extends Error {
+    /**
+     * The HTTP status code of the failed request. `0` when the request
+     * never reached PocketBase.
+     * @type {number}
+     */
+    status: number;
+
+    /**
+     * The name of the Pbd method that failed.
+     * @type {string | undefined}
+     */
+    method?: string;
+
+    /**
+     * The collection the failed method was operating on.
+     * @type {string | undefined}
+     */
+    collectionName?: string;
+
+    /**
+     * The raw response body returned by PocketBase.
+     * @type {{ [key: string]: unknown }}
+     */
+    response: { [key: string]: unknown };
+
+    /**
+     * @param message {string} - The error message.
+     * @param options {PbdErrorOptions} - Status code and call context.
+     */
+    constructor(message: string, options: PbdErrorOptions = {}) {
+        super(message, { cause: options.cause });
+        this.name = "PbdError";
+        this.status = options.status ?? 0;
+        this.method = options.method;
+        this.collectionName = options.collectionName;
+        this.response = options.response ?? {};
+    }
+}
+
+/**
+ * The requested resource does not exist (HTTP 404).
+ */
+export class PbdNotFoundError extends PbdError {
+    /**
+     * @param message {string} - The error message.
+     * @param options {PbdErrorOptions} - Status code and call context.
+     */
+    constructor(message: string, options: PbdErrorOptions = {}) {
+        super(message, { status: 404, ...options });
+        this.name = "PbdNotFoundError";
+    }
+}
+
+/**
+ * PocketBase rejected the submitted data (HTTP 400). The per-field
+ * messages are available in `fields`, keyed by field name.
+ */
+export class PbdValidationError extends PbdError {
+    /**
+     * The per-field validation errors, in the same shape PocketBase uses.
+     * @type {Record<string, PbdFieldError>}
+     */
+    fields: Record<string, PbdFieldError>;
+
+    /**
+     * @param message {string} - The error message.
+     * @param fields {Record<string, PbdFieldError>} - The per-field errors.
+     * @param options {PbdErrorOptions} - Status code and call context.
+     */
+    constructor(
+        message: string,
+        fields: Record<string, PbdFieldError> = {},
+        options: PbdErrorOptions = {},
+    ) {
+        super(message, { status: 400, ...options });
+        this.name = "PbdValidationError";
+        this.fields = fields;
+    }
+}
+
+/**
+ * The client is not authenticated or not allowed to perform the operation
+ * (HTTP 401/403). This is also thrown by the `unauthorized_errors` guards
+ * before any request is made.
+ */
+export class PbdAuthError extends PbdError {
+    /**
+     * @param message {string} - The error message.
+     * @param options {PbdErrorOptions} - Status code and call context.
+     */
+    constructor(message: string, options: PbdErrorOptions = {}) {
+        super(message, { status: 401, ...options });
+        this.name = "PbdAuthError";
+    }
+}
+
+/**
+ * The request never got a response from PocketBase (connection refused,
+ * DNS failure, etc).
+ */
+export class PbdNetworkError extends PbdError {
+    /**
+     * @param message {string} - The error message.
+     * @param options {PbdErrorOptions} - Status code and call context.
+     */
+    constructor(message: string, options: PbdErrorOptions = {}) {
+        super(message, { status: 0, ...options });
+        this.name = "PbdNetworkError";
+    }
+}
+
+/**
+ * The request was cancelled, either by an `AbortSignal` or by the SDK
+ * auto cancellation.
+ */
+export class PbdAbortedError extends PbdError {
+    /**
+     * @param message {string} - The error message.
+     * @param options {PbdErrorOptions} - Status code and call context.
+     */
+    constructor(message: string, options: PbdErrorOptions = {}) {
+        super(message, { status: 0, ...options });
+        this.name = "PbdAbortedError";
+    }
+}
+
+/**
+ * A list method returned no items and the `empty_result` policy is set to
+ * `"throw"`. The request itself succeeded.
+ */
+export class PbdEmptyResultError extends PbdError {
+    /**
+     * @param message {string} - The error message.
+     * @param options {PbdErrorOptions} - Status code and call context.
+     */
+    constructor(message: string, options: PbdErrorOptions = {}) {
+        super(message, { status: 200, ...options });
+        this.name = "PbdEmptyResultError";
+    }
+}
+
+/**
+ * The circuit breaker is open: PocketBase failed too often recently, so
+ * the call was not sent. See the `circuit` option.
+ */
+export class PbdCircuitOpenError extends PbdError {
+    /**
+     * @param message {string} - The error message.
+     * @param options {PbdErrorOptions} - Status code and call context.
+     */
+    constructor(message: string, options: PbdErrorOptions = {}) {
+        super(message, { status: 503, ...options });
+        this.name = "PbdCircuitOpenError";
+    }
+}
+
+/**
+ * The call was rate limited: the caller made too many requests lately, so
+ * it was not sent. See {@linkcode PbdRateLimiter}.
+ */
+export class PbdRateLimitError extends PbdError {
+    /**
+     * How long (in milliseconds) to wait before retrying.
+     * @type {number}
+     */
+    retryAfter: number;
+
+    /**
+     * @param message {string} - The error message.
+     * @param retryAfter {number} - How long (in milliseconds) to wait
+     * before retrying.
+     * @param options {PbdErrorOptions} - Status code and call context.
+     */
+    constructor(
+        message: string,
+        retryAfter: number,
+        options: PbdErrorOptions = {},
+    ) {
+        super(message, { status: 429, ...options });
+        this.name = "PbdRateLimitError";
+        this.retryAfter = retryAfter;
+    }
+}
+
+/**
+ * Maps any error thrown while running a Pbd method into a
+ * {@linkcode PbdError}. Errors that already are a `PbdError` are returned
+ * as they are, with the missing call context filled in.
+ *
+ * @param err {unknown} - The thrown error.
+ * @param context {PbdErrorOptions} - The method and collection that failed.
+ * @returns {PbdError} - The mapped error.
+ */
+export function toPbdError(
+    err: unknown,
+    context: PbdErrorOptions = {},
+): PbdError {
+    if (err instanceof PbdError) {
+        err.method ??= context.method;
+        err.collectionName ??= context.collectionName;
+        return err;
+    }
+
+    if (!(err instanceof ClientResponseError)) {
+        return new PbdError(
+            err instanceof Error ? err.message : String(err),
+            { ...context, cause: err },
+        );
+    }
+
+    const options: PbdErrorOptions = {
+        ...context,
+        status: err.status,
+        response: err.response,
+        cause: err,
+    };
+    const message: string = err.response?.message || err.message;
+
+    if (err.isAbort) {
+        return new PbdAbortedError(message, options);
+    }
+
+    switch (err.status) {
+        case 0:
+            return new PbdNetworkError(message, options);
+        case 400:
+            return new PbdValidationError(
+                message,
+                (err.response?.data ?? {}) as Record<string, PbdFieldError>,
+                options,
+            );
+        case 401:
+        case 403:
+            return new PbdAuthError(message, options);
+        case 404:
+            return new PbdNotFoundError(message, options);
+        default:
+            return new PbdError(message, options);
+    }
+}
@@ -1,5 +1,5 @@
 import Pbd from "../../mod.ts";
-import { PbdCronExtOptions } from "$types";
+import { PbdCronExtOptions, PbdErrorMode, PbdSchemaMap } from "$types";
 
 /**
  * This extension allows you to setup a cron job to backup the database.
@@ -28,10 +28,16 @@ import { PbdCronExtOptions } from "$types";
  * @param options {PbdCronExtOptions} - The options for the extension.
  * @type {(Pbd: Pbd, options: PbdCronExtOptions) => void}
  */
-export const setupCronjobBackup: (
-    Pbd: Pbd,
+export const setupCronjobBackup: <
+    M extends PbdErrorMode,
+    S extends PbdSchemaMap,
+>(
+    Pbd: Pbd<M, S>,
     options: PbdCronExtOptions,
-) => void = (Pbd: Pbd, options: PbdCronExtOptions) => {
+) => void = <M extends PbdErrorMode, S extends PbdSchemaMap>(
+    Pbd: Pbd<M, S>,
+    options: PbdCronExtOptions,
+) => {
     Deno.cron(
         `Pocketbase Backup (${crypto.randomUUID()})`,
         options.cronExpression,
@@ -1,4 +1,5 @@
 import Pbd from "$pbdq";
+import { PbdErrorMode, PbdSchemaMap } from "$types";
 
 /**
  * Get the JWT header from the Pbd instance. If the
@@ -9,7 +10,9 @@ import Pbd from "$pbdq";
  * @param pbd {Pbd} Pbd instance to interact with pocketbase
  * @returns {string} - User: {pbd.client.authStore.token}
  */
-export const getJwtHeader = (pbd: Pbd): string => {
+export const getJwtHeader = <M extends PbdErrorMode, S extends PbdSchemaMap>(
+    pbd: Pbd<M, S>,
+): string => {
     if (!pbd.client.authStore.isValid) {
         return "";
     }
@@ -0,0 +1,131 @@
+import Pbd from "$pbdq";
+import { PbdErrorMode, PbdJwtInfo, PbdJwtSecret, PbdSchemaMap } from "$types";
+
+/**
+ * The hash of every HMAC algorithm PocketBase may sign tokens with.
+ */
+const HASHES: Record<string, string> = {
+    HS256: "SHA-256",
+    HS384: "SHA-384",
+    HS512: "SHA-512",
+};
+
+/**
+ * Decode the header and payload of a token, without verifying it. Pass
+ * a Pbd instance to inspect the token of its client.
+ *
+ * @param source {Pbd | string} - The Pbd instance or the token.
+ * @returns {PbdJwtInfo | null} - The decoded token, or null if there is no
+ * token or it's malformed.
+ */
+export const inspectJwt = <M extends PbdErrorMode, S extends PbdSchemaMap>(
+    source: Pbd<M, S> | string,
+): PbdJwtInfo | null => {
+    const parts: string[] = tokenOf(source).split(".");
+
+    if (parts.length !== 3) {
+        return null;
+    }
+
+    try {
+        const header: { [key: string]: unknown } = JSON.parse(
+            new TextDecoder().decode(decodeBase64Url(parts[0])),
+        );
+        const payload: { [key: string]: unknown } = JSON.parse(
+            new TextDecoder().decode(decodeBase64Url(parts[1])),
+        );
+        const exp: number | null = typeof payload.exp === "number"
+            ? payload.exp
+            : null;
+        const expiresIn: number | null = exp === null
+            ? null
+            : exp * 1000 - Date.now();
+
+        return {
+            header,
+            payload,
+            type: String(payload.type ?? ""),
+            id: String(payload.id ?? ""),
+            collectionId: typeof payload.collectionId === "string"
+                ? payload.collectionId
+                : null,
+            exp,
+            expiresIn,
+            expired: expiresIn !== null && expiresIn <= 0,
+            verified: false,
+        };
+    } catch {
+        return null;
+    }
+};
+
+/**
+ * Verify the HMAC signature and the expiry of a token locally, so a
+ * gateway can reject forged or expired tokens without calling PocketBase.
+ *
+ * @param source {Pbd | string} - The Pbd instance or the token.
+ * @param secret {PbdJwtSecret} - The secret the token was signed with, or
+ * a function that finds it from the decoded token.
+ * @returns {Promise<boolean>} - Whether the token is authentic, has an
+ * expiry and is not expired.
+ */
+export const verifyJwt = async <
+    M extends PbdErrorMode,
+    S extends PbdSchemaMap,
+>(
+    source: Pbd<M, S> | string,
+    secret: PbdJwtSecret,
+): Promise<boolean> => {
+    const token: string = tokenOf(source);
+    const info: PbdJwtInfo | null = inspectJwt(token);
+    const hash: string | undefined = HASHES[String(info?.header.alg)];
+
+    // Tokens that never expire aren't accepted, PocketBase always sets one.
+    if (!info || !hash || info.exp === null || info.expired) {
+        return false;
+    }
+
+    const key: CryptoKey = await crypto.subtle.importKey(
+        "raw",
+        new TextEncoder().encode(
+            typeof secret === "string" ? secret : await secret(info),
+        ),
+        { name: "HMAC", hash },
+        false,
+        ["verify"],
+    );
+    const signed: string = token.slice(0, token.lastIndexOf("."));
+    let signature: ArrayBuffer;
+
+    try {
+        signature = decodeBase64Url(token.slice(signed.length + 1));
+    } catch {
+        return false;
+    }
+
+    return await crypto.subtle.verify(
+        "HMAC",
+        key,
+        signature,
+        new TextEncoder().encode(signed),
+    );
+};
+
+/**
+ * @param source {Pbd | string} - The Pbd instance or the token.
+ * @returns {string} - The token.
+ */
+const tokenOf = <M extends PbdErrorMode, S extends PbdSchemaMap>(
+    source: Pbd<M, S> | string,
+): string =>
+    typeof source === "string" ? source : source.client.authStore.token;
+
+/**
+ * @param part {string} - A base64url encoded part of a token.
+ * @returns {ArrayBuffer} - The decoded part.
+ */
+const decodeBase64Url = (part: string): ArrayBuffer =>
+    Uint8Array.from(
+        atob(part.replace(/-/g, "+").replace(/_/g, "/")),
+        (char: string) => char.charCodeAt(0),
+    ).buffer;
@@ -1,6 +1,7 @@
 import { PbdExtBox } from "$types";
 import { setupCronjobBackup } from "./cronjobs.ts";
 import { getJwtHeader } from "./get-jwt-header.ts";
+import { inspectJwt, verifyJwt } from "./jwt.ts";
 import { setupPBTokenAuth } from "./setup-token-auth.js";
 
 /**
@@ -12,6 +13,8 @@ export const PbdExt: PbdExtBox = {
     auth: {
         getJwtHeader: getJwtHeader,
         setupPBTokenAuth: setupPBTokenAuth,
+        inspectJwt: inspectJwt,
+        verifyJwt: verifyJwt,
     },
     cron: {
         setupBackup: setupCronjobBackup,
@@ -4,14 +4,18 @@ import Pbd from "$pbdq";
  * This extension allows you to setup the auth token
  * in the headers of the request.
  *
- * @param pbd {Pbd} - Pbd instance to use in the extension. This Pbd instance needs
+ * The header is added by a Pbd middleware (see `pbd.use`), so it stacks
+ * with the other middleware and doesn't replace the `beforeSend` hook of
+ * the client. Requests made directly through the client don't get it.
+ *
+ * @template {import("$types").PbdErrorMode} M
+ * @template {import("$types").PbdSchemaMap} S
+ * @param pbd {Pbd<M, S>} - Pbd instance to use in the extension. This Pbd instance needs
  * an authenticated Client instance in core to work.
  */
 export const setupPBTokenAuth = (pbd) => {
-    pbd.client.beforeSend = function (url, options) {
-        options.headers = Object.assign({}, options.headers, {
-            "Authorization": `${pbd.client.authStore.token}`,
-        });
-        return { url, options };
-    };
+    pbd.use(async (ctx, next) => {
+        ctx.headers["Authorization"] = `${ctx.client.authStore.token}`;
+        await next();
+    });
 };
@@ -0,0 +1,535 @@
+import { PbdError } from "$errors";
+
+/**
+ * The comparison operators supported by the PocketBase filter syntax.
+ * The `?` prefixed variants match if *any* of the values of a
+ * multi-valued field (relations, selects, files) satisfy the comparison.
+ *
+ * @see {@link https://pocketbase.io/docs/api-rules-and-filters}
+ */
+export type PbdFilterOperator =
+    | "="
+    | "!="
+    | ">"
+    | ">="
+    | "<"
+    | "<="
+    | "~"
+    | "!~"
+    | "?="
+    | "?!="
+    | "?>"
+    | "?>="
+    | "?<"
+    | "?<="
+    | "?~"
+    | "?!~";
+
+/**
+ * A value that can be compared against a field. Strings are quoted and
+ * escaped, dates are converted to the PocketBase datetime format and
+ * {@linkcode PbdFilterMacro} values are inserted as they are.
+ */
+export type PbdFilterValue =
+    | string
+    | number
+    | boolean
+    | null
+    | Date
+    | PbdFilterMacro;
+
+/**
+ * A PocketBase macro or field reference that must not be quoted, like
+ * `@request.auth.id`, `@now` or another field name. Build these with
+ * {@linkcode pbdFilter.macro}, {@linkcode pbdFilter.auth} or
+ * {@linkcode pbdFilter.field}.
+ */
+export class PbdFilterMacro {
+    /**
+     * The raw macro, e.g. `@request.auth.id`.
+     * @type {string}
+     */
+    readonly macro: string;
+
+    /**
+     * @param macro {string} - The raw macro. It must be a valid field path.
+     */
+    constructor(macro: string) {
+        this.macro = assertField(macro);
+    }
+
+    /**
+     * @returns {string} - The raw macro.
+     */
+    toString(): string {
+        return this.macro;
+    }
+}
+
+/**
+ * How a {@linkcode PbdFilter} was built. PocketBase has no `!` operator,
+ * so this is kept around to be able to negate filters.
+ */
+export type PbdFilterNode =
+    | {
+        kind: "compare";
+        field: string;
+        operator: PbdFilterOperator;
+        value: string;
+    }
+    | { kind: "and" | "or"; children: PbdFilter[] }
+    | { kind: "raw" };
+
+/**
+ * A compiled PocketBase filter expression. Instances are immutable,
+ * `and`, `or` and `not` return new filters.
+ *
+ * Every Pbd method that takes a `filter` accepts a {@linkcode PbdFilter}
+ * directly, it is converted to a string with `toString()`.
+ */
+export class PbdFilter {
+    /**
+     * The compiled filter expression.
+     * @type {string}
+     */
+    readonly expression: string;
+
+    /**
+     * How the filter was built.
+     * @type {PbdFilterNode}
+     */
+    readonly node: PbdFilterNode;
+
+    /**
+     * @param expression {string} - An already escaped filter expression.
+     * @param node {PbdFilterNode} - How the filter was built.
+     */
+    constructor(expression: string, node: PbdFilterNode = { kind: "raw" }) {
+        this.expression = expression;
+        this.node = node;
+    }
+
+    /**
+     * Combines this filter with others using `&&`.
+     *
+     * @param filters {PbdFilter[]} - The filters to combine with.
+     * @returns {PbdFilter} - The combined filter.
+     */
+    and(...filters: PbdFilter[]): PbdFilter {
+        return pbdFilter.and(this, ...filters);
+    }
+
+    /**
+     * Combines this filter with others using `||`.
+     *
+     * @param filters {PbdFilter[]} - The filters to combine with.
+     * @returns {PbdFilter} - The combined filter.
+     */
+    or(...filters: PbdFilter[]): PbdFilter {
+        return pbdFilter.or(this, ...filters);
+    }
+
+    /**
+     * Negates this filter. Single comparisons get their operator inverted
+     * and groups are negated following De Morgan's laws. The negation of an
+     * "any of" (`?=`, `?>`...) comparison is the "all of" comparison.
+     *
+     * @throws {PbdError} - If the filter was built with `pbdFilter.raw`.
+     * @returns {PbdFilter} - The negated filter.
+     */
+    not(): PbdFilter {
+        switch (this.node.kind) {
+            case "compare":
+                return new PbdFilter(
+                    `${this.node.field} ${
+                        INVERSE[this.node.operator]
+                    } ${this.node.value}`,
+                    { ...this.node, operator: INVERSE[this.node.operator] },
+                );
+            case "and":
+                return pbdFilter.or(
+                    ...this.node.children.map((child: PbdFilter) =>
+                        child.not()
+                    ),
+                );
+            case "or":
+                return pbdFilter.and(
+                    ...this.node.children.map((child: PbdFilter) =>
+                        child.not()
+                    ),
+                );
+            default:
+                throw new PbdError(
+                    `Raw filters can't be negated: "${this.expression}".`,
+                );
+        }
+    }
+
+    /**
+     * @returns {string} - The compiled filter expression.
+     */
+    toString(): string {
+        return this.expression;
+    }
+}
+
+/**
+ * Matches field paths such as `name`, `author.name`, `tags:each`,
+ * `@request.auth.id` or `@collection.posts.author`.
+ */
+const FIELD_PATTERN: RegExp = /^@?[A-Za-z_][\w]*(\.[A-Za-z_@][\w]*)*(:\w+)?$/;
+
+/**
+ * Checks that a field path can't be used to inject filter syntax.
+ *
+ * @param field {string} - The field path.
+ * @throws {PbdError} - If the field path is not valid.
+ * @returns {string} - The field path.
+ */
+function assertField(field: string): string {
+    if (!FIELD_PATTERN.test(field)) {
+        throw new PbdError(`Invalid filter field "${field}".`);
+    }
+
+    return field;
+}
+
+/**
+ * Formats a date the way PocketBase stores datetimes:
+ * `YYYY-MM-DD HH:MM:SS.sssZ` in UTC.
+ *
+ * @param date {Date} - The date to format.
+ * @returns {string} - The formatted date.
+ */
+function formatDate(date: Date): string {
+    return date.toISOString().replace("T", " ");
+}
+
+/**
+ * Converts a value into its filter literal, quoting and escaping strings.
+ *
+ * Strings are escaped like the SDK `pb.filter` does: the PocketBase filter
+ * parser only unescapes `\'`, and a string ends at the first quote that is
+ * not preceded by a backslash. Backslashes can't be escaped, so a string
+ * ending with one would escape its own closing quote, and is rejected.
+ *
+ * @param value {PbdFilterValue} - The value to convert.
+ * @throws {PbdError} - If the value is not a finite number or is a string
+ * ending with a backslash.
+ * @returns {string} - The filter literal.
+ */
+function literal(value: PbdFilterValue): string {
+    if (value === null) {
+        return "null";
+    }
+
+    if (value instanceof PbdFilterMacro) {
+        return value.macro;
+    }
+
+    if (value instanceof Date) {
+        return `'${formatDate(value)}'`;
+    }
+
+    if (typeof value === "number") {
+        if (!Number.isFinite(value)) {
+            throw new PbdError(`Invalid filter number "${value}".`);
+        }
+        return value.toString();
+    }
+
+    if (typeof value === "boolean") {
+        return value ? "true" : "false";
+    }
+
+    if (value.endsWith("\\")) {
+        throw new PbdError(
+            `Filter values can't end with a backslash: "${value}".`,
+        );
+    }
+
+    return `'${value.replace(/'/g, "\\'")}'`;
+}
+
+/**
+ * Joins filters with the given logical operator. Empty filters are skipped
+ * so conditional filters can be combined easily.
+ *
+ * @param operator {"&&" | "||"} - The logical operator.
+ * @param filters {PbdFilter[]} - The filters to join.
+ * @returns {PbdFilter} - The joined filter.
+ */
+function join(operator: "&&" | "||", filters: PbdFilter[]): PbdFilter {
+    const children: PbdFilter[] = filters.filter((filter: PbdFilter) =>
+        filter.expression !== ""
+    );
+
+    if (children.length === 0) {
+        return new PbdFilter("", {
+            kind: operator === "&&" ? "and" : "or",
+            children,
+        });
+    }
+
+    if (children.length === 1) {
+        return children[0];
+    }
+
+    return new PbdFilter(
+        `(${
+            children.map((filter: PbdFilter) => filter.expression).join(
+                ` ${operator} `,
+            )
+        })`,
+        { kind: operator === "&&" ? "and" : "or", children },
+    );
+}
+
+/**
+ * Fluent, injection-safe builder for PocketBase filter expressions. Values
+ * are always escaped and field paths are validated, so it is safe to pass
+ * user input (like Oak request params) as values.
+ *
+ * @example Build a filter for adult cats owned by the current user
+ * ```typescript
+ * import { pbdFilter } from "@ventgrey/pbdq";
+ *
+ * const filter = pbdFilter.and(
+ *     pbdFilter.gte("age", 1),
+ *     pbdFilter.eq("owner", pbdFilter.auth("id")),
+ *     pbdFilter.like("owner.name", ctx.params.name),
+ * );
+ *
+ * // (age >= 1 && owner = @request.auth.id && owner.name ~ 'Erina')
+ * const cats = await pbd.getFullList<Cat>({ collectionName: "cats", filter });
+ * ```
+ */
+export const pbdFilter: {
+    compare: (
+        field: string,
+        operator: PbdFilterOperator,
+        value: PbdFilterValue,
+    ) => PbdFilter;
+    eq: (field: string, value: PbdFilterValue) => PbdFilter;
+    neq: (field: string, value: PbdFilterValue) => PbdFilter;
+    gt: (field: string, value: PbdFilterValue) => PbdFilter;
+    gte: (field: string, value: PbdFilterValue) => PbdFilter;
+    lt: (field: string, value: PbdFilterValue) => PbdFilter;
+    lte: (field: string, value: PbdFilterValue) => PbdFilter;
+    like: (field: string, value: PbdFilterValue) => PbdFilter;
+    notLike: (field: string, value: PbdFilterValue) => PbdFilter;
+    in: (field: string, values: PbdFilterValue[]) => PbdFilter;
+    notIn: (field: string, values: PbdFilterValue[]) => PbdFilter;
+    before: (field: string, date: Date) => PbdFilter;
+    after: (field: string, date: Date) => PbdFilter;
+    between: (field: string, from: Date, to: Date) => PbdFilter;
+    and: (...filters: PbdFilter[]) => PbdFilter;
+    or: (...filters: PbdFilter[]) => PbdFilter;
+    not: (filter: PbdFilter) => PbdFilter;
+    macro: (macro: string) => PbdFilterMacro;
+    field: (field: string) => PbdFilterMacro;
+    auth: (field?: string) => PbdFilterMacro;
+    now: () => PbdFilterMacro;
+    date: (date: Date) => string;
+    raw: (expression: string) => PbdFilter;
+} = {
+    /**
+     * Compares a field against a value with any PocketBase operator.
+     *
+     * @param field {string} - The field path, e.g. `author.name`.
+     * @param operator {PbdFilterOperator} - The comparison operator.
+     * @param value {PbdFilterValue} - The value to compare against.
+     * @returns {PbdFilter} - The filter.
+     */
+    compare: (
+        field: string,
+        operator: PbdFilterOperator,
+        value: PbdFilterValue,
+    ): PbdFilter => {
+        const node: PbdFilterNode = {
+            kind: "compare",
+            field: assertField(field),
+            operator,
+            value: literal(value),
+        };
+
+        return new PbdFilter(
+            `${node.field} ${node.operator} ${node.value}`,
+            node,
+        );
+    },
+
+    /** `field = value` */
+    eq: (field: string, value: PbdFilterValue): PbdFilter =>
+        pbdFilter.compare(field, "=", value),
+
+    /** `field != value` */
+    neq: (field: string, value: PbdFilterValue): PbdFilter =>
+        pbdFilter.compare(field, "!=", value),
+
+    /** `field > value` */
+    gt: (field: string, value: PbdFilterValue): PbdFilter =>
+        pbdFilter.compare(field, ">", value),
+
+    /** `field >= value` */
+    gte: (field: string, value: PbdFilterValue): PbdFilter =>
+        pbdFilter.compare(field, ">=", value),
+
+    /** `field < value` */
+    lt: (field: string, value: PbdFilterValue): PbdFilter =>
+        pbdFilter.compare(field, "<", value),
+
+    /** `field <= value` */
+    lte: (field: string, value: PbdFilterValue): PbdFilter =>
+        pbdFilter.compare(field, "<=", value),
+
+    /** `field ~ value`, PocketBase wraps the value in `%` for you. */
+    like: (field: string, value: PbdFilterValue): PbdFilter =>
+        pbdFilter.compare(field, "~", value),
+
+    /** `field !~ value` */
+    notLike: (field: string, value: PbdFilterValue): PbdFilter =>
+        pbdFilter.compare(field, "!~", value),
+
+    /**
+     * Matches if the field equals any of the values. An empty list never
+     * matches.
+     *
+     * @param field {string} - The field path.
+     * @param values {PbdFilterValue[]} - The accepted values.
+     * @returns {PbdFilter} - The filter.
+     */
+    in: (field: string, values: PbdFilterValue[]): PbdFilter => {
+        if (values.length === 0) {
+            return new PbdFilter("1 = 0", {
+                kind: "compare",
+                field: "1",
+                operator: "=",
+                value: "0",
+            });
+        }
+
+        return pbdFilter.or(
+            ...values.map((value: PbdFilterValue) =>
+                pbdFilter.eq(field, value)
+            ),
+        );
+    },
+
+    /**
+     * Matches if the field equals none of the values.
+     *
+     * @param field {string} - The field path.
+     * @param values {PbdFilterValue[]} - The rejected values.
+     * @returns {PbdFilter} - The filter.
+     */
+    notIn: (field: string, values: PbdFilterValue[]): PbdFilter => {
+        return pbdFilter.and(
+            ...values.map((value: PbdFilterValue) =>
+                pbdFilter.neq(field, value)
+            ),
+        );
+    },
+
+    /** `field < date` */
+    before: (field: string, date: Date): PbdFilter => pbdFilter.lt(field, date),
+
+    /** `field > date` */
+    after: (field: string, date: Date): PbdFilter => pbdFilter.gt(field, date),
+
+    /**
+     * Matches dates in the `[from, to]` range (both inclusive).
+     *
+     * @param field {string} - The field path.
+     * @param from {Date} - The start of the range.
+     * @param to {Date} - The end of the range.
+     * @returns {PbdFilter} - The filter.
+     */
+    between: (field: string, from: Date, to: Date): PbdFilter =>
+        pbdFilter.and(pbdFilter.gte(field, from), pbdFilter.lte(field, to)),
+
+    /** Combines filters with `&&`. */
+    and: (...filters: PbdFilter[]): PbdFilter => join("&&", filters),
+
+    /** Combines filters with `||`. */
+    or: (...filters: PbdFilter[]): PbdFilter => join("||", filters),
+
+    /**
+     * Negates a filter. See {@linkcode PbdFilter.not}.
+     *
+     * @param filter {PbdFilter} - The filter to negate.
+     * @returns {PbdFilter} - The negated filter.
+     */
+    not: (filter: PbdFilter): PbdFilter => filter.not(),
+
+    /**
+     * An unquoted macro, e.g. `pbdFilter.macro("@request.method")`.
+     *
+     * @param macro {string} - The macro.
+     * @returns {PbdFilterMacro} - The macro value.
+     */
+    macro: (macro: string): PbdFilterMacro => new PbdFilterMacro(macro),
+
+    /**
+     * A reference to another field, to compare two fields.
+     *
+     * @param field {string} - The field path.
+     * @returns {PbdFilterMacro} - The field reference.
+     */
+    field: (field: string): PbdFilterMacro => new PbdFilterMacro(field),
+
+    /**
+     * A reference to the authenticated record, `@request.auth.<field>`.
+     *
+     * @param field {string} - The auth record field, defaults to `id`.
+     * @returns {PbdFilterMacro} - The macro value.
+     */
+    auth: (field: string = "id"): PbdFilterMacro =>
+        new PbdFilterMacro(`@request.auth.${field}`),
+
+    /**
+     * The `@now` macro.
+     *
+     * @returns {PbdFilterMacro} - The macro value.
+     */
+    now: (): PbdFilterMacro => new PbdFilterMacro("@now"),
+
+    /**
+     * Formats a date the way PocketBase stores datetimes.
+     *
+     * @param date {Date} - The date to format.
+     * @returns {string} - The formatted date, e.g. `2024-01-01 00:00:00.000Z`.
+     */
+    date: (date: Date): string => formatDate(date),
+
+    /**
+     * Wraps an already built filter string. **Nothing is escaped**, never
+     * pass user input to this function.
+     *
+     * @param expression {string} - The raw filter expression.
+     * @returns {PbdFilter} - The filter.
+     */
+    raw: (expression: string): PbdFilter => new PbdFilter(expression),
+};
+
+/**
+ * The inverse of every comparison operator.
+ */
+const INVERSE: Record<PbdFilterOperator, PbdFilterOperator> = {
+    "=": "!=",
+    "!=": "=",
+    ">": "<=",
+    ">=": "<",
+    "<": ">=",
+    "<=": ">",
+    "~": "!~",
+    "!~": "~",
+    "?=": "!=",
+    "?!=": "=",
+    "?>": "<=",
+    "?>=": "<",
+    "?<": ">=",
+    "?<=": ">",
+    "?~": "!~",
+    "?!~": "~",
+};
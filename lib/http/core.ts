@@ -0,0 +1,194 @@
+import { ClientResponseError } from "pocketbase";
+
+import type Pbd from "$pbdq";
+import {
+    PbdAuthError,
+    PbdEmptyResultError,
+    PbdError,
+    PbdRateLimitError,
+    PbdValidationError,
+    toPbdError,
+} from "$errors";
+import { bearerToken } from "$authstore";
+import { PbdExt } from "$extensions";
+import {
+    PbdAuthLevel,
+    PbdErrorMode,
+    PbdHeadersLike,
+    PbdHttpError,
+    PbdHttpOptions,
+    PbdHttpState,
+    PbdJwtInfo,
+    PbdSchemaMap,
+} from "$types";
+
+/**
+ * Binds a request to its user, the core of every Pbd HTTP middleware:
+ * reads the bearer token of the `Authorization` header and returns a Pbd
+ * instance bound to it (see {@linkcode Pbd.as}) with the decoded token.
+ * With the `rateLimit` option, the request is then counted against the
+ * user of the token when it's verified with `secret`, or the client IP
+ * otherwise.
+ *
+ * @param pbd {Pbd} - The shared Pbd instance.
+ * @param headers {PbdHeadersLike} - The request headers.
+ * @param options {PbdHttpOptions} - The token validation and rate limit
+ * options.
+ * @param ip {string} - The client IP, if known. Requests counted by IP
+ * without one share the same rate limit.
+ * @throws {PbdAuthError} - If the token is malformed, expired or (with
+ * `secret`) forged.
+ * @throws {PbdRateLimitError} - If the request is over the rate limit.
+ * @returns {Promise<PbdHttpState>} - What the middleware attach to the
+ * request.
+ */
+export async function pbdAuthenticate<
+    M extends PbdErrorMode,
+    S extends PbdSchemaMap,
+>(
+    pbd: Pbd<M, S>,
+    headers: PbdHeadersLike,
+    options: PbdHttpOptions = {},
+    ip: string = "",
+): Promise<PbdHttpState<M, S>> {
+    const token: string = bearerToken(headers);
+    const decoded: PbdJwtInfo | null = token
+        ? PbdExt.auth.inspectJwt(token)
+        : null;
+
+    if (
+        token && (!decoded || decoded.expired ||
+            (options.secret &&
+                !await PbdExt.auth.verifyJwt(token, options.secret)))
+    ) {
+        throw new PbdAuthError("The auth token is invalid or expired.");
+    }
+
+    const auth: PbdJwtInfo | null = decoded && options.secret
+        ? { ...decoded, verified: true }
+        : decoded;
+
+    // Unverified tokens could claim any user (and use up their limit).
+    await options.rateLimit?.check(
+        auth?.verified ? `${auth.type}:${auth.id}` : `ip:${ip}`,
+    );
+
+    return { pbd: pbd.as(token, { ip, auth }), auth };
+}
+
+/**
+ * Checks that a request comes from a user or admin (`"auth"`), or from an
+ * admin (`"admin"`). Throw it from a handler and the Pbd middleware answer
+ * with the error.
+ *
+ * Who a token belongs to is only known once its signature is verified, so
+ * the middleware need the `secret` option (see {@linkcode
+ * pbdAuthenticate}) for this to let any token through. Without it, every
+ * request with a token fails, instead of trusting claims anyone can
+ * forge.
+ *
+ * @param auth {PbdJwtInfo | null} - The decoded token of the request.
+ * @param level {PbdAuthLevel} - Who may go on.
+ * @throws {PbdAuthError} - With status 401 if there's no token, or 403 if
+ * the token isn't an admin one.
+ * @throws {Error} - If the token wasn't verified (the middleware have no
+ * `secret`). It's left to the framework, which answers a 500.
+ * @returns {void}
+ */
+export function pbdAuthorize(
+    auth: PbdJwtInfo | null,
+    level: PbdAuthLevel = "auth",
+): void {
+    if (auth && !auth.verified) {
+        throw new Error(
+            "The auth token can't be trusted without the `secret` option " +
+                "of the Pbd middleware.",
+        );
+    }
+
+    if (
+        auth?.type === "admin" ||
+        (level === "auth" && auth?.type === "authRecord")
+    ) {
+        return;
+    }
+
+    throw level === "admin"
+        ? new PbdAuthError("The request can only be made by an admin.", {
+            status: auth ? 403 : 401,
+        })
+        : new PbdAuthError("The request requires a valid auth token.");
+}
+
+/**
+ * Maps a Pbd or PocketBase error to an HTTP error response:
+ *
+ * - 4xx errors keep their status, validation errors keep their fields.
+ * - An empty result (see the `empty_result` option) becomes a 404.
+ * - PocketBase being unreachable or failing (5xx) becomes a 502, except
+ *   for an open circuit breaker, which stays a 503.
+ * - Rate limited requests get a `Retry-After` header (in seconds).
+ *
+ * @param err {unknown} - The error.
+ * @returns {PbdHttpError} - The status and body to answer with.
+ */
+export function toHttpError(err: unknown): PbdHttpError {
+    const error: PbdError = toPbdError(err);
+    const status: number = error instanceof PbdEmptyResultError
+        ? 404
+        : error.status >= 400 && error.status < 500 || error.status === 503
+        ? error.status
+        : 502;
+
+    return {
+        status,
+        body: {
+            code: status,
+            message: error.message,
+            data: error instanceof PbdValidationError ? error.fields : {},
+        },
+        headers: error instanceof PbdRateLimitError
+            ? { "Retry-After": `${Math.ceil(error.retryAfter / 1000)}` }
+            : {},
+    };
+}
+
+/**
+ * Makes a scoped instance (see {@linkcode pbdAuthenticate}) throw its
+ * errors and return empty lists, whatever the options of the instance it
+ * was copied from, so they reach the client.
+ *
+ * @param pbd {Pbd} - The scoped instance, only used for a request.
+ * @returns {Pbd<"throw", S>} - The same instance.
+ */
+export function strict<M extends PbdErrorMode, S extends PbdSchemaMap>(
+    pbd: Pbd<M, S>,
+): Pbd<"throw", S> {
+    const scoped: Pbd<"throw", S> = pbd as unknown as Pbd<"throw", S>;
+
+    scoped.error_mode = "throw";
+    scoped.empty_result = "empty";
+    return scoped;
+}
+
+/**
+ * Whether the middleware answer an error, the rest are left to the
+ * framework.
+ *
+ * @param err {unknown} - The error.
+ * @returns {boolean} - Whether it's a Pbd or PocketBase error.
+ */
+export function isPbdFailure(err: unknown): boolean {
+    return err instanceof PbdError || err instanceof ClientResponseError;
+}
+
+/**
+ * @param error {PbdHttpError} - The error response.
+ * @returns {Response} - The error response as a `Response`.
+ */
+export function toResponse(error: PbdHttpError): Response {
+    return Response.json(error.body, {
+        status: error.status,
+        headers: error.headers,
+    });
+}
@@ -0,0 +1,131 @@
+import type Pbd from "$pbdq";
+import {
+    PbdAuthLevel,
+    PbdErrorMode,
+    PbdExpressErrorHandler,
+    PbdExpressMiddleware,
+    PbdExpressRequest,
+    PbdExpressResponse,
+    PbdHttpError,
+    PbdHttpOptions,
+    PbdHttpState,
+    PbdJwtInfo,
+    PbdSchemaMap,
+} from "$types";
+import {
+    isPbdFailure,
+    pbdAuthenticate,
+    pbdAuthorize,
+    toHttpError,
+} from "./core.ts";
+
+/**
+ * Returns an Express middleware that binds every request to its user (see
+ * {@linkcode pbdAuthenticate}), adding the result to `res.locals`. Invalid
+ * tokens are passed to `next`, for {@linkcode pbdExpressErrors} to answer.
+ *
+ * Express 4 doesn't catch the rejections of async handlers, pass their
+ * errors to `next` (Express 5 does it on its own).
+ *
+ * @param pbd {Pbd} - The shared Pbd instance.
+ * @param options {PbdHttpOptions} - The token validation and rate limit
+ * options.
+ * @returns {PbdExpressMiddleware} - The middleware.
+ *
+ * @example
+ * ```typescript
+ * const app = express();
+ *
+ * app.use(pbdExpress(pbd, { secret }));
+ * app.get("/cats", expressRequire("auth"), async (req, res, next) => {
+ *     try {
+ *         res.json(await res.locals.pbd.getFullList({
+ *             collectionName: "cats",
+ *         }));
+ *     } catch (err) {
+ *         next(err);
+ *     }
+ * });
+ * app.use(pbdExpressErrors());
+ * ```
+ */
+export function pbdExpress<M extends PbdErrorMode, S extends PbdSchemaMap>(
+    pbd: Pbd<M, S>,
+    options: PbdHttpOptions = {},
+): PbdExpressMiddleware {
+    return async (
+        req: PbdExpressRequest,
+        res: PbdExpressResponse,
+        next: (err?: unknown) => void,
+    ): Promise<void> => {
+        let state: PbdHttpState<M, S>;
+
+        try {
+            state = await pbdAuthenticate(pbd, req.headers, options, req.ip);
+        } catch (err: unknown) {
+            next(err);
+            return;
+        }
+
+        Object.assign(res.locals, state);
+        next();
+    };
+}
+
+/**
+ * Returns an Express middleware that passes a 401 error to `next` for
+ * requests without a user or admin token, and a 403 one for those that
+ * don't come from an admin when `level` is `"admin"`. Add it after
+ * {@linkcode pbdExpress}, which needs the `secret` option for it (see
+ * {@linkcode pbdAuthorize}).
+ *
+ * @param level {PbdAuthLevel} - Who may go on.
+ * @returns {PbdExpressMiddleware} - The middleware.
+ */
+export function expressRequire(
+    level: PbdAuthLevel = "auth",
+): PbdExpressMiddleware {
+    return (
+        _req: PbdExpressRequest,
+        res: PbdExpressResponse,
+        next: (err?: unknown) => void,
+    ): Promise<void> => {
+        try {
+            pbdAuthorize(
+                (res.locals.auth ?? null) as PbdJwtInfo | null,
+                level,
+            );
+        } catch (err: unknown) {
+            next(err);
+            return Promise.resolve();
+        }
+
+        next();
+        return Promise.resolve();
+    };
+}
+
+/**
+ * Returns an Express error handler that answers the Pbd and PocketBase
+ * errors with their HTTP status (see {@linkcode toHttpError}). Add it
+ * after the routes, the rest of the errors go to the next handler.
+ *
+ * @returns {PbdExpressErrorHandler} - The error handler.
+ */
+export function pbdExpressErrors(): PbdExpressErrorHandler {
+    return (
+        err: unknown,
+        _req: PbdExpressRequest,
+        res: PbdExpressResponse,
+        next: (err?: unknown) => void,
+    ): void => {
+        if (!isPbdFailure(err) || res.headersSent) {
+            next(err);
+            return;
+        }
+
+        const error: PbdHttpError = toHttpError(err);
+        res.set(error.headers);
+        res.status(error.status).json(error.body);
+    };
+}
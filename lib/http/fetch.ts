@@ -0,0 +1,63 @@
+import type Pbd from "$pbdq";
+import {
+    PbdConnInfo,
+    PbdErrorMode,
+    PbdFetchHandler,
+    PbdHttpOptions,
+    PbdHttpState,
+    PbdSchemaMap,
+} from "$types";
+import {
+    isPbdFailure,
+    pbdAuthenticate,
+    toHttpError,
+    toResponse,
+} from "./core.ts";
+
+/**
+ * Wraps a `Deno.serve` (or any `fetch` style) handler so it's called with
+ * the request bound to its user (see {@linkcode pbdAuthenticate}), and
+ * the Pbd and PocketBase errors it throws are answered with their HTTP
+ * status (see {@linkcode toHttpError}). Guard it with
+ * {@linkcode pbdAuthorize}.
+ *
+ * @param pbd {Pbd} - The shared Pbd instance.
+ * @param handler {PbdFetchHandler} - The handler.
+ * @param options {PbdHttpOptions} - The token validation and rate limit
+ * options.
+ * @returns {(req: Request, info?: PbdConnInfo) => Promise<Response>} - The
+ * wrapped handler.
+ *
+ * @example
+ * ```typescript
+ * Deno.serve(pbdFetch(pbd, async (req, { pbd, auth }) => {
+ *     pbdAuthorize(auth, "admin");
+ *
+ *     return Response.json(await pbd.getFullList({ collectionName: "cats" }));
+ * }, { secret }));
+ * ```
+ */
+export function pbdFetch<M extends PbdErrorMode, S extends PbdSchemaMap>(
+    pbd: Pbd<M, S>,
+    handler: PbdFetchHandler<M, S>,
+    options: PbdHttpOptions = {},
+): (req: Request, info?: PbdConnInfo) => Promise<Response> {
+    return async (req: Request, info?: PbdConnInfo): Promise<Response> => {
+        try {
+            const state: PbdHttpState<M, S> = await pbdAuthenticate(
+                pbd,
+                req.headers,
+                options,
+                info?.remoteAddr.hostname,
+            );
+
+            return await handler(req, state);
+        } catch (err: unknown) {
+            if (!isPbdFailure(err)) {
+                throw err;
+            }
+
+            return toResponse(toHttpError(err));
+        }
+    };
+}
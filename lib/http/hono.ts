@@ -0,0 +1,107 @@
+import type Pbd from "$pbdq";
+import {
+    PbdAuthLevel,
+    PbdConnInfo,
+    PbdErrorMode,
+    PbdHonoContext,
+    PbdHonoMiddleware,
+    PbdHttpOptions,
+    PbdHttpState,
+    PbdJwtInfo,
+    PbdSchemaMap,
+} from "$types";
+import {
+    isPbdFailure,
+    pbdAuthenticate,
+    pbdAuthorize,
+    toHttpError,
+    toResponse,
+} from "./core.ts";
+
+/**
+ * Returns a Hono middleware that binds every request to its user (see
+ * {@linkcode pbdAuthenticate}), setting the `pbd` and `auth` variables,
+ * and answers the Pbd and PocketBase errors of the next handlers with
+ * their HTTP status (see {@linkcode toHttpError}).
+ *
+ * Hono catches the errors of the handlers itself, so the middleware
+ * replace the response of its error handler when `c.error` is one.
+ *
+ * @param pbd {Pbd} - The shared Pbd instance.
+ * @param options {PbdHttpOptions} - The token validation and rate limit
+ * options. The client IP is only known on Deno.
+ * @returns {PbdHonoMiddleware} - The middleware.
+ *
+ * @example
+ * ```typescript
+ * const app = new Hono<{ Variables: PbdHttpState }>();
+ *
+ * app.use(pbdHono(pbd, { secret }));
+ * app.get("/cats", honoRequire("auth"), async (c) =>
+ *     c.json(await c.var.pbd.getFullList({ collectionName: "cats" }))
+ * );
+ * ```
+ */
+export function pbdHono<M extends PbdErrorMode, S extends PbdSchemaMap>(
+    pbd: Pbd<M, S>,
+    options: PbdHttpOptions = {},
+): PbdHonoMiddleware {
+    return async (
+        c: PbdHonoContext,
+        next: () => Promise<void>,
+    ): Promise<void> => {
+        try {
+            const { pbd: scoped, auth }: PbdHttpState<M, S> =
+                await pbdAuthenticate(
+                    pbd,
+                    c.req.raw.headers,
+                    options,
+                    clientIp(c),
+                );
+
+            c.set("pbd", scoped);
+            c.set("auth", auth);
+            await next();
+        } catch (err: unknown) {
+            if (!isPbdFailure(err)) {
+                throw err;
+            }
+
+            c.res = toResponse(toHttpError(err));
+            return;
+        }
+
+        if (isPbdFailure(c.error)) {
+            c.res = toResponse(toHttpError(c.error));
+        }
+    };
+}
+
+/**
+ * Returns a Hono middleware that answers 401 to requests without a user
+ * or admin token, and 403 to the ones that don't come from an admin when
+ * `level` is `"admin"`. Add it after {@linkcode pbdHono}, which needs the
+ * `secret` option for it (see {@linkcode pbdAuthorize}).
+ *
+ * @param level {PbdAuthLevel} - Who may go on.
+ * @returns {PbdHonoMiddleware} - The middleware.
+ */
+export function honoRequire(level: PbdAuthLevel = "auth"): PbdHonoMiddleware {
+    return async (
+        c: PbdHonoContext,
+        next: () => Promise<void>,
+    ): Promise<void> => {
+        pbdAuthorize((c.get("auth") ?? null) as PbdJwtInfo | null, level);
+        await next();
+    };
+}
+
+/**
+ * @param c {PbdHonoContext} - The Hono context.
+ * @returns {string} - The client IP, from the connection info Hono passes
+ * as `env` on Deno. Empty on other runtimes.
+ */
+function clientIp(c: PbdHonoContext): string {
+    return (c.env as Partial<PbdConnInfo> | undefined)?.remoteAddr
+        ?.hostname ?? "";
+}
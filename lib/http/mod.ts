@@ -0,0 +1,16 @@
+/**
+ * Framework-agnostic HTTP middleware: every request gets a Pbd instance
+ * bound to its bearer token and an optional rate limit, auth guards, and
+ * the Pbd and PocketBase errors answered with their HTTP status. The
+ * adapters are thin wrappers of the same core for Oak, Hono, Express and
+ * `Deno.serve`, and the same core serves the collections re-exposed by
+ * {@linkcode createPbdRouter} and the requests forwarded by
+ * {@linkcode pbdProxy}.
+ */
+export { pbdAuthenticate, pbdAuthorize, toHttpError } from "./core.ts";
+export { pbdOak, requireAdmin, requireAuth } from "./oak.ts";
+export { honoRequire, pbdHono } from "./hono.ts";
+export { expressRequire, pbdExpress, pbdExpressErrors } from "./express.ts";
+export { pbdFetch } from "./fetch.ts";
+export { createPbdRouter } from "./router.ts";
+export { PBD_PROXY_DENIED, pbdProxy } from "./proxy.ts";
@@ -0,0 +1,118 @@
+import type Pbd from "$pbdq";
+import {
+    PbdAuthLevel,
+    PbdErrorMode,
+    PbdHttpError,
+    PbdHttpOptions,
+    PbdJwtInfo,
+    PbdOakContext,
+    PbdOakMiddleware,
+    PbdSchemaMap,
+} from "$types";
+import {
+    isPbdFailure,
+    pbdAuthenticate,
+    pbdAuthorize,
+    toHttpError,
+} from "./core.ts";
+
+/**
+ * Returns an Oak middleware that binds every request to its user (see
+ * {@linkcode pbdAuthenticate}), adding the result to `ctx.state`, and
+ * answers the Pbd and PocketBase errors thrown by the next middleware
+ * with their HTTP status (see {@linkcode toHttpError}).
+ *
+ * Oak is not a dependency of pbdq, the middleware only rely on the parts
+ * of the context described by {@linkcode PbdOakContext}.
+ *
+ * @param pbd {Pbd} - The shared Pbd instance.
+ * @param options {PbdHttpOptions} - The token validation and rate limit
+ * options.
+ * @returns {PbdOakMiddleware} - The middleware.
+ *
+ * @example
+ * ```typescript
+ * const app = new Application<PbdHttpState>();
+ * const router = new Router<PbdHttpState>();
+ *
+ * router.get("/cats", requireAuth(), async (ctx) => {
+ *     ctx.response.body = await ctx.state.pbd.getFullList({
+ *         collectionName: "cats",
+ *     });
+ * });
+ *
+ * app.use(pbdOak(pbd, { secret }));
+ * app.use(router.routes());
+ * ```
+ */
+export function pbdOak<M extends PbdErrorMode, S extends PbdSchemaMap>(
+    pbd: Pbd<M, S>,
+    options: PbdHttpOptions = {},
+): PbdOakMiddleware {
+    return async (
+        ctx: PbdOakContext,
+        next: () => Promise<unknown>,
+    ): Promise<void> => {
+        try {
+            Object.assign(
+                ctx.state,
+                await pbdAuthenticate(
+                    pbd,
+                    ctx.request.headers,
+                    options,
+                    ctx.request.ip,
+                ),
+            );
+            await next();
+        } catch (err: unknown) {
+            if (!isPbdFailure(err)) {
+                throw err;
+            }
+
+            const error: PbdHttpError = toHttpError(err);
+            ctx.response.status = error.status;
+            ctx.response.body = error.body;
+
+            for (const [name, value] of Object.entries(error.headers)) {
+                ctx.response.headers.set(name, value);
+            }
+        }
+    };
+}
+
+/**
+ * Returns an Oak middleware that answers 401 to requests without a user
+ * or admin token. Add it after {@linkcode pbdOak}, which needs the
+ * `secret` option for it (see {@linkcode pbdAuthorize}).
+ *
+ * @returns {PbdOakMiddleware} - The middleware.
+ */
+export function requireAuth(): PbdOakMiddleware {
+    return guard("auth");
+}
+
+/**
+ * Returns an Oak middleware that answers 401 to requests without a token
+ * and 403 to the ones that don't come from an admin. Add it after
+ * {@linkcode pbdOak}, which needs the `secret` option for it (see
+ * {@linkcode pbdAuthorize}).
+ *
+ * @returns {PbdOakMiddleware} - The middleware.
+ */
+export function requireAdmin(): PbdOakMiddleware {
+    return guard("admin");
+}
+
+/**
+ * @param level {PbdAuthLevel} - Who may go on.
+ * @returns {PbdOakMiddleware} - The guard, see {@linkcode pbdAuthorize}.
+ */
+function guard(level: PbdAuthLevel): PbdOakMiddleware {
+    return async (
+        ctx: PbdOakContext,
+        next: () => Promise<unknown>,
+    ): Promise<void> => {
+        pbdAuthorize((ctx.state.auth ?? null) as PbdJwtInfo | null, level);
+        await next();
+    };
+}
@@ -0,0 +1,200 @@
+import type Pbd from "$pbdq";
+import { PbdAuthError, PbdValidationError } from "$errors";
+import {
+    PbdConnInfo,
+    PbdErrorMode,
+    PbdHttpState,
+    PbdProxy,
+    PbdProxyOptions,
+    PbdSchemaMap,
+} from "$types";
+import {
+    isPbdFailure,
+    pbdAuthenticate,
+    strict,
+    toHttpError,
+    toResponse,
+} from "./core.ts";
+
+/**
+ * The PocketBase paths {@linkcode pbdProxy} doesn't forward by default:
+ * the admin accounts, the backups and the app settings.
+ */
+export const PBD_PROXY_DENIED: string[] = [
+    "/api/admins",
+    "/api/backups",
+    "/api/settings",
+];
+
+/**
+ * The headers that only concern a single connection, never forwarded.
+ * `fetch` decodes the bodies, so their encoding and length go too.
+ */
+const HOP_HEADERS: string[] = [
+    "connection",
+    "keep-alive",
+    "proxy-authenticate",
+    "proxy-authorization",
+    "te",
+    "trailer",
+    "transfer-encoding",
+    "upgrade",
+    "host",
+    "content-length",
+    "content-encoding",
+];
+
+/**
+ * Returns a reverse proxy that forwards the requests to the `baseUrl` of
+ * the client of the Pbd instance, streaming both ways:
+ *
+ * - The path is rewritten (see the `prefix` and `rewrite` options), and
+ *   checked against the allow and deny rules, which by default keep the
+ *   admin, backup and settings endpoints out of reach.
+ * - The `Authorization` header is set from the auth state of a Pbd
+ *   instance: the one bound to the bearer token of the request (see
+ *   {@linkcode pbdAuthenticate}), or the instance itself with
+ *   `auth: "pbd"`.
+ * - The requests go through {@linkcode Pbd.forward}, so the middleware,
+ *   logger and circuit breaker of the instance see them. PocketBase being
+ *   unreachable or failing (5xx) is answered with a 502.
+ *
+ * @param pbd {Pbd} - The Pbd instance.
+ * @param options {PbdProxyOptions} - The proxy options.
+ * @returns {PbdProxy} - The proxy, resolving with `null` for requests
+ * outside of its prefix.
+ *
+ * @example Expose the PocketBase API under `/pb`, without the logs
+ * ```typescript
+ * const proxy = pbdProxy(pbd, {
+ *     prefix: "/pb",
+ *     deny: [...PBD_PROXY_DENIED, "/api/logs"],
+ *     headers: { "X-Gateway": "pbdq" },
+ * });
+ *
+ * Deno.serve(async (req) =>
+ *     await proxy(req) ?? new Response("Not found", { status: 404 })
+ * );
+ * ```
+ */
+export function pbdProxy<M extends PbdErrorMode, S extends PbdSchemaMap>(
+    pbd: Pbd<M, S>,
+    options: PbdProxyOptions = {},
+): PbdProxy {
+    const prefix: string = (options.prefix ?? "").replace(/\/+$/, "");
+    const deny: string[] = options.deny ?? PBD_PROXY_DENIED;
+
+    return async (
+        req: Request,
+        info?: PbdConnInfo,
+    ): Promise<Response | null> => {
+        const url: URL = new URL(req.url);
+
+        if (
+            url.pathname !== prefix && !url.pathname.startsWith(`${prefix}/`)
+        ) {
+            return null;
+        }
+
+        try {
+            const stripped: string = url.pathname.slice(prefix.length) || "/";
+            const path: string = (options.rewrite?.(stripped) ?? stripped)
+                .replace(/\/{2,}/g, "/");
+
+            if (!isAllowed(path, options.allow ?? null, deny)) {
+                throw new PbdAuthError("The endpoint is not available.", {
+                    status: 403,
+                });
+            }
+
+            // With `auth: "pbd"` the token of the request is ignored, only
+            // the rate limit (by client IP) applies.
+            const state: PbdHttpState<M, S> = await pbdAuthenticate(
+                pbd,
+                options.auth === "pbd" ? {} : req.headers,
+                options,
+                info?.remoteAddr.hostname,
+            );
+            const scoped: Pbd<M, S> = options.auth === "pbd"
+                ? pbd.as(pbd.client.authStore.token)
+                : state.pbd;
+            // Strict instances throw instead of returning null or results.
+            const res: Response = await strict(scoped).forward(
+                `${path}${url.search}`,
+                {
+                    method: req.method,
+                    headers: {
+                        ...Object.fromEntries(forwardable(req.headers)),
+                        ...(typeof options.headers === "function"
+                            ? options.headers(req)
+                            : options.headers),
+                    },
+                    body: req.method === "GET" || req.method === "HEAD"
+                        ? undefined
+                        : req.body,
+                    duplex: "half",
+                    redirect: "manual",
+                    signal: req.signal,
+                },
+            ) as Response;
+
+            return new Response(res.body, {
+                status: res.status,
+                statusText: res.statusText,
+                headers: new Headers(forwardable(res.headers)),
+            });
+        } catch (err: unknown) {
+            if (!isPbdFailure(err)) {
+                throw err;
+            }
+
+            return toResponse(toHttpError(err));
+        }
+    };
+}
+
+/**
+ * Checks a PocketBase path against the allow and deny rules. The path is
+ * decoded first, like PocketBase does, so encoded characters can't sneak
+ * past the rules.
+ *
+ * @param path {string} - The PocketBase path.
+ * @param allow {string[] | null} - The allowed paths, null for any.
+ * @param deny {string[]} - The denied paths.
+ * @throws {PbdValidationError} - If the path can't be decoded, or has dot
+ * segments or other characters that could be read as a different path.
+ * @returns {boolean} - Whether the path is forwarded.
+ */
+function isAllowed(
+    path: string,
+    allow: string[] | null,
+    deny: string[],
+): boolean {
+    let decoded: string = "";
+
+    try {
+        decoded = decodeURIComponent(path).replace(/\/{2,}/g, "/");
+    } catch {
+        // Answered below.
+    }
+
+    if (!decoded || /[?#\\]|(^|\/)\.\.?(\/|$)/.test(decoded)) {
+        throw new PbdValidationError("The request path is malformed.");
+    }
+
+    const matches = (rule: string): boolean =>
+        decoded === rule || decoded.startsWith(`${rule.replace(/\/+$/, "")}/`);
+
+    return (allow === null || allow.some(matches)) && !deny.some(matches);
+}
+
+/**
+ * @param headers {Headers} - The headers of a request or response.
+ * @returns {[string, string][]} - The headers that can be forwarded,
+ * without the `Authorization` one (set from the auth state).
+ */
+function forwardable(headers: Headers): [string, string][] {
+    return [...headers].filter(([name]: [string, string]) =>
+        !HOP_HEADERS.includes(name) && name !== "authorization"
+    );
+}
@@ -0,0 +1,357 @@
+import type Pbd from "$pbdq";
+import { PbdError, PbdFieldError, PbdValidationError } from "$errors";
+import {
+    PbdConnInfo,
+    PbdErrorMode,
+    PbdHttpState,
+    PbdRouteConfig,
+    PbdRouteMethod,
+    PbdRouter,
+    PbdRouterConfig,
+    PbdSchemaMap,
+} from "$types";
+import {
+    isPbdFailure,
+    pbdAuthenticate,
+    strict,
+    toHttpError,
+    toResponse,
+} from "./core.ts";
+
+/**
+ * The filter macros clients may use besides the allowed fields. The rest
+ * (like `@collection.*`) could read other collections.
+ */
+const MACRO: RegExp =
+    /^@(request\..+|now|yesterday|tomorrow|todayStart|todayEnd|monthStart|monthEnd|yearStart|yearEnd|second|minute|hour|weekday|day|month|year|random)$/;
+
+/**
+ * The filter words that aren't fields.
+ */
+const KEYWORDS: Set<string> = new Set(["true", "false", "null"]);
+
+/**
+ * Returns a router that re-exposes collections under custom paths, e.g.
+ * the `pets` collection under `/v1/pets`:
+ *
+ * | Request                  | Operation | Pbd method |
+ * | ------------------------ | --------- | ---------- |
+ * | `GET /v1/pets`           | `list`    | `getList`  |
+ * | `POST /v1/pets`          | `create`  | `create`   |
+ * | `GET /v1/pets/:id`       | `view`    | `getOne`   |
+ * | `PATCH /v1/pets/:id`     | `update`  | `update`   |
+ * | `DELETE /v1/pets/:id`    | `delete`  | `delete`   |
+ *
+ * Every request is made with its own bearer token (see
+ * {@linkcode pbdAuthenticate}), so the API rules of the collection still
+ * apply. Each route can limit the operations, the fields that are read and
+ * written, and the fields clients may filter and sort by. Errors are
+ * answered as the HTTP middleware do, see {@linkcode toHttpError}.
+ *
+ * @param pbd {Pbd} - The shared Pbd instance.
+ * @param config {PbdRouterConfig} - The routes.
+ * @returns {PbdRouter} - The router, resolving with `null` for requests
+ * that don't match a route.
+ *
+ * @example
+ * ```typescript
+ * const router = createPbdRouter(pbd, {
+ *     routes: [{
+ *         path: "/v1/pets/:id",
+ *         collectionName: "pets",
+ *         methods: ["list", "view", "create"],
+ *         fields: ["id", "name", "species"],
+ *         filter: ["species"],
+ *         sort: true,
+ *     }],
+ * });
+ *
+ * Deno.serve(async (req) =>
+ *     await router(req) ?? new Response("Not found", { status: 404 })
+ * );
+ * ```
+ */
+export function createPbdRouter<M extends PbdErrorMode, S extends PbdSchemaMap>(
+    pbd: Pbd<M, S>,
+    config: PbdRouterConfig,
+): PbdRouter {
+    return async (
+        req: Request,
+        info?: PbdConnInfo,
+    ): Promise<Response | null> => {
+        const url: URL = new URL(req.url);
+        const match: [PbdRouteConfig, string | null] | null = resolve(
+            config.routes,
+            url.pathname,
+        );
+
+        if (!match) {
+            return null;
+        }
+
+        const [route, id]: [PbdRouteConfig, string | null] = match;
+        const allowed: PbdRouteMethod[] = route.methods ?? ["list", "view"];
+        const operations: Record<string, PbdRouteMethod> = id === null
+            ? { GET: "list", POST: "create" }
+            : { GET: "view", PATCH: "update", DELETE: "delete" };
+        const method: PbdRouteMethod | undefined = operations[req.method];
+
+        if (!method || !allowed.includes(method)) {
+            const res: Response = toResponse(toHttpError(
+                new PbdError("The method is not allowed.", { status: 405 }),
+            ));
+            res.headers.set(
+                "Allow",
+                Object.keys(operations)
+                    .filter((name: string) =>
+                        allowed.includes(operations[name])
+                    )
+                    .join(", "),
+            );
+            return res;
+        }
+
+        try {
+            const state: PbdHttpState<M, S> = await pbdAuthenticate(
+                pbd,
+                req.headers,
+                config,
+                info?.remoteAddr.hostname,
+            );
+
+            return await serve(strict(state.pbd), route, method, id, req, url);
+        } catch (err: unknown) {
+            if (!isPbdFailure(err)) {
+                throw err;
+            }
+
+            return toResponse(toHttpError(err));
+        }
+    };
+}
+
+/**
+ * Runs an operation of a route.
+ *
+ * @param pbd {Pbd} - The instance bound to the request.
+ * @param route {PbdRouteConfig} - The route.
+ * @param method {PbdRouteMethod} - The operation.
+ * @param id {string | null} - The record id, for single record operations.
+ * @param req {Request} - The request.
+ * @param url {URL} - The request URL.
+ * @throws {PbdError} - If the request is invalid or PocketBase fails.
+ * @returns {Promise<Response>} - The response.
+ */
+async function serve<S extends PbdSchemaMap>(
+    pbd: Pbd<"throw", S>,
+    route: PbdRouteConfig,
+    method: PbdRouteMethod,
+    id: string | null,
+    req: Request,
+    url: URL,
+): Promise<Response> {
+    const { collectionName }: PbdRouteConfig = route;
+    // Only set when the route has fields, the SDK would send "undefined".
+    const options: { fields?: string } = route.fields
+        ? { fields: route.fields.join(",") }
+        : {};
+
+    switch (method) {
+        case "list":
+            return Response.json(
+                await pbd.getList({
+                    collectionName,
+                    page: Math.max(1, intParam(url, "page", 1)),
+                    perPage: Math.min(
+                        route.maxPerPage ?? 100,
+                        Math.max(1, intParam(url, "perPage", 30)),
+                    ),
+                    filter: passthrough(route, "filter", url),
+                    sort: passthrough(route, "sort", url),
+                    listoptions: options,
+                }),
+            );
+        case "view":
+            return Response.json(
+                await pbd.getOne(String(id), {
+                    collectionName,
+                    options,
+                }),
+            );
+        case "create":
+            return Response.json(
+                await pbd.create(
+                    { collectionName, options },
+                    await bodyOf(route, req),
+                ),
+                { status: 201 },
+            );
+        case "update":
+            return Response.json(
+                await pbd.update(
+                    String(id),
+                    { collectionName, options },
+                    await bodyOf(route, req),
+                ),
+            );
+        case "delete":
+            await pbd.delete(String(id), { collectionName });
+            return new Response(null, { status: 204 });
+    }
+}
+
+/**
+ * Finds the route of a path.
+ *
+ * @param routes {PbdRouteConfig[]} - The routes.
+ * @param pathname {string} - The request path.
+ * @returns {[PbdRouteConfig, string | null] | null} - The route and the
+ * record id (`null` for the records path), or `null` if none matches.
+ */
+function resolve(
+    routes: PbdRouteConfig[],
+    pathname: string,
+): [PbdRouteConfig, string | null] | null {
+    for (const route of routes) {
+        const base: string = route.path.replace(/\/:[^/]+$/, "")
+            .replace(/\/+$/, "");
+
+        if (pathname === base || pathname === `${base}/`) {
+            return [route, null];
+        }
+
+        const rest: string = pathname.startsWith(`${base}/`)
+            ? pathname.slice(base.length + 1)
+            : "";
+
+        if (rest && !rest.includes("/")) {
+            return [route, decodeURIComponent(rest)];
+        }
+    }
+
+    return null;
+}
+
+/**
+ * @param url {URL} - The request URL.
+ * @param name {string} - The query parameter.
+ * @param fallback {number} - The value when it's missing or invalid.
+ * @returns {number} - The query parameter as an integer.
+ */
+function intParam(url: URL, name: string, fallback: number): number {
+    return Number.parseInt(url.searchParams.get(name) ?? "") || fallback;
+}
+
+/**
+ * Checks the `filter` or `sort` query parameter against the rules of a
+ * route.
+ *
+ * @param route {PbdRouteConfig} - The route.
+ * @param name {"filter" | "sort"} - The parameter.
+ * @param url {URL} - The request URL.
+ * @throws {PbdValidationError} - If the parameter isn't allowed, or uses
+ * fields that aren't.
+ * @returns {string | undefined} - The parameter, if any.
+ */
+function passthrough(
+    route: PbdRouteConfig,
+    name: "filter" | "sort",
+    url: URL,
+): string | undefined {
+    const value: string | null = url.searchParams.get(name);
+    const rule: boolean | string[] | undefined = route[name];
+
+    if (!value) {
+        return undefined;
+    }
+
+    if (!rule) {
+        throw new PbdValidationError(`The ${name} parameter is not allowed.`, {
+            [name]: { code: "validation_not_allowed", message: "Not allowed." },
+        });
+    }
+
+    const allowed: string[] | undefined = rule === true ? route.fields : rule;
+    const used: string[] = name === "filter"
+        ? fieldsOfFilter(value)
+        : value.split(",").map((field: string) =>
+            field.trim().replace(/^[-+]/, "")
+        ).filter((field: string) => !MACRO.test(field));
+    const denied: string[] = used.filter((field: string) =>
+        allowed !== undefined && !allowed.includes(field)
+    );
+
+    if (denied.length > 0) {
+        throw new PbdValidationError(
+            `The ${name} can't use ${denied.join(", ")}.`,
+            {
+                [name]: {
+                    code: "validation_not_allowed",
+                    message: `Not allowed fields: ${denied.join(", ")}.`,
+                },
+            },
+        );
+    }
+
+    return value;
+}
+
+/**
+ * Lists the fields a PocketBase filter uses (without their modifiers,
+ * like `:lower`), leaving out the literals, keywords and date macros.
+ *
+ * @param filter {string} - The filter.
+ * @returns {string[]} - The fields.
+ */
+function fieldsOfFilter(filter: string): string[] {
+    const identifiers: string[] = filter
+        .replace(/(["'])(?:\\.|(?!\1)[^\\])*\1/g, "")
+        .match(/(?<![\w.@])@?[A-Za-z_][\w.:]*/g) ?? [];
+
+    return identifiers
+        .filter((identifier: string) =>
+            !KEYWORDS.has(identifier) && !MACRO.test(identifier)
+        )
+        .map((identifier: string) => identifier.split(":")[0]);
+}
+
+/**
+ * Reads the JSON body of a write, checking it only sets the fields of the
+ * route.
+ *
+ * @param route {PbdRouteConfig} - The route.
+ * @param req {Request} - The request.
+ * @throws {PbdValidationError} - If the body isn't a JSON object, or sets
+ * fields the route doesn't allow.
+ * @returns {Promise<Record<string, unknown>>} - The body.
+ */
+async function bodyOf(
+    route: PbdRouteConfig,
+    req: Request,
+): Promise<Record<string, unknown>> {
+    const body: unknown = await req.json().catch(() => null);
+
+    if (typeof body !== "object" || body === null || Array.isArray(body)) {
+        throw new PbdValidationError("The body must be a JSON object.");
+    }
+
+    const denied: Record<string, PbdFieldError> = {};
+
+    for (const field of Object.keys(body)) {
+        if (route.fields && !route.fields.includes(field)) {
+            denied[field] = {
+                code: "validation_not_allowed",
+                message: "The field can't be set.",
+            };
+        }
+    }
+
+    if (Object.keys(denied).length > 0) {
+        throw new PbdValidationError(
+            "The body sets not allowed fields.",
+            denied,
+        );
+    }
+
+    return body as Record<string, unknown>;
+}
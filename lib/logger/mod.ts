@@ -0,0 +1,263 @@
+import { BaseAuthStore } from "pocketbase";
+
+import {
+    PbdContext,
+    PbdJsonLoggerOptions,
+    PbdLogEntry,
+    PbdLogger,
+    PbdLogLevel,
+} from "$types";
+
+/**
+ * The fields redacted by default: passwords, auth tokens and the private
+ * key passed to `generateAppleClientSecret`.
+ */
+export const PBD_REDACTED_FIELDS: readonly string[] = [
+    "password",
+    "passwordConfirm",
+    "token",
+    "authStore.token",
+    "private_key",
+];
+
+/**
+ * What redacted values are replaced with.
+ */
+const REDACTED: string = "[REDACTED]";
+
+/**
+ * The severity of every level, to compare them.
+ */
+const SEVERITY: Record<PbdLogLevel, number> = {
+    debug: 0,
+    info: 1,
+    warn: 2,
+    error: 3,
+};
+
+/**
+ * Writes one JSON object per line with every entry it gets, after
+ * redacting them. Pass it as the `logger` option to log the calls of a
+ * Pbd instance.
+ *
+ * @example Log failed calls to stderr
+ * ```typescript
+ * const pbd = new Pbd({
+ *     client: pb,
+ *     logger: new PbdJsonLogger({ level: "warn", context: { app: "cats" } }),
+ * });
+ *
+ * // {"level":"warn","message":"getOne cats failed","time":"...","app":"cats",...}
+ * await pbd.getOne("missing", { collectionName: "cats" });
+ * ```
+ */
+export class PbdJsonLogger implements PbdLogger {
+    /**
+     * The least severe level that is logged.
+     * @type {PbdLogLevel}
+     */
+    level: PbdLogLevel;
+
+    private context: Record<string, unknown>;
+    private fields: readonly string[];
+    private write: (line: string) => void;
+
+    /**
+     * @param options {PbdJsonLoggerOptions} - The level, context and
+     * output of the logger.
+     */
+    constructor(options: PbdJsonLoggerOptions = {}) {
+        this.level = options.level ?? "info";
+        this.context = options.context ?? {};
+        this.fields = options.redact ?? PBD_REDACTED_FIELDS;
+        this.write = options.write ?? writeStderr;
+    }
+
+    /**
+     * Writes an entry if its level is enabled.
+     *
+     * @param entry {PbdLogEntry} - The entry.
+     * @returns {void}
+     */
+    log(entry: PbdLogEntry): void {
+        if (!isEnabled(this, entry.level)) {
+            return;
+        }
+
+        const { level, message, time, ...fields }: PbdLogEntry = entry;
+
+        this.write(JSON.stringify(redact(
+            { level, message, time, ...this.context, ...fields },
+            this.fields,
+        )));
+    }
+
+    /**
+     * Returns a logger that writes to the same output, adding `context`
+     * to every entry (e.g. the id of the request being served).
+     *
+     * @param context {Record<string, unknown>} - The fields to add.
+     * @returns {PbdJsonLogger} - The new logger.
+     */
+    child(context: Record<string, unknown>): PbdJsonLogger {
+        return new PbdJsonLogger({
+            level: this.level,
+            context: { ...this.context, ...context },
+            redact: [...this.fields],
+            write: this.write,
+        });
+    }
+}
+
+/**
+ * Returns a copy of `value` with the given fields replaced by
+ * `"[REDACTED]"`, at any depth. A field is either a field name
+ * (`"token"`) or the path of a nested field (`"authStore.token"`).
+ *
+ * Auth stores are logged as their `token` and `model`, and circular
+ * references as `"[Circular]"`.
+ *
+ * @param value {unknown} - The value to redact.
+ * @param fields {readonly string[]} - The fields to redact.
+ * @returns {unknown} - The redacted copy.
+ */
+export function redact(
+    value: unknown,
+    fields: readonly string[] = PBD_REDACTED_FIELDS,
+): unknown {
+    return redactAt(value, "", fields, new WeakSet());
+}
+
+/**
+ * Logs the outcome of a wrapped call: failures as `"warn"`, or
+ * `"error"` when PocketBase is down or unreachable, and the rest as
+ * `"debug"`. The fields of `ctx.state.log` are added to the entry.
+ *
+ * @param logger {PbdLogger} - Where the entry is logged.
+ * @param ctx {PbdContext} - The context of the finished call.
+ * @returns {void}
+ */
+export function logCall(logger: PbdLogger, ctx: PbdContext): void {
+    const level: PbdLogLevel = !ctx.error
+        ? "debug"
+        : ctx.error.status === 0 || ctx.error.status >= 500
+        ? "error"
+        : "warn";
+
+    if (!isEnabled(logger, level)) {
+        return;
+    }
+
+    const name: string = ctx.collectionName
+        ? `${ctx.method} ${ctx.collectionName}`
+        : ctx.method;
+    const state: unknown = ctx.state.log;
+
+    logger.log({
+        level,
+        message: `${name} ${ctx.error ? "failed" : "succeeded"}`,
+        time: new Date().toISOString(),
+        ...(typeof state === "object" && state !== null
+            ? redact(state) as Record<string, unknown>
+            : {}),
+        method: ctx.method,
+        collectionName: ctx.collectionName,
+        args: redact(ctx.args),
+        duration: ctx.duration,
+        attempts: ctx.attempts,
+        ...(ctx.error
+            ? {
+                error: {
+                    name: ctx.error.name,
+                    message: ctx.error.message,
+                    status: ctx.error.status,
+                },
+            }
+            : {}),
+    });
+}
+
+/**
+ * @param logger {PbdLogger} - The logger.
+ * @param level {PbdLogLevel} - The level of an entry.
+ * @returns {boolean} - Whether the logger logs entries of that level.
+ */
+function isEnabled(logger: PbdLogger, level: PbdLogLevel): boolean {
+    return SEVERITY[level] >= SEVERITY[logger.level];
+}
+
+/**
+ * Redacts a value found at `path`, see {@linkcode redact}.
+ *
+ * @param value {unknown} - The value.
+ * @param path {string} - The dotted path of the value.
+ * @param fields {readonly string[]} - The fields to redact.
+ * @param parents {WeakSet<object>} - The objects being redacted, to spot
+ * circular references.
+ * @returns {unknown} - The redacted copy.
+ */
+function redactAt(
+    value: unknown,
+    path: string,
+    fields: readonly string[],
+    parents: WeakSet<object>,
+): unknown {
+    if (typeof value !== "object" || value === null) {
+        return typeof value === "bigint" ? value.toString() : value;
+    }
+
+    if (value instanceof Date) {
+        return value.toISOString();
+    }
+
+    if (parents.has(value)) {
+        return "[Circular]";
+    }
+
+    parents.add(value);
+
+    const source: object = value instanceof BaseAuthStore
+        ? { token: value.token, model: value.model }
+        : value;
+    let copy: unknown;
+
+    if (Array.isArray(source)) {
+        copy = source.map((item: unknown) =>
+            redactAt(item, path, fields, parents)
+        );
+    } else {
+        copy = Object.fromEntries(
+            Object.entries(source).map(
+                ([key, item]: [string, unknown]): [string, unknown] => {
+                    const at: string = path ? `${path}.${key}` : key;
+                    const hidden: boolean = fields.some((field: string) =>
+                        at === field || at.endsWith(`.${field}`)
+                    );
+
+                    return [
+                        key,
+                        hidden ? REDACTED : redactAt(item, at, fields, parents),
+                    ];
+                },
+            ),
+        );
+    }
+
+    parents.delete(value);
+
+    return copy;
+}
+
+/**
+ * Writes a line to stderr.
+ *
+ * @param line {string} - The line, without the line break.
+ * @returns {void}
+ */
+function writeStderr(line: string): void {
+    let data: Uint8Array = new TextEncoder().encode(`${line}\n`);
+
+    while (data.length > 0) {
+        data = data.subarray(Deno.stderr.writeSync(data));
+    }
+}
@@ -0,0 +1,217 @@
+import Client, { ListResult } from "pocketbase";
+import { PbdError, toPbdError } from "$errors";
+import { PbdFilter, pbdFilter } from "$filter";
+import { PbdTenancy } from "$tenancy";
+import { PbdErrorMode, PbdIterateOptions, PbdRunner } from "$types";
+
+/**
+ * The fields used as the cursor when iterating with `cursor`.
+ */
+interface PbdCursor {
+    id: string;
+    created: string;
+}
+
+/**
+ * Walks the records of a collection page by page. Pages are only fetched
+ * when the loop needs them, so memory stays flat no matter how big the
+ * collection is. Every `for await` loop starts from the beginning.
+ *
+ * Every page is a call of its own (`iterate`) for the middleware, rate
+ * limit, retry policy and circuit breaker, scoped to the tenant of the
+ * caller (see {@linkcode PbdTenancy}).
+ *
+ * Don't create these directly, use {@linkcode Pbd.iterate} instead.
+ *
+ * @example Export every cat without loading them all at once
+ * ```typescript
+ * const cats = pbd.iterate<Cat>({ collectionName: "cats", perPage: 200 });
+ *
+ * for await (const cat of cats) {
+ *     await writer.write(`${cat.name}\n`);
+ * }
+ * ```
+ */
+export class PbdListIterator<T> implements AsyncIterable<T> {
+    /**
+     * The number of pages fetched by the last loop.
+     * @type {number}
+     */
+    pages: number = 0;
+
+    /**
+     * The total number of records reported by PocketBase. `null` when
+     * `skipTotal` or `cursor` is used, or before the first page is fetched.
+     * @type {number | null}
+     */
+    totalItems: number | null = null;
+
+    /**
+     * The error that ended the last loop (if any). Only set in the `"null"`
+     * and `"result"` error modes, the loop throws it otherwise.
+     * @type {PbdError | null}
+     */
+    error: PbdError | null = null;
+
+    private runner: PbdRunner;
+    private tenancy: PbdTenancy | null;
+    private options: PbdIterateOptions;
+    private error_mode: PbdErrorMode;
+
+    /**
+     * @param runner {PbdRunner} - Runs the page requests.
+     * @param tenancy {PbdTenancy | null} - Scopes the pages to the tenant
+     * of the caller (if any).
+     * @param options {PbdIterateOptions} - The collection and query options.
+     * @param error_mode {PbdErrorMode} - How errors are reported.
+     */
+    constructor(
+        runner: PbdRunner,
+        tenancy: PbdTenancy | null,
+        options: PbdIterateOptions,
+        error_mode: PbdErrorMode,
+    ) {
+        this.runner = runner;
+        this.tenancy = tenancy;
+        this.options = options;
+        this.error_mode = error_mode;
+    }
+
+    /**
+     * @returns {AsyncGenerator<T>} - The record iterator.
+     */
+    async *[Symbol.asyncIterator](): AsyncGenerator<T> {
+        const perPage: number = this.options.perPage ?? 100;
+        const cursor: boolean = this.options.cursor !== undefined;
+        const skipTotal: boolean = cursor || (this.options.skipTotal ?? false);
+
+        this.pages = 0;
+        this.totalItems = null;
+        this.error = null;
+
+        let last: PbdCursor | null = null;
+
+        while (!this.options.signal?.aborted) {
+            let result: ListResult<T>;
+
+            const page: number = cursor ? 1 : this.pages + 1;
+            const filter: PbdFilter | string | undefined = this.filter(last);
+
+            try {
+                result = await this.runner<ListResult<T>>(
+                    {
+                        method: "iterate",
+                        collectionName: this.options.collectionName,
+                        scoped: true,
+                        retry: this.options.retry,
+                        idempotent: true,
+                        args: [this.options, page],
+                    },
+                    (client: Client, tenant: string | null | undefined) => {
+                        const scoped: string | undefined =
+                            (this.tenancy?.filter(tenant, filter) ?? filter)
+                                ?.toString();
+                        const sort: string | undefined = cursor
+                            ? this.cursorSort()
+                            : this.options.sort;
+                        const expand: string | undefined = this.options.expand;
+
+                        // The SDK would send missing parameters as "undefined".
+                        return client.collection(this.options.collectionName)
+                            .getList<T>(page, perPage, {
+                                ...this.options.options,
+                                ...(scoped === undefined
+                                    ? {}
+                                    : { filter: scoped }),
+                                ...(sort === undefined ? {} : { sort }),
+                                ...(expand === undefined ? {} : { expand }),
+                                skipTotal,
+                                signal: this.options.signal,
+                                requestKey: null,
+                            });
+                    },
+                );
+            } catch (err: unknown) {
+                if (this.options.signal?.aborted) {
+                    return;
+                }
+
+                this.error = toPbdError(err, {
+                    method: "iterate",
+                    collectionName: this.options.collectionName,
+                });
+
+                if (this.error_mode === "throw") {
+                    throw this.error;
+                }
+
+                return;
+            }
+
+            this.pages++;
+
+            if (!skipTotal) {
+                this.totalItems = result.totalItems;
+            }
+
+            for (const item of result.items) {
+                if (this.options.signal?.aborted) {
+                    return;
+                }
+
+                yield item;
+            }
+
+            const done: boolean = skipTotal
+                ? result.items.length < perPage
+                : this.pages >= result.totalPages;
+
+            if (done || result.items.length === 0) {
+                return;
+            }
+
+            last = result.items[result.items.length - 1] as PbdCursor;
+        }
+    }
+
+    /**
+     * The filter of the next page: the user filter plus, when using a
+     * cursor, the records after the last one returned.
+     *
+     * @param last {PbdCursor | null} - The last record returned.
+     * @returns {PbdFilter | string | undefined} - The filter.
+     */
+    private filter(last: PbdCursor | null): PbdFilter | string | undefined {
+        if (!last) {
+            return this.options.filter;
+        }
+
+        const after: (field: string, value: string) => PbdFilter =
+            this.options.cursor === "desc" ? pbdFilter.lt : pbdFilter.gt;
+        const next: PbdFilter = pbdFilter.or(
+            after("created", last.created),
+            pbdFilter.and(
+                pbdFilter.eq("created", last.created),
+                after("id", last.id),
+            ),
+        );
+
+        if (!this.options.filter) {
+            return next;
+        }
+
+        return pbdFilter.and(
+            typeof this.options.filter === "string"
+                ? pbdFilter.raw(`(${this.options.filter})`)
+                : this.options.filter,
+            next,
+        );
+    }
+
+    /**
+     * @returns {string} - The sort used when iterating with a cursor.
+     */
+    private cursorSort(): string {
+        return this.options.cursor === "desc" ? "-created,-id" : "created,id";
+    }
+}
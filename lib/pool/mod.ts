@@ -0,0 +1,249 @@
+import Client, { ClientResponseError, RecordModel } from "pocketbase";
+import {
+    PbdCall,
+    PbdPoolMember,
+    PbdPoolOptions,
+    PbdPoolReplica,
+    PbdPoolStrategy,
+} from "$types";
+
+/**
+ * The methods whose calls always go to the primary, whatever they read.
+ */
+const PRIMARY_ONLY: string[] = ["iterate", "batch", "getHealth", "forward"];
+
+/**
+ * Routes the calls of a {@linkcode Pbd} instance over several PocketBase
+ * instances: writes (and anything else that isn't idempotent) go to the
+ * primary, reads are spread over the healthy read replicas and fall back
+ * to the primary when there's none.
+ *
+ * Members are health checked every `healthInterval` and a member that
+ * fails a call with a network error or a 5xx response is left out until
+ * it passes a health check again.
+ *
+ * Replicas usually lag behind the primary, so a read right after a write
+ * may not see it. `iterate`, `subscribe`, `batch`, `getHealth` and
+ * `forward` always use the primary.
+ *
+ * This isn't a client of its own and has none of the methods of
+ * {@linkcode Pbd}. Don't create these directly, create a
+ * {@linkcode PbdPool} (or set the `pool` option of {@linkcode Pbd}) and
+ * use its `members` to see the members.
+ *
+ * @example Two read replicas, reads go to the fastest one
+ * ```typescript
+ * const pbd = new PbdPool({
+ *     client: new PocketBase("http://primary:8090"),
+ *     replicas: [
+ *         new PocketBase("http://replica-1:8090"),
+ *         new PocketBase("http://replica-2:8090"),
+ *     ],
+ *     strategy: "least_latency",
+ * });
+ *
+ * // Served by a replica
+ * const cats = await pbd.getFullList<Cat>({ collectionName: "cats" });
+ *
+ * // Sent to the primary
+ * await pbd.create({ collectionName: "cats" }, { name: "Gato" });
+ * ```
+ */
+export class PbdPoolRouter {
+    private primary: PbdPoolMember;
+    private replicas: PbdPoolMember[];
+    private strategy: PbdPoolStrategy;
+    private healthInterval: number;
+    private lastHealthCheck: number = Date.now();
+    private pendingHealthCheck: Promise<PbdPoolMember[]> | null = null;
+    private next: number = 0;
+
+    /**
+     * @param primary {Client} - The client of the primary.
+     * @param options {PbdPoolOptions} - The replicas and routing options.
+     */
+    constructor(primary: Client, options: PbdPoolOptions) {
+        this.primary = member(primary, true);
+        this.replicas = options.replicas.map(
+            (replica: Client | PbdPoolReplica) =>
+                "client" in replica
+                    ? { ...member(replica.client, false), ...replica }
+                    : member(replica, false),
+        );
+        this.strategy = options.strategy ?? "round_robin";
+        this.healthInterval = options.healthInterval ?? 10_000;
+
+        if (options.shareAuth ?? true) {
+            this.shareAuth();
+        }
+    }
+
+    /**
+     * The primary followed by the replicas, with their current health and
+     * latency.
+     *
+     * @returns {PbdPoolMember[]} - A snapshot of the members.
+     */
+    get members(): PbdPoolMember[] {
+        return [this.primary, ...this.replicas].map(
+            (m: PbdPoolMember) => ({ ...m }),
+        );
+    }
+
+    /**
+     * Runs a call on the member picked for it.
+     *
+     * @param call {PbdCall<T>} - The description of the wrapped call.
+     * @param fn {(client: Client) => Promise<T>} - The SDK call to run.
+     * @returns {Promise<T>} - The result of the call.
+     */
+    async send<T>(
+        call: PbdCall<T>,
+        fn: (client: Client) => Promise<T>,
+    ): Promise<T> {
+        if (Date.now() - this.lastHealthCheck >= this.healthInterval) {
+            this.checkHealth().catch(() => {});
+        }
+
+        const target: PbdPoolMember = this.pick(call);
+        const started: number = performance.now();
+
+        try {
+            const result: T = await fn(target.client);
+            observe(target, performance.now() - started);
+            return result;
+        } catch (err: unknown) {
+            if (
+                err instanceof ClientResponseError && !err.isAbort &&
+                (err.status === 0 || err.status >= 500)
+            ) {
+                target.healthy = false;
+            }
+
+            throw err;
+        }
+    }
+
+    /**
+     * Health checks every member with `client.health.check()` and updates
+     * their health and latency. Concurrent checks share the same requests.
+     *
+     * @returns {Promise<PbdPoolMember[]>} - The members after the check.
+     */
+    checkHealth(): Promise<PbdPoolMember[]> {
+        if (this.pendingHealthCheck) {
+            return this.pendingHealthCheck;
+        }
+
+        this.lastHealthCheck = Date.now();
+        this.pendingHealthCheck = Promise.all(
+            [this.primary, ...this.replicas].map(
+                async (target: PbdPoolMember): Promise<void> => {
+                    const started: number = performance.now();
+
+                    try {
+                        await target.client.health.check({ requestKey: null });
+                        target.healthy = true;
+                        observe(target, performance.now() - started);
+                    } catch {
+                        target.healthy = false;
+                    }
+                },
+            ),
+        ).then((): PbdPoolMember[] => this.members).finally(() => {
+            this.pendingHealthCheck = null;
+        });
+
+        return this.pendingHealthCheck;
+    }
+
+    /**
+     * Picks the member that serves a call: the primary for anything that
+     * isn't idempotent, for the pages and steps of `iterate` and `batch`
+     * (replicas may lag, and may not agree with each other), for
+     * `getHealth` (the health of the primary is the one that matters) and
+     * for `forward` (the path may not be a record read at all), otherwise
+     * a healthy replica that serves the collection (or the primary if
+     * there's none).
+     *
+     * @param call {PbdCall<T>} - The description of the wrapped call.
+     * @returns {PbdPoolMember} - The member.
+     */
+    private pick<T>(call: PbdCall<T>): PbdPoolMember {
+        if (!call.idempotent || PRIMARY_ONLY.includes(call.method)) {
+            return this.primary;
+        }
+
+        const candidates: PbdPoolMember[] = this.replicas.filter(
+            (replica: PbdPoolMember) =>
+                replica.healthy &&
+                (!replica.collections ||
+                    (call.collectionName !== undefined &&
+                        replica.collections.includes(call.collectionName))),
+        );
+
+        if (candidates.length === 0) {
+            return this.primary;
+        }
+
+        if (this.strategy === "least_latency") {
+            // Members that never answered are tried first.
+            return candidates.reduce((best: PbdPoolMember, c: PbdPoolMember) =>
+                (c.latency ?? 0) < (best.latency ?? 0) ? c : best
+            );
+        }
+
+        return candidates[this.next++ % candidates.length];
+    }
+
+    /**
+     * Saves the auth state of the primary in every replica, now and every
+     * time it changes.
+     *
+     * @returns {void}
+     */
+    private shareAuth(): void {
+        const sync = (token: string, model: RecordModel | null): void => {
+            for (const replica of this.replicas) {
+                if (token) {
+                    replica.client.authStore.save(token, model);
+                } else {
+                    replica.client.authStore.clear();
+                }
+            }
+        };
+
+        sync(
+            this.primary.client.authStore.token,
+            this.primary.client.authStore.model as RecordModel | null,
+        );
+        this.primary.client.authStore.onChange(
+            (token: string, model: unknown) =>
+                sync(token, model as RecordModel | null),
+        );
+    }
+}
+
+/**
+ * Creates a healthy member with no latency yet.
+ *
+ * @param client {Client} - The client of the member.
+ * @param primary {boolean} - Whether it's the primary.
+ * @returns {PbdPoolMember} - The member.
+ */
+function member(client: Client, primary: boolean): PbdPoolMember {
+    return { client, primary, healthy: true, latency: null };
+}
+
+/**
+ * Folds a new latency sample into the average of a member.
+ *
+ * @param target {PbdPoolMember} - The member.
+ * @param latency {number} - The latency of the last call, in milliseconds.
+ * @returns {void}
+ */
+function observe(target: PbdPoolMember, latency: number): void {
+    target.latency = target.latency === null
+        ? latency
+        : target.latency * 0.8 + latency * 0.2;
+}
@@ -0,0 +1,390 @@
+import { PbdErrorOptions, PbdRateLimitError } from "$errors";
+import {
+    PbdRateLimitAlgorithm,
+    PbdRateLimitOptions,
+    PbdRateLimitResult,
+    PbdRateLimitRule,
+    PbdRateLimitState,
+    PbdRateLimitStore,
+} from "$types";
+
+/**
+ * The counters of a key, as kept by {@linkcode PbdMemoryRateLimitStore}.
+ */
+interface PbdRateLimitEntry {
+    state: PbdRateLimitState;
+    expiresAt: number;
+}
+
+/**
+ * An in-memory {@linkcode PbdRateLimitStore}. Once `maxKeys` is reached
+ * the expired keys are dropped, then the least recently used ones.
+ *
+ * Each process has its own counters, use a {@linkcode PbdKvRateLimitStore}
+ * when the server runs more than one.
+ */
+export class PbdMemoryRateLimitStore implements PbdRateLimitStore {
+    private entries: Map<string, PbdRateLimitEntry> = new Map();
+    private maxKeys: number;
+
+    /**
+     * @param maxKeys {number} - The maximum number of keys kept.
+     */
+    constructor(maxKeys: number = 10_000) {
+        this.maxKeys = maxKeys;
+    }
+
+    /**
+     * The number of keys kept.
+     *
+     * @returns {number} - The number of keys.
+     */
+    get size(): number {
+        return this.entries.size;
+    }
+
+    /**
+     * @param key {string} - The rate limited key.
+     * @param ttl {number} - How long (in milliseconds) the counters are kept.
+     * @param update {(state: PbdRateLimitState | null) => [PbdRateLimitState, T]}
+     * - Computes the new counters.
+     * @returns {Promise<T>} - The result of the update.
+     */
+    update<T>(
+        key: string,
+        ttl: number,
+        update: (state: PbdRateLimitState | null) => [PbdRateLimitState, T],
+    ): Promise<T> {
+        const now: number = Date.now();
+        const entry: PbdRateLimitEntry | undefined = this.entries.get(key);
+        const [state, result]: [PbdRateLimitState, T] = update(
+            entry && entry.expiresAt > now ? entry.state : null,
+        );
+
+        // Move the key to the end of the LRU order.
+        this.entries.delete(key);
+        this.entries.set(key, { state, expiresAt: now + ttl });
+
+        if (this.entries.size > this.maxKeys) {
+            for (const [id, { expiresAt }] of this.entries) {
+                if (expiresAt <= now) {
+                    this.entries.delete(id);
+                }
+            }
+        }
+
+        while (this.entries.size > this.maxKeys) {
+            this.entries.delete(this.entries.keys().next().value as string);
+        }
+
+        return Promise.resolve(result);
+    }
+}
+
+/**
+ * A {@linkcode PbdRateLimitStore} backed by Deno KV, so every instance of
+ * a deployment shares the same counters. Concurrent updates are retried
+ * until they don't conflict, and the counters expire on their own.
+ *
+ * @example
+ * ```typescript
+ * const kv = await Deno.openKv();
+ * const limiter = new PbdRateLimiter({
+ *     limit: 100,
+ *     store: new PbdKvRateLimitStore(kv),
+ * });
+ * ```
+ */
+export class PbdKvRateLimitStore implements PbdRateLimitStore {
+    private kv: Deno.Kv;
+    private prefix: string;
+
+    /**
+     * @param kv {Deno.Kv} - The opened KV database.
+     * @param prefix {string} - The first part of every key written.
+     */
+    constructor(kv: Deno.Kv, prefix: string = "pbdq-ratelimit") {
+        this.kv = kv;
+        this.prefix = prefix;
+    }
+
+    /**
+     * @param key {string} - The rate limited key.
+     * @param ttl {number} - How long (in milliseconds) the counters are kept.
+     * @param update {(state: PbdRateLimitState | null) => [PbdRateLimitState, T]}
+     * - Computes the new counters.
+     * @returns {Promise<T>} - The result of the update.
+     */
+    async update<T>(
+        key: string,
+        ttl: number,
+        update: (state: PbdRateLimitState | null) => [PbdRateLimitState, T],
+    ): Promise<T> {
+        while (true) {
+            const entry: Deno.KvEntryMaybe<PbdRateLimitState> = await this.kv
+                .get<PbdRateLimitState>([this.prefix, key]);
+            const [state, result]: [PbdRateLimitState, T] = update(
+                entry.value,
+            );
+            const commit: Deno.KvCommitResult | Deno.KvCommitError = await this
+                .kv.atomic()
+                .check(entry)
+                .set([this.prefix, key], state, { expireIn: ttl })
+                .commit();
+
+            if (commit.ok) {
+                return result;
+            }
+        }
+    }
+}
+
+/**
+ * Counts the requests of each key (a user, an IP...) and tells whether
+ * they may go on, see {@linkcode PbdRateLimitAlgorithm} for the ways they
+ * can be counted.
+ *
+ * The limiter is best effort: if the store fails, the request is allowed.
+ *
+ * Use it in your own handlers, pass it to the HTTP middleware (see the
+ * `rateLimit` option of {@linkcode pbdAuthenticate}), or set the
+ * `rateLimit` option of {@linkcode Pbd} to limit its calls.
+ *
+ * @example Allow 10 logins per minute per IP
+ * ```typescript
+ * const logins = new PbdRateLimiter({ limit: 10, window: 60_000 });
+ *
+ * Deno.serve(async (req, info) => {
+ *     const { allowed, retryAfter } = await logins.consume(
+ *         info.remoteAddr.hostname,
+ *     );
+ *
+ *     if (!allowed) {
+ *         return new Response("Too many requests", {
+ *             status: 429,
+ *             headers: { "Retry-After": `${Math.ceil(retryAfter / 1000)}` },
+ *         });
+ *     }
+ *     // ...
+ * });
+ * ```
+ */
+export class PbdRateLimiter {
+    private limit: number;
+    private window: number;
+    private algorithm: PbdRateLimitAlgorithm;
+    private store: PbdRateLimitStore;
+
+    /**
+     * @param options {PbdRateLimitOptions} - The limit, window, algorithm
+     * and store.
+     */
+    constructor(options: PbdRateLimitOptions) {
+        this.limit = options.limit;
+        this.window = options.window ?? 60_000;
+        this.algorithm = options.algorithm ?? "sliding-window";
+        this.store = options.store ?? new PbdMemoryRateLimitStore();
+    }
+
+    /**
+     * Counts a request of a key. Requests that aren't allowed are not
+     * counted.
+     *
+     * @param key {string} - Who makes the request.
+     * @param cost {number} - How many requests it counts for.
+     * @returns {Promise<PbdRateLimitResult>} - Whether it's allowed.
+     */
+    async consume(
+        key: string,
+        cost: number = 1,
+    ): Promise<PbdRateLimitResult> {
+        const step = (
+            state: PbdRateLimitState | null,
+        ): [PbdRateLimitState, PbdRateLimitResult] =>
+            this.algorithm === "token-bucket"
+                ? tokenBucket(state, Date.now(), this.limit, this.window, cost)
+                : slidingWindow(
+                    state,
+                    Date.now(),
+                    this.limit,
+                    this.window,
+                    cost,
+                );
+
+        return await this.store
+            .update(key, this.window * 2, step)
+            .catch((): PbdRateLimitResult => ({
+                allowed: true,
+                limit: this.limit,
+                remaining: this.limit,
+                retryAfter: 0,
+            }));
+    }
+
+    /**
+     * Counts a request of a key, throwing if it's not allowed.
+     *
+     * @param key {string} - Who makes the request.
+     * @param context {PbdErrorOptions} - The call context of the error.
+     * @throws {PbdRateLimitError} - If the request is not allowed.
+     * @returns {Promise<PbdRateLimitResult>} - The counters of the key.
+     */
+    async check(
+        key: string,
+        context: PbdErrorOptions = {},
+    ): Promise<PbdRateLimitResult> {
+        const result: PbdRateLimitResult = await this.consume(key);
+
+        if (!result.allowed) {
+            throw new PbdRateLimitError(
+                "Too many requests, try again later.",
+                result.retryAfter,
+                context,
+            );
+        }
+
+        return result;
+    }
+}
+
+/**
+ * Applies the rate limit rules of {@linkcode Pbd} to its calls. Used by
+ * {@linkcode Pbd} when the `rateLimit` option is set.
+ */
+export class PbdRateLimit {
+    private rules: [PbdRateLimitRule, PbdRateLimiter][];
+
+    /**
+     * @param rules {PbdRateLimitRule[]} - The rules.
+     */
+    constructor(rules: PbdRateLimitRule[]) {
+        this.rules = rules.map((
+            rule: PbdRateLimitRule,
+        ): [PbdRateLimitRule, PbdRateLimiter] => [
+            rule,
+            new PbdRateLimiter(rule),
+        ]);
+    }
+
+    /**
+     * Counts a call against every rule that applies to it.
+     *
+     * @param method {string} - The Pbd method.
+     * @param collectionName {string | undefined} - The collection, if any.
+     * @param identity {string} - Who makes the call, like the record id
+     * of its token.
+     * @throws {PbdRateLimitError} - If a rule doesn't allow the call.
+     * @returns {Promise<void>}
+     */
+    async check(
+        method: string,
+        collectionName: string | undefined,
+        identity: string,
+    ): Promise<void> {
+        for (const [rule, limiter] of this.rules) {
+            if (
+                (rule.methods && !rule.methods.includes(method)) ||
+                (rule.collections &&
+                    !rule.collections.includes(collectionName ?? ""))
+            ) {
+                continue;
+            }
+
+            await limiter.check(
+                `${identity}\u0000${method}\u0000${collectionName ?? ""}`,
+                { method, collectionName },
+            );
+        }
+    }
+}
+
+/**
+ * Counts a request with the sliding window algorithm.
+ *
+ * @param state {PbdRateLimitState | null} - The counters of the key.
+ * @param now {number} - The current time (ms since the epoch).
+ * @param limit {number} - The requests allowed per window.
+ * @param window {number} - The window length (in milliseconds).
+ * @param cost {number} - How many requests it counts for.
+ * @returns {[PbdRateLimitState, PbdRateLimitResult]} - The new counters
+ * and the outcome.
+ */
+function slidingWindow(
+    state: PbdRateLimitState | null,
+    now: number,
+    limit: number,
+    window: number,
+    cost: number,
+): [PbdRateLimitState, PbdRateLimitResult] {
+    const start: number = now - now % window;
+    const current: number = state?.at === start ? state.value : 0;
+    const previous: number = state?.at === start
+        ? state.previous
+        : state?.at === start - window
+        ? state.value
+        : 0;
+    const count: number = previous * (1 - (now - start) / window) + current;
+
+    if (count + cost <= limit) {
+        return [{ value: current + cost, previous, at: start }, {
+            allowed: true,
+            limit,
+            remaining: Math.floor(limit - count - cost),
+            retryAfter: 0,
+        }];
+    }
+
+    // The weight of the previous window drops as time goes, unless the
+    // current window alone is full.
+    const retryAfter: number = previous > 0 && current + cost <= limit
+        ? Math.ceil((count + cost - limit) * window / previous)
+        : start + window - now;
+
+    return [{ value: current, previous, at: start }, {
+        allowed: false,
+        limit,
+        remaining: 0,
+        retryAfter: Math.max(1, retryAfter),
+    }];
+}
+
+/**
+ * Counts a request with the token bucket algorithm.
+ *
+ * @param state {PbdRateLimitState | null} - The counters of the key.
+ * @param now {number} - The current time (ms since the epoch).
+ * @param limit {number} - The bucket size.
+ * @param window {number} - How long (in milliseconds) an empty bucket
+ * takes to refill.
+ * @param cost {number} - How many tokens it takes.
+ * @returns {[PbdRateLimitState, PbdRateLimitResult]} - The new counters
+ * and the outcome.
+ */
+function tokenBucket(
+    state: PbdRateLimitState | null,
+    now: number,
+    limit: number,
+    window: number,
+    cost: number,
+): [PbdRateLimitState, PbdRateLimitResult] {
+    const rate: number = limit / window;
+    const tokens: number = state
+        ? Math.min(limit, state.value + (now - state.at) * rate)
+        : limit;
+
+    if (tokens >= cost) {
+        return [{ value: tokens - cost, previous: 0, at: now }, {
+            allowed: true,
+            limit,
+            remaining: Math.floor(tokens - cost),
+            retryAfter: 0,
+        }];
+    }
+
+    return [{ value: tokens, previous: 0, at: now }, {
+        allowed: false,
+        limit,
+        remaining: 0,
+        retryAfter: Math.max(1, Math.ceil((cost - tokens) / rate)),
+    }];
+}
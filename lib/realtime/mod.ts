@@ -0,0 +1,294 @@
+import Client, { RecordSubscription, UnsubscribeFunc } from "pocketbase";
+import { PbdError, toPbdError } from "$errors";
+import { PbdErrorMode, PbdRealtimeEvent, PbdSubscribeOptions } from "$types";
+
+/**
+ * The delays (in milliseconds) between attempts to open a subscription
+ * when the realtime connection can't be established.
+ */
+const RETRY_INTERVALS: number[] = [200, 500, 1000, 2000, 5000];
+
+/**
+ * A realtime subscription to a collection. Events can be consumed with
+ * `for await`, the loop ends once {@linkcode unsubscribe} is called (or the
+ * `signal` passed in the options is aborted).
+ *
+ * The PocketBase SDK reconnects the SSE connection on its own. Every time
+ * it does, the subscription makes sure its topic is still registered and
+ * subscribes again if it was lost.
+ *
+ * Don't create these directly, use {@linkcode Pbd.subscribe} instead.
+ *
+ * @example Listen to every change in the "cats" collection
+ * ```typescript
+ * const subscription = await pbd.subscribe<Cat>({ collectionName: "cats" });
+ *
+ * for await (const { action, record } of subscription) {
+ *     console.log(`${record.name} was ${action}d`);
+ * }
+ * ```
+ */
+export class PbdSubscription<T> implements AsyncIterable<PbdRealtimeEvent<T>> {
+    /**
+     * The number of times the SSE connection was re-established since the
+     * subscription was opened.
+     * @type {number}
+     */
+    reconnects: number = 0;
+
+    /**
+     * The error that ended the subscription (if any). Only set in the
+     * `"null"` and `"result"` error modes, the iterator throws it otherwise.
+     * @type {PbdError | null}
+     */
+    error: PbdError | null = null;
+
+    private client: Client;
+    private options: PbdSubscribeOptions;
+    private error_mode: PbdErrorMode;
+    private queue: PbdRealtimeEvent<T>[] = [];
+    private waiters: PromiseWithResolvers<
+        IteratorResult<PbdRealtimeEvent<T>>
+    >[] = [];
+    private generation: number = 0;
+    private unsubscribeTopic: UnsubscribeFunc | null = null;
+    private unsubscribeConnect: UnsubscribeFunc | null = null;
+    private closed: boolean = false;
+
+    /**
+     * @param client {Client} - The PocketBase client to subscribe with.
+     * @param options {PbdSubscribeOptions} - The subscription options.
+     * @param error_mode {PbdErrorMode} - How errors are reported.
+     */
+    constructor(
+        client: Client,
+        options: PbdSubscribeOptions,
+        error_mode: PbdErrorMode,
+    ) {
+        this.client = client;
+        this.options = options;
+        this.error_mode = error_mode;
+
+        options.signal?.addEventListener("abort", () => {
+            this.unsubscribe();
+        });
+    }
+
+    /**
+     * Whether the subscription is still receiving events.
+     *
+     * @returns {boolean} - False once the subscription has been closed.
+     */
+    get active(): boolean {
+        return !this.closed;
+    }
+
+    /**
+     * Opens the subscription. It retries with a backoff while the realtime
+     * connection can't be established, up to `maxAttempts` times.
+     *
+     * @throws {PbdError} - If the subscription can't be opened.
+     * @returns {Promise<void>}
+     */
+    async open(): Promise<void> {
+        const maxAttempts: number = this.options.maxAttempts ?? 5;
+
+        for (let attempt: number = 1;; attempt++) {
+            try {
+                await this.listen();
+                break;
+            } catch (err: unknown) {
+                if (attempt >= maxAttempts || this.closed) {
+                    await this.unsubscribe();
+                    throw err;
+                }
+
+                await new Promise((resolve) =>
+                    setTimeout(
+                        resolve,
+                        RETRY_INTERVALS[attempt - 1] ??
+                            RETRY_INTERVALS[RETRY_INTERVALS.length - 1],
+                    )
+                );
+            }
+        }
+
+        this.unsubscribeConnect = await this.client.realtime.subscribe(
+            "PB_CONNECT",
+            () => this.onConnect(),
+        );
+    }
+
+    /**
+     * Closes the subscription. Pending and future iterations end.
+     *
+     * @returns {Promise<void>}
+     */
+    async unsubscribe(): Promise<void> {
+        if (this.closed) {
+            return;
+        }
+
+        this.closed = true;
+        this.generation++;
+
+        const unsubscribeTopic: UnsubscribeFunc | null = this.unsubscribeTopic;
+        const unsubscribeConnect: UnsubscribeFunc | null =
+            this.unsubscribeConnect;
+        this.unsubscribeTopic = null;
+        this.unsubscribeConnect = null;
+
+        this.flush();
+
+        await unsubscribeConnect?.().catch(() => {});
+        await unsubscribeTopic?.().catch(() => {});
+    }
+
+    /**
+     * @returns {AsyncIterator<PbdRealtimeEvent<T>>} - The event iterator.
+     */
+    [Symbol.asyncIterator](): AsyncIterator<PbdRealtimeEvent<T>> {
+        return {
+            next: (): Promise<IteratorResult<PbdRealtimeEvent<T>>> => {
+                const event: PbdRealtimeEvent<T> | undefined = this.queue
+                    .shift();
+
+                if (event) {
+                    return Promise.resolve({ done: false, value: event });
+                }
+
+                if (this.closed) {
+                    return this.end();
+                }
+
+                const waiter: PromiseWithResolvers<
+                    IteratorResult<PbdRealtimeEvent<T>>
+                > = Promise.withResolvers();
+                this.waiters.push(waiter);
+
+                return waiter.promise;
+            },
+            return: async (): Promise<IteratorResult<PbdRealtimeEvent<T>>> => {
+                await this.unsubscribe();
+                return { done: true, value: undefined };
+            },
+        };
+    }
+
+    /**
+     * Registers a fresh listener for the topic and drops the previous one.
+     * If the SDK still has the topic registered no request is made, if it
+     * lost it, the topic is submitted again.
+     *
+     * @returns {Promise<void>}
+     */
+    private async listen(): Promise<void> {
+        const generation: number = this.generation + 1;
+        const previous: UnsubscribeFunc | null = this.unsubscribeTopic;
+
+        this.unsubscribeTopic = await this.client
+            .collection(this.options.collectionName)
+            .subscribe<T>(
+                this.options.topic ?? "*",
+                (data: RecordSubscription<T>) => {
+                    if (generation === this.generation) {
+                        this.push({
+                            action: data.action as PbdRealtimeEvent<T>[
+                                "action"
+                            ],
+                            record: data.record,
+                        });
+                    }
+                },
+                {
+                    ...this.options.options,
+                    filter: this.options.filter?.toString(),
+                    expand: this.options.expand,
+                },
+            );
+
+        // From now on, only the new listener hands events over.
+        this.generation = generation;
+
+        await previous?.();
+    }
+
+    /**
+     * Called on every `PB_CONNECT` event received after the subscription
+     * was opened, which means the SDK has reconnected.
+     *
+     * @returns {void}
+     */
+    private onConnect(): void {
+        this.reconnects++;
+
+        this.listen().catch((err: unknown) => this.fail(err));
+    }
+
+    /**
+     * Ends the subscription because of an error.
+     *
+     * @param err {unknown} - The error.
+     * @returns {void}
+     */
+    private fail(err: unknown): void {
+        this.error = toPbdError(err, {
+            method: "subscribe",
+            collectionName: this.options.collectionName,
+        });
+        this.unsubscribe();
+    }
+
+    /**
+     * Hands an event to the oldest waiting iteration, or queues it.
+     *
+     * @param event {PbdRealtimeEvent<T>} - The received event.
+     * @returns {void}
+     */
+    private push(event: PbdRealtimeEvent<T>): void {
+        if (this.closed) {
+            return;
+        }
+
+        const waiter:
+            | PromiseWithResolvers<IteratorResult<PbdRealtimeEvent<T>>>
+            | undefined = this.waiters.shift();
+
+        if (waiter) {
+            waiter.resolve({ done: false, value: event });
+            return;
+        }
+
+        this.queue.push(event);
+    }
+
+    /**
+     * Ends all the waiting iterations.
+     *
+     * @returns {void}
+     */
+    private flush(): void {
+        const waiters: PromiseWithResolvers<
+            IteratorResult<PbdRealtimeEvent<T>>
+        >[] = this.waiters;
+        this.waiters = [];
+
+        for (const waiter of waiters) {
+            this.end().then(waiter.resolve, waiter.reject);
+        }
+    }
+
+    /**
+     * The result of iterating a closed subscription. In the `"throw"` mode
+     * the iteration rejects with the error that closed the subscription.
+     *
+     * @returns {Promise<IteratorResult<PbdRealtimeEvent<T>>>}
+     */
+    private end(): Promise<IteratorResult<PbdRealtimeEvent<T>>> {
+        if (this.error && this.error_mode === "throw") {
+            return Promise.reject(this.error);
+        }
+
+        return Promise.resolve({ done: true, value: undefined });
+    }
+}
@@ -0,0 +1,273 @@
+import Client, { BaseAuthStore, getTokenPayload } from "pocketbase";
+
+import { PbdError, toPbdError } from "$errors";
+import {
+    PbdRefreshCredentials,
+    PbdRefreshFailure,
+    PbdRefreshOptions,
+} from "$types";
+
+/**
+ * The longest delay `setTimeout` can wait, longer ones fire right away.
+ */
+const MAX_TIMEOUT: number = 2_147_483_647;
+
+/**
+ * Refreshes the auth token of a client with `authRefresh` or
+ * `adminAuthRefresh` before it expires, so long-running processes (like
+ * the cron jobs of `PbdExt.cron`) don't start failing with 401s.
+ *
+ * When the token can't be refreshed (e.g. the process slept past its
+ * expiry) and `credentials` are set, it logs in again with them. Failures
+ * are reported to the {@linkcode onFailure} listeners and tried again
+ * every `retryDelay` while there's a way to recover. A token that
+ * PocketBase rejects is cleared.
+ *
+ * @example Keep a cron job authenticated
+ * ```typescript
+ * const pbd = new Pbd({
+ *     client: pb,
+ *     refresh: {
+ *         credentials: { email: "admin@example.com", password },
+ *     },
+ * });
+ *
+ * pbd.refresher?.onFailure(({ error, retryIn }) => {
+ *     console.error(`Token refresh failed, retry in ${retryIn}ms`, error);
+ * });
+ * ```
+ */
+export class PbdTokenRefresher {
+    private client: Client;
+    private refreshBefore: number;
+    private retryDelay: number;
+    private credentials: PbdRefreshCredentials | null;
+    private listeners: Set<(failure: PbdRefreshFailure) => void> = new Set();
+    private timer: ReturnType<typeof setTimeout> | null = null;
+    private unsubscribe: (() => void) | null = null;
+    private pending: Promise<void> | null = null;
+
+    /**
+     * @param client {Client} - The client whose token is refreshed.
+     * @param options {PbdRefreshOptions} - The refresh options.
+     */
+    constructor(client: Client, options: PbdRefreshOptions = {}) {
+        this.client = client;
+        this.refreshBefore = options.refreshBefore ?? 300_000;
+        this.retryDelay = options.retryDelay ?? 30_000;
+        this.credentials = options.credentials ?? null;
+    }
+
+    /**
+     * Whether the refresher is running.
+     * @type {boolean}
+     */
+    get running(): boolean {
+        return this.unsubscribe !== null;
+    }
+
+    /**
+     * Starts refreshing the token, following every change of the auth
+     * state. Pbd starts it on its own.
+     *
+     * @returns {void}
+     */
+    start(): void {
+        if (this.unsubscribe) {
+            return;
+        }
+
+        this.unsubscribe = this.client.authStore.onChange(() =>
+            this.schedule()
+        );
+        this.schedule();
+    }
+
+    /**
+     * Stops refreshing the token.
+     *
+     * @returns {void}
+     */
+    stop(): void {
+        this.unsubscribe?.();
+        this.unsubscribe = null;
+        this.schedule();
+    }
+
+    /**
+     * Subscribes to the failed refreshes.
+     *
+     * @param listener {(failure: PbdRefreshFailure) => void} - The
+     * listener.
+     * @returns {() => void} - Removes the listener.
+     */
+    onFailure(listener: (failure: PbdRefreshFailure) => void): () => void {
+        this.listeners.add(listener);
+        return (): void => {
+            this.listeners.delete(listener);
+        };
+    }
+
+    /**
+     * Refreshes the token now, logging in again with the credentials (if
+     * any) when the refresh fails. Concurrent calls share the request.
+     *
+     * @throws {PbdError} - If the token can't be refreshed nor renewed.
+     * @returns {Promise<void>}
+     */
+    refresh(): Promise<void> {
+        this.pending ??= this.renew().finally(() => {
+            this.pending = null;
+        });
+
+        return this.pending;
+    }
+
+    /**
+     * Refreshes the token, or logs in again.
+     *
+     * @throws {PbdError} - If both fail.
+     * @returns {Promise<void>}
+     */
+    private async renew(): Promise<void> {
+        const { isAdmin, isAuthRecord, model }: BaseAuthStore =
+            this.client.authStore;
+
+        try {
+            if (isAdmin) {
+                await this.client.admins.authRefresh({ requestKey: null });
+                return;
+            }
+
+            if (isAuthRecord) {
+                await this.client
+                    .collection(String(model?.collectionId))
+                    .authRefresh({ requestKey: null });
+                return;
+            }
+        } catch (err: unknown) {
+            if (!this.credentials) {
+                throw toPbdError(err, {
+                    method: isAdmin ? "adminAuthRefresh" : "authRefresh",
+                });
+            }
+        }
+
+        if (this.credentials) {
+            await this.login(this.credentials);
+        }
+    }
+
+    /**
+     * Logs in again.
+     *
+     * @param credentials {PbdRefreshCredentials} - The credentials.
+     * @throws {PbdError} - If PocketBase rejects them.
+     * @returns {Promise<void>}
+     */
+    private async login(credentials: PbdRefreshCredentials): Promise<void> {
+        const { email, password, collectionName }: PbdRefreshCredentials =
+            credentials;
+
+        try {
+            if (collectionName) {
+                await this.client.collection(collectionName)
+                    .authWithPassword(email, password, { requestKey: null });
+            } else {
+                await this.client.admins.authWithPassword(email, password, {
+                    requestKey: null,
+                });
+            }
+        } catch (err: unknown) {
+            throw toPbdError(err, {
+                method: collectionName
+                    ? "authWithPassword"
+                    : "adminAuthWithPassword",
+                collectionName,
+            });
+        }
+    }
+
+    /**
+     * Schedules the next refresh, `delay` ms from now or `refreshBefore`
+     * ms before the token expires (but never after it expires). An
+     * expired token is renewed right away if there are credentials.
+     *
+     * @param delay {number} - The delay, if not based on the expiry.
+     * @returns {void}
+     */
+    private schedule(delay?: number): void {
+        if (this.timer !== null) {
+            clearTimeout(this.timer);
+            this.timer = null;
+        }
+
+        const expiresAt: number = expiryOf(this.client.authStore.token);
+        const left: number = expiresAt - Date.now();
+
+        if (
+            !this.unsubscribe || !expiresAt || (left <= 0 && !this.credentials)
+        ) {
+            return;
+        }
+
+        // Tokens that live less than `refreshBefore` are refreshed halfway
+        // through instead of right away.
+        const due: number = Date.now() +
+            (delay ?? Math.max(0, left - this.refreshBefore, left / 2));
+
+        this.timer = setTimeout(
+            () => {
+                this.timer = null;
+
+                // Long waits are made of several timers.
+                if (Date.now() < due) {
+                    this.schedule(
+                        delay === undefined ? undefined : due - Date.now(),
+                    );
+                    return;
+                }
+
+                this.refresh().catch((err: PbdError) => this.failed(err));
+            },
+            Math.min(due - Date.now(), MAX_TIMEOUT),
+        );
+    }
+
+    /**
+     * Reports a failed refresh and decides what's next: a rejected token
+     * is cleared, and the rest are tried again while the token is valid
+     * or there are credentials.
+     *
+     * @param error {PbdError} - The error of the refresh.
+     * @returns {void}
+     */
+    private failed(error: PbdError): void {
+        const rejected: boolean = [400, 401, 403, 404].includes(error.status);
+        const recoverable: boolean = !rejected &&
+            (this.credentials !== null ||
+                expiryOf(this.client.authStore.token) > Date.now());
+        const retryIn: number | null = recoverable ? this.retryDelay : null;
+
+        for (const listener of this.listeners) {
+            listener({ error, retryIn });
+        }
+
+        if (rejected) {
+            this.client.authStore.clear();
+        } else if (retryIn !== null) {
+            this.schedule(retryIn);
+        }
+    }
+}
+
+/**
+ * @param token {string} - An auth token.
+ * @returns {number} - When the token expires (ms since the epoch), `0`
+ * if it has no expiry.
+ */
+function expiryOf(token: string): number {
+    const exp: unknown = token ? getTokenPayload(token).exp : undefined;
+
+    return typeof exp === "number" ? exp * 1000 : 0;
+}
@@ -0,0 +1,80 @@
+import { ClientResponseError } from "pocketbase";
+import { PbdRetryOptions } from "$types";
+
+/**
+ * Runs `fn` again when it fails with a transient PocketBase error (see
+ * `statuses` in {@linkcode PbdRetryOptions}), waiting an exponential
+ * backoff with full jitter between attempts. The last error is thrown
+ * once the attempts run out.
+ *
+ * Only errors of the PocketBase SDK are retried, aborted requests and
+ * errors raised by Pbd itself are thrown right away.
+ *
+ * {@linkcode Pbd} applies this to every wrapped method when the `retry`
+ * option is set, use it directly for calls made through the client.
+ *
+ * @param fn {() => Promise<T>} - The call to run.
+ * @param options {PbdRetryOptions} - The retry policy.
+ * @returns {Promise<T>} - The result of the first successful attempt.
+ *
+ * @example Retry a custom endpoint
+ * ```typescript
+ * const stats = await withRetry(
+ *     () => pb.send("/api/stats", { method: "GET" }),
+ *     { attempts: 5, statuses: [0, 503] },
+ * );
+ * ```
+ */
+export async function withRetry<T>(
+    fn: () => Promise<T>,
+    options: PbdRetryOptions = {},
+): Promise<T> {
+    const attempts: number = Math.max(1, options.attempts ?? 3);
+
+    for (let attempt: number = 1;; attempt++) {
+        try {
+            return await fn();
+        } catch (err: unknown) {
+            if (attempt >= attempts || !retryable(err, options)) {
+                throw err;
+            }
+
+            await new Promise((resolve: (value: unknown) => void) =>
+                setTimeout(resolve, backoff(attempt, options))
+            );
+        }
+    }
+}
+
+/**
+ * Tells whether a failed attempt can be retried.
+ *
+ * @param err {unknown} - The error of the attempt.
+ * @param options {PbdRetryOptions} - The retry policy.
+ * @returns {boolean} - True if the error is transient.
+ */
+function retryable(err: unknown, options: PbdRetryOptions): boolean {
+    if (!(err instanceof ClientResponseError) || err.isAbort) {
+        return false;
+    }
+
+    return (options.statuses ?? [0, 429, 502, 503]).includes(err.status);
+}
+
+/**
+ * The delay before the next attempt: a random value between zero and the
+ * exponential backoff ("full jitter"), so clients that failed together
+ * don't retry together.
+ *
+ * @param attempt {number} - The attempt that just failed, from 1.
+ * @param options {PbdRetryOptions} - The retry policy.
+ * @returns {number} - The delay in milliseconds.
+ */
+function backoff(attempt: number, options: PbdRetryOptions): number {
+    const ceiling: number = Math.min(
+        options.maxDelay ?? 5_000,
+        (options.delay ?? 200) * 2 ** (attempt - 1),
+    );
+
+    return Math.random() * ceiling;
+}
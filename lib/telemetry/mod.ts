@@ -0,0 +1,456 @@
+import { PbdError } from "$errors";
+import {
+    PbdAttributes,
+    PbdContext,
+    PbdMetric,
+    PbdMetricPoint,
+    PbdMiddleware,
+    PbdOtlpExporterOptions,
+    PbdSpan,
+    PbdTelemetryExporter,
+    PbdTelemetryOptions,
+} from "$types";
+
+/**
+ * The instrumentation scope reported with every span and metric.
+ */
+const SCOPE: { name: string } = { name: "pbdq" };
+
+/**
+ * A W3C `traceparent` header: version, trace id, parent id and flags.
+ */
+const TRACEPARENT: RegExp = /^00-([0-9a-f]{32})-([0-9a-f]{16})-[0-9a-f]{2}$/;
+
+/**
+ * The position of the record id in the arguments of the methods that take
+ * one (batch steps are `[action, collectionName, recordId, data]`).
+ */
+const RECORD_ID_ARGS: Record<string, number> = {
+    getOne: 0,
+    update: 0,
+    delete: 0,
+    batch: 2,
+};
+
+/**
+ * Records a span, a latency sample and (on failure) an error count for
+ * every wrapped call, and hands them to an exporter. Add its middleware
+ * to the instances you want to instrument.
+ *
+ * Spans are exported in batches of `batchSize`, call `flush()` to export
+ * the pending spans and the metrics (e.g. on an interval and before the
+ * process exits). Metrics are cumulative.
+ *
+ * Set `ctx.state.traceparent` to a W3C `traceparent` header in an earlier
+ * middleware to make the spans children of an incoming request.
+ *
+ * Every span has these attributes:
+ *
+ * - `pbdq.method`: The Pbd method, e.g. `getOne`.
+ * - `pbdq.collection`: The collection (if any).
+ * - `pbdq.record_id`: The record id (if any).
+ * - `http.response.status_code`: The status code, `0` if PocketBase could
+ *   not be reached.
+ * - `pbdq.retry_count`: How many times the call was retried.
+ *
+ * @example Send spans and metrics to a local collector
+ * ```typescript
+ * const telemetry = new PbdTelemetry({
+ *     exporter: new PbdOtlpExporter({ url: "http://localhost:4318" }),
+ * });
+ *
+ * pbd.use(telemetry.middleware());
+ * setInterval(() => telemetry.flush().catch(console.error), 10_000);
+ * ```
+ */
+export class PbdTelemetry {
+    private exporter: PbdTelemetryExporter;
+    private batchSize: number;
+    private bounds: number[];
+    private propagate: boolean;
+    private spans: PbdSpan[] = [];
+    private durations: Map<string, PbdMetricPoint> = new Map();
+    private errors: Map<string, PbdMetricPoint> = new Map();
+
+    /**
+     * @param options {PbdTelemetryOptions} - The exporter and recording
+     * options.
+     */
+    constructor(options: PbdTelemetryOptions) {
+        this.exporter = options.exporter;
+        this.batchSize = options.batchSize ?? 100;
+        this.bounds = options.bounds ??
+            [5, 10, 25, 50, 100, 250, 500, 1000, 2500, 5000, 10000];
+        this.propagate = options.propagate ?? false;
+    }
+
+    /**
+     * Returns the middleware that records the calls, add it with
+     * {@linkcode Pbd.use}. Add it first so the spans include the time
+     * spent in the other middleware.
+     *
+     * @returns {PbdMiddleware} - The middleware.
+     */
+    middleware(): PbdMiddleware {
+        return async (
+            ctx: PbdContext,
+            next: () => Promise<void>,
+        ): Promise<void> => {
+            const parent: RegExpExecArray | null = TRACEPARENT.exec(
+                String(ctx.state.traceparent ?? ""),
+            );
+            const traceId: string = parent?.[1] ?? randomId(16);
+            const spanId: string = randomId(8);
+
+            if (this.propagate) {
+                ctx.headers["traceparent"] = `00-${traceId}-${spanId}-01`;
+            }
+
+            await next();
+
+            this.record(ctx, {
+                traceId,
+                spanId,
+                parentSpanId: parent?.[2],
+                name: ctx.collectionName
+                    ? `${ctx.method} ${ctx.collectionName}`
+                    : ctx.method,
+                startTime: ctx.startedAt,
+                endTime: ctx.startedAt + ctx.duration,
+                attributes: {},
+                error: ctx.error?.message ?? null,
+            });
+        };
+    }
+
+    /**
+     * Returns the current value of every metric:
+     *
+     * - `pbdq.call.duration`: Latency histogram (ms), by method and
+     *   collection.
+     * - `pbdq.call.errors`: Failed calls, by method, collection and status
+     *   code.
+     *
+     * @returns {PbdMetric[]} - The metrics.
+     */
+    metrics(): PbdMetric[] {
+        return [
+            {
+                name: "pbdq.call.duration",
+                description: "The duration of the Pbd calls.",
+                unit: "ms",
+                type: "histogram",
+                bounds: this.bounds,
+                points: [...this.durations.values()],
+            },
+            {
+                name: "pbdq.call.errors",
+                description: "The number of failed Pbd calls.",
+                unit: "1",
+                type: "counter",
+                points: [...this.errors.values()],
+            },
+        ];
+    }
+
+    /**
+     * Exports the pending spans and the current metrics.
+     *
+     * @returns {Promise<void>}
+     */
+    async flush(): Promise<void> {
+        const spans: PbdSpan[] = this.spans.splice(0);
+
+        if (spans.length > 0) {
+            await this.exporter.exportSpans(spans);
+        }
+
+        await this.exporter.exportMetrics(this.metrics());
+    }
+
+    /**
+     * Fills in the attributes of a finished span, keeps it and updates the
+     * metrics. A full batch of spans is exported in the background.
+     *
+     * @param ctx {PbdContext} - The context of the finished call.
+     * @param span {PbdSpan} - The span of the call.
+     * @returns {void}
+     */
+    private record(ctx: PbdContext, span: PbdSpan): void {
+        const status: number = ctx.error ? ctx.error.status : 200;
+        const labels: PbdAttributes = { "pbdq.method": ctx.method };
+
+        if (ctx.collectionName) {
+            labels["pbdq.collection"] = ctx.collectionName;
+        }
+
+        const recordId: string | undefined = recordIdOf(ctx);
+        span.attributes = {
+            ...labels,
+            ...(recordId ? { "pbdq.record_id": recordId } : {}),
+            "http.response.status_code": status,
+            "pbdq.retry_count": Math.max(0, ctx.attempts - 1),
+        };
+        this.spans.push(span);
+
+        const duration: PbdMetricPoint = point(this.durations, labels);
+        duration.count++;
+        duration.sum += ctx.duration;
+        duration.bucketCounts ??= new Array(this.bounds.length + 1).fill(0);
+
+        const bucket: number = this.bounds.findIndex((bound: number) =>
+            ctx.duration <= bound
+        );
+        duration.bucketCounts[bucket === -1 ? this.bounds.length : bucket]++;
+
+        if (ctx.error) {
+            const errors: PbdMetricPoint = point(this.errors, {
+                ...labels,
+                "http.response.status_code": status,
+            });
+            errors.count++;
+            errors.sum++;
+        }
+
+        if (this.spans.length >= this.batchSize) {
+            this.exporter.exportSpans(this.spans.splice(0)).catch(() => {});
+        }
+    }
+}
+
+/**
+ * Sends spans and metrics to an OpenTelemetry collector over OTLP/HTTP,
+ * using the JSON encoding.
+ *
+ * @example
+ * ```typescript
+ * const exporter = new PbdOtlpExporter({
+ *     url: "https://otlp.example.com",
+ *     headers: { "x-api-key": Deno.env.get("OTLP_KEY") ?? "" },
+ *     serviceName: "cats-api",
+ * });
+ * ```
+ */
+export class PbdOtlpExporter implements PbdTelemetryExporter {
+    private url: string;
+    private headers: Record<string, string>;
+    private resource: { attributes: OtlpAttribute[] };
+
+    /**
+     * @param options {PbdOtlpExporterOptions} - The collector URL and
+     * headers.
+     */
+    constructor(options: PbdOtlpExporterOptions = {}) {
+        this.url = (options.url ?? "http://localhost:4318").replace(/\/$/, "");
+        this.headers = options.headers ?? {};
+        this.resource = {
+            attributes: otlpAttributes({
+                "service.name": options.serviceName ?? "pbdq",
+            }),
+        };
+    }
+
+    /**
+     * @param spans {PbdSpan[]} - The spans.
+     * @throws {PbdError} - If the collector doesn't accept them.
+     * @returns {Promise<void>}
+     */
+    async exportSpans(spans: PbdSpan[]): Promise<void> {
+        await this.post("/v1/traces", {
+            resourceSpans: [{
+                resource: this.resource,
+                scopeSpans: [{
+                    scope: SCOPE,
+                    spans: spans.map((span: PbdSpan) => ({
+                        traceId: span.traceId,
+                        spanId: span.spanId,
+                        parentSpanId: span.parentSpanId,
+                        name: span.name,
+                        kind: 3, // SPAN_KIND_CLIENT
+                        startTimeUnixNano: nanos(span.startTime),
+                        endTimeUnixNano: nanos(span.endTime),
+                        attributes: otlpAttributes(span.attributes),
+                        status: span.error === null
+                            ? { code: 0 }
+                            : { code: 2, message: span.error },
+                    })),
+                }],
+            }],
+        });
+    }
+
+    /**
+     * @param metrics {PbdMetric[]} - The metrics.
+     * @throws {PbdError} - If the collector doesn't accept them.
+     * @returns {Promise<void>}
+     */
+    async exportMetrics(metrics: PbdMetric[]): Promise<void> {
+        const now: string = nanos(Date.now());
+
+        await this.post("/v1/metrics", {
+            resourceMetrics: [{
+                resource: this.resource,
+                scopeMetrics: [{
+                    scope: SCOPE,
+                    metrics: metrics.map((metric: PbdMetric) => {
+                        const points: Record<string, unknown>[] = metric.points
+                            .map((p: PbdMetricPoint) => ({
+                                attributes: otlpAttributes(p.attributes),
+                                startTimeUnixNano: nanos(p.startTime),
+                                timeUnixNano: now,
+                                ...(metric.type === "histogram"
+                                    ? {
+                                        count: String(p.count),
+                                        sum: p.sum,
+                                        bucketCounts: p.bucketCounts?.map(
+                                            String,
+                                        ),
+                                        explicitBounds: metric.bounds,
+                                    }
+                                    : { asInt: String(p.count) }),
+                            }));
+
+                        return {
+                            name: metric.name,
+                            description: metric.description,
+                            unit: metric.unit,
+                            ...(metric.type === "histogram"
+                                ? {
+                                    histogram: {
+                                        aggregationTemporality: 2, // Cumulative
+                                        dataPoints: points,
+                                    },
+                                }
+                                : {
+                                    sum: {
+                                        aggregationTemporality: 2,
+                                        isMonotonic: true,
+                                        dataPoints: points,
+                                    },
+                                }),
+                        };
+                    }),
+                }],
+            }],
+        });
+    }
+
+    /**
+     * Posts an OTLP payload to the collector.
+     *
+     * @param path {string} - The signal path, e.g. `/v1/traces`.
+     * @param body {unknown} - The payload.
+     * @throws {PbdError} - If the collector doesn't accept it.
+     * @returns {Promise<void>}
+     */
+    private async post(path: string, body: unknown): Promise<void> {
+        const res: Response = await fetch(`${this.url}${path}`, {
+            method: "POST",
+            headers: { "Content-Type": "application/json", ...this.headers },
+            body: JSON.stringify(body),
+        });
+        await res.body?.cancel();
+
+        if (!res.ok) {
+            throw new PbdError(
+                `The collector rejected ${path} with status ${res.status}.`,
+                { status: res.status },
+            );
+        }
+    }
+}
+
+/**
+ * An attribute in the OTLP JSON encoding.
+ */
+interface OtlpAttribute {
+    key: string;
+    value:
+        | { stringValue: string }
+        | { boolValue: boolean }
+        | { intValue: string }
+        | { doubleValue: number };
+}
+
+/**
+ * Returns the metric point of a set of attributes, creating it if needed.
+ *
+ * @param points {Map<string, PbdMetricPoint>} - The points of the metric.
+ * @param attributes {PbdAttributes} - The attributes of the point.
+ * @returns {PbdMetricPoint} - The point.
+ */
+function point(
+    points: Map<string, PbdMetricPoint>,
+    attributes: PbdAttributes,
+): PbdMetricPoint {
+    const key: string = JSON.stringify(attributes);
+
+    if (!points.has(key)) {
+        points.set(key, {
+            attributes,
+            startTime: Date.now(),
+            count: 0,
+            sum: 0,
+        });
+    }
+
+    return points.get(key) as PbdMetricPoint;
+}
+
+/**
+ * Finds the id of the record a call worked on: the record id argument of
+ * `getOne`, `update`, `delete` and the batch steps, or the id of the
+ * returned record.
+ *
+ * @param ctx {PbdContext} - The context of the call.
+ * @returns {string | undefined} - The record id, if any.
+ */
+function recordIdOf(ctx: PbdContext): string | undefined {
+    const index: number | undefined = RECORD_ID_ARGS[ctx.method];
+
+    if (index !== undefined && typeof ctx.args[index] === "string") {
+        return ctx.args[index] as string;
+    }
+
+    const id: unknown = (ctx.result as { id?: unknown } | null)?.id;
+
+    return typeof id === "string" ? id : undefined;
+}
+
+/**
+ * @param bytes {number} - The length of the id in bytes.
+ * @returns {string} - A random id in hex.
+ */
+function randomId(bytes: number): string {
+    return Array.from(
+        crypto.getRandomValues(new Uint8Array(bytes)),
+        (byte: number) => byte.toString(16).padStart(2, "0"),
+    ).join("");
+}
+
+/**
+ * @param ms {number} - A time in ms since the epoch.
+ * @returns {string} - The time in ns since the epoch, as OTLP expects it.
+ */
+function nanos(ms: number): string {
+    return (BigInt(Math.round(ms * 1000)) * 1000n).toString();
+}
+
+/**
+ * @param attributes {PbdAttributes} - The attributes.
+ * @returns {OtlpAttribute[]} - The attributes in the OTLP JSON encoding.
+ */
+function otlpAttributes(attributes: PbdAttributes): OtlpAttribute[] {
+    return Object.entries(attributes).map(
+        ([key, value]: [string, string | number | boolean]): OtlpAttribute => ({
+            key,
+            value: typeof value === "string"
+                ? { stringValue: value }
+                : typeof value === "boolean"
+                ? { boolValue: value }
+                : Number.isInteger(value)
+                ? { intValue: String(value) }
+                : { doubleValue: value },
+        }),
+    );
+}
@@ -0,0 +1,312 @@
+import Client, { CommonOptions } from "pocketbase";
+import { PbdAuthError, PbdNotFoundError, PbdValidationError } from "$errors";
+import { PbdFilter, pbdFilter } from "$filter";
+import { PbdTenancyOptions } from "$types";
+
+/**
+ * Keeps the tenants of a shared PocketBase apart, for collections whose
+ * records have a relation to their tenant (the `tenant` field by
+ * default):
+ *
+ * - The filters of `getList`, `getFullList`, `getFirstListItem`,
+ *   `iterate` and `subscribe` only match the records of the tenant.
+ * - The data of `create` and `update` gets the tenant set, and setting
+ *   another one fails with a {@linkcode PbdAuthError} (403).
+ * - `getOne`, `update` and `delete` fail with a
+ *   {@linkcode PbdNotFoundError} (404) for the records of other tenants,
+ *   so they can't even tell they exist.
+ *
+ * Callers whose tenant can't be resolved (`undefined`) see no record and
+ * can't write any. The writes of batches (see {@linkcode Pbd.batch}) are
+ * scoped like `create`, `update` and `delete`.
+ *
+ * Don't create these directly, set the `tenancy` option of
+ * {@linkcode Pbd} or use {@linkcode Pbd.forTenant} instead.
+ *
+ * @example Scope every call to the tenant of the logged in user
+ * ```typescript
+ * const pbd = new Pbd({
+ *     client: pb,
+ *     tenancy: {
+ *         resolve: (client) =>
+ *             client.authStore.isAdmin ? null : client.authStore.model?.tenant,
+ *         collections: ["projects", "tasks"],
+ *     },
+ * });
+ * ```
+ */
+export class PbdTenancy {
+    /**
+     * The relation field holding the tenant of the records.
+     * @type {string}
+     */
+    readonly field: string;
+
+    private resolver: (client: Client) => string | null | undefined;
+    private collections: string[] | undefined;
+
+    /**
+     * @param options {PbdTenancyOptions} - The resolver, field and
+     * collections.
+     */
+    constructor(options: PbdTenancyOptions) {
+        this.resolver = options.resolve;
+        this.field = options.field ?? "tenant";
+        this.collections = options.collections;
+    }
+
+    /**
+     * Resolves the tenant of a call.
+     *
+     * @param client {Client} - The client making the call.
+     * @param collectionName {string} - The collection of the call.
+     * @returns {string | null | undefined} - The tenant, `null` if the call
+     * is not scoped, or `undefined` if the tenant is unknown.
+     */
+    resolve(
+        client: Client,
+        collectionName: string,
+    ): string | null | undefined {
+        if (this.collections && !this.collections.includes(collectionName)) {
+            return null;
+        }
+
+        return this.resolver(client);
+    }
+
+    /**
+     * Returns a copy scoped to a fixed tenant, whoever makes the calls.
+     *
+     * @param tenant {string | null} - The tenant, `null` to not scope the
+     * calls.
+     * @returns {PbdTenancy} - The copy.
+     */
+    fixed(tenant: string | null): PbdTenancy {
+        return new PbdTenancy({
+            resolve: (): string | null => tenant,
+            field: this.field,
+            collections: this.collections,
+        });
+    }
+
+    /**
+     * Restricts a filter to the records of a tenant. Filters may come from
+     * clients (see {@linkcode createPbdRouter}), so they must be a group of
+     * their own: a filter like `a = 1) || (a != 1` would otherwise match
+     * the records of every tenant.
+     *
+     * @param tenant {string | null | undefined} - The tenant of the call.
+     * @param filter {PbdFilter | string | undefined} - The filter of the
+     * call, if any.
+     * @throws {PbdValidationError} - If the parentheses or quotes of the
+     * filter aren't balanced, or it has comments.
+     * @returns {PbdFilter | string | undefined} - The scoped filter, or the
+     * same one if the call is not scoped.
+     */
+    filter(
+        tenant: string | null | undefined,
+        filter: PbdFilter | string | undefined,
+    ): PbdFilter | string | undefined {
+        if (tenant === null) {
+            return filter;
+        }
+
+        // Records always have an id, an unknown tenant matches none.
+        const own: PbdFilter = tenant === undefined
+            ? pbdFilter.eq("id", "")
+            : pbdFilter.eq(this.field, tenant);
+
+        if (!filter) {
+            return own;
+        }
+
+        if (!grouped(filter.toString())) {
+            throw new PbdValidationError("The filter is malformed.", {
+                filter: {
+                    code: "validation_invalid_filter",
+                    message: "Unbalanced parentheses or quotes.",
+                },
+            });
+        }
+
+        // Raw filters may use `||`, which binds looser than `&&`.
+        return pbdFilter.and(
+            own,
+            typeof filter === "string" ? pbdFilter.raw(`(${filter})`) : filter,
+        );
+    }
+
+    /**
+     * Sets the tenant in the data of a `create` or `update`. The data
+     * itself is not changed.
+     *
+     * @param tenant {string | null | undefined} - The tenant of the call.
+     * @param data {D} - The record data, an object or `FormData`.
+     * @throws {PbdAuthError} - If the tenant is unknown, or the data sets
+     * another one.
+     * @returns {D} - The data with the tenant set, or the same data if the
+     * call is not scoped.
+     */
+    stamp<D>(tenant: string | null | undefined, data: D): D {
+        if (tenant === null) {
+            return data;
+        }
+
+        if (tenant === undefined) {
+            throw new PbdAuthError("The tenant of the caller is unknown.", {
+                status: 403,
+            });
+        }
+
+        if (data instanceof FormData) {
+            this.assertTenant(tenant, data.get(this.field) ?? undefined);
+
+            const stamped: FormData = new FormData();
+            for (const [name, value] of data) {
+                if (name !== this.field) {
+                    stamped.append(name, value);
+                }
+            }
+            stamped.set(this.field, tenant);
+
+            return stamped as D;
+        }
+
+        const record: Record<string, unknown> = (data ?? {}) as Record<
+            string,
+            unknown
+        >;
+        this.assertTenant(tenant, record[this.field]);
+
+        return { ...record, [this.field]: tenant } as D;
+    }
+
+    /**
+     * Adds the tenant field to the `fields` of a read, if any, so it can
+     * be checked.
+     *
+     * @param tenant {string | null | undefined} - The tenant of the call.
+     * @param options {CommonOptions} - The request options.
+     * @returns {CommonOptions} - The request options to send.
+     */
+    readable(
+        tenant: string | null | undefined,
+        options: CommonOptions = {},
+    ): CommonOptions {
+        if (tenant === null || !options.fields) {
+            return options;
+        }
+
+        return { ...options, fields: `${options.fields},${this.field}` };
+    }
+
+    /**
+     * Checks that a record belongs to the tenant.
+     *
+     * @param tenant {string | null | undefined} - The tenant of the call.
+     * @param record {unknown} - The record.
+     * @throws {PbdNotFoundError} - If it belongs to another tenant, or the
+     * tenant is unknown.
+     * @returns {void}
+     */
+    check(tenant: string | null | undefined, record: unknown): void {
+        if (tenant === null) {
+            return;
+        }
+
+        if (
+            tenant === undefined ||
+            (record as Record<string, unknown> | null)?.[this.field] !== tenant
+        ) {
+            throw new PbdNotFoundError(
+                "The requested resource wasn't found.",
+            );
+        }
+    }
+
+    /**
+     * Checks that a stored record belongs to the tenant before it's
+     * changed, reading only its tenant field.
+     *
+     * @param tenant {string | null | undefined} - The tenant of the call.
+     * @param client {Client} - The client making the call.
+     * @param collectionName {string} - The collection of the record.
+     * @param recordId {string} - The id of the record.
+     * @throws {PbdNotFoundError} - If it belongs to another tenant, doesn't
+     * exist, or the tenant is unknown.
+     * @returns {Promise<void>}
+     */
+    async checkStored(
+        tenant: string | null | undefined,
+        client: Client,
+        collectionName: string,
+        recordId: string,
+    ): Promise<void> {
+        if (tenant === null) {
+            return;
+        }
+
+        if (tenant === undefined) {
+            this.check(tenant, null);
+        }
+
+        this.check(
+            tenant,
+            await client.collection(collectionName).getOne(recordId, {
+                fields: this.field,
+                requestKey: null,
+            }),
+        );
+    }
+
+    /**
+     * @param tenant {string} - The tenant of the call.
+     * @param value {unknown} - The tenant set by the data, if any.
+     * @throws {PbdAuthError} - If it's another tenant.
+     * @returns {void}
+     */
+    private assertTenant(tenant: string, value: unknown): void {
+        if (value !== undefined && value !== "" && value !== tenant) {
+            throw new PbdAuthError(
+                "The record can't belong to another tenant.",
+                { status: 403 },
+            );
+        }
+    }
+}
+
+/**
+ * Checks that a filter stays a single group once wrapped in parentheses:
+ * they're balanced outside of the strings (and never closed before being
+ * opened), every string is closed, and there's no comment that could
+ * hide the closing parenthesis.
+ *
+ * @param filter {string} - The filter.
+ * @returns {boolean} - Whether it can be wrapped.
+ */
+function grouped(filter: string): boolean {
+    let depth: number = 0;
+    let quote: string | null = null;
+
+    for (let i: number = 0; i < filter.length; i++) {
+        const char: string = filter[i];
+
+        if (quote !== null) {
+            // Like PocketBase, quotes after a backslash don't close strings.
+            if (char === quote && filter[i - 1] !== "\\") {
+                quote = null;
+            }
+        } else if (char === "'" || char === '"') {
+            quote = char;
+        } else if (char === "(") {
+            depth++;
+        } else if (
+            (char === ")" && --depth < 0) ||
+            (char === "/" && filter[i + 1] === "/")
+        ) {
+            return false;
+        }
+    }
+
+    return depth === 0 && quote === null;
+}
@@ -1,45 +1,1883 @@
 import Client, {
+    AuthModel,
     CollectionModel,
     CommonOptions,
     RecordListOptions,
+    RecordModel,
 } from "pocketbase";
 import Pbd from "$pbdq";
+import { PbdError } from "$errors";
+import { PbdFilter } from "$filter";
+import { PbdValidator } from "$validation";
+import { PbdRateLimiter } from "$ratelimit";
+
+/**
+ * How Pbd methods report failures.
+ *
+ * - `"throw"`: Throw a {@linkcode PbdError} (default).
+ * - `"null"`: Return `null` (or `false` for boolean methods) when
+ *   PocketBase returns an error.
+ * - `"result"`: Never throw, return a {@linkcode PbdResult} instead.
+ */
+export type PbdErrorMode = "throw" | "null" | "result";
+
+/**
+ * What list methods return when there are no items.
+ *
+ * - `"empty"`: The empty list or page as returned by PocketBase (default).
+ * - `"null"`: `null`.
+ * - `"throw"`: Fail with a {@linkcode PbdEmptyResultError}, which is
+ *   reported according to the {@linkcode PbdErrorMode}.
+ */
+export type PbdEmptyResultPolicy = "empty" | "null" | "throw";
+
+/**
+ * The value returned by Pbd methods when the `"result"` error mode is
+ * selected. Check `ok` before reading `data`.
+ */
+export type PbdResult<T> =
+    | { ok: true; data: T; error: null }
+    | { ok: false; data: null; error: PbdError };
+
+/**
+ * The return type of a Pbd method for the selected {@linkcode PbdErrorMode}.
+ * `T` is returned as is unless the `"result"` mode is selected.
+ */
+export type PbdReturn<T, M extends PbdErrorMode> = M extends "result"
+    ? PbdResult<T>
+    : T;
+
+/**
+ * Describes a single wrapped call. Every Pbd method builds one of these
+ * and hands it to the Pbd executor along with the actual SDK call.
+ */
+export interface PbdCall<T> {
+    /**
+     * The name of the Pbd method being called.
+     * @type {string}
+     */
+    method: string;
+
+    /**
+     * The collection the call operates on (if any).
+     * @type {string}
+     */
+    collectionName?: string;
+
+    /**
+     * The authentication the call requires when `unauthorized_errors`
+     * is enabled.
+     * @type {"user" | "admin"}
+     */
+    guard?: "user" | "admin";
+
+    /**
+     * The value returned instead of the error in the `"null"` error mode.
+     * Every Pbd method sets it, the steps run by a {@linkcode PbdRunner}
+     * don't need one since they always reject.
+     * @type {T}
+     */
+    fallback?: T;
+
+    /**
+     * The arguments the Pbd method was called with, for the middleware.
+     * @type {unknown[]}
+     */
+    args?: unknown[];
+
+    /**
+     * Set on reads that can be served from the cache. Identifies the
+     * result together with the method, collection and auth token.
+     * @type {unknown}
+     */
+    cacheQuery?: unknown;
+
+    /**
+     * Set on the record calls the `tenancy` option scopes. The tenant of
+     * the collection is resolved as the call runs, handed to the SDK call
+     * and kept in the cache key.
+     * @type {boolean}
+     */
+    scoped?: boolean;
+
+    /**
+     * Set on writes. The cached reads of the collection are dropped once
+     * the write succeeds.
+     * @type {boolean}
+     */
+    invalidates?: boolean;
+
+    /**
+     * Set on calls that can safely be sent twice (reads). Only these are
+     * retried, unless the retry policy sets `idempotentOnly` to false.
+     * @type {boolean}
+     */
+    idempotent?: boolean;
+
+    /**
+     * The retry policy of this call, merged over the `retry` option of the
+     * instance. `false` disables retries.
+     * @type {PbdRetryOptions | false}
+     */
+    retry?: PbdRetryOptions | false;
+}
+
+/**
+ * Runs a step of a Pbd method that makes many requests, like a page of
+ * {@linkcode Pbd.iterate} or an operation of {@linkcode Pbd.batch},
+ * through the same middleware, rate limit, retry policy, circuit breaker
+ * and pool as any other call. It rejects with a {@linkcode PbdError}
+ * whatever the error mode, the method reports it.
+ *
+ * The SDK call gets the tenant of scoped calls (see `scoped`), `null`
+ * otherwise.
+ */
+export type PbdRunner = <T>(
+    call: PbdCall<T>,
+    fn: (client: Client, tenant: string | null | undefined) => Promise<T>,
+) => Promise<T>;
+
+/**
+ * A wrapped call as seen by the middleware, see {@linkcode Pbd.use}.
+ */
+export interface PbdContext {
+    /**
+     * The name of the Pbd method being called, e.g. `getOne`.
+     * @type {string}
+     */
+    method: string;
+
+    /**
+     * The collection the call operates on (if any).
+     * @type {string}
+     */
+    collectionName?: string;
+
+    /**
+     * The arguments the Pbd method was called with.
+     * @type {unknown[]}
+     */
+    args: unknown[];
+
+    /**
+     * The client of the instance running the call, with the auth state the
+     * call is made with (instances returned by {@linkcode Pbd.as} have
+     * their own).
+     * @type {Client}
+     */
+    client: Client;
+
+    /**
+     * Extra headers sent with the PocketBase requests of the call. Set them
+     * before calling `next()`.
+     * @type {Record<string, string>}
+     */
+    headers: Record<string, string>;
+
+    /**
+     * Free space for the middleware to share data along the chain.
+     * @type {Record<string, unknown>}
+     */
+    state: Record<string, unknown>;
+
+    /**
+     * When the call started (ms since the epoch).
+     * @type {number}
+     */
+    startedAt: number;
+
+    /**
+     * How long (in milliseconds) the call took, set once `next()`
+     * resolves.
+     * @type {number}
+     */
+    duration: number;
+
+    /**
+     * How many times the call was sent to PocketBase, retries included.
+     * `0` when it was served from the cache or stopped before being sent.
+     * @type {number}
+     */
+    attempts: number;
+
+    /**
+     * The result of the call, set once `next()` resolves. The middleware
+     * can replace it.
+     * @type {unknown}
+     */
+    result: unknown;
+
+    /**
+     * The error of the call, set once `next()` resolves. The middleware can
+     * replace it, clear it (setting a `result`), or set it without calling
+     * `next()` to stop the call.
+     * @type {PbdError | null}
+     */
+    error: PbdError | null;
+}
+
+/**
+ * A middleware that runs around every wrapped call, see
+ * {@linkcode Pbd.use}. `next()` runs the rest of the chain and the call
+ * itself, it never rejects: failures are set in `ctx.error`.
+ */
+export type PbdMiddleware = (
+    ctx: PbdContext,
+    next: () => Promise<void>,
+) => Promise<void>;
+
+/**
+ * The attributes of a span or metric data point.
+ */
+export type PbdAttributes = Record<string, string | number | boolean>;
+
+/**
+ * A finished span, one per wrapped call. See {@linkcode PbdTelemetry}.
+ */
+export interface PbdSpan {
+    /**
+     * The trace of the span (32 hex characters).
+     * @type {string}
+     */
+    traceId: string;
+
+    /**
+     * The id of the span (16 hex characters).
+     * @type {string}
+     */
+    spanId: string;
+
+    /**
+     * The parent span, when the call was made within a trace.
+     * @type {string}
+     */
+    parentSpanId?: string;
+
+    /**
+     * The span name, the Pbd method and the collection (if any).
+     * @type {string}
+     */
+    name: string;
+
+    /**
+     * When the call started (ms since the epoch).
+     * @type {number}
+     */
+    startTime: number;
+
+    /**
+     * When the call ended (ms since the epoch).
+     * @type {number}
+     */
+    endTime: number;
+
+    /**
+     * The method, collection, record id, status code and retry count.
+     * @type {PbdAttributes}
+     */
+    attributes: PbdAttributes;
+
+    /**
+     * The error message if the call failed, `null` otherwise.
+     * @type {string | null}
+     */
+    error: string | null;
+}
+
+/**
+ * A data point of a {@linkcode PbdMetric}, one per set of attributes.
+ */
+export interface PbdMetricPoint {
+    /**
+     * The attributes of the point.
+     * @type {PbdAttributes}
+     */
+    attributes: PbdAttributes;
+
+    /**
+     * When the point started counting (ms since the epoch).
+     * @type {number}
+     */
+    startTime: number;
+
+    /**
+     * The number of recorded values. For counters, the counter value.
+     * @type {number}
+     */
+    count: number;
+
+    /**
+     * The sum of the recorded values.
+     * @type {number}
+     */
+    sum: number;
+
+    /**
+     * The number of values in each histogram bucket, one more than the
+     * bucket bounds. Only set for histograms.
+     * @type {number[]}
+     */
+    bucketCounts?: number[];
+}
+
+/**
+ * A cumulative metric, see {@linkcode PbdTelemetry}.
+ */
+export interface PbdMetric {
+    /**
+     * The metric name, e.g. `pbdq.call.duration`.
+     * @type {string}
+     */
+    name: string;
+
+    /**
+     * What the metric measures.
+     * @type {string}
+     */
+    description: string;
+
+    /**
+     * The unit of the values, e.g. `ms`.
+     * @type {string}
+     */
+    unit: string;
+
+    /**
+     * The kind of metric.
+     * @type {"histogram" | "counter"}
+     */
+    type: "histogram" | "counter";
+
+    /**
+     * The upper bounds of the histogram buckets. Only set for histograms.
+     * @type {number[]}
+     */
+    bounds?: number[];
+
+    /**
+     * The data points.
+     * @type {PbdMetricPoint[]}
+     */
+    points: PbdMetricPoint[];
+}
+
+/**
+ * Sends spans and metrics somewhere. Pbd comes with an OTLP/HTTP exporter
+ * ({@linkcode PbdOtlpExporter}), implement this interface to send them
+ * anywhere else.
+ */
+export interface PbdTelemetryExporter {
+    /**
+     * Sends a batch of finished spans.
+     *
+     * @param spans {PbdSpan[]} - The spans.
+     * @returns {Promise<void>}
+     */
+    exportSpans(spans: PbdSpan[]): Promise<void>;
+
+    /**
+     * Sends the current value of every metric.
+     *
+     * @param metrics {PbdMetric[]} - The metrics.
+     * @returns {Promise<void>}
+     */
+    exportMetrics(metrics: PbdMetric[]): Promise<void>;
+}
+
+/**
+ * The options for {@linkcode PbdTelemetry}.
+ */
+export interface PbdTelemetryOptions {
+    /**
+     * Where the spans and metrics are sent.
+     * @type {PbdTelemetryExporter}
+     */
+    exporter: PbdTelemetryExporter;
+
+    /**
+     * How many finished spans are kept before they're exported.
+     *
+     * **Default:** `100`
+     *
+     * @type {number}
+     */
+    batchSize?: number;
+
+    /**
+     * The upper bounds (in milliseconds) of the latency histogram buckets.
+     *
+     * **Default:** `[5, 10, 25, 50, 100, 250, 500, 1000, 2500, 5000, 10000]`
+     *
+     * @type {number[]}
+     */
+    bounds?: number[];
+
+    /**
+     * Send a `traceparent` header with every PocketBase request, so the
+     * calls can be linked to the PocketBase logs.
+     *
+     * **Default:** `false`
+     *
+     * @type {boolean}
+     */
+    propagate?: boolean;
+}
+
+/**
+ * The options for {@linkcode PbdOtlpExporter}.
+ */
+export interface PbdOtlpExporterOptions {
+    /**
+     * The base URL of the OTLP/HTTP collector, the `/v1/traces` and
+     * `/v1/metrics` paths are added to it.
+     *
+     * **Default:** `"http://localhost:4318"`
+     *
+     * @type {string}
+     */
+    url?: string;
+
+    /**
+     * Extra headers sent to the collector, e.g. an API key.
+     * @type {Record<string, string>}
+     */
+    headers?: Record<string, string>;
+
+    /**
+     * The `service.name` resource attribute.
+     *
+     * **Default:** `"pbdq"`
+     *
+     * @type {string}
+     */
+    serviceName?: string;
+}
+
+/**
+ * The severity of a log entry, from the least to the most severe.
+ */
+export type PbdLogLevel = "debug" | "info" | "warn" | "error";
+
+/**
+ * A structured log entry. Pbd logs one entry per wrapped call, with the
+ * arguments already redacted (see {@linkcode redact}).
+ */
+export interface PbdLogEntry {
+    /**
+     * @type {PbdLogLevel}
+     */
+    level: PbdLogLevel;
+
+    /**
+     * A short human readable description, e.g. `getOne cats failed`.
+     * @type {string}
+     */
+    message: string;
+
+    /**
+     * When the entry was logged, as an ISO 8601 string.
+     * @type {string}
+     */
+    time: string;
+
+    /**
+     * Any other field: the call context (`method`, `collectionName`, `args`,
+     * `duration`, `attempts`, `error`) and the per-call context set in
+     * `ctx.state.log` by a middleware.
+     */
+    [key: string]: unknown;
+}
+
+/**
+ * Receives the log entries of Pbd. Pbd comes with a JSON lines logger
+ * ({@linkcode PbdJsonLogger}), implement this interface to forward the
+ * entries to any other logging library.
+ */
+export interface PbdLogger {
+    /**
+     * The least severe level that is logged, entries below it are never
+     * built.
+     * @type {PbdLogLevel}
+     */
+    level: PbdLogLevel;
+
+    /**
+     * Writes an entry.
+     *
+     * @param entry {PbdLogEntry} - The entry.
+     * @returns {void}
+     */
+    log(entry: PbdLogEntry): void;
+}
+
+/**
+ * The options for {@linkcode PbdJsonLogger}.
+ */
+export interface PbdJsonLoggerOptions {
+    /**
+     * The least severe level that is logged.
+     *
+     * **Default:** `"info"`
+     *
+     * @type {PbdLogLevel}
+     */
+    level?: PbdLogLevel;
+
+    /**
+     * Fields added to every entry, e.g. the service name.
+     * @type {Record<string, unknown>}
+     */
+    context?: Record<string, unknown>;
+
+    /**
+     * The fields that are redacted, either a field name (`"token"`) or the
+     * path of a nested field (`"authStore.token"`).
+     *
+     * **Default:** {@linkcode PBD_REDACTED_FIELDS}
+     *
+     * @type {string[]}
+     */
+    redact?: string[];
+
+    /**
+     * Writes a line of JSON.
+     *
+     * **Default:** Writes the line to stderr.
+     *
+     * @type {(line: string) => void}
+     */
+    write?: (line: string) => void;
+}
+
+/**
+ * The credentials {@linkcode PbdTokenRefresher} logs in again with when
+ * the token can't be refreshed.
+ */
+export interface PbdRefreshCredentials {
+    /**
+     * @type {string}
+     */
+    email: string;
+
+    /**
+     * @type {string}
+     */
+    password: string;
+
+    /**
+     * The auth collection of the user, leave it out for an admin.
+     * @type {string}
+     */
+    collectionName?: string;
+}
+
+/**
+ * The options for {@linkcode PbdTokenRefresher}.
+ */
+export interface PbdRefreshOptions {
+    /**
+     * How long (in milliseconds) before the token expires it's refreshed.
+     *
+     * **Default:** `300000` (5 minutes)
+     *
+     * @type {number}
+     */
+    refreshBefore?: number;
+
+    /**
+     * How long (in milliseconds) to wait before trying a failed refresh
+     * again.
+     *
+     * **Default:** `30000`
+     *
+     * @type {number}
+     */
+    retryDelay?: number;
+
+    /**
+     * Log in again with these credentials when the token can't be
+     * refreshed (e.g. it already expired).
+     *
+     * **Default:** No re-login.
+     *
+     * @type {PbdRefreshCredentials}
+     */
+    credentials?: PbdRefreshCredentials;
+}
+
+/**
+ * Describes a failed refresh, see {@linkcode PbdTokenRefresher.onFailure}.
+ */
+export interface PbdRefreshFailure {
+    /**
+     * The error of the refresh, or of the re-login if there are
+     * credentials.
+     * @type {PbdError}
+     */
+    error: PbdError;
+
+    /**
+     * When (in milliseconds) the refresh is tried again, `null` when the
+     * refresher gave up: the token was rejected (and cleared) or expired.
+     * @type {number | null}
+     */
+    retryIn: number | null;
+}
+
+/**
+ * The persisted auth state of one identity.
+ */
+export interface PbdAuthSnapshot {
+    /**
+     * The auth token.
+     * @type {string}
+     */
+    token: string;
+
+    /**
+     * The authenticated admin or record.
+     * @type {AuthModel}
+     */
+    model: AuthModel;
+}
+
+/**
+ * Where a {@linkcode PbdAuthStore} persists the auth state of its
+ * identities. Pbd comes with a Deno KV ({@linkcode PbdKvAuthStorage}) and
+ * an encrypted file ({@linkcode PbdFileAuthStorage}) storage.
+ */
+export interface PbdAuthStorage {
+    /**
+     * @param identity {string} - The name of the identity.
+     * @returns {Promise<PbdAuthSnapshot | null>} - The auth state, or null.
+     */
+    get(identity: string): Promise<PbdAuthSnapshot | null>;
+
+    /**
+     * @param identity {string} - The name of the identity.
+     * @param snapshot {PbdAuthSnapshot | null} - The auth state, null to
+     * forget it.
+     * @returns {Promise<void>}
+     */
+    set(identity: string, snapshot: PbdAuthSnapshot | null): Promise<void>;
+
+    /**
+     * @returns {Promise<string[]>} - The identities with a persisted auth
+     * state.
+     */
+    identities(): Promise<string[]>;
+}
+
+/**
+ * The options for {@linkcode PbdAuthStore}.
+ */
+export interface PbdAuthStoreOptions {
+    /**
+     * Where the auth state is persisted.
+     * @type {PbdAuthStorage}
+     */
+    storage: PbdAuthStorage;
+
+    /**
+     * The identity used until {@linkcode PbdAuthStore.switchTo} is called.
+     *
+     * **Default:** `"default"`
+     *
+     * @type {string}
+     */
+    identity?: string;
+
+    /**
+     * How long (in milliseconds) before the token expires it's refreshed,
+     * once the store is used by a Pbd instance. See
+     * {@linkcode PbdTokenRefresher}.
+     *
+     * **Default:** `300000` (5 minutes)
+     *
+     * @type {number}
+     */
+    refreshBefore?: number;
+}
+
+/**
+ * The options for {@linkcode PbdFileAuthStorage}.
+ */
+export interface PbdFileAuthStorageOptions {
+    /**
+     * The path of the file, created on the first write.
+     * @type {string}
+     */
+    path: string;
+
+    /**
+     * The secret the file is encrypted with (AES-GCM). Either a long random
+     * string or an AES-GCM `CryptoKey`.
+     * @type {string | CryptoKey}
+     */
+    secret: string | CryptoKey;
+}
+
+/**
+ * Request headers, either a `Headers` object (Fetch API, Oak) or a plain
+ * object (Node.js, Express).
+ */
+export type PbdHeadersLike =
+    | Headers
+    | Record<string, string | string[] | undefined>;
+
+/**
+ * Anything {@linkcode Pbd.forRequest} can read the bearer token (and the
+ * client IP, if any) of: a `Request`, an Express request, or an Oak
+ * context (`{ request }`).
+ */
+export type PbdRequestLike =
+    | { headers: PbdHeadersLike; ip?: string }
+    | { request: { headers: PbdHeadersLike; ip?: string } };
+
+/**
+ * What an instance bound to a token (see {@linkcode Pbd.as}) knows about
+ * the request it serves, used by the `rateLimit` option of
+ * {@linkcode Pbd}.
+ */
+export interface PbdScopeOptions {
+    /**
+     * The client IP. Guests are counted by it.
+     *
+     * **Default:** Guests share the same counters.
+     *
+     * @type {string}
+     */
+    ip?: string;
+
+    /**
+     * The decoded token. Once verified (see {@linkcode PbdJwtInfo}), the
+     * calls are counted by the admin or record id of the token.
+     *
+     * @type {PbdJwtInfo | null}
+     */
+    auth?: PbdJwtInfo | null;
+}
+
+/**
+ * What the Pbd HTTP middleware (see {@linkcode pbdAuthenticate}) attach to
+ * every request: `ctx.state` on Oak, `c.var` on Hono and `res.locals` on
+ * Express.
+ */
+export interface PbdHttpState<
+    M extends PbdErrorMode = "throw",
+    S extends PbdSchemaMap = PbdUntypedSchema,
+> {
+    /**
+     * A Pbd instance bound to the bearer token of the request (a guest one
+     * without a token), see {@linkcode Pbd.as}.
+     * @type {Pbd<M, S>}
+     */
+    pbd: Pbd<M, S>;
+
+    /**
+     * The decoded bearer token, `null` for guests.
+     * @type {PbdJwtInfo | null}
+     */
+    auth: PbdJwtInfo | null;
+}
+
+/**
+ * The options of the Pbd HTTP middleware, see {@linkcode pbdAuthenticate}.
+ */
+export interface PbdHttpOptions {
+    /**
+     * Verify the signature of the bearer tokens locally with this secret
+     * (see `PbdExt.auth.verifyJwt`), answering 401 to forged tokens before
+     * PocketBase is called. The auth guards (see {@linkcode pbdAuthorize})
+     * need it: without it, they fail every request with a token.
+     *
+     * **Default:** Only malformed and expired tokens are rejected.
+     *
+     * @type {PbdJwtSecret}
+     */
+    secret?: PbdJwtSecret;
+
+    /**
+     * Limits the requests of each user (by the record or admin id of the
+     * bearer token, once verified with `secret`) and guest (by client IP),
+     * answering 429 with a `Retry-After` header once the limit is reached.
+     * Without a `secret` every request is counted by client IP, since an
+     * unverified token can claim any id. Behind a reverse proxy, set up
+     * the framework to trust it so the client IP is the real one.
+     *
+     * **Default:** No rate limit.
+     *
+     * @type {PbdRateLimiter}
+     */
+    rateLimit?: PbdRateLimiter;
+}
+
+/**
+ * The connection info `Deno.serve` passes to its handlers, used for the
+ * client IP.
+ */
+export interface PbdConnInfo {
+    /**
+     * The address of the client.
+     * @type {{ hostname: string }}
+     */
+    remoteAddr: { hostname: string };
+}
+
+/**
+ * Who may go past an auth guard: any authenticated user or admin
+ * (`"auth"`), or only admins (`"admin"`).
+ */
+export type PbdAuthLevel = "auth" | "admin";
+
+/**
+ * An error response, in the same shape PocketBase uses.
+ */
+export interface PbdHttpError {
+    /**
+     * The HTTP status code.
+     * @type {number}
+     */
+    status: number;
+
+    /**
+     * The response body.
+     * @type {{ code: number; message: string; data: Record<string, unknown> }}
+     */
+    body: { code: number; message: string; data: Record<string, unknown> };
+
+    /**
+     * The response headers, like `Retry-After` for rate limited requests.
+     * @type {Record<string, string>}
+     */
+    headers: Record<string, string>;
+}
+
+/**
+ * The parts of an Oak `Context` the Pbd middleware use. Oak contexts match
+ * it as they are, without pbdq depending on Oak.
+ */
+export interface PbdOakContext {
+    /**
+     * @type {{ headers: Headers; ip?: string }}
+     */
+    request: { headers: Headers; ip?: string };
+
+    /**
+     * @type {{ status: number; body?: unknown; headers: Headers }}
+     */
+    response: { status: number; body?: unknown; headers: Headers };
+
+    /**
+     * The Oak application state, see {@linkcode PbdHttpState}.
+     * @type {Record<string, unknown>}
+     */
+    state: Record<string, unknown>;
+}
+
+/**
+ * An Oak middleware, see {@linkcode pbdOak}.
+ */
+export type PbdOakMiddleware = (
+    ctx: PbdOakContext,
+    next: () => Promise<unknown>,
+) => Promise<void>;
+
+/**
+ * The parts of a Hono `Context` the Pbd middleware use.
+ */
+export interface PbdHonoContext {
+    /**
+     * @type {{ raw: Request }}
+     */
+    req: { raw: Request };
+
+    /**
+     * The response, replaced by the middleware on errors.
+     * @type {Response}
+     */
+    res: Response;
+
+    /**
+     * The error thrown by the next handlers, if any.
+     * @type {Error | undefined}
+     */
+    error?: Error;
+
+    /**
+     * The runtime bindings. On Deno they hold the connection info (see
+     * {@linkcode PbdConnInfo}), used for the client IP.
+     * @type {unknown}
+     */
+    env?: unknown;
+
+    /**
+     * Sets a context variable, see {@linkcode PbdHttpState}.
+     *
+     * @param key {string} - The variable name.
+     * @param value {unknown} - The value.
+     * @returns {void}
+     */
+    set(key: string, value: unknown): void;
+
+    /**
+     * Gets a context variable.
+     *
+     * @param key {string} - The variable name.
+     * @returns {unknown} - The value.
+     */
+    get(key: string): unknown;
+}
+
+/**
+ * A Hono middleware, see {@linkcode pbdHono}.
+ */
+export type PbdHonoMiddleware = (
+    c: PbdHonoContext,
+    next: () => Promise<void>,
+) => Promise<void>;
+
+/**
+ * The parts of an Express request the Pbd middleware use.
+ */
+export interface PbdExpressRequest {
+    /**
+     * @type {Record<string, string | string[] | undefined>}
+     */
+    headers: Record<string, string | string[] | undefined>;
+
+    /**
+     * The client IP (see the `trust proxy` setting of Express).
+     * @type {string | undefined}
+     */
+    ip?: string;
+}
+
+/**
+ * The parts of an Express response the Pbd middleware use.
+ */
+export interface PbdExpressResponse {
+    /**
+     * The response locals, see {@linkcode PbdHttpState}.
+     * @type {Record<string, unknown>}
+     */
+    locals: Record<string, unknown>;
+
+    /**
+     * Whether the response was already (partly) sent.
+     * @type {boolean}
+     */
+    headersSent: boolean;
+
+    /**
+     * @param code {number} - The HTTP status code.
+     * @returns {PbdExpressResponse} - The response.
+     */
+    status(code: number): PbdExpressResponse;
+
+    /**
+     * @param headers {Record<string, string>} - The headers to set.
+     * @returns {unknown}
+     */
+    set(headers: Record<string, string>): unknown;
+
+    /**
+     * @param body {unknown} - The JSON body to send.
+     * @returns {unknown}
+     */
+    json(body: unknown): unknown;
+}
+
+/**
+ * An Express middleware, see {@linkcode pbdExpress}.
+ */
+export type PbdExpressMiddleware = (
+    req: PbdExpressRequest,
+    res: PbdExpressResponse,
+    next: (err?: unknown) => void,
+) => Promise<void>;
+
+/**
+ * An Express error handler, see {@linkcode pbdExpressErrors}.
+ */
+export type PbdExpressErrorHandler = (
+    err: unknown,
+    req: PbdExpressRequest,
+    res: PbdExpressResponse,
+    next: (err?: unknown) => void,
+) => void;
+
+/**
+ * A `Deno.serve` (or any `fetch` style) handler, see {@linkcode pbdFetch}.
+ */
+export type PbdFetchHandler<
+    M extends PbdErrorMode = "throw",
+    S extends PbdSchemaMap = PbdUntypedSchema,
+> = (
+    req: Request,
+    state: PbdHttpState<M, S>,
+) => Response | Promise<Response>;
+
+/**
+ * The collection operations a {@linkcode PbdRouteConfig} can expose.
+ */
+export type PbdRouteMethod = "list" | "view" | "create" | "update" | "delete";
+
+/**
+ * A route of {@linkcode createPbdRouter}: a custom path re-exposing the
+ * records of a collection.
+ */
+export interface PbdRouteConfig {
+    /**
+     * The path of the records, e.g. `/v1/pets` (or `/v1/pets/:id`). The
+     * list and create operations are served on it, and the rest on
+     * `/v1/pets/<id>`.
+     * @type {string}
+     */
+    path: string;
+
+    /**
+     * The collection the route exposes.
+     * @type {string}
+     */
+    collectionName: string;
+
+    /**
+     * The operations the route allows, the rest are answered with a 405.
+     *
+     * **Default:** `["list", "view"]`
+     *
+     * @type {PbdRouteMethod[]}
+     */
+    methods?: PbdRouteMethod[];
+
+    /**
+     * The only fields the route returns and accepts on writes (writing
+     * other fields is answered with a 400).
+     *
+     * **Default:** Every field.
+     *
+     * @type {string[]}
+     */
+    fields?: string[];
+
+    /**
+     * Whether the `filter` query parameter is passed to PocketBase, or the
+     * only fields it may use. `true` allows the `fields` of the route.
+     *
+     * **Default:** `false`
+     *
+     * @type {boolean | string[]}
+     */
+    filter?: boolean | string[];
+
+    /**
+     * Whether the `sort` query parameter is passed to PocketBase, or the
+     * only fields it may use. `true` allows the `fields` of the route.
+     *
+     * **Default:** `false`
+     *
+     * @type {boolean | string[]}
+     */
+    sort?: boolean | string[];
+
+    /**
+     * The highest `perPage` query parameter of the list operation.
+     *
+     * **Default:** `100`
+     *
+     * @type {number}
+     */
+    maxPerPage?: number;
+}
+
+/**
+ * The configuration of {@linkcode createPbdRouter}.
+ */
+export interface PbdRouterConfig extends PbdHttpOptions {
+    /**
+     * The routes, the first one matching a request serves it.
+     * @type {PbdRouteConfig[]}
+     */
+    routes: PbdRouteConfig[];
+}
+
+/**
+ * A router built by {@linkcode createPbdRouter}: answers the requests of
+ * its routes, and resolves with `null` for the rest.
+ */
+export type PbdRouter = (
+    req: Request,
+    info?: PbdConnInfo,
+) => Promise<Response | null>;
+
+/**
+ * The options of {@linkcode pbdProxy}.
+ */
+export interface PbdProxyOptions extends PbdHttpOptions {
+    /**
+     * The path the proxy is mounted on, e.g. `/pb`. It's removed before
+     * forwarding, and requests outside of it resolve with `null`.
+     *
+     * **Default:** `""`
+     *
+     * @type {string}
+     */
+    prefix?: string;
+
+    /**
+     * Rewrites the path of the requests (without the prefix) into the
+     * PocketBase one. The allow and deny rules apply to the result.
+     *
+     * @param path {string} - The path.
+     * @returns {string} - The PocketBase path.
+     */
+    rewrite?: (path: string) => string;
+
+    /**
+     * Extra headers added to every forwarded request.
+     * @type {Record<string, string> | ((req: Request) => Record<string, string>)}
+     */
+    headers?:
+        | Record<string, string>
+        | ((req: Request) => Record<string, string>);
+
+    /**
+     * The only PocketBase paths (and the paths below them) forwarded, the
+     * rest are answered with a 403.
+     *
+     * **Default:** Every path that isn't denied.
+     *
+     * @type {string[]}
+     */
+    allow?: string[];
+
+    /**
+     * The PocketBase paths (and the paths below them) never forwarded,
+     * answered with a 403. Pass an empty list to forward them.
+     *
+     * **Default:** {@linkcode PBD_PROXY_DENIED}
+     *
+     * @type {string[]}
+     */
+    deny?: string[];
+
+    /**
+     * Whose token the forwarded requests carry: the bearer token of the
+     * request (`"forward"`, checked like the HTTP middleware do), or the
+     * auth state of the Pbd instance (`"pbd"`), for gateways that make
+     * every request as their own user.
+     *
+     * **Default:** `"forward"`
+     *
+     * @type {"forward" | "pbd"}
+     */
+    auth?: "forward" | "pbd";
+}
+
+/**
+ * A proxy built by {@linkcode pbdProxy}: forwards the requests below its
+ * prefix, and resolves with `null` for the rest.
+ */
+export type PbdProxy = (
+    req: Request,
+    info?: PbdConnInfo,
+) => Promise<Response | null>;
 
 /**
  * The options for the Pbd wrapper object. As of now, it only needs an already
  * initialized pocketbase client.
  */
-export interface PbdOptions {
+export interface PbdOptions<M extends PbdErrorMode = PbdErrorMode> {
+    /**
+     * The initialized pocketbase client to use for querying.
+     *
+     * @type {Client}
+     */
+    client: Client;
+
+    /**
+     * If set to true, Pbd class methods that require authentication will
+     * throw an error if the client `authStore` is not valid.
+     *
+     * @type {boolean}
+     */
+    unauthorized_errors?: boolean;
+
+    /**
+     * If set to true, Pbd class methods that get any {@linkcode ClientResponseError} will
+     * return an empty array or an empty object instead of throwing an error.
+     *
+     * **Note:** This only applies to the methods that are async since it is possible
+     * to further handle errors with `.catch()`.
+     *
+     * PBD errors are not covered by this option. You'll still need to handle
+     * those yourself.
+     *
+     * @deprecated Use `error_mode: "null"` instead.
+     * @type {boolean}
+     */
+    return_empty_on_error?: boolean;
+
+    /**
+     * How Pbd methods report failures. See {@linkcode PbdErrorMode}.
+     *
+     * **Default:** `"throw"`, or `"null"` if `return_empty_on_error` is set.
+     *
+     * @type {PbdErrorMode}
+     */
+    error_mode?: M;
+
+    /**
+     * What list methods (`getList`, `getFullList`, `getCollectionList`,
+     * `adminGetList`, `getLogList`, `listBackups`, etc.) return when there
+     * are no items. See {@linkcode PbdEmptyResultPolicy}.
+     *
+     * **Default:** `"empty"`
+     *
+     * @type {PbdEmptyResultPolicy}
+     */
+    empty_result?: PbdEmptyResultPolicy;
+
+    /**
+     * Caches the results of `getOne`, `getList`, `getFullList` and
+     * `getFirstListItem`. Writes made through this instance drop the
+     * cached reads of the written collection.
+     *
+     * **Default:** No cache.
+     *
+     * @type {PbdCacheOptions}
+     */
+    cache?: PbdCacheOptions;
+
+    /**
+     * Retries the calls that fail with a transient error, like PocketBase
+     * restarting. Only reads are retried unless `idempotentOnly` is set to
+     * false. Record methods can override this through their `retry` option.
+     *
+     * **Default:** No retries.
+     *
+     * @type {PbdRetryOptions}
+     */
+    retry?: PbdRetryOptions;
+
+    /**
+     * Fails fast with a {@linkcode PbdCircuitOpenError} once PocketBase
+     * fails too often, until a health check passes again. See
+     * {@linkcode PbdCircuitBreaker}.
+     *
+     * **Default:** No circuit breaker.
+     *
+     * @type {PbdCircuitOptions}
+     */
+    circuit?: PbdCircuitOptions;
+
+    /**
+     * Limits the calls each caller can make, per method and collection.
+     * Callers are counted by the admin or record id of their token once
+     * it's known to be authentic: PocketBase issued it (e.g. with
+     * `authRefresh`) or accepted it for a call that requires auth, or the
+     * HTTP middleware verified it (see {@linkcode Pbd.as}). Other tokens
+     * are counted on their own rather than by the id they claim, and
+     * guests by the client IP of {@linkcode Pbd.as} (or together without
+     * one). Calls over a limit fail with a {@linkcode PbdRateLimitError}.
+     *
+     * **Default:** No rate limits.
+     *
+     * @type {PbdRateLimitRule[]}
+     */
+    rateLimit?: PbdRateLimitRule[];
+
+    /**
+     * Scopes the record calls to the tenant of the caller: list filters
+     * only match its records, `create` and `update` set its tenant, and
+     * `getOne`, `update` and `delete` fail with a
+     * {@linkcode PbdNotFoundError} for the records of other tenants. See
+     * {@linkcode PbdTenancy} and {@linkcode Pbd.forTenant}.
+     *
+     * **Default:** No tenancy.
+     *
+     * @type {PbdTenancyOptions}
+     */
+    tenancy?: PbdTenancyOptions;
+
+    /**
+     * Spreads the reads over read replicas of PocketBase. `client` is the
+     * primary, every write goes to it. See {@linkcode PbdPool}.
+     *
+     * **Default:** Every call goes to `client`.
+     *
+     * @type {PbdPoolOptions}
+     */
+    pool?: PbdPoolOptions;
+
+    /**
+     * Logs every wrapped call: failures as `"warn"` (or `"error"` when
+     * PocketBase is down or unreachable) and the rest as `"debug"`. Passwords,
+     * tokens and private keys are redacted from the logged arguments. See
+     * {@linkcode PbdJsonLogger}.
+     *
+     * **Default:** Nothing is logged.
+     *
+     * @type {PbdLogger}
+     */
+    logger?: PbdLogger;
+
+    /**
+     * Refreshes the auth token before it expires, and optionally logs in
+     * again with stored credentials when it can't be refreshed. See
+     * {@linkcode PbdTokenRefresher}. Clients using a {@linkcode PbdAuthStore}
+     * are refreshed even without this option.
+     *
+     * **Default:** `false`
+     *
+     * @type {PbdRefreshOptions | boolean}
+     */
+    refresh?: PbdRefreshOptions | boolean;
+
+    /**
+     * Validates the data of `create` and `update` against the collection
+     * schema before sending it, failing with a {@linkcode PbdValidationError}
+     * that uses the same per-field shape as PocketBase.
+     *
+     * - `true`: Load each collection schema with `getOneCollection` the
+     *   first time it's needed (requires admin auth).
+     * - `CollectionModel[]`: The collections of a `collections.json` export.
+     * - `PbdValidator`: A validator you created yourself.
+     *
+     * **Default:** `false`
+     *
+     * @type {boolean | CollectionModel[] | PbdValidator}
+     */
+    validation?: boolean | CollectionModel[] | PbdValidator;
+}
+
+/**
+ * A cached result, as kept by a {@linkcode PbdCacheStore}.
+ */
+export interface PbdCacheEntry {
+    /**
+     * The cached result.
+     * @type {unknown}
+     */
+    value: unknown;
+
+    /**
+     * When the entry stops being fresh (ms since the epoch).
+     * @type {number}
+     */
+    expiresAt: number;
+
+    /**
+     * When the entry can't be served, not even while it's revalidated
+     * (ms since the epoch). Stores can drop the entry after this.
+     * @type {number}
+     */
+    staleUntil: number;
+}
+
+/**
+ * Where cached results are kept. Pbd comes with an in-memory LRU store
+ * ({@linkcode PbdMemoryCache}) and a Deno KV store ({@linkcode PbdKvCache}),
+ * implement this interface to use anything else.
+ *
+ * Entries are grouped by collection so a write can drop every cached
+ * read of that collection at once.
+ */
+export interface PbdCacheStore {
+    /**
+     * Gets an entry.
+     *
+     * @param collectionName {string} - The collection of the entry.
+     * @param key {string} - The key of the entry.
+     * @returns {Promise<PbdCacheEntry | null>} - The entry, or null.
+     */
+    get(collectionName: string, key: string): Promise<PbdCacheEntry | null>;
+
+    /**
+     * Stores an entry.
+     *
+     * @param collectionName {string} - The collection of the entry.
+     * @param key {string} - The key of the entry.
+     * @param entry {PbdCacheEntry} - The entry.
+     * @returns {Promise<void>}
+     */
+    set(
+        collectionName: string,
+        key: string,
+        entry: PbdCacheEntry,
+    ): Promise<void>;
+
+    /**
+     * Drops every entry of a collection.
+     *
+     * @param collectionName {string} - The collection.
+     * @returns {Promise<void>}
+     */
+    invalidate(collectionName: string): Promise<void>;
+}
+
+/**
+ * The options for the Pbd cache.
+ */
+export interface PbdCacheOptions {
+    /**
+     * Where the cached results are kept.
+     * @type {PbdCacheStore}
+     */
+    store: PbdCacheStore;
+
+    /**
+     * How long (in milliseconds) a result is fresh.
+     *
+     * **Default:** `60000`
+     *
+     * @type {number}
+     */
+    ttl?: number;
+
+    /**
+     * How long (in milliseconds) after `ttl` a result is still served while
+     * it's refreshed in the background.
+     *
+     * **Default:** `0`
+     *
+     * @type {number}
+     */
+    staleWhileRevalidate?: number;
+}
+
+/**
+ * When and how failed calls are retried, see {@linkcode withRetry}.
+ */
+export interface PbdRetryOptions {
+    /**
+     * The maximum number of attempts, counting the first one.
+     *
+     * **Default:** `3`
+     *
+     * @type {number}
+     */
+    attempts?: number;
+
+    /**
+     * The base delay (in milliseconds) of the exponential backoff. The
+     * actual delay is random, up to `delay * 2 ** (attempt - 1)`.
+     *
+     * **Default:** `200`
+     *
+     * @type {number}
+     */
+    delay?: number;
+
+    /**
+     * The maximum delay (in milliseconds) between two attempts.
+     *
+     * **Default:** `5000`
+     *
+     * @type {number}
+     */
+    maxDelay?: number;
+
+    /**
+     * The HTTP status codes that are retried. `0` means PocketBase could
+     * not be reached at all.
+     *
+     * **Default:** `[0, 429, 502, 503]`
+     *
+     * @type {number[]}
+     */
+    statuses?: number[];
+
+    /**
+     * Only retry calls that can safely be sent twice (reads). Set it to
+     * false to also retry writes, a retried `create` may create the record
+     * twice if the first response was lost.
+     *
+     * **Default:** `true`
+     *
+     * @type {boolean}
+     */
+    idempotentOnly?: boolean;
+}
+
+/**
+ * The state of a {@linkcode PbdCircuitBreaker}.
+ *
+ * - `"closed"`: Calls are sent (default).
+ * - `"open"`: Calls fail fast, waiting for the `cooldown` to end.
+ * - `"half_open"`: Calls fail fast while PocketBase is probed with a health
+ *   check. The circuit closes once a probe passes.
+ */
+export type PbdCircuitState = "closed" | "open" | "half_open";
+
+/**
+ * A state change of a {@linkcode PbdCircuitBreaker}.
+ */
+export interface PbdCircuitStateChange {
+    /**
+     * The previous state.
+     * @type {PbdCircuitState}
+     */
+    from: PbdCircuitState;
+
+    /**
+     * The new state.
+     * @type {PbdCircuitState}
+     */
+    to: PbdCircuitState;
+
+    /**
+     * The share of failed calls in the window when the change happened
+     * (0 to 1).
+     * @type {number}
+     */
+    failureRate: number;
+}
+
+/**
+ * The options for the Pbd circuit breaker.
+ */
+export interface PbdCircuitOptions {
+    /**
+     * The share of failed calls (0 to 1) that opens the circuit.
+     *
+     * **Default:** `0.5`
+     *
+     * @type {number}
+     */
+    failureThreshold?: number;
+
+    /**
+     * The minimum number of calls in the window before the circuit can
+     * open, so a couple of failures after a quiet period don't open it.
+     *
+     * **Default:** `10`
+     *
+     * @type {number}
+     */
+    minimumCalls?: number;
+
+    /**
+     * How far back (in milliseconds) calls are counted.
+     *
+     * **Default:** `30000`
+     *
+     * @type {number}
+     */
+    window?: number;
+
+    /**
+     * How long (in milliseconds) the circuit stays open before the first
+     * health check, and between failed health checks.
+     *
+     * **Default:** `10000`
+     *
+     * @type {number}
+     */
+    cooldown?: number;
+}
+
+/**
+ * How a {@linkcode PbdRateLimiter} counts the requests of a key.
+ *
+ * - `"sliding-window"`: At most `limit` requests over any `window`
+ *   (default). The count of the previous window is weighted by how much
+ *   of it still overlaps, so there's no burst at window boundaries.
+ * - `"token-bucket"`: Bursts of up to `limit` requests, then one request
+ *   every `window / limit` milliseconds as the bucket refills.
+ */
+export type PbdRateLimitAlgorithm = "sliding-window" | "token-bucket";
+
+/**
+ * The counters of a rate limited key, as kept by a
+ * {@linkcode PbdRateLimitStore}. Their meaning depends on the algorithm.
+ */
+export interface PbdRateLimitState {
+    /**
+     * The requests of the current window, or the tokens left in the
+     * bucket.
+     * @type {number}
+     */
+    value: number;
+
+    /**
+     * The requests of the previous window (sliding window only).
+     * @type {number}
+     */
+    previous: number;
+
+    /**
+     * When the current window started, or when the bucket was last
+     * refilled (ms since the epoch).
+     * @type {number}
+     */
+    at: number;
+}
+
+/**
+ * Where the counters of a {@linkcode PbdRateLimiter} are kept. Pbd comes
+ * with an in-memory store ({@linkcode PbdMemoryRateLimitStore}) and a Deno
+ * KV store ({@linkcode PbdKvRateLimitStore}) that is shared by every
+ * instance of a deployment, implement this interface to use anything else.
+ */
+export interface PbdRateLimitStore {
+    /**
+     * Updates the counters of a key atomically: concurrent updates of the
+     * same key must not overwrite each other.
+     *
+     * @param key {string} - The rate limited key.
+     * @param ttl {number} - How long (in milliseconds) the counters must be
+     * kept after the update.
+     * @param update {(state: PbdRateLimitState | null) => [PbdRateLimitState, T]}
+     * - Computes the new counters (and a result) from the current ones,
+     * `null` for a new key. It can be called more than once.
+     * @returns {Promise<T>} - The result of the update that was stored.
+     */
+    update<T>(
+        key: string,
+        ttl: number,
+        update: (state: PbdRateLimitState | null) => [PbdRateLimitState, T],
+    ): Promise<T>;
+}
+
+/**
+ * The outcome of a {@linkcode PbdRateLimiter.consume} call.
+ */
+export interface PbdRateLimitResult {
+    /**
+     * Whether the request may go on.
+     * @type {boolean}
+     */
+    allowed: boolean;
+
+    /**
+     * The number of requests allowed per window.
+     * @type {number}
+     */
+    limit: number;
+
+    /**
+     * The number of requests left right now.
+     * @type {number}
+     */
+    remaining: number;
+
+    /**
+     * How long (in milliseconds) to wait before retrying, `0` when the
+     * request is allowed.
+     * @type {number}
+     */
+    retryAfter: number;
+}
+
+/**
+ * The options for a {@linkcode PbdRateLimiter}.
+ */
+export interface PbdRateLimitOptions {
+    /**
+     * The number of requests allowed per window, per key.
+     * @type {number}
+     */
+    limit: number;
+
+    /**
+     * The length of the window (in milliseconds).
+     *
+     * **Default:** `60000`
+     *
+     * @type {number}
+     */
+    window?: number;
+
+    /**
+     * How the requests are counted.
+     *
+     * **Default:** `"sliding-window"`
+     *
+     * @type {PbdRateLimitAlgorithm}
+     */
+    algorithm?: PbdRateLimitAlgorithm;
+
+    /**
+     * Where the counters are kept.
+     *
+     * **Default:** A new {@linkcode PbdMemoryRateLimitStore}.
+     *
+     * @type {PbdRateLimitStore}
+     */
+    store?: PbdRateLimitStore;
+}
+
+/**
+ * A rate limit applied by {@linkcode Pbd} to its own calls, see the
+ * `rateLimit` option. Each caller has its own counters per method and
+ * collection.
+ */
+export interface PbdRateLimitRule extends PbdRateLimitOptions {
+    /**
+     * The Pbd methods the rule applies to, like `"create"` or `"getList"`.
+     *
+     * **Default:** Every method.
+     *
+     * @type {string[]}
+     */
+    methods?: string[];
+
+    /**
+     * The collections the rule applies to.
+     *
+     * **Default:** Every collection, and the calls that aren't made on a
+     * collection.
+     *
+     * @type {string[]}
+     */
+    collections?: string[];
+}
+
+/**
+ * The options for the Pbd tenancy, see {@linkcode PbdTenancy}.
+ */
+export interface PbdTenancyOptions {
+    /**
+     * Resolves the tenant (the id of its record) of the calls made with a
+     * client, usually from its auth state, like the `tenant` field of
+     * `authStore.model`. Return `null` only for callers that may see
+     * every tenant, like admins: their calls are not scoped. `undefined`
+     * means the tenant is unknown, like for instances bound to a token
+     * (see {@linkcode Pbd.as}) which have no `authStore.model`: they see no
+     * record and can't write any. It runs as part of each call, so what it
+     * throws is reported like any other failure of the call.
+     *
+     * @param client {Client} - The client making the call.
+     * @returns {string | null | undefined} - The tenant, `null` or
+     * `undefined`.
+     */
+    resolve: (client: Client) => string | null | undefined;
+
+    /**
+     * The relation field holding the tenant of the records.
+     *
+     * **Default:** `"tenant"`
+     *
+     * @type {string}
+     */
+    field?: string;
+
     /**
-     * The initialized pocketbase client to use for querying.
+     * The collections that are scoped to a tenant.
+     *
+     * **Default:** Every collection.
      *
+     * @type {string[]}
+     */
+    collections?: string[];
+}
+
+/**
+ * How a {@linkcode PbdPool} picks the member that serves a read.
+ *
+ * - `"round_robin"`: Each healthy replica in turn (default).
+ * - `"least_latency"`: The healthy replica that answered fastest lately.
+ */
+export type PbdPoolStrategy = "round_robin" | "least_latency";
+
+/**
+ * A read replica (or shard) of a {@linkcode PbdPool}.
+ */
+export interface PbdPoolReplica {
+    /**
+     * The PocketBase client of the replica.
      * @type {Client}
      */
     client: Client;
 
     /**
-     * If set to true, Pbd class methods that require authentication will
-     * throw an error if the client `authStore` is not valid.
+     * The collections the replica serves. Reads of other collections go
+     * to other members.
      *
+     * **Default:** Every collection.
+     *
+     * @type {string[]}
+     */
+    collections?: string[];
+}
+
+/**
+ * A member of a {@linkcode PbdPool}, as reported by `pool.members`.
+ */
+export interface PbdPoolMember extends PbdPoolReplica {
+    /**
+     * Whether this is the primary.
      * @type {boolean}
      */
-    unauthorized_errors?: boolean;
+    primary: boolean;
 
     /**
-     * If set to true, Pbd class methods that get any {@linkcode ClientResponseError} will
-     * return an empty array or an empty object instead of throwing an error.
+     * Whether the member passed its last health check (and hasn't failed
+     * a call since).
+     * @type {boolean}
+     */
+    healthy: boolean;
+
+    /**
+     * The average latency (in milliseconds) of the member, `null` until it
+     * answers once.
+     * @type {number | null}
+     */
+    latency: number | null;
+}
+
+/**
+ * The options for the Pbd pool.
+ */
+export interface PbdPoolOptions {
+    /**
+     * The read replicas, either their clients or a
+     * {@linkcode PbdPoolReplica}.
+     * @type {(Client | PbdPoolReplica)[]}
+     */
+    replicas: (Client | PbdPoolReplica)[];
+
+    /**
+     * How the replica that serves a read is picked.
      *
-     * **Note:** This only applies to the methods that are async since it is possible
-     * to further handle errors with `.catch()`.
+     * **Default:** `"round_robin"`
      *
-     * PBD errors are not covered by this option. You'll still need to handle
-     * those yourself.
+     * @type {PbdPoolStrategy}
+     */
+    strategy?: PbdPoolStrategy;
+
+    /**
+     * How often (in milliseconds) the members are health checked. Checks
+     * run in the background as calls are made, so an idle pool makes no
+     * requests.
+     *
+     * **Default:** `10000`
+     *
+     * @type {number}
+     */
+    healthInterval?: number;
+
+    /**
+     * Keep the auth state of the replicas in sync with the primary. Turn it
+     * off if the replicas don't share the auth secrets of the primary.
+     *
+     * **Default:** `true`
      *
      * @type {boolean}
      */
-    return_empty_on_error?: boolean;
+    shareAuth?: boolean;
 }
 
+/**
+ * The options of a {@linkcode PbdPool}: the options of {@linkcode Pbd},
+ * where `client` is the primary, and the pool options next to them.
+ */
+export type PbdPoolClientOptions<M extends PbdErrorMode = "throw"> =
+    & Omit<PbdOptions<M>, "pool">
+    & PbdPoolOptions;
+
 /**
  * Basic options when interacting with pocketbase. {@linkcode PbdQueryOptions} are
  * specific to the Pbd wrapper.
@@ -59,12 +1897,13 @@ export interface PbdQueryOptions {
     options?: CommonOptions;
 
     /**
-     * The filter to use when querying.
+     * The filter to use when querying. Either a raw PocketBase filter
+     * string or a {@linkcode PbdFilter} built with `pbdFilter`.
      * (Optional)
      *
-     * @type {string}
+     * @type {string | PbdFilter}
      */
-    filter?: string;
+    filter?: string | PbdFilter;
 
     /**
      * The sort to use when querying.
@@ -73,6 +1912,292 @@ export interface PbdQueryOptions {
      * @type {string}
      */
     sort?: string;
+
+    /**
+     * The retry policy of this call, merged over the `retry` option of the
+     * instance. `false` disables retries.
+     * (Optional)
+     *
+     * @type {PbdRetryOptions | false}
+     */
+    retry?: PbdRetryOptions | false;
+}
+
+/**
+ * The options for the {@linkcode Pbd.subscribe} method.
+ */
+export interface PbdSubscribeOptions extends PbdQueryOptions {
+    /**
+     * The topic to subscribe to. Either `*` for every record in the
+     * collection or a single record id.
+     *
+     * **Default:** `"*"`
+     *
+     * @type {string}
+     */
+    topic?: string;
+
+    /**
+     * Relations to expand in the received records.
+     * @type {string}
+     */
+    expand?: string;
+
+    /**
+     * Closes the subscription once aborted.
+     * @type {AbortSignal}
+     */
+    signal?: AbortSignal;
+
+    /**
+     * How many times to try opening the subscription while the realtime
+     * connection can't be established.
+     *
+     * **Default:** `5`
+     *
+     * @type {number}
+     */
+    maxAttempts?: number;
+}
+
+/**
+ * The options for the {@linkcode Pbd.iterate} method.
+ */
+export interface PbdIterateOptions extends PbdQueryOptions {
+    /**
+     * The number of records fetched per request.
+     *
+     * **Default:** `100`
+     *
+     * @type {number}
+     */
+    perPage?: number;
+
+    /**
+     * Skips counting the total number of records, which makes every page
+     * request cheaper. The iteration then ends on the first page that is
+     * not full.
+     *
+     * **Default:** `false`
+     *
+     * @type {boolean}
+     */
+    skipTotal?: boolean;
+
+    /**
+     * Walks the records ordered by `created` and `id` in the given
+     * direction, using the last record of every page as the cursor for the
+     * next one instead of page numbers. Records inserted while iterating
+     * can't shift the pages, so nothing is skipped or returned twice.
+     *
+     * The `sort` option is ignored when this is set.
+     *
+     * @type {"asc" | "desc"}
+     */
+    cursor?: "asc" | "desc";
+
+    /**
+     * Relations to expand in the returned records.
+     * @type {string}
+     */
+    expand?: string;
+
+    /**
+     * Stops the iteration once aborted. The pending request is cancelled
+     * and the loop just ends.
+     * @type {AbortSignal}
+     */
+    signal?: AbortSignal;
+}
+
+/**
+ * A single realtime event received by a {@linkcode Pbd.subscribe}
+ * subscription.
+ */
+export interface PbdRealtimeEvent<T> {
+    /**
+     * What happened to the record.
+     * @type {"create" | "update" | "delete"}
+     */
+    action: "create" | "update" | "delete";
+
+    /**
+     * The record, as it is after the change (or before being deleted).
+     * @type {T}
+     */
+    record: T;
+}
+
+/**
+ * The record, create and update types of a single collection, as used in a
+ * {@linkcode PbdSchemaMap}.
+ */
+export interface PbdCollectionTypes {
+    /**
+     * The records returned by PocketBase.
+     * @type {unknown}
+     */
+    record: unknown;
+
+    /**
+     * The data accepted when creating a record.
+     * @type {unknown}
+     */
+    create: unknown;
+
+    /**
+     * The data accepted when updating a record.
+     * @type {unknown}
+     */
+    update: unknown;
+}
+
+/**
+ * Maps collection names to their {@linkcode PbdCollectionTypes}. You can
+ * write one by hand or generate it from your collections with
+ * `deno task codegen`.
+ *
+ * Declare it as a `type` (not an `interface`) so it can be used as the
+ * schema of a {@linkcode Pbd} instance.
+ */
+export type PbdSchemaMap = { [collectionName: string]: PbdCollectionTypes };
+
+/**
+ * The schema used when a {@linkcode Pbd} instance has no schema map. Any
+ * collection name is accepted and records are plain `RecordModel`s.
+ */
+export type PbdUntypedSchema = {
+    [collectionName: string]: {
+        record: RecordModel;
+        create: { [key: string]: unknown };
+        update: { [key: string]: unknown };
+    };
+};
+
+/**
+ * The query options of a {@linkcode PbdCollection} handle. The same as
+ * {@linkcode PbdQueryOptions} without the collection name.
+ */
+export type PbdCollectionQueryOptions = Omit<PbdQueryOptions, "collectionName">;
+
+/**
+ * The getList options of a {@linkcode PbdCollection} handle.
+ */
+export type PbdCollectionListOptions = Omit<
+    PbdGetListOptions,
+    "collectionName"
+>;
+
+/**
+ * The subscribe options of a {@linkcode PbdCollection} handle.
+ */
+export type PbdCollectionSubscribeOptions = Omit<
+    PbdSubscribeOptions,
+    "collectionName"
+>;
+
+/**
+ * The options for {@linkcode Pbd.batch}.
+ */
+export interface PbdBatchOptions {
+    /**
+     * How many operations run at the same time. Operations are started in
+     * the order they were queued.
+     *
+     * **Default:** `1`
+     *
+     * @type {number}
+     */
+    concurrency?: number;
+
+    /**
+     * Whether the already applied operations are undone when one fails.
+     *
+     * **Default:** `true`
+     *
+     * @type {boolean}
+     */
+    rollback?: boolean;
+}
+
+/**
+ * What happened to a single operation of a batch.
+ *
+ * - `"applied"`: The operation succeeded and was kept.
+ * - `"failed"`: The operation failed.
+ * - `"skipped"`: The operation never ran because an earlier one failed.
+ * - `"rolled_back"`: The operation succeeded but was undone.
+ * - `"rollback_failed"`: The operation succeeded and undoing it failed.
+ */
+export type PbdBatchStatus =
+    | "applied"
+    | "failed"
+    | "skipped"
+    | "rolled_back"
+    | "rollback_failed";
+
+/**
+ * The outcome of a single operation of a batch.
+ */
+export interface PbdBatchResult {
+    /**
+     * The position of the operation in the batch.
+     * @type {number}
+     */
+    index: number;
+
+    /**
+     * The kind of operation.
+     * @type {"create" | "update" | "delete"}
+     */
+    action: "create" | "update" | "delete";
+
+    /**
+     * The collection the operation wrote to.
+     * @type {string}
+     */
+    collectionName: string;
+
+    /**
+     * The id of the written record. Only missing for creates that failed.
+     * @type {string | undefined}
+     */
+    recordId?: string;
+
+    /**
+     * What happened to the operation.
+     * @type {PbdBatchStatus}
+     */
+    status: PbdBatchStatus;
+
+    /**
+     * The record returned by PocketBase for creates and updates.
+     * @type {RecordModel | undefined}
+     */
+    record?: RecordModel;
+
+    /**
+     * Why the operation (or its rollback) failed.
+     * @type {PbdError | undefined}
+     */
+    error?: PbdError;
+}
+
+/**
+ * The report returned by a batch run.
+ */
+export interface PbdBatchReport {
+    /**
+     * True if every operation was applied.
+     * @type {boolean}
+     */
+    ok: boolean;
+
+    /**
+     * The outcome of every operation, in the order they were queued.
+     * @type {PbdBatchResult[]}
+     */
+    results: PbdBatchResult[];
 }
 
 /**
@@ -521,6 +2646,13 @@ export interface PbdAdminGetFullListOptions {
      */
     sort?: string;
 
+    /**
+     * Optional filter for the full list.
+     *
+     * @type {string | PbdFilter}
+     */
+    filter?: string | PbdFilter;
+
     /**
      * Pocketbase client common options to send in almost all requests in
      * the SDK. See {@linkcode Client}
@@ -692,6 +2824,81 @@ export interface PbdCronExtOptions {
     backupName: "auto" | string;
 }
 
+/**
+ * The decoded parts of a PocketBase JWT, see `PbdExt.auth.inspectJwt`.
+ * This type is specific to the Pbd extensions collection.
+ */
+export interface PbdJwtInfo {
+    /**
+     * The decoded header, e.g. `{ alg: "HS256", typ: "JWT" }`.
+     * @type {{ [key: string]: unknown }}
+     */
+    header: { [key: string]: unknown };
+
+    /**
+     * The decoded payload.
+     * @type {{ [key: string]: unknown }}
+     */
+    payload: { [key: string]: unknown };
+
+    /**
+     * The token type: `"admin"`, `"authRecord"` or other PocketBase token
+     * types (e.g. `"file"`).
+     * @type {string}
+     */
+    type: string;
+
+    /**
+     * The id of the admin or record the token belongs to.
+     * @type {string}
+     */
+    id: string;
+
+    /**
+     * The auth collection of the record, `null` for admins.
+     * @type {string | null}
+     */
+    collectionId: string | null;
+
+    /**
+     * When the token expires (seconds since the epoch, the `exp` claim),
+     * `null` if it never does.
+     * @type {number | null}
+     */
+    exp: number | null;
+
+    /**
+     * How long (in milliseconds) until the token expires, negative once
+     * it expired. `null` if it never does.
+     * @type {number | null}
+     */
+    expiresIn: number | null;
+
+    /**
+     * Whether the token expired.
+     * @type {boolean}
+     */
+    expired: boolean;
+
+    /**
+     * Whether the signature of the token was verified, by the Pbd HTTP
+     * middleware with their `secret` option (see {@linkcode
+     * pbdAuthenticate}). Decoded tokens aren't.
+     * @type {boolean}
+     */
+    verified: boolean;
+}
+
+/**
+ * The secret a PocketBase token was signed with, or a function that finds
+ * it from the token (PocketBase signs every token with the `tokenKey` of
+ * its admin or record followed by the auth token secret of the settings).
+ * This type is specific to the Pbd extensions collection.
+ */
+export type PbdJwtSecret =
+    | string
+    | ((info: PbdJwtInfo) => string | Promise<string>);
+
 /**
  * Pbd extensions object. This object is specific to the Pbd
  * extensions collection and it holds all the functions that can be
@@ -717,7 +2924,9 @@ export interface PbdExtBox {
          * @param Pbd {Pbd} - The Pbd instance to use in this extension.
          * @returns {string} - The JWT auth header
          */
-        getJwtHeader: (Pbd: Pbd) => string;
+        getJwtHeader: <M extends PbdErrorMode, S extends PbdSchemaMap>(
+            Pbd: Pbd<M, S>,
+        ) => string;
 
         /**
          * Setup the auth token in the headers of the request.
@@ -725,7 +2934,38 @@ export interface PbdExtBox {
          * @param pbd {Pbd} - The Pbd instance to use in this extension.
          * @returns {void} - No result seems to be returned because mutation happens in pocketbase's side (?)
          */
-        setupPBTokenAuth: (pbd: Pbd) => void;
+        setupPBTokenAuth: <M extends PbdErrorMode, S extends PbdSchemaMap>(
+            pbd: Pbd<M, S>,
+        ) => void;
+
+        /**
+         * Decodes the header and payload of a token, without verifying
+         * it. Pass a Pbd instance to inspect the token of its client.
+         *
+         * @param source {Pbd | string} - The Pbd instance or the
+         * token.
+         * @returns {PbdJwtInfo | null} - The decoded token, or null if
+         * there is no token or it's malformed.
+         */
+        inspectJwt: <M extends PbdErrorMode, S extends PbdSchemaMap>(
+            source: Pbd<M, S> | string,
+        ) => PbdJwtInfo | null;
+
+        /**
+         * Verifies the HMAC signature and the expiry of a token locally,
+         * without calling PocketBase.
+         *
+         * @param source {Pbd | string} - The Pbd instance or the
+         * token.
+         * @param secret {PbdJwtSecret} - The secret the token was signed
+         * with.
+         * @returns {Promise<boolean>} - Whether the token is authentic and
+         * not expired.
+         */
+        verifyJwt: <M extends PbdErrorMode, S extends PbdSchemaMap>(
+            source: Pbd<M, S> | string,
+            secret: PbdJwtSecret,
+        ) => Promise<boolean>;
     };
     /**
      * Extend PocketBase with Deno Cronjobs
@@ -743,6 +2983,9 @@ export interface PbdExtBox {
          * @param options {PbdCronExtOptions} - The options for the extension.
          * @returns {void}
          */
-        setupBackup: (Pbd: Pbd, options: PbdCronExtOptions) => void;
+        setupBackup: <M extends PbdErrorMode, S extends PbdSchemaMap>(
+            Pbd: Pbd<M, S>,
+            options: PbdCronExtOptions,
+        ) => void;
     };
 }
@@ -0,0 +1,457 @@
+import { CollectionModel, SchemaField } from "pocketbase";
+import { PbdError, PbdFieldError, PbdValidationError } from "$errors";
+
+/**
+ * The shape of a PocketBase record id.
+ */
+const RECORD_ID_PATTERN: RegExp = /^[a-z0-9]{15}$/;
+
+/**
+ * Loads a collection schema by name or id, e.g. with
+ * `client.collections.getOne`.
+ */
+export type PbdSchemaLoader = (nameOrId: string) => Promise<CollectionModel>;
+
+/**
+ * Validates record data against the collection schema before it's sent to
+ * PocketBase. The checks (and error codes) mirror the ones PocketBase runs
+ * for `text`, `number`, `bool`, `select`, `relation` and `file` fields:
+ *
+ * - `required` fields can't be blank (an empty string, `0`, `false` or an
+ *   empty list, like in PocketBase).
+ * - text `min`/`max` length and `pattern`.
+ * - number `min`/`max` and `noDecimal`.
+ * - select values and `maxSelect`.
+ * - relation id shape and `maxSelect`.
+ * - file `mimeTypes`, `maxSize` and `maxSelect`.
+ *
+ * Other field types are left for PocketBase to check.
+ *
+ * Pbd creates one for you when the `validation` option is set, but it can
+ * also be used on its own.
+ *
+ * @example Check a form before saving it
+ * ```typescript
+ * const collections = JSON.parse(
+ *     await Deno.readTextFile("./pocketbase/collections.json"),
+ * );
+ * const validator = new PbdValidator(collections);
+ *
+ * const fields = await validator.validate("cats", { name: "" }, "create");
+ * // { name: { code: "validation_required", message: "Cannot be blank." } }
+ * ```
+ */
+export class PbdValidator {
+    private collections: Map<string, CollectionModel> = new Map();
+    private loader: PbdSchemaLoader | null = null;
+
+    /**
+     * @param source {CollectionModel[] | PbdSchemaLoader} - The collections
+     * (e.g. a `collections.json` export) or a function that loads them on
+     * demand. Loaded collections are cached.
+     */
+    constructor(source: CollectionModel[] | PbdSchemaLoader) {
+        if (typeof source === "function") {
+            this.loader = source;
+            return;
+        }
+
+        for (const collection of source) {
+            this.add(collection);
+        }
+    }
+
+    /**
+     * Gets the schema of a collection, loading it if needed.
+     *
+     * @param nameOrId {string} - The collection name or id.
+     * @throws {PbdError} - If the collection is unknown or can't be loaded.
+     * @returns {Promise<CollectionModel>} - The collection.
+     */
+    async getCollection(nameOrId: string): Promise<CollectionModel> {
+        const cached: CollectionModel | undefined = this.collections.get(
+            nameOrId,
+        );
+
+        if (cached) {
+            return cached;
+        }
+
+        if (!this.loader) {
+            throw new PbdError(
+                `Unknown collection ${nameOrId}, it's not part of the validation schema.`,
+                { collectionName: nameOrId },
+            );
+        }
+
+        const collection: CollectionModel = await this.loader(nameOrId);
+        this.add(collection);
+
+        return collection;
+    }
+
+    /**
+     * Validates record data. When updating, only the submitted fields are
+     * checked.
+     *
+     * @param collectionName {string} - The collection name or id.
+     * @param data {unknown} - The record data, a plain object or `FormData`.
+     * @param action {"create" | "update"} - Whether the data creates or
+     * updates a record.
+     * @returns {Promise<Record<string, PbdFieldError>>} - The per-field
+     * errors, empty if the data is valid.
+     */
+    async validate(
+        collectionName: string,
+        data: unknown,
+        action: "create" | "update",
+    ): Promise<Record<string, PbdFieldError>> {
+        const collection: CollectionModel = await this.getCollection(
+            collectionName,
+        );
+        const values: Map<string, unknown> = toValues(data);
+        const errors: Record<string, PbdFieldError> = {};
+
+        for (const field of collection.schema ?? []) {
+            if (action === "update" && !values.has(field.name)) {
+                continue;
+            }
+
+            const error: PbdFieldError | null = validateField(
+                field,
+                values.get(field.name),
+            );
+
+            if (error) {
+                errors[field.name] = error;
+            }
+        }
+
+        return errors;
+    }
+
+    /**
+     * Like {@linkcode validate}, but throws if the data is invalid.
+     *
+     * @param collectionName {string} - The collection name or id.
+     * @param data {unknown} - The record data, a plain object or `FormData`.
+     * @param action {"create" | "update"} - Whether the data creates or
+     * updates a record.
+     * @throws {PbdValidationError} - If any field is invalid.
+     * @returns {Promise<void>}
+     */
+    async check(
+        collectionName: string,
+        data: unknown,
+        action: "create" | "update",
+    ): Promise<void> {
+        const errors: Record<string, PbdFieldError> = await this.validate(
+            collectionName,
+            data,
+            action,
+        );
+
+        if (Object.keys(errors).length > 0) {
+            throw new PbdValidationError(
+                `Failed to ${action} record.`,
+                errors,
+                {
+                    collectionName,
+                    response: {
+                        code: 400,
+                        message: `Failed to ${action} record.`,
+                        data: errors,
+                    },
+                },
+            );
+        }
+    }
+
+    /**
+     * Caches a collection by name and id.
+     *
+     * @param collection {CollectionModel} - The collection.
+     * @returns {void}
+     */
+    private add(collection: CollectionModel): void {
+        this.collections.set(collection.name, collection);
+        this.collections.set(collection.id, collection);
+    }
+}
+
+/**
+ * Turns the submitted data into a map of field values. `FormData` fields
+ * with several entries become lists.
+ *
+ * @param data {unknown} - The record data.
+ * @returns {Map<string, unknown>} - The values, keyed by field name.
+ */
+function toValues(data: unknown): Map<string, unknown> {
+    const values: Map<string, unknown> = new Map();
+
+    if (data instanceof FormData) {
+        for (const name of new Set(data.keys())) {
+            const entries: FormDataEntryValue[] = data.getAll(name);
+            values.set(name, entries.length === 1 ? entries[0] : entries);
+        }
+    } else if (data && typeof data === "object") {
+        for (const [name, value] of Object.entries(data)) {
+            values.set(name, value);
+        }
+    }
+
+    return values;
+}
+
+/**
+ * Whether a value counts as blank for PocketBase.
+ *
+ * @param value {unknown} - The field value.
+ * @returns {boolean} - True if the value is blank.
+ */
+function isBlank(value: unknown): boolean {
+    return value === undefined || value === null || value === "" ||
+        value === 0 || value === false ||
+        (Array.isArray(value) && value.length === 0);
+}
+
+/**
+ * Wraps single values into a list, for multi value fields.
+ *
+ * @param value {unknown} - The field value.
+ * @returns {unknown[]} - The values.
+ */
+function toList(value: unknown): unknown[] {
+    if (value === undefined || value === null || value === "") {
+        return [];
+    }
+
+    return Array.isArray(value) ? value : [value];
+}
+
+/**
+ * Validates a single field value.
+ *
+ * @param field {SchemaField} - The field schema.
+ * @param value {unknown} - The submitted value.
+ * @returns {PbdFieldError | null} - The error, or null if the value is
+ * valid.
+ */
+function validateField(
+    field: SchemaField,
+    value: unknown,
+): PbdFieldError | null {
+    if (isBlank(value)) {
+        return field.required
+            ? { code: "validation_required", message: "Cannot be blank." }
+            : null;
+    }
+
+    switch (field.type) {
+        case "text":
+            return validateText(field, value);
+        case "number":
+            return validateNumber(field, value);
+        case "select":
+            return validateSelect(field, value);
+        case "relation":
+            return validateRelation(field, value);
+        case "file":
+            return validateFile(field, value);
+        default:
+            return null;
+    }
+}
+
+/**
+ * @param field {SchemaField} - The text field schema.
+ * @param value {unknown} - The submitted value.
+ * @returns {PbdFieldError | null} - The error, if any.
+ */
+function validateText(
+    field: SchemaField,
+    value: unknown,
+): PbdFieldError | null {
+    const text: string = String(value);
+    const length: number = [...text].length;
+
+    if (field.options?.min && length < field.options.min) {
+        return {
+            code: "validation_min_text_constraint",
+            message: `Must be at least ${field.options.min} character(s).`,
+        };
+    }
+
+    if (field.options?.max && length > field.options.max) {
+        return {
+            code: "validation_max_text_constraint",
+            message: `Must be less than ${field.options.max} character(s).`,
+        };
+    }
+
+    if (
+        field.options?.pattern && !new RegExp(field.options.pattern).test(text)
+    ) {
+        return {
+            code: "validation_invalid_format",
+            message: "Invalid value format.",
+        };
+    }
+
+    return null;
+}
+
+/**
+ * @param field {SchemaField} - The number field schema.
+ * @param value {unknown} - The submitted value.
+ * @returns {PbdFieldError | null} - The error, if any.
+ */
+function validateNumber(
+    field: SchemaField,
+    value: unknown,
+): PbdFieldError | null {
+    const number: number = typeof value === "number" ? value : Number(value);
+
+    if (!Number.isFinite(number)) {
+        return {
+            code: "validation_invalid_number",
+            message: "Must be a valid number.",
+        };
+    }
+
+    if (field.options?.noDecimal && !Number.isInteger(number)) {
+        return {
+            code: "validation_no_decimal_constraint",
+            message: "Decimal numbers are not allowed.",
+        };
+    }
+
+    if (typeof field.options?.min === "number" && number < field.options.min) {
+        return {
+            code: "validation_min_number_constraint",
+            message: `Must be larger than ${field.options.min}.`,
+        };
+    }
+
+    if (typeof field.options?.max === "number" && number > field.options.max) {
+        return {
+            code: "validation_max_number_constraint",
+            message: `Must be less than ${field.options.max}.`,
+        };
+    }
+
+    return null;
+}
+
+/**
+ * Checks the number of values of a select, relation or file field.
+ *
+ * @param field {SchemaField} - The field schema.
+ * @param values {unknown[]} - The submitted values.
+ * @returns {PbdFieldError | null} - The error, if any.
+ */
+function validateMaxSelect(
+    field: SchemaField,
+    values: unknown[],
+): PbdFieldError | null {
+    const maxSelect: number | null = field.options?.maxSelect ?? null;
+
+    if (maxSelect && values.length > maxSelect) {
+        return {
+            code: "validation_too_many_values",
+            message: `Select no more than ${maxSelect}`,
+        };
+    }
+
+    return null;
+}
+
+/**
+ * @param field {SchemaField} - The select field schema.
+ * @param value {unknown} - The submitted value.
+ * @returns {PbdFieldError | null} - The error, if any.
+ */
+function validateSelect(
+    field: SchemaField,
+    value: unknown,
+): PbdFieldError | null {
+    const values: unknown[] = toList(value);
+    const allowed: string[] = field.options?.values ?? [];
+
+    for (const selected of values) {
+        if (!allowed.includes(String(selected))) {
+            return {
+                code: "validation_invalid_value",
+                message: `Invalid value ${selected}.`,
+            };
+        }
+    }
+
+    return validateMaxSelect(field, values);
+}
+
+/**
+ * @param field {SchemaField} - The relation field schema.
+ * @param value {unknown} - The submitted value.
+ * @returns {PbdFieldError | null} - The error, if any.
+ */
+function validateRelation(
+    field: SchemaField,
+    value: unknown,
+): PbdFieldError | null {
+    const ids: unknown[] = toList(value);
+
+    for (const id of ids) {
+        if (typeof id !== "string" || !RECORD_ID_PATTERN.test(id)) {
+            return {
+                code: "validation_invalid_value",
+                message: `Invalid record id ${id}.`,
+            };
+        }
+    }
+
+    return validateMaxSelect(field, ids);
+}
+
+/**
+ * Validates the uploaded files. Strings are existing file names and only
+ * count towards `maxSelect`.
+ *
+ * @param field {SchemaField} - The file field schema.
+ * @param value {unknown} - The submitted value.
+ * @returns {PbdFieldError | null} - The error, if any.
+ */
+function validateFile(
+    field: SchemaField,
+    value: unknown,
+): PbdFieldError | null {
+    const files: unknown[] = toList(value);
+    const mimeTypes: string[] = field.options?.mimeTypes ?? [];
+    const maxSize: number = field.options?.maxSize ?? 0;
+
+    for (const file of files) {
+        if (!(file instanceof Blob)) {
+            continue;
+        }
+
+        const name: string = file instanceof File ? file.name : "blob";
+
+        if (maxSize && file.size > maxSize) {
+            return {
+                code: "validation_file_size_limit",
+                message:
+                    `Failed to upload "${name}" - the maximum allowed file size is ${maxSize} bytes.`,
+            };
+        }
+
+        if (mimeTypes.length > 0 && !mimeTypes.includes(file.type)) {
+            return {
+                code: "validation_invalid_mime_type",
+                message:
+                    `Failed to upload "${name}" due to unsupported file type.`,
+            };
+        }
+    }
+
+    return validateMaxSelect(field, files);
+}
@@ -2,15 +2,18 @@ import Client, {
     AdminAuthResponse,
     AdminModel,
     AuthMethodsList,
+    BaseAuthStore,
     ClientResponseError,
     CollectionModel,
     ExternalAuthModel,
+    getTokenPayload,
     HealthCheckResponse,
     HourlyStats,
     ListResult,
     LogModel,
     RecordAuthResponse,
     RecordModel,
+    SendOptions,
 } from "pocketbase";
 import BackupFileInfo from "pocketbase";
 import appleClientSecret from "pocketbase";
@@ -26,29 +29,71 @@ import {
     PbdAdminUpdateOptions,
     PbdAdminViewOptions,
     PbdAuthPasswordOptions,
+    PbdBatchOptions,
+    PbdCall,
     PbdConfirmEmailChangeOptions,
     PbdConfirmPasswordResetOptions,
     PbdConfirmVerificationOptions,
+    PbdConnInfo,
+    PbdContext,
     PbdCreateCollectionOptions,
     PbdDeleteCollectionOptions,
     PbdDownloadBackupOptions,
+    PbdEmptyResultPolicy,
+    PbdErrorMode,
     PbdGenerateAppleClientSecretOptions,
     PbdGetListOptions,
     PbdGetLogsOptions,
     PbdGetOneCollectionOptions,
+    PbdHeadersLike,
     PbdImportCollectionsOptions,
+    PbdIterateOptions,
     PbdListBackupOptions,
+    PbdLogger,
+    PbdMiddleware,
     PbdOauthAuthOptions,
     PbdOptions,
+    PbdPoolClientOptions,
+    PbdPoolMember,
     PbdQueryOptions,
     PbdRequestEmailChangeOptions,
+    PbdRequestLike,
     PbdRequestPasswordResetOptions,
     PbdRequestVerificationOptions,
+    PbdResult,
+    PbdRetryOptions,
+    PbdReturn,
+    PbdSchemaMap,
+    PbdScopeOptions,
+    PbdSubscribeOptions,
     PbdTestEmailOptions,
     PbdTestS3Options,
     PbdUnlinkExternalAuthOptions,
+    PbdUntypedSchema,
 } from "$types";
 
+import {
+    PbdAuthError,
+    PbdEmptyResultError,
+    PbdError,
+    PbdErrorOptions,
+    toPbdError,
+} from "$errors";
+import { PbdFilter } from "$filter";
+import { PbdSubscription } from "$realtime";
+import { PbdCollection } from "$collection";
+import { PbdValidator } from "$validation";
+import { PbdBatch } from "$batch";
+import { PbdListIterator } from "$pagination";
+import { PbdCache } from "$cache";
+import { withRetry } from "$retry";
+import { PbdCircuitBreaker } from "$circuit";
+import { PbdRateLimit } from "$ratelimit";
+import { PbdTenancy } from "$tenancy";
+import { PbdPoolRouter } from "$pool";
+import { logCall } from "$logger";
+import { bearerToken, PbdAuthStore, PbdTokenAuthStore } from "$authstore";
+import { PbdTokenRefresher } from "$refresh";
 import { PbdExt } from "$extensions";
 
 /**
@@ -130,9 +175,25 @@ import { PbdExt } from "$extensions";
  * });
  * ```
  *
+ * @example - Get typed errors back instead of exceptions
+ * ```typescript
+ * const pbd = new Pbd({ client: pb, error_mode: "result" });
+ *
+ * const result = await pbd.getOne<Cat>("123", { collectionName: "cats" });
+ *
+ * if (!result.ok) {
+ *     result.error instanceof PbdNotFoundError
+ *         ? console.log("No such cat")
+ *         : console.log(result.error.message);
+ * }
+ * ```
+ *
  * @module
  */
-export class Pbd {
+export class Pbd<
+    M extends PbdErrorMode = "throw",
+    S extends PbdSchemaMap = PbdUntypedSchema,
+> {
     /**
      * The pocketbase {@link Client} that is wrapped by the Pbd wrapper.
      * This is the client we are passing into the Pbd wrapper. The wrapper
@@ -185,10 +246,125 @@ export class Pbd {
      *
      * **Default:** `false`
      *
+     * @deprecated Check {@linkcode error_mode} instead.
      * @type {boolean}
      */
     return_null_on_error: boolean;
 
+    /**
+     * How this instance reports failures. Every error is mapped into a
+     * {@linkcode PbdError} subclass, which is then either thrown
+     * (`"throw"`), swallowed into `null`/`false` (`"null"`) or returned as
+     * a {@linkcode PbdResult} (`"result"`).
+     *
+     * **Default:** `"throw"`
+     *
+     * @type {PbdErrorMode}
+     */
+    error_mode: PbdErrorMode;
+
+    /**
+     * What list methods return when there are no items. See
+     * {@linkcode PbdEmptyResultPolicy}.
+     *
+     * **Default:** `"empty"`
+     *
+     * @type {PbdEmptyResultPolicy}
+     */
+    empty_result: PbdEmptyResultPolicy;
+
+    /**
+     * Checks the data of `create` and `update` before it's sent, see the
+     * `validation` option. `null` when validation is disabled.
+     *
+     * @type {PbdValidator | null}
+     */
+    validator: PbdValidator | null;
+
+    /**
+     * Serves the cached reads and drops them on writes, see the `cache`
+     * option. `null` when caching is disabled.
+     *
+     * @type {PbdCache | null}
+     */
+    cache: PbdCache | null;
+
+    /**
+     * The retry policy applied to every call, see the `retry` option.
+     * `null` when calls are not retried.
+     *
+     * @type {PbdRetryOptions | null}
+     */
+    retry: PbdRetryOptions | null;
+
+    /**
+     * Fails calls fast while PocketBase is down, see the `circuit` option.
+     * `null` when there is no circuit breaker.
+     *
+     * @type {PbdCircuitBreaker | null}
+     */
+    circuit: PbdCircuitBreaker | null;
+
+    /**
+     * Limits the calls of each auth token, see the `rateLimit` option.
+     * `null` when calls are not rate limited.
+     *
+     * @type {PbdRateLimit | null}
+     */
+    rateLimit: PbdRateLimit | null;
+
+    /**
+     * Scopes the record calls to the tenant of the caller, see the
+     * `tenancy` option and {@linkcode forTenant}. `null` when calls are not
+     * scoped.
+     *
+     * @type {PbdTenancy | null}
+     */
+    tenancy: PbdTenancy | null;
+
+    /**
+     * Routes the calls over the primary ({@linkcode client}) and its read
+     * replicas, see the `pool` option. `null` when every call goes to
+     * {@linkcode client}.
+     *
+     * @type {PbdPoolRouter | null}
+     */
+    pool: PbdPoolRouter | null;
+
+    /**
+     * Logs every wrapped call, see the `logger` option. `null` when
+     * nothing is logged.
+     *
+     * @type {PbdLogger | null}
+     */
+    logger: PbdLogger | null;
+
+    /**
+     * Refreshes the auth token before it expires, see the `refresh`
+     * option. `null` when the token is not refreshed by Pbd (or it's
+     * refreshed by a {@linkcode PbdAuthStore}).
+     *
+     * @type {PbdTokenRefresher | null}
+     */
+    refresher: PbdTokenRefresher | null;
+
+    /**
+     * The middleware added with {@linkcode use}.
+     */
+    private middleware: PbdMiddleware[] = [];
+
+    /**
+     * The tokens known to be authentic, with who they belong to
+     * (`type:id`), shared with the scoped copies. See {@linkcode caller}.
+     */
+    private trusted: Map<string, string> = new Map();
+
+    /**
+     * The client IP of the request a scoped copy serves, see
+     * {@linkcode as}.
+     */
+    private clientIp: string | null = null;
+
     /**
      * The constructor method for the Pbd wrapper. This takes in the options
      * passed in when initializing a new wrapper instance.
@@ -196,7 +372,7 @@ export class Pbd {
      * @param options - The Pbd options when initializing the pocketbase
      * wrapper. See {@link PbdOptions} for more information.
      */
-    constructor(options: PbdOptions) {
+    constructor(options: PbdOptions<M>) {
         this.client = options.client;
 
         if (!options.unauthorized_errors) {
@@ -208,7 +384,781 @@ export class Pbd {
         }
 
         this.unauthorized_errors = options.unauthorized_errors;
-        this.return_null_on_error = options.return_empty_on_error;
+        this.error_mode = options.error_mode ??
+            (options.return_empty_on_error ? "null" : "throw");
+        this.return_null_on_error = this.error_mode === "null";
+        this.empty_result = options.empty_result ?? "empty";
+
+        if (options.validation instanceof PbdValidator) {
+            this.validator = options.validation;
+        } else if (Array.isArray(options.validation)) {
+            this.validator = new PbdValidator(options.validation);
+        } else if (options.validation) {
+            this.validator = new PbdValidator((nameOrId: string) =>
+                this.client.collections.getOne(nameOrId)
+            );
+        } else {
+            this.validator = null;
+        }
+
+        this.cache = options.cache ? new PbdCache(options.cache) : null;
+        this.retry = options.retry ?? null;
+        this.circuit = options.circuit
+            ? new PbdCircuitBreaker(this.client, options.circuit)
+            : null;
+        this.rateLimit = options.rateLimit
+            ? new PbdRateLimit(options.rateLimit)
+            : null;
+        this.tenancy = options.tenancy ? new PbdTenancy(options.tenancy) : null;
+        this.pool = options.pool
+            ? new PbdPoolRouter(this.client, options.pool)
+            : null;
+        this.logger = options.logger ?? null;
+
+        this.refresher = options.refresh
+            ? new PbdTokenRefresher(
+                this.client,
+                options.refresh === true ? {} : options.refresh,
+            )
+            : null;
+
+        if (this.refresher) {
+            this.refresher.start();
+        } else if (this.client.authStore instanceof PbdAuthStore) {
+            this.client.authStore.attach(this.client);
+        }
+    }
+
+    /**
+     * Applies the {@linkcode empty_result} policy to the result of a list
+     * method.
+     *
+     * @param result {R} - The list or page returned by PocketBase.
+     * @param items {unknown[]} - The items of the result.
+     * @param method {string} - The name of the list method.
+     * @param collectionName {string} - The collection that was listed.
+     * @throws {PbdEmptyResultError} - If there are no items and the policy
+     * is `"throw"`.
+     * @returns {R | null} - The result, or null if there are no items and
+     * the policy is `"null"`.
+     */
+    private emptyResult<R>(
+        result: R,
+        items: unknown[],
+        method: string,
+        collectionName?: string,
+    ): R | null {
+        if (items.length > 0 || this.empty_result === "empty") {
+            return result;
+        }
+
+        if (this.empty_result === "null") {
+            return null;
+        }
+
+        throw new PbdEmptyResultError(
+            `No items found in ${collectionName ?? method}`,
+            { method, collectionName },
+        );
+    }
+
+    /**
+     * Returns a handle bound to a single collection. When the instance was
+     * created with a schema map (see `deno task codegen`), the collection
+     * name is checked and the record, create and update types are taken
+     * from the map.
+     *
+     * @param name {string} - The name of the collection.
+     * @returns {PbdCollection} - The collection handle.
+     *
+     * @example Typed records from a generated schema map
+     * ```typescript
+     * import { PbdSchema } from "./pbd-schema.ts";
+     *
+     * const pbd = new Pbd<"throw", PbdSchema>({ client: pb });
+     *
+     * // Type error, "Dogs" is not in the schema map
+     * pbd.collection("Dogs");
+     *
+     * // `cat` is a `CatsRecord`
+     * const cat = await pbd.collection("Cats").getOne("123");
+     * ```
+     */
+    collection<K extends keyof S & string>(
+        name: K,
+    ): PbdCollection<S[K], M> {
+        return new PbdCollection<S[K], M>(this, name);
+    }
+
+    /**
+     * Adds a middleware that runs around every wrapped call. Middleware
+     * run in the order they were added, each one wrapping the next, and
+     * see the method, collection, arguments, timing and outcome of the
+     * call. See {@linkcode PbdContext}.
+     *
+     * `next()` never rejects, failures are set in `ctx.error` and reported
+     * according to the {@linkcode error_mode} once the chain ends. A
+     * middleware that throws fails the call with that error.
+     *
+     * @param middleware {PbdMiddleware} - The middleware.
+     * @returns {this} - The instance, to chain more middleware.
+     *
+     * @example Log slow calls and tag every request
+     * ```typescript
+     * pbd.use(async (ctx, next) => {
+     *     ctx.headers["X-Request-Id"] = crypto.randomUUID();
+     *     await next();
+     *
+     *     if (ctx.duration > 500) {
+     *         console.log(`${ctx.method} ${ctx.collectionName} took ${ctx.duration}ms`);
+     *     }
+     * });
+     *
+     * // Only admins may delete records
+     * pbd.use(async (ctx, next) => {
+     *     if (ctx.method === "delete" && !ctx.client.authStore.isAdmin) {
+     *         ctx.error = new PbdAuthError("Only admins can delete records.");
+     *         return;
+     *     }
+     *     await next();
+     * });
+     * ```
+     */
+    use(middleware: PbdMiddleware): this {
+        this.middleware.push(middleware);
+        return this;
+    }
+
+    /**
+     * Returns a lightweight copy of this instance that makes its calls with
+     * the given auth token instead of the shared {@linkcode client} auth
+     * state, so they run with that user's collection rules. Nothing shared
+     * is mutated, and the auth methods called on the copy (e.g.
+     * `authRefresh`) only change the copy.
+     *
+     * The copy shares the options, cache, circuit breaker, logger and the
+     * middleware added so far. Middleware added to the copy only run for
+     * the copy. Its reads are not spread over the read replicas.
+     *
+     * With the `rateLimit` option, pass the client IP so guests are
+     * counted on their own, and the token once it's verified (see
+     * {@linkcode pbdAuthenticate}) so its calls are counted by its id.
+     *
+     * @param token {string} - The auth token of the user, empty for a
+     * guest.
+     * @param options {PbdScopeOptions} - The client IP and decoded token
+     * of the request.
+     * @returns {Pbd<M, S>} - The scoped instance.
+     *
+     * @example
+     * ```typescript
+     * const cats = await pbd.as(token).getFullList({ collectionName: "cats" });
+     * ```
+     */
+    as(token: string, options: PbdScopeOptions = {}): Pbd<M, S> {
+        const client: Client = new Client(
+            this.client.baseUrl,
+            new PbdTokenAuthStore(token),
+            this.client.lang,
+        );
+
+        client.beforeSend = this.client.beforeSend;
+        client.afterSend = this.client.afterSend;
+
+        if (token && options.auth?.verified) {
+            this.trust(token);
+        }
+
+        return Object.assign(Object.create(Pbd.prototype), this, {
+            client,
+            pool: null,
+            refresher: null,
+            clientIp: options.ip || null,
+            middleware: [...this.middleware],
+        });
+    }
+
+    /**
+     * Returns a copy of this instance bound to the bearer token of an
+     * incoming request (its `Authorization` header), see {@linkcode as}.
+     * Requests without a token get a guest instance, they never fall back
+     * to the shared auth state.
+     *
+     * @param request {PbdRequestLike} - A `Request`, an Express request or
+     * an Oak context.
+     * @param info {PbdConnInfo} - The connection info of `Deno.serve`, for
+     * the client IP of a `Request`.
+     * @returns {Pbd<M, S>} - The scoped instance.
+     *
+     * @example In an Oak route
+     * ```typescript
+     * router.get("/cats", async (ctx) => {
+     *     ctx.response.body = await pbd.forRequest(ctx).getFullList({
+     *         collectionName: "cats",
+     *     });
+     * });
+     * ```
+     */
+    forRequest(request: PbdRequestLike, info?: PbdConnInfo): Pbd<M, S> {
+        const { headers, ip }: { headers: PbdHeadersLike; ip?: string } =
+            "request" in request ? request.request : request;
+
+        return this.as(bearerToken(headers), {
+            ip: ip ?? info?.remoteAddr.hostname,
+        });
+    }
+
+    /**
+     * Returns a lightweight copy of this instance whose record calls are
+     * scoped to the given tenant, whoever makes them (see the `tenancy`
+     * option for the field and collections used, `"tenant"` and every
+     * collection when it's not set). The copy shares everything else.
+     *
+     * @param tenant {string | null} - The tenant, `null` to not scope the
+     * calls of the copy.
+     * @returns {Pbd<M, S>} - The scoped instance.
+     *
+     * @example Scope a request to the tenant of its subdomain
+     * ```typescript
+     * const tenant = new URL(req.url).hostname.split(".")[0];
+     * const projects = await pbd.forRequest(req).forTenant(tenant)
+     *     .getFullList({ collectionName: "projects" });
+     * ```
+     */
+    forTenant(tenant: string | null): Pbd<M, S> {
+        const tenancy: PbdTenancy = this.tenancy ??
+            new PbdTenancy({ resolve: (): null => null });
+
+        return Object.assign(Object.create(Pbd.prototype), this, {
+            tenancy: tenancy.fixed(tenant),
+            middleware: [...this.middleware],
+        });
+    }
+
+    /**
+     * Sends a raw request to PocketBase and resolves with its response as
+     * is (the body is streamed, not parsed). The request still goes
+     * through the middleware, logger, circuit breaker, pool and the
+     * `beforeSend` hook of the client, and carries the token of the auth
+     * state. Failures to get a response (a {@linkcode PbdNetworkError})
+     * and 5xx responses are errors, so they count as PocketBase failing,
+     * the other responses are not.
+     *
+     * @param path {string} - The path (and query) of the request, e.g.
+     * `/api/health`.
+     * @param init {SendOptions} - The method, headers and body of the
+     * request.
+     * @returns {Promise<Response | null>} - The response of PocketBase, or
+     * null if return_null_on_error is set to true
+     *
+     * @example
+     * ```typescript
+     * const res: Response = await pbd.forward("/api/health");
+     * ```
+     */
+    async forward(
+        path: string,
+        init: SendOptions = {},
+    ): Promise<PbdReturn<Response | null, M>> {
+        const method: string = (init.method ?? "GET").toUpperCase();
+
+        return await this.execute<Response | null>(
+            {
+                method: "forward",
+                fallback: null,
+                idempotent: method === "GET" || method === "HEAD",
+                args: [method, path],
+            },
+            async (client: Client) => {
+                const url: string = client.buildUrl(path);
+                const options: SendOptions = {
+                    ...init,
+                    headers: {
+                        ...init.headers,
+                        ...(client.authStore.token
+                            ? { Authorization: client.authStore.token }
+                            : {}),
+                    },
+                };
+                const hooked: { url?: string; options?: SendOptions } = {
+                    url,
+                    options,
+                    ...await client.beforeSend?.(url, options),
+                };
+                let res: Response;
+
+                // Failures are reported like the SDK does, for the circuit
+                // breaker, the retries and the pool.
+                try {
+                    res = await fetch(hooked.url ?? url, hooked.options);
+                } catch (err: unknown) {
+                    throw new ClientResponseError({
+                        url,
+                        status: 0,
+                        isAbort: hooked.options?.signal?.aborted ?? false,
+                        originalError: err,
+                    });
+                }
+
+                if (res.status >= 500) {
+                    throw new ClientResponseError({
+                        url,
+                        status: res.status,
+                        response: await res.json().catch(() => ({})),
+                    });
+                }
+
+                return res;
+            },
+        );
+    }
+
+    /**
+     * Runs a wrapped SDK call through the middleware and reports its
+     * outcome according to the configured {@linkcode error_mode}. Every
+     * error is mapped into a {@linkcode PbdError} first.
+     *
+     * Errors raised by Pbd itself (like the `unauthorized_errors` guards)
+     * or by the middleware are never swallowed in the `"null"` mode.
+     *
+     * @param call {PbdCall<T>} - The description of the wrapped call.
+     * @param fn {(client: Client, tenant: string | null | undefined) => Promise<T>}
+     * - The SDK call to run, with the tenant of scoped calls.
+     * @returns {Promise<PbdReturn<T, M>>} - The call result.
+     */
+    private async execute<T>(
+        call: PbdCall<T>,
+        fn: (client: Client, tenant: string | null | undefined) => Promise<T>,
+    ): Promise<PbdReturn<T, M>> {
+        const [ctx, failure]: [PbdContext, unknown] = await this.settle(
+            call,
+            fn,
+        );
+
+        if (!ctx.error) {
+            const data: T = ctx.result as T;
+
+            if (this.error_mode === "result") {
+                const result: PbdResult<T> = { ok: true, data, error: null };
+                return result as PbdReturn<T, M>;
+            }
+
+            return data as PbdReturn<T, M>;
+        }
+
+        const error: PbdError = ctx.error;
+
+        if (
+            this.error_mode === "null" && failure !== null &&
+            !(failure instanceof PbdError) && error.cause === failure
+        ) {
+            return call.fallback as PbdReturn<T, M>;
+        }
+
+        if (this.error_mode === "result") {
+            const result: PbdResult<T> = { ok: false, data: null, error };
+            return result as PbdReturn<T, M>;
+        }
+
+        throw error;
+    }
+
+    /**
+     * Runs a step of a method that makes many requests through the same
+     * pipeline as {@linkcode execute}, rejecting on failure whatever the
+     * error mode. See {@linkcode PbdRunner}.
+     *
+     * @param call {PbdCall<T>} - The description of the step.
+     * @param fn {(client: Client, tenant: string | null | undefined) => Promise<T>}
+     * - The SDK call to run, with the tenant of scoped calls.
+     * @throws {PbdError} - If the step fails.
+     * @returns {Promise<T>} - The step result.
+     */
+    private async run<T>(
+        call: PbdCall<T>,
+        fn: (client: Client, tenant: string | null | undefined) => Promise<T>,
+    ): Promise<T> {
+        const [ctx]: [PbdContext, unknown] = await this.settle(call, fn);
+
+        if (ctx.error) {
+            throw ctx.error;
+        }
+
+        return ctx.result as T;
+    }
+
+    /**
+     * Runs a wrapped SDK call through the middleware and logs it. Every
+     * error is mapped into a {@linkcode PbdError} and set in the context.
+     *
+     * @param call {PbdCall<T>} - The description of the wrapped call.
+     * @param fn {(client: Client, tenant: string | null | undefined) => Promise<T>}
+     * - The SDK call to run, with the tenant of scoped calls.
+     * @returns {Promise<[PbdContext, unknown]>} - The context of the call,
+     * and the error of the call itself (`null` if it didn't fail, or the
+     * error was raised by the middleware).
+     */
+    private async settle<T>(
+        call: PbdCall<T>,
+        fn: (client: Client, tenant: string | null | undefined) => Promise<T>,
+    ): Promise<[PbdContext, unknown]> {
+        const context: PbdErrorOptions = {
+            method: call.method,
+            collectionName: call.collectionName,
+        };
+        const ctx: PbdContext = {
+            method: call.method,
+            collectionName: call.collectionName,
+            args: call.args ?? [],
+            client: this.client,
+            headers: {},
+            state: {},
+            startedAt: Date.now(),
+            duration: 0,
+            attempts: 0,
+            result: undefined,
+            error: null,
+        };
+        const started: number = performance.now();
+        // The error of the call itself, to tell SDK failures apart from
+        // the errors raised by Pbd or the middleware.
+        let failure: unknown = null;
+
+        try {
+            await this.dispatch(ctx, 0, async (): Promise<void> => {
+                try {
+                    ctx.result = await this.perform(call, fn, ctx);
+                    ctx.error = null;
+                } catch (err: unknown) {
+                    failure = err;
+                    ctx.error = toPbdError(err, context);
+                } finally {
+                    ctx.duration = performance.now() - started;
+                }
+            });
+        } catch (err: unknown) {
+            failure = null;
+            ctx.error = toPbdError(err, context);
+        }
+
+        if (this.logger) {
+            logCall(this.logger, ctx);
+        }
+
+        return [ctx, failure];
+    }
+
+    /**
+     * Runs the middleware from `index` on, and the call at the end of the
+     * chain.
+     *
+     * @param ctx {PbdContext} - The context of the call.
+     * @param index {number} - The middleware to run.
+     * @param call {() => Promise<void>} - Runs the call.
+     * @returns {Promise<void>}
+     */
+    private dispatch(
+        ctx: PbdContext,
+        index: number,
+        call: () => Promise<void>,
+    ): Promise<void> {
+        const middleware: PbdMiddleware | undefined = this.middleware[index];
+
+        if (!middleware) {
+            return call();
+        }
+
+        return middleware(ctx, () => this.dispatch(ctx, index + 1, call));
+    }
+
+    /**
+     * Runs a wrapped SDK call.
+     *
+     * Calls over a limit of the {@linkcode rateLimit} fail before anything
+     * else happens, then the tenant of `scoped` calls is resolved (see
+     * {@linkcode tenancy}). Calls with a `cacheQuery` are served through
+     * the {@linkcode cache}, and calls that `invalidates` drop the cached
+     * reads of their collection once they succeed. Transient failures are
+     * retried according to the {@linkcode retry} policy, and the
+     * {@linkcode circuit} fails the call fast while PocketBase is down
+     * (cached results are still served). With a {@linkcode pool} each
+     * attempt is sent to the member picked for it.
+     *
+     * @param call {PbdCall<T>} - The description of the wrapped call.
+     * @param fn {(client: Client, tenant: string | null | undefined) => Promise<T>}
+     * - The SDK call to run, with the tenant of scoped calls.
+     * @param ctx {PbdContext} - The context of the call, for the extra
+     * headers set by the middleware and the attempt count.
+     * @returns {Promise<T>} - The call result.
+     */
+    private async perform<T>(
+        call: PbdCall<T>,
+        fn: (client: Client, tenant: string | null | undefined) => Promise<T>,
+        ctx: PbdContext,
+    ): Promise<T> {
+        this.guard(call);
+        await this.rateLimit?.check(
+            call.method,
+            call.collectionName,
+            await this.caller(),
+        );
+
+        const token: string = this.client.authStore.token;
+
+        const tenant: string | null | undefined = call.scoped &&
+                call.collectionName !== undefined
+            ? this.tenantOf(call.collectionName)
+            : null;
+        const headers: Record<string, string> = ctx.headers;
+        const send = (client: Client): Promise<T> => {
+            ctx.attempts++;
+            return fn(
+                Object.keys(headers).length > 0
+                    ? this.withHeaders(client, headers)
+                    : client,
+                tenant,
+            );
+        };
+        const attempt = (): Promise<T> =>
+            withRetry(
+                () =>
+                    this.pool ? this.pool.send(call, send) : send(this.client),
+                this.retryOptions(call),
+            );
+        const run = (): Promise<T> =>
+            this.circuit
+                ? this.circuit.run(attempt, {
+                    method: call.method,
+                    collectionName: call.collectionName,
+                })
+                : attempt();
+        const data: T = this.cache && call.collectionName &&
+                call.cacheQuery !== undefined
+            ? await this.cache.read<T>(
+                call.collectionName,
+                await this.cacheKey(call, headers, tenant),
+                run,
+            )
+            : await run();
+
+        if (this.cache && call.collectionName && call.invalidates) {
+            await this.cache.invalidate(call.collectionName);
+        }
+
+        // PocketBase rejects the tokens it didn't sign on the calls that
+        // require auth, and the tokens it hands out are its own.
+        if (
+            this.rateLimit &&
+            (call.guard || token !== this.client.authStore.token)
+        ) {
+            this.trust(this.client.authStore.token);
+        }
+
+        return data;
+    }
+
+    /**
+     * Returns a client that sends the given headers with every request.
+     * It shares the URL, auth store and hooks of `client`, so the headers
+     * of concurrent calls don't mix.
+     *
+     * @param client {Client} - The client to copy.
+     * @param headers {Record<string, string>} - The extra headers.
+     * @returns {Client} - The copy.
+     */
+    private withHeaders(
+        client: Client,
+        headers: Record<string, string>,
+    ): Client {
+        const copy: Client = new Client(
+            client.baseUrl,
+            client.authStore,
+            client.lang,
+        );
+
+        copy.afterSend = client.afterSend;
+        copy.beforeSend = async (
+            url: string,
+            options: SendOptions,
+        ): Promise<{ url?: string; options?: { [key: string]: unknown } }> => {
+            const next: { url?: string; options?: SendOptions } = {
+                url,
+                options,
+                ...await client.beforeSend?.(url, options),
+            };
+
+            return {
+                ...next,
+                options: {
+                    ...next.options,
+                    headers: { ...next.options?.headers, ...headers },
+                },
+            };
+        };
+
+        return copy;
+    }
+
+    /**
+     * Resolves the retry policy of a call: the instance policy with the
+     * call overrides on top. Calls that aren't idempotent get a single
+     * attempt unless `idempotentOnly` is disabled.
+     *
+     * @param call {PbdCall<T>} - The description of the wrapped call.
+     * @returns {PbdRetryOptions} - The retry policy.
+     */
+    private retryOptions<T>(call: PbdCall<T>): PbdRetryOptions {
+        if (call.retry === false || (!this.retry && !call.retry)) {
+            return { attempts: 1 };
+        }
+
+        const options: PbdRetryOptions = { ...this.retry, ...call.retry };
+
+        if (!call.idempotent && (options.idempotentOnly ?? true)) {
+            return { attempts: 1 };
+        }
+
+        return options;
+    }
+
+    /**
+     * Builds the cache key of a read. Results are only shared between
+     * calls made with the same auth token, tenant and extra headers, since
+     * the collection rules may return different records to each of them.
+     *
+     * @param call {PbdCall<T>} - The description of the wrapped call.
+     * @param headers {Record<string, string>} - Extra request headers set
+     * by the middleware.
+     * @param tenant {string | null | undefined} - The tenant of the call.
+     * @returns {Promise<string>} - The cache key.
+     */
+    private async cacheKey<T>(
+        call: PbdCall<T>,
+        headers: Record<string, string>,
+        tenant: string | null | undefined,
+    ): Promise<string> {
+        return `${await this.credential()}\u0000${call.method}\u0000${
+            JSON.stringify(call.cacheQuery)
+        }\u0000${JSON.stringify({ tenant })}\u0000${
+            JSON.stringify(Object.entries(headers).sort())
+        }`;
+    }
+
+    /**
+     * @param collectionName {string} - The collection of a call.
+     * @returns {string | null | undefined} - The tenant the call is scoped
+     * to (see the `tenancy` option), `null` if it isn't, or `undefined` if
+     * the tenant is unknown.
+     */
+    private tenantOf(collectionName: string): string | null | undefined {
+        return this.tenancy
+            ? this.tenancy.resolve(this.client, collectionName)
+            : null;
+    }
+
+    /**
+     * @param tenant {string | null | undefined} - The tenant of the call.
+     * @param filter {PbdFilter | string | undefined} - The filter of the
+     * call, if any.
+     * @returns {string | undefined} - The filter to send, restricted to the
+     * records of the tenant.
+     */
+    private scopeFilter(
+        tenant: string | null | undefined,
+        filter: PbdFilter | string | undefined,
+    ): string | undefined {
+        return (this.tenancy?.filter(tenant, filter) ?? filter)?.toString();
+    }
+
+    /**
+     * Who makes a call, for the rate limits: the `type:id` of a token
+     * known to be authentic (see {@linkcode trust}), the hash of any other
+     * token (see {@linkcode credential}), or the client IP of a guest.
+     *
+     * @returns {Promise<string>} - Who the client calls as.
+     */
+    private async caller(): Promise<string> {
+        const { token, isValid }: BaseAuthStore = this.client.authStore;
+
+        if (!isValid) {
+            return this.clientIp ? `ip:${this.clientIp}` : "guest";
+        }
+
+        return this.trusted.get(token) ?? await this.credential();
+    }
+
+    /**
+     * Remembers that a token is authentic, so the calls made with it are
+     * counted by its id. The oldest tokens are forgotten past 10000.
+     *
+     * @param token {string} - The token.
+     * @returns {void}
+     */
+    private trust(token: string): void {
+        if (!token || this.trusted.has(token)) {
+            return;
+        }
+
+        const { type, id }: { [key: string]: unknown } = getTokenPayload(token);
+        this.trusted.set(token, `${type}:${id}`);
+
+        if (this.trusted.size > 10_000) {
+            this.trusted.delete(this.trusted.keys().next().value as string);
+        }
+    }
+
+    /**
+     * The ids of a token can't be trusted before PocketBase checks its
+     * signature, so a forged token naming another user could get their
+     * cached results or use up their rate limits. The token itself is used
+     * instead.
+     *
+     * @returns {Promise<string>} - Who the client calls as: `guest`, or the
+     * SHA-256 hash (in hex) of its auth token.
+     */
+    private async credential(): Promise<string> {
+        const { token, isValid }: BaseAuthStore = this.client.authStore;
+
+        if (!isValid) {
+            return "guest";
+        }
+
+        const hash: ArrayBuffer = await crypto.subtle.digest(
+            "SHA-256",
+            new TextEncoder().encode(token),
+        );
+
+        return Array.from(
+            new Uint8Array(hash),
+            (byte: number) => byte.toString(16).padStart(2, "0"),
+        ).join("");
+    }
+
+    /**
+     * Throws a {@linkcode PbdAuthError} if `unauthorized_errors` is enabled
+     * and the client is not authenticated as required by the call.
+     *
+     * @param call {PbdCall<T>} - The description of the wrapped call.
+     * @returns {void}
+     */
+    private guard<T>(call: PbdCall<T>): void {
+        if (!this.unauthorized_errors || !call.guard) {
+            return;
+        }
+
+        if (call.guard === "admin" && !this.client.authStore.isAdmin) {
+            throw new PbdAuthError(
+                `Attempted to make an administrator operation. The current client 'isAdmin' state is ${this.client.authStore.isAdmin}.`,
+                { method: call.method, collectionName: call.collectionName },
+            );
+        }
+
+        if (call.guard === "user" && !this.client.authStore.isValid) {
+            throw new PbdAuthError(
+                `Attempted to make a protected operation. The current client user auth state is ${this.client.authStore.isValid}.`,
+                { method: call.method, collectionName: call.collectionName },
+            );
+        }
     }
 
     /**
@@ -217,55 +1167,52 @@ export class Pbd {
      *
      * @param options {PbdAuthPasswordOptions} - The options for the
      * authWithPassword pocketbase sdk method.
-     * @throws {ClientResponseError} - If the request to pocketbase fails.
+     * @throws {PbdError} - If the request to pocketbase fails.
      * @returns {Promise<RecordAuthResponse<RecordModel> | null>} - The result of the authWithPassword
      * if return_null_on_error is set to true, it will return null if the request fails.
      */
     async authWithPassword(
         options: PbdAuthPasswordOptions,
-    ): Promise<RecordAuthResponse<RecordModel> | null> {
-        return await this.client.collection(options.collectionName)
-            .authWithPassword(options.userOrEmail, options.password)
-            .then(
-                (res: RecordAuthResponse<RecordModel>) => {
-                    return res;
-                },
-            ).catch(
-                (err: ClientResponseError) => {
-                    if (this.return_null_on_error) {
-                        return null;
-                    }
-                    throw err;
-                },
-            );
+    ): Promise<PbdReturn<RecordAuthResponse<RecordModel> | null, M>> {
+        return await this.execute<RecordAuthResponse<RecordModel> | null>(
+            {
+                method: "authWithPassword",
+                collectionName: options.collectionName,
+                fallback: null,
+                retry: options.retry,
+                args: [options],
+            },
+            (client: Client) =>
+                client.collection(options.collectionName)
+                    .authWithPassword(options.userOrEmail, options.password),
+        );
     }
 
     /**
      * Authenticates the provided client with an OAuth2 provider.
      *
      * @param options {PbdOauthAuthOptions} - The options for the authWithOAuth2 method
-     * @throws {ClientResponseError} - If the request to pocketbase fails
+     * @throws {PbdError} - If the request to pocketbase fails
      * @returns {Promise<RecordAuthResponse<RecordModel> | null>} - The result of the authWithOAuth2
      * if return_null_on_error is set to true, it will return null if the request fails.
      */
     async authWithOAuth2(
         options: PbdOauthAuthOptions,
-    ): Promise<RecordAuthResponse<RecordModel> | null> {
-        return await this.client.collection(options.collectionName)
-            .authWithOAuth2({
-                provider: options.provider,
-            }).then(
-                (res: RecordAuthResponse<RecordModel>) => {
-                    return res;
-                },
-            ).catch(
-                (err: ClientResponseError) => {
-                    if (this.return_null_on_error) {
-                        return null;
-                    }
-                    throw err;
-                },
-            );
+    ): Promise<PbdReturn<RecordAuthResponse<RecordModel> | null, M>> {
+        return await this.execute<RecordAuthResponse<RecordModel> | null>(
+            {
+                method: "authWithOAuth2",
+                collectionName: options.collectionName,
+                fallback: null,
+                retry: options.retry,
+                args: [options],
+            },
+            (client: Client) =>
+                client.collection(options.collectionName)
+                    .authWithOAuth2({
+                        provider: options.provider,
+                    }),
+        );
     }
 
     /**
@@ -283,27 +1230,26 @@ export class Pbd {
      * it may return a new token if the current one is expired. Or it may
      * do nothing because the current token is still valid.
      *
-     * @throws {ClientResponseError} - If the request to pocketbase fails
+     * @throws {PbdError} - If the request to pocketbase fails
      * @param options {PbdAuthPasswordOptions} - The options for the authRefresh method
      * @returns {Promise<RecordAuthResponse<RecordModel> | null>} - The result of the authRefresh
      * if return_null_on_error is set to true, it will return null if the request fails.
      */
     async authRefresh(
         options: PbdAuthPasswordOptions,
-    ): Promise<RecordAuthResponse<RecordModel> | null> {
-        return await this.client.collection(options.collectionName)
-            .authRefresh().then(
-                (res: RecordAuthResponse<RecordModel>) => {
-                    return res;
-                },
-            ).catch(
-                (err: ClientResponseError) => {
-                    if (this.return_null_on_error) {
-                        return null;
-                    }
-                    throw err;
-                },
-            );
+    ): Promise<PbdReturn<RecordAuthResponse<RecordModel> | null, M>> {
+        return await this.execute<RecordAuthResponse<RecordModel> | null>(
+            {
+                method: "authRefresh",
+                collectionName: options.collectionName,
+                fallback: null,
+                retry: options.retry,
+                args: [options],
+            },
+            (client: Client) =>
+                client.collection(options.collectionName)
+                    .authRefresh(),
+        );
     }
 
     /**
@@ -311,51 +1257,48 @@ export class Pbd {
      * configured email template/settings in PocketBase.
      *
      * @param options {PbdRequestVerificationOptions} - The options for the requestVerification method
-     * @throws {ClientResponseError} - If the request to pocketbase fails
+     * @throws {PbdError} - If the request to pocketbase fails
      * @returns {Promise<boolean>} - True if the email was sent
      */
     async requestVerification(
         options: PbdRequestVerificationOptions,
-    ): Promise<boolean> {
-        return await this.client.collection(options.collectionName)
-            .requestVerification(options.email).then(
-                (res: boolean) => {
-                    return res;
-                },
-            ).catch(
-                (err: ClientResponseError) => {
-                    if (this.return_null_on_error) {
-                        return false;
-                    }
-                    throw err;
-                },
-            );
+    ): Promise<PbdReturn<boolean, M>> {
+        return await this.execute<boolean>(
+            {
+                method: "requestVerification",
+                collectionName: options.collectionName,
+                fallback: false,
+                retry: options.retry,
+                args: [options],
+            },
+            (client: Client) =>
+                client.collection(options.collectionName)
+                    .requestVerification(options.email),
+        );
     }
 
     /**
      * Confirms a verification request using the provided token.
      *
-     * @throws {ClientResponseError} - If the request to pocketbase fails
+     * @throws {PbdError} - If the request to pocketbase fails
      * @param options {PbdConfirmVerificationOptions} - The options for the confirmVerification method
      * @returns {Promise<boolean>} - True if the email was sent
      */
     async confirmVerification(
         options: PbdConfirmVerificationOptions,
-    ): Promise<boolean> {
-        return await this.client.collection(options.collectionName)
-            .confirmVerification(options.token)
-            .then(
-                (res: boolean) => {
-                    return res;
-                },
-            ).catch(
-                (err: ClientResponseError) => {
-                    if (this.return_null_on_error) {
-                        return false;
-                    }
-                    throw err;
-                },
-            );
+    ): Promise<PbdReturn<boolean, M>> {
+        return await this.execute<boolean>(
+            {
+                method: "confirmVerification",
+                collectionName: options.collectionName,
+                fallback: false,
+                retry: options.retry,
+                args: [options],
+            },
+            (client: Client) =>
+                client.collection(options.collectionName)
+                    .confirmVerification(options.token),
+        );
     }
 
     /**
@@ -363,26 +1306,24 @@ export class Pbd {
      * configured email template/settings in PocketBase.
      *
      * @param options {PbdRequestPasswordResetOptions} - The options for the requestPasswordReset method
-     * @throws {ClientResponseError} - If the request to pocketbase fails
+     * @throws {PbdError} - If the request to pocketbase fails
      * @returns {Promise<boolean>} - True if the email was sent
      */
     async requestPasswordReset(
         options: PbdRequestPasswordResetOptions,
-    ): Promise<boolean> {
-        return await this.client.collection(options.collectionName)
-            .requestPasswordReset(options.email)
-            .then(
-                (res: boolean) => {
-                    return res;
-                },
-            ).catch(
-                (err: ClientResponseError) => {
-                    if (this.return_null_on_error) {
-                        return false;
-                    }
-                    throw err;
-                },
-            );
+    ): Promise<PbdReturn<boolean, M>> {
+        return await this.execute<boolean>(
+            {
+                method: "requestPasswordReset",
+                collectionName: options.collectionName,
+                fallback: false,
+                retry: options.retry,
+                args: [options],
+            },
+            (client: Client) =>
+                client.collection(options.collectionName)
+                    .requestPasswordReset(options.email),
+        );
     }
 
     /**
@@ -390,29 +1331,28 @@ export class Pbd {
      * is invalid, an error will be thrown.
      *
      * @param options {PbdConfirmPasswordResetOptions} - The options for the confirmPasswordReset method
-     * @throws {ClientResponseError} - If the request to pocketbase fails
+     * @throws {PbdError} - If the request to pocketbase fails
      * @returns {Promise<boolean>} - True if the email was sent
      */
     async confirmPasswordReset(
         options: PbdConfirmPasswordResetOptions,
-    ): Promise<boolean> {
-        return await this.client.collection(options.collectionName)
-            .confirmPasswordReset(
-                options.token,
-                options.password,
-                options.passwordConfirm,
-            ).then(
-                (res: boolean) => {
-                    return res;
-                },
-            ).catch(
-                (err: ClientResponseError) => {
-                    if (this.return_null_on_error) {
-                        return false;
-                    }
-                    throw err;
-                },
-            );
+    ): Promise<PbdReturn<boolean, M>> {
+        return await this.execute<boolean>(
+            {
+                method: "confirmPasswordReset",
+                collectionName: options.collectionName,
+                fallback: false,
+                retry: options.retry,
+                args: [options],
+            },
+            (client: Client) =>
+                client.collection(options.collectionName)
+                    .confirmPasswordReset(
+                        options.token,
+                        options.password,
+                        options.passwordConfirm,
+                    ),
+        );
     }
 
     /**
@@ -420,33 +1360,25 @@ export class Pbd {
      * configured email template/settings in PocketBase.
      *
      * @param options {PbdRequestEmailChangeOptions} - The options for the requestEmailChange method
-     * @throws {ClientResponseError} - If the request to pocketbase fails
+     * @throws {PbdError} - If the request to pocketbase fails
      * @returns {Promise<boolean>} - True if the email was sent
      */
     async requestEmailChange(
         options: PbdRequestEmailChangeOptions,
-    ): Promise<boolean> {
-        if (this.unauthorized_errors && !this.client.authStore.isValid) {
-            throw new Error(
-                `Attempted to make a protected operation. The current client user auth state is ${this.client.authStore.isValid}.`,
-            );
-        }
-
-        return await this.client.collection(options.collectionName)
-            .requestEmailChange(options.email)
-            .then(
-                (res: boolean) => {
-                    return res;
-                },
-            )
-            .catch(
-                (err: ClientResponseError) => {
-                    if (this.return_null_on_error) {
-                        return false;
-                    }
-                    throw err;
-                },
-            );
+    ): Promise<PbdReturn<boolean, M>> {
+        return await this.execute<boolean>(
+            {
+                method: "requestEmailChange",
+                collectionName: options.collectionName,
+                guard: "user",
+                fallback: false,
+                retry: options.retry,
+                args: [options],
+            },
+            (client: Client) =>
+                client.collection(options.collectionName)
+                    .requestEmailChange(options.email),
+        );
     }
 
     /**
@@ -454,90 +1386,84 @@ export class Pbd {
      * is invalid, an error will be thrown.
      *
      * @param options {PbdConfirmEmailChangeOptions} - The options for the confirmEmailChange method
-     * @throws {ClientResponseError} - If the request to pocketbase fails
+     * @throws {PbdError} - If the request to pocketbase fails
      * @returns {Promise<boolean>} - True if the email was sent
      */
     async confirmEmailChange(
         options: PbdConfirmEmailChangeOptions,
-    ): Promise<boolean> {
-        return await this.client.collection(options.collectionName)
-            .confirmEmailChange(
-                options.token,
-                options.password,
-            ).then(
-                (res: boolean) => {
-                    return res;
-                },
-            ).catch(
-                (err: ClientResponseError) => {
-                    if (this.return_null_on_error) {
-                        return false;
-                    }
-                    throw err;
-                },
-            );
+    ): Promise<PbdReturn<boolean, M>> {
+        return await this.execute<boolean>(
+            {
+                method: "confirmEmailChange",
+                collectionName: options.collectionName,
+                fallback: false,
+                retry: options.retry,
+                args: [options],
+            },
+            (client: Client) =>
+                client.collection(options.collectionName)
+                    .confirmEmailChange(
+                        options.token,
+                        options.password,
+                    ),
+        );
     }
 
     /**
      * Lists all available auth methods for the provided collection.
      *
      * @param options {PbdQueryOptions} - The options for the listAuthMethods method
-     * @throws {ClientResponseError} - If the request to pocketbase fails
+     * @throws {PbdError} - If the request to pocketbase fails
      * @returns {Promise<AuthMethodsList | null>} - The list of auth methods, or null if return_null_on_error is
      * set to true
      */
     async listAuthMethods(
         options: PbdQueryOptions,
-    ): Promise<AuthMethodsList | null> {
-        return await this.client.collection(options.collectionName)
-            .listAuthMethods({
-                ...options.options,
-            }).then(
-                (res: AuthMethodsList) => {
-                    return res;
-                },
-            ).catch(
-                (err: ClientResponseError) => {
-                    if (this.return_null_on_error) {
-                        return null;
-                    }
-                    throw err;
-                },
-            );
+    ): Promise<PbdReturn<AuthMethodsList | null, M>> {
+        return await this.execute<AuthMethodsList | null>(
+            {
+                method: "listAuthMethods",
+                collectionName: options.collectionName,
+                fallback: null,
+                retry: options.retry,
+                idempotent: true,
+                args: [options],
+            },
+            (client: Client) =>
+                client.collection(options.collectionName)
+                    .listAuthMethods({
+                        ...options.options,
+                    }),
+        );
     }
 
     /**
      * Lists all available external auth methods for the provided collection.
      *
-     * @throws {ClientResponseError} - If the request to pocketbase fails
+     * @throws {PbdError} - If the request to pocketbase fails
      * @param options {PbdQueryOptions} - The options for the listExternalAuths method
      * @returns {Promise<ExternalAuthModel[] | null>} - The list of external auth, or null if return_null_on_error
      * is set to true
      */
     async listExternalAuth(
         options: PbdQueryOptions,
-    ): Promise<ExternalAuthModel[] | null> {
-        if (this.unauthorized_errors && !this.client.authStore.isValid) {
-            throw new Error(
-                `Attempted to make a protected operation. The current client user auth state is ${this.client.authStore.isValid}.`,
-            );
-        }
-
-        return await this.client.collection(options.collectionName)
-            .listExternalAuths(
-                this.client.authStore.model?.id,
-            ).then(
-                (res: ExternalAuthModel[]) => {
-                    return res;
-                },
-            ).catch(
-                (err: ClientResponseError) => {
-                    if (this.return_null_on_error) {
-                        return null;
-                    }
-                    throw err;
-                },
-            );
+    ): Promise<PbdReturn<ExternalAuthModel[] | null, M>> {
+        return await this.execute<ExternalAuthModel[] | null>(
+            {
+                method: "listExternalAuth",
+                collectionName: options.collectionName,
+                guard: "user",
+                fallback: null,
+                retry: options.retry,
+                idempotent: true,
+                args: [options],
+            },
+            (client: Client) =>
+                client.collection(options.collectionName)
+                    .listExternalAuths(
+                        client.authStore.model?.id,
+                    ),
+        );
     }
 
     /**
@@ -553,29 +1479,23 @@ export class Pbd {
      */
     async unlinkExternalAuth(
         options: PbdUnlinkExternalAuthOptions,
-    ): Promise<boolean> {
-        if (this.unauthorized_errors && !this.client.authStore.isValid) {
-            throw new Error(
-                `Attempted to make a protected operation. The current client user auth state is ${this.client.authStore.isValid}.`,
-            );
-        }
-
-        return await this.client.collection(options.collectionName)
-            .unlinkExternalAuth(
-                this.client.authStore.model?.id,
-                options.provider,
-            ).then(
-                (res: boolean) => {
-                    return res;
-                },
-            ).catch(
-                (err: ClientResponseError) => {
-                    if (this.return_null_on_error) {
-                        return false;
-                    }
-                    throw err;
-                },
-            );
+    ): Promise<PbdReturn<boolean, M>> {
+        return await this.execute<boolean>(
+            {
+                method: "unlinkExternalAuth",
+                collectionName: options.collectionName,
+                guard: "user",
+                fallback: false,
+                retry: options.retry,
+                args: [options],
+            },
+            (client: Client) =>
+                client.collection(options.collectionName)
+                    .unlinkExternalAuth(
+                        client.authStore.model?.id,
+                        options.provider,
+                    ),
+        );
     }
 
     /**
@@ -586,7 +1506,7 @@ export class Pbd {
      *
      * @param {PbdGetListOptions} options - The options for the getList
      * @returns {Promise<ListResult<T> | null>} - The result of the getList, or null if return_null_on_error
-     * is set to true
+     * is set to true (or if there are no items and `empty_result` is `"null"`)
      *
      * @example Get a list of "products" from the "products" collection.
      * ```typescript
@@ -617,31 +1537,49 @@ export class Pbd {
      */
     async getList<T>(
         options: PbdGetListOptions,
-    ): Promise<ListResult<T> | null> {
-        return await this.client.collection(options.collectionName).getList<T>(
-            options.page,
-            options.perPage,
-            options.listoptions,
-        ).then(
-            (res: ListResult<T>) => {
-                if (res.totalItems === 0) {
-                    if (this.return_null_on_error) {
-                        return null;
-                    }
-
-                    throw new Error(
-                        `No items found in ${options.collectionName}`,
+    ): Promise<PbdReturn<ListResult<T> | null, M>> {
+        return await this.execute<ListResult<T> | null>(
+            {
+                method: "getList",
+                collectionName: options.collectionName,
+                fallback: null,
+                cacheQuery: {
+                    page: options.page,
+                    perPage: options.perPage,
+                    filter: options.filter?.toString(),
+                    sort: options.sort,
+                    options: options.listoptions,
+                },
+                scoped: true,
+                retry: options.retry,
+                idempotent: true,
+                args: [options],
+            },
+            async (client: Client, tenant: string | null | undefined) => {
+                const filter: string | undefined = this.scopeFilter(
+                    tenant,
+                    options.filter?.toString() ?? options.listoptions?.filter,
+                );
+                const sort: string | undefined = options.sort ??
+                    options.listoptions?.sort;
+                // The SDK would send missing parameters as "undefined".
+                const res: ListResult<T> = await client
+                    .collection(options.collectionName).getList<T>(
+                        options.page,
+                        options.perPage,
+                        {
+                            ...options.listoptions,
+                            ...(filter === undefined ? {} : { filter }),
+                            ...(sort === undefined ? {} : { sort }),
+                        },
                     );
-                }
 
-                return res;
-            },
-        ).catch(
-            (err: ClientResponseError) => {
-                if (this.return_null_on_error) {
-                    return null;
-                }
-                throw err;
+                return this.emptyResult(
+                    res,
+                    res.items,
+                    "getList",
+                    options.collectionName,
+                );
             },
         );
     }
@@ -655,34 +1593,91 @@ export class Pbd {
      * @param options {PbdQueryOptions} - The options for the getFullList pocketbase method
      * @returns {Promise<T[] | null>} - The result of the getFullList pocketbase method,
      * or null if return_null_on_error is set to true
+     * (or if there are no items and `empty_result` is `"null"`)
      */
-    async getFullList<T>(options: PbdQueryOptions): Promise<T[] | null> {
-        return await this.client
-            .collection(options.collectionName)
-            .getFullList<T>({
-                options: options.options,
-                sort: options.sort,
-            }).then(
-                (res: T[]) => {
-                    if (res.length === 0) {
-                        if (this.return_null_on_error) {
-                            return null;
-                        }
-                        throw new Error(
-                            `No items found in collection ${options.collectionName}`,
-                        );
-                    }
-
-                    return res;
-                },
-            ).catch(
-                (err: ClientResponseError) => {
-                    if (this.return_null_on_error) {
-                        return null;
-                    }
-                    throw err;
+    async getFullList<T>(
+        options: PbdQueryOptions,
+    ): Promise<PbdReturn<T[] | null, M>> {
+        return await this.execute<T[] | null>(
+            {
+                method: "getFullList",
+                collectionName: options.collectionName,
+                fallback: null,
+                cacheQuery: {
+                    filter: options.filter?.toString(),
+                    sort: options.sort,
+                    options: options.options,
                 },
-            );
+                scoped: true,
+                retry: options.retry,
+                idempotent: true,
+                args: [options],
+            },
+            async (client: Client, tenant: string | null | undefined) => {
+                const filter: string | undefined = this.scopeFilter(
+                    tenant,
+                    options.filter,
+                );
+                const res: T[] = await client
+                    .collection(options.collectionName)
+                    .getFullList<T>({
+                        options: options.options,
+                        // The SDK would send missing parameters as "undefined".
+                        ...(options.sort === undefined
+                            ? {}
+                            : { sort: options.sort }),
+                        ...(filter === undefined ? {} : { filter }),
+                    });
+
+                return this.emptyResult(
+                    res,
+                    res,
+                    "getFullList",
+                    options.collectionName,
+                );
+            },
+        );
+    }
+
+    /**
+     * Walks every record matching the query, fetching one page at a time
+     * as the loop advances. See {@linkcode PbdListIterator}.
+     *
+     * Errors are thrown by the loop in the `"throw"` error mode. In the
+     * other modes the loop just ends and the error is kept in
+     * `iterator.error`. Aborting the `signal` ends the loop quietly.
+     *
+     * @param options {PbdIterateOptions} - The collection, page size and
+     * query options.
+     * @returns {PbdListIterator<T>} - An async iterable of records.
+     *
+     * @example Process every cat, even while new ones are being created
+     * ```typescript
+     * const cats = pbd.iterate<Cat>({
+     *     collectionName: "cats",
+     *     filter: pbdFilter.eq("adopted", false),
+     *     cursor: "asc",
+     *     signal: AbortSignal.timeout(60_000),
+     * });
+     *
+     * for await (const cat of cats) {
+     *     await notifyShelter(cat);
+     * }
+     * ```
+     */
+    iterate<T>(options: PbdIterateOptions): PbdListIterator<T> {
+        return new PbdListIterator<T>(
+            <R>(
+                call: PbdCall<R>,
+                fn: (
+                    client: Client,
+                    tenant: string | null | undefined,
+                ) => Promise<R>,
+            ) => this.run(call, fn),
+            this.tenancy,
+            options,
+            this.error_mode,
+        );
     }
 
     /**
@@ -695,26 +1690,33 @@ export class Pbd {
      * @returns {Promise<T | null>} - The result of the getFirstListItem
      * or null if return_null_on_error is set to true
      */
-    async getFirstListItem<T>(options: PbdQueryOptions): Promise<T | null> {
-        return await this.client
-            .collection(options.collectionName)
-            .getFirstListItem<T>(
-                options.filter ? options.filter.toString() : "",
-                {
+    async getFirstListItem<T>(
+        options: PbdQueryOptions,
+    ): Promise<PbdReturn<T | null, M>> {
+        return await this.execute<T | null>(
+            {
+                method: "getFirstListItem",
+                collectionName: options.collectionName,
+                fallback: null,
+                cacheQuery: {
+                    filter: options.filter?.toString(),
                     options: options.options,
                 },
-            ).then(
-                (res: T) => {
-                    return res;
-                },
-            ).catch(
-                (err: ClientResponseError) => {
-                    if (this.return_null_on_error) {
-                        return null;
-                    }
-                    throw err;
-                },
-            );
+                scoped: true,
+                retry: options.retry,
+                idempotent: true,
+                args: [options],
+            },
+            (client: Client, tenant: string | null | undefined) =>
+                client
+                    .collection(options.collectionName)
+                    .getFirstListItem<T>(
+                        this.scopeFilter(tenant, options.filter) ?? "",
+                        {
+                            options: options.options,
+                        },
+                    ),
+        );
     }
 
     /**
@@ -723,7 +1725,7 @@ export class Pbd {
      * already have some type definitions, you can use them in the generics
      * provided in this function.
      *
-     * @throws {ClientResponseError} - If the request to pocketbase fails
+     * @throws {PbdError} - If the request to pocketbase fails
      * @param record_id {string} - The id of the record
      * @param options {PbdQueryOptions} - The options for the getOne
      * @returns {Promise<T | null>} - The result of the getOne or null if
@@ -732,22 +1734,29 @@ export class Pbd {
     async getOne<T>(
         record_id: string,
         options: PbdQueryOptions,
-    ): Promise<T | null> {
-        return await this.client.collection(options.collectionName).getOne<T>(
-            record_id,
+    ): Promise<PbdReturn<T | null, M>> {
+        return await this.execute<T | null>(
             {
-                ...options.options,
-            },
-        ).then(
-            (res: T) => {
-                return res;
-            },
-        ).catch(
-            (err: ClientResponseError) => {
-                if (this.return_null_on_error) {
-                    return null;
-                }
-                throw err;
+                method: "getOne",
+                collectionName: options.collectionName,
+                fallback: null,
+                cacheQuery: { id: record_id, options: options.options },
+                scoped: true,
+                retry: options.retry,
+                idempotent: true,
+                args: [record_id, options],
+            },
+            async (client: Client, tenant: string | null | undefined) => {
+                const record: T = await client
+                    .collection(options.collectionName)
+                    .getOne<T>(record_id, {
+                        ...this.tenancy?.readable(tenant, options.options) ??
+                            options.options,
+                    });
+
+                this.tenancy?.check(tenant, record);
+
+                return record;
             },
         );
     }
@@ -760,7 +1769,9 @@ export class Pbd {
      *
      * See {@linkcode PbdCreateOptions}
      *
-     * @throws {ClientResponseError} - If the request to pocketbase fails
+     * @throws {PbdValidationError} - If `validation` is enabled and the data
+     * doesn't match the collection schema
+     * @throws {PbdError} - If the request to pocketbase fails
      * @param options {PbdQueryOptions} - The options for the create
      * @param data {T} - The data to create
      * @returns {Promise<T | null>} - The result of the create, or null if
@@ -770,22 +1781,29 @@ export class Pbd {
         options: PbdQueryOptions,
         // deno-lint-ignore no-explicit-any
         data: any,
-    ): Promise<T | null> {
-        return await this.client.collection(options.collectionName).create<T>(
-            data,
+    ): Promise<PbdReturn<T | null, M>> {
+        return await this.execute<T | null>(
             {
-                ...options.options,
-            },
-        ).then(
-            (res: T) => {
-                return res;
-            },
-        ).catch(
-            (err: ClientResponseError) => {
-                if (this.return_null_on_error) {
-                    return null;
-                }
-                throw err;
+                method: "create",
+                collectionName: options.collectionName,
+                fallback: null,
+                scoped: true,
+                invalidates: true,
+                retry: options.retry,
+                args: [options, data],
+            },
+            async (client: Client, tenant: string | null | undefined) => {
+                const stamped: { [key: string]: unknown } | FormData =
+                    this.tenancy?.stamp(tenant, data) ?? data;
+
+                await this.validator?.check(
+                    options.collectionName,
+                    stamped,
+                    "create",
+                );
+
+                return await client.collection(options.collectionName)
+                    .create<T>(stamped, { ...options.options });
             },
         );
     }
@@ -796,7 +1814,9 @@ export class Pbd {
      * already have some type definitions, you can use them in the generics
      * provided in this function.
      *
-     * @throws {ClientResponseError} - If the request to pocketbase fails
+     * @throws {PbdValidationError} - If `validation` is enabled and the data
+     * doesn't match the collection schema
+     * @throws {PbdError} - If the request to pocketbase fails
      * @param record_id {string} - The id of the record
      * @param options {PbdQueryOptions} - The options for the update
      * @param data {T} - The data to update
@@ -808,23 +1828,35 @@ export class Pbd {
         options: PbdQueryOptions,
         // deno-lint-ignore no-explicit-any
         data: any,
-    ): Promise<T | null> {
-        return await this.client.collection(options.collectionName).update<T>(
-            record_id,
-            data,
+    ): Promise<PbdReturn<T | null, M>> {
+        return await this.execute<T | null>(
             {
-                ...options.options,
-            },
-        ).then(
-            (res: T) => {
-                return res;
-            },
-        ).catch(
-            (err: ClientResponseError) => {
-                if (this.return_null_on_error) {
-                    return null;
-                }
-                throw err;
+                method: "update",
+                collectionName: options.collectionName,
+                fallback: null,
+                scoped: true,
+                invalidates: true,
+                retry: options.retry,
+                args: [record_id, options, data],
+            },
+            async (client: Client, tenant: string | null | undefined) => {
+                const stamped: { [key: string]: unknown } | FormData =
+                    this.tenancy?.stamp(tenant, data) ?? data;
+
+                await this.validator?.check(
+                    options.collectionName,
+                    stamped,
+                    "update",
+                );
+                await this.tenancy?.checkStored(
+                    tenant,
+                    client,
+                    options.collectionName,
+                    record_id,
+                );
+
+                return await client.collection(options.collectionName)
+                    .update<T>(record_id, stamped, { ...options.options });
             },
         );
     }
@@ -835,7 +1867,7 @@ export class Pbd {
      * already have some type definitions, you can use them in the generics
      * provided in this function.
      *
-     * @throws {ClientResponseError} - If the request to pocketbase fails
+     * @throws {PbdError} - If the request to pocketbase fails
      * @param record_id {string} - The id of the record
      * @param options {PbdQueryOptions} - The options for the delete
      * @returns {Promise<void>} - The result of the delete
@@ -843,31 +1875,137 @@ export class Pbd {
     async delete(
         record_id: string,
         options: PbdQueryOptions,
-    ): Promise<boolean> {
-        return await this.client.collection(options.collectionName).delete(
-            record_id,
-            { ...options.options },
-        ).then(
-            (res: boolean) => {
-                return res;
+    ): Promise<PbdReturn<boolean, M>> {
+        return await this.execute<boolean>(
+            {
+                method: "delete",
+                collectionName: options.collectionName,
+                fallback: false,
+                scoped: true,
+                invalidates: true,
+                retry: options.retry,
+                args: [record_id, options],
+            },
+            async (client: Client, tenant: string | null | undefined) => {
+                await this.tenancy?.checkStored(
+                    tenant,
+                    client,
+                    options.collectionName,
+                    record_id,
+                );
+
+                return await client.collection(options.collectionName).delete(
+                    record_id,
+                    { ...options.options },
+                );
             },
-        ).catch(
-            (err: ClientResponseError) => {
-                if (this.return_null_on_error) {
-                    return false;
-                }
-                throw err;
+        );
+    }
+
+    /**
+     * Subscribes to realtime changes of a collection. The returned
+     * {@linkcode PbdSubscription} is an async iterable of
+     * `{ action, record }` events that keeps working after the SSE
+     * connection reconnects.
+     *
+     * Errors that close the subscription after it was opened are thrown by
+     * the iterator in the `"throw"` error mode. In the other modes the loop
+     * just ends and the error is kept in `subscription.error`.
+     *
+     * @throws {PbdError} - If the subscription can't be opened
+     * @param options {PbdSubscribeOptions} - The collection, topic and filter
+     * to subscribe to.
+     * @returns {Promise<PbdSubscription<T> | null>} - The subscription, or
+     * null if return_null_on_error is set to true
+     *
+     * @example Listen to new cats until the request is aborted
+     * ```typescript
+     * const subscription = await pbd.subscribe<Cat>({
+     *     collectionName: "cats",
+     *     filter: pbdFilter.eq("color", "brown"),
+     *     signal: ctx.request.signal,
+     * });
+     *
+     * for await (const { action, record } of subscription) {
+     *     if (action === "create") console.log(`New cat: ${record.name}`);
+     * }
+     * ```
+     */
+    async subscribe<T>(
+        options: PbdSubscribeOptions,
+    ): Promise<PbdReturn<PbdSubscription<T> | null, M>> {
+        return await this.execute<PbdSubscription<T> | null>(
+            {
+                method: "subscribe",
+                collectionName: options.collectionName,
+                fallback: null,
+                scoped: true,
+                retry: options.retry,
+                args: [options],
+            },
+            async (client: Client, tenant: string | null | undefined) => {
+                const subscription: PbdSubscription<T> = new PbdSubscription<
+                    T
+                >(
+                    client,
+                    tenant === null ? options : {
+                        ...options,
+                        filter: this.scopeFilter(tenant, options.filter),
+                    },
+                    this.error_mode,
+                );
+
+                await subscription.open();
+
+                return subscription;
             },
         );
     }
 
+    /**
+     * Starts a batch of record writes across collections. The queued
+     * operations run with bounded concurrency when `run()` is called, and
+     * if one fails the already applied ones are undone. See
+     * {@linkcode PbdBatch}.
+     *
+     * The batch always resolves with a {@linkcode PbdBatchReport}, whatever
+     * the error mode.
+     *
+     * @param options {PbdBatchOptions} - The concurrency and rollback options.
+     * @returns {PbdBatch} - The batch builder.
+     *
+     * @example Move a cat to a new owner
+     * ```typescript
+     * const report = await pbd.batch()
+     *     .create("owners", { id: ownerId, name: "Erina" })
+     *     .update("cats", catId, { owner: ownerId })
+     *     .run();
+     *
+     * if (!report.ok) console.log("Nothing was changed");
+     * ```
+     */
+    batch(options: PbdBatchOptions = {}): PbdBatch {
+        return new PbdBatch(
+            <R>(
+                call: PbdCall<R>,
+                fn: (
+                    client: Client,
+                    tenant: string | null | undefined,
+                ) => Promise<R>,
+            ) => this.run(call, fn),
+            this.validator,
+            this.tenancy,
+            options,
+        );
+    }
+
     /**
      * Wraps the fileGetUrl method from the pocketbase client. It uses generics
      * to return the correct type when querying the collection. If you
      * already have some type definitions, you can use them in the generics
      * provided in this function.
      *
-     * @throws {ClientResponseError} - If the request to pocketbase fails
+     * @throws {PbdError} - If the request to pocketbase fails
      * @param options {PbdQueryOptions} - The options for the fileGetUrl
      * @param filename {string} - The name of the file
      * @param record_id {string} - The id of the record
@@ -895,85 +2033,62 @@ export class Pbd {
      * > This method requires the client to be authenticated.
      * > either as user or admin.
      *
-     * @throws {ClientResponseError} - If the request to pocketbase fails
+     * @throws {PbdError} - If the request to pocketbase fails
      * @returns {Promise<string | null>} - The result of the getToken, or null if
      * return_null_on_error is set to true
      */
-    async getFileToken(): Promise<string | null> {
-        if (this.unauthorized_errors && !this.client.authStore.isValid) {
-            throw new Error(
-                `Attempted to make a protected operation. The current client user auth state is ${this.client.authStore.isValid}.`,
-            );
-        }
-        return await this.client.files.getToken().then(
-            (res: string) => {
-                return res;
-            },
-        ).catch(
-            (err: ClientResponseError) => {
-                if (this.return_null_on_error) {
-                    return null;
-                }
-                throw err;
-            },
+    async getFileToken(): Promise<PbdReturn<string | null, M>> {
+        return await this.execute<string | null>(
+            { method: "getFileToken", guard: "user", fallback: null },
+            (client: Client) => client.files.getToken(),
         );
     }
 
     /**
      * Wraps the getHealth method from the pocketbase client. This
      *
-     * @throws {ClientResponseError} - If the request to pocketbase fails
+     * @throws {PbdError} - If the request to pocketbase fails
      * @returns {Promise<HealthCheckResponse | null>} - The result of the getHealth, or null if
      * return_null_on_error is set to true
      */
-    async getHealth(): Promise<HealthCheckResponse | null> {
-        return await this.client.health.check().then(
-            (res: HealthCheckResponse) => {
-                return res;
-            },
-        ).catch(
-            (err: ClientResponseError) => {
-                if (this.return_null_on_error) {
-                    return null;
-                }
-                throw err;
-            },
+    async getHealth(): Promise<PbdReturn<HealthCheckResponse | null, M>> {
+        return await this.execute<HealthCheckResponse | null>(
+            { method: "getHealth", fallback: null, idempotent: true },
+            (client: Client) => client.health.check(),
         );
     }
 
     /**
      * Wraps the listBackups method from the pocketbase client.
      *
-     * @throws {ClientResponseError} - If the request to pocketbase fails
+     * @throws {PbdError} - If the request to pocketbase fails
      * @param options {PbdListBackupOptions} - The options for the listBackups
      * @returns {Promise<BackupFileInfo[] | null>} - The result of the listBackups,
      * or null if return_null_on_error is set to true
      */
     async listBackups(
         options: PbdListBackupOptions,
-    ): Promise<BackupFileInfo[] | null> {
-        if (this.unauthorized_errors && !this.client.authStore.isAdmin) {
-            throw new Error(
-                `Attempted to make an administrator operation. The current client 'isAdmin' state is ${this.client.authStore.isAdmin}.`,
-            );
-        }
+    ): Promise<PbdReturn<BackupFileInfo[] | null, M>> {
+        return await this.execute<BackupFileInfo[] | null>(
+            {
+                method: "listBackups",
+                guard: "admin",
+                fallback: null,
+                idempotent: true,
+                args: [options],
+            },
+            async (client: Client) => {
+                const res: unknown | BackupFileInfo[] = await client.backups
+                    .getFullList({
+                        fields: options.fields,
+                        options: options.options,
+                    });
 
-        return await this.client.backups.getFullList({
-            fields: options.fields,
-            options: options.options,
-        }).then(
-            (res: unknown | BackupFileInfo[]) => {
                 if (!Array.isArray(res)) {
                     throw new Error(`The returned data is not an array.`);
                 }
-                return res;
-            },
-        ).catch(
-            (err: ClientResponseError) => {
-                if (this.return_null_on_error) {
-                    return null;
-                }
-                throw err;
+
+                return this.emptyResult(res, res, "listBackups");
             },
         );
     }
@@ -981,132 +2096,93 @@ export class Pbd {
     /**
      * Wraps the createBackup method from the pocketbase client.
      *
-     * @throws {ClientResponseError} - If the request to pocketbase fails
+     * @throws {PbdError} - If the request to pocketbase fails
      * @param backup_name {string} - The name of the backup to create.
      * @returns {Promise<boolean>} - The result of the createBackup
      */
-    async createBackup(backup_name: string): Promise<boolean> {
-        if (this.unauthorized_errors && !this.client.authStore.isAdmin) {
-            throw new Error(
-                `Attempted to make an administrator operation. The current client 'isAdmin' state is ${this.client.authStore.isAdmin}.`,
-            );
-        }
-
-        return await this.client.backups.create(backup_name).then(
-            (res: boolean) => {
-                return res;
-            },
-        ).catch(
-            (err: ClientResponseError) => {
-                if (this.return_null_on_error) {
-                    return false;
-                }
-                throw err;
+    async createBackup(backup_name: string): Promise<PbdReturn<boolean, M>> {
+        return await this.execute<boolean>(
+            {
+                method: "createBackup",
+                guard: "admin",
+                fallback: false,
+                args: [backup_name],
             },
+            (client: Client) => client.backups.create(backup_name),
         );
     }
 
     /**
      * Uploads a backup to the PocketBase server.
      *
-     * @throws {ClientResponseError} - If the request to pocketbase fails
+     * @throws {PbdError} - If the request to pocketbase fails
      * @param blob {Blob} - The blob to upload
      * @returns {Promise<boolean>} - The result of the upload
      */
-    async uploadBackup(blob: Blob): Promise<boolean> {
-        if (this.unauthorized_errors && !this.client.authStore.isAdmin) {
-            throw new Error(
-                `Attempted to make an administrator operation. The current client 'isAdmin' state is ${this.client.authStore.isAdmin}.`,
-            );
-        }
-
-        return await this.client.backups.upload(
+    async uploadBackup(blob: Blob): Promise<PbdReturn<boolean, M>> {
+        return await this.execute<boolean>(
             {
-                file: blob,
-            },
-        ).then(
-            (res: boolean) => {
-                return res;
-            },
-        ).catch(
-            (err: ClientResponseError) => {
-                if (this.return_null_on_error) {
-                    return false;
-                }
-                throw err;
-            },
+                method: "uploadBackup",
+                guard: "admin",
+                fallback: false,
+                args: [blob],
+            },
+            (client: Client) =>
+                client.backups.upload(
+                    {
+                        file: blob,
+                    },
+                ),
         );
     }
 
     /**
      * Delete a backup from the PocketBase server.
      *
-     * @throws {ClientResponseError} - If the request to pocketbase fails
+     * @throws {PbdError} - If the request to pocketbase fails
      * @param backup_name {string} - The name of the backup
      * @returns {Promise<boolean>} - The result of the delete
      */
-    async deleteBackup(backup_name: string): Promise<boolean> {
-        if (this.unauthorized_errors && !this.client.authStore.isAdmin) {
-            throw new Error(
-                `Attempted to make an administrator operation. The current client 'isAdmin' state is ${this.client.authStore.isAdmin}.`,
-            );
-        }
-
-        return await this.client.backups.delete(backup_name).then(
-            (res: boolean) => {
-                return res;
-            },
-        ).catch(
-            (err: ClientResponseError) => {
-                if (this.return_null_on_error) {
-                    return false;
-                }
-                throw err;
+    async deleteBackup(backup_name: string): Promise<PbdReturn<boolean, M>> {
+        return await this.execute<boolean>(
+            {
+                method: "deleteBackup",
+                guard: "admin",
+                fallback: false,
+                args: [backup_name],
             },
+            (client: Client) => client.backups.delete(backup_name),
         );
     }
 
-    /**
-     * Restore a backup from the PocketBase.
-     *
-     * @throws {ClientResponseError} - If the request to pocketbase fails
-     * @param backup_name {string}- The name of the backup
-     * @returns {Promise<boolean>}
-     */
-    async restoreBackup(backup_name: string): Promise<boolean> {
-        if (this.unauthorized_errors && !this.client.authStore.isAdmin) {
-            throw new Error(
-                `Attempted to make an administrator operation. The current client 'isAdmin' state is ${this.client.authStore.isAdmin}.`,
-            );
-        }
-
-        return await this.client.backups.restore(backup_name).then(
-            (res: boolean) => {
-                return res;
-            },
-        ).catch(
-            (err: ClientResponseError) => {
-                if (this.return_null_on_error) {
-                    return false;
-                }
-                throw err;
+    /**
+     * Restore a backup from the PocketBase.
+     *
+     * @throws {PbdError} - If the request to pocketbase fails
+     * @param backup_name {string}- The name of the backup
+     * @returns {Promise<boolean>}
+     */
+    async restoreBackup(backup_name: string): Promise<PbdReturn<boolean, M>> {
+        return await this.execute<boolean>(
+            {
+                method: "restoreBackup",
+                guard: "admin",
+                fallback: false,
+                args: [backup_name],
             },
+            (client: Client) => client.backups.restore(backup_name),
         );
     }
 
     /**
      * Get the download url of a backup file from the PocketBase.
      *
-     * @throws {ClientResponseError} - If the request to pocketbase fails
+     * @throws {PbdError} - If the request to pocketbase fails
      * @param options {PbdDownloadBackupOptions} - The options for the downloadBackup
      * @returns {string}- The download url
      */
     downloadBackup(options: PbdDownloadBackupOptions): string {
-        if (this.unauthorized_errors && !this.client.authStore.isAdmin) {
-            throw new Error(
-                `Attempted to make an administrator operation. The current client 'isAdmin' state is ${this.client.authStore.isAdmin}.`,
-            );
-        }
+        this.guard({ method: "downloadBackup", guard: "admin", fallback: "" });
 
         return this.client.backups.getDownloadUrl(
             options.token,
@@ -1119,32 +2195,32 @@ export class Pbd {
      *
      * - A filter string is required to use this function
      *
-     * @throws {ClientResponseError} - If the request to pocketbase fails
+     * @throws {PbdError} - If the request to pocketbase fails
      * @param options {PbdGetLogsOptions} - The options for the getLogList method
      * @returns {Promise<ListResult<LogModel> | null>} - The list of logs, or
      * null if return_null_on_error is set to true
      */
     async getLogList(
         options: PbdGetLogsOptions,
-    ): Promise<ListResult<LogModel> | null> {
-        if (this.unauthorized_errors && !this.client.authStore.isAdmin) {
-            throw new Error(
-                `Attempted to make an administrator operation. The current client 'isAdmin' state is ${this.client.authStore.isAdmin}.`,
-            );
-        }
-
-        return await this.client.logs.getList(options.page, options.perPage, {
-            filter: options.filter,
-        }).then(
-            (res: ListResult<LogModel>) => {
-                return res;
-            },
-        ).catch(
-            (err: ClientResponseError) => {
-                if (this.return_null_on_error) {
-                    return null;
-                }
-                throw err;
+    ): Promise<PbdReturn<ListResult<LogModel> | null, M>> {
+        return await this.execute<ListResult<LogModel> | null>(
+            {
+                method: "getLogList",
+                guard: "admin",
+                fallback: null,
+                idempotent: true,
+                args: [options],
+            },
+            async (client: Client) => {
+                const filter: string | undefined = options.filter?.toString();
+                // The SDK would send missing parameters as "undefined".
+                const res: ListResult<LogModel> = await client.logs.getList(
+                    options.page,
+                    options.perPage,
+                    filter === undefined ? {} : { filter },
+                );
+
+                return this.emptyResult(res, res.items, "getLogList");
             },
         );
     }
@@ -1152,116 +2228,85 @@ export class Pbd {
     /**
      * Get a single log entry from the PocketBase.
      *
-     * @throws {ClientResponseError} - If the request to pocketbase fails
+     * @throws {PbdError} - If the request to pocketbase fails
      * @param log_id {string} - The id of the log to get
      * @returns {Promise<LogModel | null>} - The log object or null if
      * return_null_on_error is set to true
      */
-    async getOneLog(log_id: string): Promise<LogModel | null> {
-        if (this.unauthorized_errors && !this.client.authStore.isAdmin) {
-            throw new Error(
-                `Attempted to make an administrator operation. The current client 'isAdmin' state is ${this.client.authStore.isAdmin}.`,
-            );
-        }
-        return await this.client.logs.getOne(log_id).then(
-            (res: LogModel) => {
-                return res;
-            },
-        ).catch(
-            (err: ClientResponseError) => {
-                if (this.return_null_on_error) {
-                    return null;
-                }
-                throw err;
+    async getOneLog(log_id: string): Promise<PbdReturn<LogModel | null, M>> {
+        return await this.execute<LogModel | null>(
+            {
+                method: "getOneLog",
+                guard: "admin",
+                fallback: null,
+                idempotent: true,
+                args: [log_id],
             },
+            (client: Client) => client.logs.getOne(log_id),
         );
     }
 
     /**
      * Get all the stats from the PocketBase.
      *
-     * @throws {ClientResponseError} - If the request to pocketbase fails
-     * @param filter {string} - The filter to use
+     * @throws {PbdError} - If the request to pocketbase fails
+     * @param filter {string | PbdFilter} - The filter to use
      * @returns {Promise<HourlyStats[] | null>} - The stats from Pocketbase or
      * null if return_null_on_error is set to true
      */
-    async getLogStats(filter: string): Promise<HourlyStats[] | null> {
-        if (this.unauthorized_errors && !this.client.authStore.isAdmin) {
-            throw new Error(
-                `Attempted to make an administrator operation. The current client 'isAdmin' state is ${this.client.authStore.isAdmin}.`,
-            );
-        }
-        return await this.client.logs.getStats({
-            filter: filter,
-        }).then(
-            (res: HourlyStats[]) => {
-                return res;
-            },
-        ).catch(
-            (err: ClientResponseError) => {
-                if (this.return_null_on_error) {
-                    return null;
-                }
-                throw err;
-            },
+    async getLogStats(
+        filter: string | PbdFilter,
+    ): Promise<PbdReturn<HourlyStats[] | null, M>> {
+        return await this.execute<HourlyStats[] | null>(
+            {
+                method: "getLogStats",
+                guard: "admin",
+                fallback: null,
+                idempotent: true,
+                args: [filter],
+            },
+            (client: Client) =>
+                client.logs.getStats({
+                    filter: filter.toString(),
+                }),
         );
     }
 
     /**
      * Get all current settings from the PocketBase.
      *
-     * @throws {ClientResponseError} - If the request to pocketbase fails
+     * @throws {PbdError} - If the request to pocketbase fails
      * @returns {Promise<{[key: string]: unknown}> | null} - The settings that
      * Pocketbase uses or null if return_null_on_error is set to true
      */
-    async getAllSettings(): Promise<{ [key: string]: unknown } | null> {
-        if (this.unauthorized_errors && !this.client.authStore.isAdmin) {
-            throw new Error(
-                `Attempted to make an administrator operation. The current client 'isAdmin' state is ${this.client.authStore.isAdmin}.`,
-            );
-        }
-        return await this.client.settings.getAll().then(
-            (res: { [key: string]: unknown }) => {
-                return res;
-            },
-        ).catch(
-            (err: ClientResponseError) => {
-                if (this.return_null_on_error) {
-                    return null;
-                }
-                throw err;
+    async getAllSettings(): Promise<
+        PbdReturn<{ [key: string]: unknown } | null, M>
+    > {
+        return await this.execute<{ [key: string]: unknown } | null>(
+            {
+                method: "getAllSettings",
+                guard: "admin",
+                fallback: null,
+                idempotent: true,
             },
+            (client: Client) => client.settings.getAll(),
         );
     }
 
     /**
      * Update the settings. It requires a pocketbase settings object.
      *
-     * @throws {ClientResponseError} - If the request to pocketbase fails
+     * @throws {PbdError} - If the request to pocketbase fails
      * @param settings {[key: string]: unknown} - The settings to update
      * @returns {Promise<{[key: string]: unknown} | null>} - The updated settings or
      * null if return_null_on_error is set to true
      */
     async updateSettings(
         settings: { [key: string]: unknown },
-    ): Promise<{ [key: string]: unknown } | null> {
-        if (this.unauthorized_errors && !this.client.authStore.isAdmin) {
-            throw new Error(
-                `Attempted to make an administrator operation. The current client 'isAdmin' state is ${this.client.authStore.isAdmin}.`,
-            );
-        }
-
-        return await this.client.settings.update(settings).then(
-            (res: { [key: string]: unknown }) => {
-                return res;
-            },
-        ).catch(
-            (err: ClientResponseError) => {
-                if (this.return_null_on_error) {
-                    return null;
-                }
-                throw err;
-            },
+    ): Promise<PbdReturn<{ [key: string]: unknown } | null, M>> {
+        return await this.execute<{ [key: string]: unknown } | null>(
+            { method: "updateSettings", guard: "admin", fallback: null },
+            (client: Client) => client.settings.update(settings),
         );
     }
 
@@ -1272,24 +2317,15 @@ export class Pbd {
      * @returns {Promise<boolean>} - True if the backups are working, false if
      * an error occurred or if backups are not configured
      */
-    async testS3(options: PbdTestS3Options): Promise<boolean> {
-        if (this.unauthorized_errors && !this.client.authStore.isAdmin) {
-            throw new Error(
-                `Attempted to make an administrator operation. The current client 'isAdmin' state is ${this.client.authStore.isAdmin}.`,
-            );
-        }
-
-        return await this.client.settings.testS3(options.backups).then(
-            (res: boolean) => {
-                return res;
-            },
-        ).catch(
-            (err: ClientResponseError) => {
-                if (this.return_null_on_error) {
-                    return false;
-                }
-                throw err;
+    async testS3(options: PbdTestS3Options): Promise<PbdReturn<boolean, M>> {
+        return await this.execute<boolean>(
+            {
+                method: "testS3",
+                guard: "admin",
+                fallback: false,
+                args: [options],
             },
+            (client: Client) => client.settings.testS3(options.backups),
         );
     }
 
@@ -1297,37 +2333,31 @@ export class Pbd {
      * Sends a test email via PocketBase with configured SMTP settings.
      *
      * @param options {PbdTestEmailOptions} - The options for the test email
-     * @throws {ClientResponseError} - If the request to pocketbase fails
+     * @throws {PbdError} - If the request to pocketbase fails
      * @returns {Promise<boolean>} - True if the email was sent
      */
-    async testEmail(options: PbdTestEmailOptions): Promise<boolean> {
-        if (this.unauthorized_errors && !this.client.authStore.isAdmin) {
-            throw new Error(
-                `Attempted to make an administrator operation. The current client 'isAdmin' state is ${this.client.authStore.isAdmin}.`,
-            );
-        }
-
-        return await this.client.settings.testEmail(
-            options.email,
-            options.template,
-        ).then(
-            (res: boolean) => {
-                return res;
-            },
-        ).catch(
-            (err: ClientResponseError) => {
-                if (this.return_null_on_error) {
-                    return false;
-                }
-                throw err;
-            },
+    async testEmail(
+        options: PbdTestEmailOptions,
+    ): Promise<PbdReturn<boolean, M>> {
+        return await this.execute<boolean>(
+            {
+                method: "testEmail",
+                guard: "admin",
+                fallback: false,
+                args: [options],
+            },
+            (client: Client) =>
+                client.settings.testEmail(
+                    options.email,
+                    options.template,
+                ),
         );
     }
 
     /**
      * Generate Apple client secret for the current user
      *
-     * @throws {ClientResponseError} - If the request to pocketbase fails
+     * @throws {PbdError} - If the request to pocketbase fails
      * @param options {PbdGenerateAppleClientSecretOptions} - The options for the
      * generateAppleClientSecret.
      * @returns {Promise<appleClientSecret | null>} - The apple client secret or null
@@ -1335,70 +2365,70 @@ export class Pbd {
      */
     async generateAppleClientSecret(
         options: PbdGenerateAppleClientSecretOptions,
-    ): Promise<appleClientSecret | null> {
-        if (this.unauthorized_errors && !this.client.authStore.isAdmin) {
-            throw new Error(
-                `Attempted to make an administrator operation. The current client 'isAdmin' state is ${this.client.authStore.isAdmin}.`,
-            );
-        }
+    ): Promise<PbdReturn<appleClientSecret | null, M>> {
+        return await this.execute<appleClientSecret | null>(
+            {
+                method: "generateAppleClientSecret",
+                guard: "admin",
+                fallback: null,
+                args: [options],
+            },
+            async (client: Client) => {
+                const res: appleClientSecret | unknown = await client.settings
+                    .generateAppleClientSecret(
+                        options.client_id,
+                        options.team_id,
+                        options.key_id,
+                        options.private_key,
+                        options.duration,
+                    );
 
-        return await this.client.settings.generateAppleClientSecret(
-            options.client_id,
-            options.team_id,
-            options.key_id,
-            options.private_key,
-            options.duration,
-        ).then(
-            (res: appleClientSecret | unknown) => {
                 if (res instanceof appleClientSecret) {
                     return res as appleClientSecret;
                 } else {
                     return res as unknown as appleClientSecret;
                 }
             },
-        ).catch(
-            (err: ClientResponseError) => {
-                if (this.return_null_on_error) {
-                    return null;
-                }
-                throw err;
-            },
         );
     }
 
     /**
      * Get a paginated list of the current collections from the PocketBase.
      *
-     * @throws {ClientResponseError} - If the request to pocketbase fails
+     * @throws {PbdError} - If the request to pocketbase fails
      * @param options {PbdGetListOptions} - The options for the getFullCollectionsList
      * @returns {Promise<ListResult<CollectionModel> | null>} - The list of collections
      * or null if return_null_on_error is set to true
      */
     async getCollectionList(
         options: PbdGetListOptions,
-    ): Promise<ListResult<CollectionModel> | null> {
-        if (this.unauthorized_errors && !this.client.authStore.isAdmin) {
-            throw new Error(
-                `Attempted to make an administrator operation. The current client 'isAdmin' state is ${this.client.authStore.isAdmin}.`,
-            );
-        }
-
-        return await this.client.collections.getList(
-            options.page,
-            options.perPage,
+    ): Promise<PbdReturn<ListResult<CollectionModel> | null, M>> {
+        return await this.execute<ListResult<CollectionModel> | null>(
             {
-                ...options.options,
-            },
-        ).then(
-            (res: ListResult<CollectionModel>) => {
-                return res;
-            },
-        ).catch(
-            (err: ClientResponseError) => {
-                if (this.return_null_on_error) {
-                    return null;
-                }
-                throw err;
+                method: "getCollectionList",
+                guard: "admin",
+                fallback: null,
+                idempotent: true,
+                args: [options],
+            },
+            async (client: Client) => {
+                const filter: string | undefined = options.filter?.toString() ??
+                    options.options?.filter;
+                const sort: string | undefined = options.sort ??
+                    options.options?.sort;
+                // The SDK would send missing parameters as "undefined".
+                const res: ListResult<CollectionModel> = await client
+                    .collections.getList(
+                        options.page,
+                        options.perPage,
+                        {
+                            ...options.options,
+                            ...(filter === undefined ? {} : { filter }),
+                            ...(sort === undefined ? {} : { sort }),
+                        },
+                    );
+
+                return this.emptyResult(res, res.items, "getCollectionList");
             },
         );
     }
@@ -1406,32 +2436,36 @@ export class Pbd {
     /**
      * Get all the collections from the PocketBase.
      *
-     * @throws {ClientResponseError} - If the request to pocketbase fails
+     * @throws {PbdError} - If the request to pocketbase fails
      * @param options {PbdGetListOptions} - The options for the getFullCollectionsList
      * @returns {Promise<CollectionModel[] | null>} - The list of collections
      * or null if return_null_on_error is set to true
      */
     async getCollectionFullList(
         options: PbdGetListOptions,
-    ): Promise<CollectionModel[] | null> {
-        if (this.unauthorized_errors && !this.client.authStore.isAdmin) {
-            throw new Error(
-                `Attempted to make an administrator operation. The current client 'isAdmin' state is ${this.client.authStore.isAdmin}.`,
-            );
-        }
-
-        return await this.client.collections.getFullList({
-            ...options.options,
-        }).then(
-            (res: CollectionModel[]) => {
-                return res;
-            },
-        ).catch(
-            (err: ClientResponseError) => {
-                if (this.return_null_on_error) {
-                    return null;
-                }
-                throw err;
+    ): Promise<PbdReturn<CollectionModel[] | null, M>> {
+        return await this.execute<CollectionModel[] | null>(
+            {
+                method: "getCollectionFullList",
+                guard: "admin",
+                fallback: null,
+                idempotent: true,
+                args: [options],
+            },
+            async (client: Client) => {
+                const filter: string | undefined = options.filter?.toString() ??
+                    options.options?.filter;
+                const sort: string | undefined = options.sort ??
+                    options.options?.sort;
+                // The SDK would send missing parameters as "undefined".
+                const res: CollectionModel[] = await client.collections
+                    .getFullList({
+                        ...options.options,
+                        ...(filter === undefined ? {} : { filter }),
+                        ...(sort === undefined ? {} : { sort }),
+                    });
+
+                return this.emptyResult(res, res, "getCollectionFullList");
             },
         );
     }
@@ -1439,352 +2473,282 @@ export class Pbd {
     /**
      * Get the first collection from the PocketBase using a specific filter.
      *
-     * @throws {ClientResponseError} - If the request to pocketbase fails
+     * @throws {PbdError} - If the request to pocketbase fails
      * @param options {PbdGetListOptions} - The options for the getFullCollectionsList
      * @returns {Promise<CollectionModel | null>} - The list of collections or null
      * if return_null_on_error is set to true
      */
     async getCollectionFirstListItem(
         options: PbdGetListOptions,
-    ): Promise<CollectionModel | null> {
-        if (this.unauthorized_errors && !this.client.authStore.isAdmin) {
-            throw new Error(
-                `Attempted to make an administrator operation. The current client 'isAdmin' state is ${this.client.authStore.isAdmin}.`,
-            );
-        }
-
-        return await this.client.collections.getFirstListItem(
-            options.filter ? options.filter.toString() : "",
-        ).then(
-            (res: CollectionModel | null) => {
-                return res;
-            },
-        ).catch(
-            (err: ClientResponseError) => {
-                if (this.return_null_on_error) {
-                    return null;
-                }
-                throw err;
-            },
+    ): Promise<PbdReturn<CollectionModel | null, M>> {
+        return await this.execute<CollectionModel | null>(
+            {
+                method: "getCollectionFirstListItem",
+                guard: "admin",
+                fallback: null,
+                idempotent: true,
+                args: [options],
+            },
+            (client: Client) =>
+                client.collections.getFirstListItem(
+                    options.filter ? options.filter.toString() : "",
+                ),
         );
     }
 
     /**
      * Get a specific collection from the PocketBase.
      *
-     * @throws {ClientResponseError} - If the request to pocketbase fails
+     * @throws {PbdError} - If the request to pocketbase fails
      * @param options {PbdGetOneCollectionOptions} - The options for the getFullCollectionsList
      * @returns {Promise<CollectionModel | null>} - The collection that was found or null
      * if return_null_on_error is set
      */
     async getOneCollection(
         options: PbdGetOneCollectionOptions,
-    ): Promise<CollectionModel | null> {
-        if (this.unauthorized_errors && !this.client.authStore.isAdmin) {
-            throw new Error(
-                `Attempted to make an administrator operation. The current client 'isAdmin' state is ${this.client.authStore.isAdmin}.`,
-            );
-        }
-
-        return await this.client.collections.getOne(options.nameOrId).then(
-            (res: CollectionModel) => {
-                return res;
-            },
-        ).catch(
-            (err: ClientResponseError) => {
-                if (this.return_null_on_error) {
-                    return null;
-                }
-                throw err;
+    ): Promise<PbdReturn<CollectionModel | null, M>> {
+        return await this.execute<CollectionModel | null>(
+            {
+                method: "getOneCollection",
+                guard: "admin",
+                fallback: null,
+                idempotent: true,
+                args: [options],
             },
+            (client: Client) => client.collections.getOne(options.nameOrId),
         );
     }
 
     /**
      * Create a new collection in the PocketBase.
      *
-     * @throws {ClientResponseError} - If the request to pocketbase fails
+     * @throws {PbdError} - If the request to pocketbase fails
      * @param options {PbdCreateCollectionOptions} - The options for the getFullCollectionsList
      * @returns {Promise<CollectionModel | null>} - The collection that was created
      * or null if return_null_on_error is set
      */
     async createCollection(
         options: PbdCreateCollectionOptions,
-    ): Promise<CollectionModel | null> {
-        if (this.unauthorized_errors && !this.client.authStore.isAdmin) {
-            throw new Error(
-                `Attempted to make an administrator operation. The current client 'isAdmin' state is ${this.client.authStore.isAdmin}.`,
-            );
-        }
-
-        return await this.client.collections.create({
-            name: options.name,
-            type: options.type,
-            schema: options.schema,
-            listRule: options.listRule,
-            viewRule: options.viewRule,
-            createRule: options.createRule,
-            updateRule: options.updateRule,
-            deleteRule: options.deleteRule,
-            options: options.options,
-        }).then(
-            (res: CollectionModel) => {
-                return res;
-            },
-        ).catch(
-            (err: ClientResponseError) => {
-                if (this.return_null_on_error) {
-                    return null;
-                }
-                throw err;
-            },
+    ): Promise<PbdReturn<CollectionModel | null, M>> {
+        return await this.execute<CollectionModel | null>(
+            {
+                method: "createCollection",
+                guard: "admin",
+                fallback: null,
+                args: [options],
+            },
+            (client: Client) =>
+                client.collections.create({
+                    name: options.name,
+                    type: options.type,
+                    schema: options.schema,
+                    listRule: options.listRule,
+                    viewRule: options.viewRule,
+                    createRule: options.createRule,
+                    updateRule: options.updateRule,
+                    deleteRule: options.deleteRule,
+                    options: options.options,
+                }),
         );
     }
 
     /**
      * Update an existing collection in the PocketBase.
      *
-     * @throws {ClientResponseError} - If the request to pocketbase fails
+     * @throws {PbdError} - If the request to pocketbase fails
      * @param options {PbdCreateCollectionOptions} - The options for the getFullCollectionsList
      * @returns {Promise<CollectionModel | null>} - The collection that was created
      * or null if return_null_on_error is set
      */
     async updateCollection(
         options: PbdCreateCollectionOptions,
-    ): Promise<CollectionModel | null> {
-        if (this.unauthorized_errors && !this.client.authStore.isAdmin) {
-            throw new Error(
-                `Attempted to make an administrator operation. The current client 'isAdmin' state is ${this.client.authStore.isAdmin}.`,
-            );
-        }
-
-        return await this.client.collections.update(options.name, {
-            name: options.name,
-            type: options.type,
-            schema: options.schema,
-            createRule: options.createRule,
-            updateRule: options.updateRule,
-            deleteRule: options.deleteRule,
-            options: options.options,
-        }).then(
-            (res: CollectionModel) => {
-                return res;
-            },
-        ).catch(
-            (err: ClientResponseError) => {
-                if (this.return_null_on_error) {
-                    return null;
-                }
-                throw err;
-            },
+    ): Promise<PbdReturn<CollectionModel | null, M>> {
+        return await this.execute<CollectionModel | null>(
+            {
+                method: "updateCollection",
+                guard: "admin",
+                fallback: null,
+                args: [options],
+            },
+            (client: Client) =>
+                client.collections.update(options.name, {
+                    name: options.name,
+                    type: options.type,
+                    schema: options.schema,
+                    createRule: options.createRule,
+                    updateRule: options.updateRule,
+                    deleteRule: options.deleteRule,
+                    options: options.options,
+                }),
         );
     }
 
     /**
      * Delete an existing collection in the PocketBase.
      *
-     * @throws {ClientResponseError} - If the request to pocketbase fails
+     * @throws {PbdError} - If the request to pocketbase fails
      * @param options {PbdDeleteCollectionOptions} - The options for the getFullCollectionsList
      * @returns {Promise<boolean>} - The result of the delete
      */
     async deleteCollection(
         options: PbdDeleteCollectionOptions,
-    ): Promise<boolean> {
-        if (this.unauthorized_errors && !this.client.authStore.isAdmin) {
-            throw new Error(
-                `Attempted to make an administrator operation. The current client 'isAdmin' state is ${this.client.authStore.isAdmin}.`,
-            );
-        }
-
-        return await this.client.collections.delete(options.nameOrId).then(
-            (res: boolean) => {
-                return res;
-            },
-        ).catch(
-            (err: ClientResponseError) => {
-                if (this.return_null_on_error) {
-                    return false;
-                }
-                throw err;
+    ): Promise<PbdReturn<boolean, M>> {
+        return await this.execute<boolean>(
+            {
+                method: "deleteCollection",
+                guard: "admin",
+                fallback: false,
+                args: [options],
             },
+            (client: Client) => client.collections.delete(options.nameOrId),
         );
     }
 
     /**
      * Import collections into the PocketBase.
      *
-     * @throws {ClientResponseError} - If the request to pocketbase fails
+     * @throws {PbdError} - If the request to pocketbase fails
      * @param options {PbdImportCollectionsOptions} - The options for the importCollections
      * @returns {Promise<boolean>} - The result of the import
      */
     async importCollections(
         options: PbdImportCollectionsOptions,
-    ): Promise<boolean> {
-        if (this.unauthorized_errors && !this.client.authStore.isAdmin) {
-            throw new Error(
-                `Attempted to make an administrator operation. The current client 'isAdmin' state is ${this.client.authStore.isAdmin}.`,
-            );
-        }
-
-        return await this.client.collections.import(
-            options.collections,
-            options.deleteMissing,
-        )
-            .then(
-                (res: boolean) => {
-                    return res;
-                },
-            ).catch(
-                (err: ClientResponseError) => {
-                    if (this.return_null_on_error) {
-                        return false;
-                    }
-                    throw err;
-                },
-            );
+    ): Promise<PbdReturn<boolean, M>> {
+        return await this.execute<boolean>(
+            {
+                method: "importCollections",
+                guard: "admin",
+                fallback: false,
+                args: [options],
+            },
+            (client: Client) =>
+                client.collections.import(
+                    options.collections,
+                    options.deleteMissing,
+                ),
+        );
     }
 
     /**
      * Authenticates an admin with the provided email and password.
      *
-     * @throws {ClientResponseError} - If the request to pocketbase fails
+     * @throws {PbdError} - If the request to pocketbase fails
      * @param options {PbdAdminAuthWithPasswordOptions} - The options for the adminAuthWithPassword
      * @returns {Promise<AdminAuthResponse | null>} - The result of the adminAuthWithPassword
      * or null if return_null_on_error is set to true
      */
     async adminAuthWithPassword(
         options: PbdAdminAuthWithPasswordOptions,
-    ): Promise<AdminAuthResponse | null> {
-        return await this.client.admins.authWithPassword(
-            options.email,
-            options.password,
-        )
-            .then(
-                (res: AdminAuthResponse) => {
-                    return res;
-                },
-            ).catch(
-                (err: ClientResponseError) => {
-                    if (this.return_null_on_error) {
-                        return null;
-                    }
-                    throw err;
-                },
-            );
+    ): Promise<PbdReturn<AdminAuthResponse | null, M>> {
+        return await this.execute<AdminAuthResponse | null>(
+            {
+                method: "adminAuthWithPassword",
+                fallback: null,
+                args: [options],
+            },
+            (client: Client) =>
+                client.admins.authWithPassword(
+                    options.email,
+                    options.password,
+                ),
+        );
     }
 
     /**
      * Refreshes an admin token.
      *
-     * @throws {ClientResponseError} - If the request to pocketbase fails
+     * @throws {PbdError} - If the request to pocketbase fails
      * @returns {Promise<AdminAuthResponse | null>} - The result of the adminAuthRefresh
      * or null if return_null_on_error is set to true
      */
-    async adminAuthRefresh(): Promise<AdminAuthResponse | null> {
-        if (this.unauthorized_errors && !this.client.authStore.isAdmin) {
-            throw new Error(
-                `Attempted to make an administrator operation. The current client 'isAdmin' state is ${this.client.authStore.isAdmin}.`,
-            );
-        }
-
-        return await this.client.admins.authRefresh().then(
-            (res: AdminAuthResponse) => {
-                return res;
-            },
-        ).catch(
-            (err: ClientResponseError) => {
-                if (this.return_null_on_error) {
-                    return null;
-                }
-                throw err;
-            },
+    async adminAuthRefresh(): Promise<PbdReturn<AdminAuthResponse | null, M>> {
+        return await this.execute<AdminAuthResponse | null>(
+            { method: "adminAuthRefresh", guard: "admin", fallback: null },
+            (client: Client) => client.admins.authRefresh(),
         );
     }
 
     /**
      * Requests a password reset for an admin account with the provided email.
      *
-     * @throws {ClientResponseError} - If the request to pocketbase fails
+     * @throws {PbdError} - If the request to pocketbase fails
      * @param email {string} - The email of the admin
      * @returns {Promise<boolean>} - The result of the requestPasswordReset
      */
     async adminRequestPasswordReset(
         options: PbdAdminPasswordResetOptions,
-    ): Promise<boolean> {
-        return await this.client.admins.requestPasswordReset(options.email)
-            .then(
-                (res: boolean) => {
-                    return res;
-                },
-            ).catch(
-                (err: ClientResponseError) => {
-                    if (this.return_null_on_error) {
-                        return false;
-                    }
-                    throw err;
-                },
-            );
+    ): Promise<PbdReturn<boolean, M>> {
+        return await this.execute<boolean>(
+            {
+                method: "adminRequestPasswordReset",
+                fallback: false,
+                args: [options],
+            },
+            (client: Client) =>
+                client.admins.requestPasswordReset(options.email),
+        );
     }
 
     /**
      * Confirms a password reset for an admin account. If the token
      * is invalid, an error will be thrown.
      *
-     * @throws {ClientResponseError} - If the request to pocketbase fails
+     * @throws {PbdError} - If the request to pocketbase fails
      * @param options {PbdAdminConfirmPasswordResetOptions} - The options for the confirmPasswordReset
      * @returns {Promise<boolean>} - The result of the confirmPasswordReset
      */
     async adminConfirmPasswordReset(
         options: PbdAdminConfirmPasswordResetOptions,
-    ): Promise<boolean> {
-        return await this.client.admins.confirmPasswordReset(
-            options.token,
-            options.password,
-            options.passwordConfirm,
-        ).then(
-            (res: boolean) => {
-                return res;
-            },
-        ).catch(
-            (err: ClientResponseError) => {
-                if (this.return_null_on_error) {
-                    return false;
-                }
-                throw err;
-            },
+    ): Promise<PbdReturn<boolean, M>> {
+        return await this.execute<boolean>(
+            {
+                method: "adminConfirmPasswordReset",
+                fallback: false,
+                args: [options],
+            },
+            (client: Client) =>
+                client.admins.confirmPasswordReset(
+                    options.token,
+                    options.password,
+                    options.passwordConfirm,
+                ),
         );
     }
 
     /**
      * Get a list of admins. The list can be filtered and sorted.
      *
-     * @throws {ClientResponseError} - If the request to pocketbase fails
+     * @throws {PbdError} - If the request to pocketbase fails
      * @param options {PbdAdminGetListOptions} - The options for the adminGetList
      * @returns {Promise<ListResult<AdminModel> | null>} - The result of the adminGetList
      * or null if return_null_on_error is set to true
      */
     async adminGetList(
         options: PbdAdminGetListOptions,
-    ): Promise<ListResult<AdminModel> | null> {
-        if (this.unauthorized_errors && !this.client.authStore.isAdmin) {
-            throw new Error(
-                `Attempted to make an administrator operation. The current client 'isAdmin' state is ${this.client.authStore.isAdmin}.`,
-            );
-        }
-
-        return await this.client.admins.getList(options.page, options.perPage, {
-            sort: options.sort,
-            filter: options.filter,
-        }).then(
-            (res: ListResult<AdminModel>) => {
-                return res;
-            },
-        ).catch(
-            (err: ClientResponseError) => {
-                if (this.return_null_on_error) {
-                    return null;
-                }
-                throw err;
+    ): Promise<PbdReturn<ListResult<AdminModel> | null, M>> {
+        return await this.execute<ListResult<AdminModel> | null>(
+            {
+                method: "adminGetList",
+                guard: "admin",
+                fallback: null,
+                idempotent: true,
+                args: [options],
+            },
+            async (client: Client) => {
+                const filter: string | undefined = options.filter?.toString();
+                // The SDK would send missing parameters as "undefined".
+                const res: ListResult<AdminModel> = await client.admins.getList(
+                    options.page,
+                    options.perPage,
+                    {
+                        ...(options.sort === undefined
+                            ? {}
+                            : { sort: options.sort }),
+                        ...(filter === undefined ? {} : { filter }),
+                    },
+                );
+
+                return this.emptyResult(res, res.items, "adminGetList");
             },
         );
     }
@@ -1792,33 +2756,34 @@ export class Pbd {
     /**
      * Get the full list of admins. The list can be filtered and sorted.
      *
-     * @throws {ClientResponseError} - If the request to pocketbase fails
+     * @throws {PbdError} - If the request to pocketbase fails
      * @param options {PbdAdminGetFullListOptions} - The options for the adminGetFullList
      * @returns {Promise<AdminModel[] | null>} - The result of the adminGetFullList
      * or null if return_null_on_error is set to true
      */
     async adminGetFullList(
         options: PbdAdminGetFullListOptions,
-    ): Promise<AdminModel[] | null> {
-        if (this.unauthorized_errors && !this.client.authStore.isAdmin) {
-            throw new Error(
-                `Attempted to make an administrator operation. The current client 'isAdmin' state is ${this.client.authStore.isAdmin}.`,
-            );
-        }
+    ): Promise<PbdReturn<AdminModel[] | null, M>> {
+        return await this.execute<AdminModel[] | null>(
+            {
+                method: "adminGetFullList",
+                guard: "admin",
+                fallback: null,
+                idempotent: true,
+                args: [options],
+            },
+            async (client: Client) => {
+                const filter: string | undefined = options.filter?.toString();
+                // The SDK would send missing parameters as "undefined".
+                const res: AdminModel[] = await client.admins.getFullList({
+                    options: options.options,
+                    ...(options.sort === undefined
+                        ? {}
+                        : { sort: options.sort }),
+                    ...(filter === undefined ? {} : { filter }),
+                });
 
-        return await this.client.admins.getFullList({
-            sort: options.sort,
-            options: options.options,
-        }).then(
-            (res: AdminModel[]) => {
-                return res;
-            },
-        ).catch(
-            (err: ClientResponseError) => {
-                if (this.return_null_on_error) {
-                    return null;
-                }
-                throw err;
+                return this.emptyResult(res, res, "adminGetFullList");
             },
         );
     }
@@ -1826,169 +2791,218 @@ export class Pbd {
     /**
      * Get the first item in the list based on the filter or sort options.
      *
-     * @throws {ClientResponseError} - If the request to pocketbase fails
+     * @throws {PbdError} - If the request to pocketbase fails
      * @param options {PbdAdminGetListOptions} - The options for the adminGetFirstListItem
      * @returns {Promise<AdminModel | null>} - The result of the adminGetFirstListItem
      */
     async adminGetFirstListItem(
         options: PbdAdminGetListOptions,
-    ): Promise<AdminModel | null> {
-        if (this.unauthorized_errors && !this.client.authStore.isAdmin) {
-            throw new Error(
-                `Attempted to make an administrator operation. The current client 'isAdmin' state is ${this.client.authStore.isAdmin}.`,
-            );
-        }
-
-        return await this.client.admins.getFirstListItem(
-            options.filter ? options.filter : "",
-        ).then(
-            (res: AdminModel) => {
-                return res;
-            },
-        ).catch(
-            (err: ClientResponseError) => {
-                if (this.return_null_on_error) {
-                    return null;
-                }
-                throw err;
-            },
+    ): Promise<PbdReturn<AdminModel | null, M>> {
+        return await this.execute<AdminModel | null>(
+            {
+                method: "adminGetFirstListItem",
+                guard: "admin",
+                fallback: null,
+                idempotent: true,
+                args: [options],
+            },
+            (client: Client) =>
+                client.admins.getFirstListItem(
+                    options.filter ? options.filter.toString() : "",
+                ),
         );
     }
 
     /**
      * Get an admin by its ID. The admin can be filtered and sorted.
      *
-     * @throws {ClientResponseError} - If the request to pocketbase fails
+     * @throws {PbdError} - If the request to pocketbase fails
      * @param options {PbdAdminViewOptions} - The options for the adminView
      * @returns {Promise<AdminModel | null>} - The result of the adminView
      * or null if return_null_on_error is set to true
      */
-    async adminView(options: PbdAdminViewOptions): Promise<AdminModel | null> {
-        if (this.unauthorized_errors && !this.client.authStore.isAdmin) {
-            throw new Error(
-                `Attempted to make an administrator operation. The current client 'isAdmin' state is ${this.client.authStore.isAdmin}.`,
-            );
-        }
-
-        return await this.client.admins.getOne(options.id).then(
-            (res: AdminModel) => {
-                return res;
-            },
-        ).catch(
-            (err: ClientResponseError) => {
-                if (this.return_null_on_error) {
-                    return null;
-                }
-                throw err;
+    async adminView(
+        options: PbdAdminViewOptions,
+    ): Promise<PbdReturn<AdminModel | null, M>> {
+        return await this.execute<AdminModel | null>(
+            {
+                method: "adminView",
+                guard: "admin",
+                fallback: null,
+                idempotent: true,
+                args: [options],
             },
+            (client: Client) => client.admins.getOne(options.id),
         );
     }
 
     /**
      * Create a new admin in the PocketBase server.
      *
-     * @throws {ClientResponseError} - If the request to pocketbase fails
+     * @throws {PbdError} - If the request to pocketbase fails
      * @param options {PbdAdminCreateOptions} - The options for the adminCreate
      * @returns {Promise<AdminModel | null>} - The result of the adminCreate
      * or null if return_null_on_error is set to true
      */
     async adminCreate(
         options: PbdAdminCreateOptions,
-    ): Promise<AdminModel | null> {
-        if (this.unauthorized_errors && !this.client.authStore.isAdmin) {
-            throw new Error(
-                `Attempted to make an administrator operation. The current client 'isAdmin' state is ${this.client.authStore.isAdmin}.`,
-            );
-        }
-
-        return await this.client.admins.create({
-            email: options.email,
-            password: options.password,
-            passwordConfirm: options.passwordConfirm,
-            avatar: options.avatar,
-        }).then(
-            (res: AdminModel) => {
-                return res;
-            },
-        ).catch(
-            (err: ClientResponseError) => {
-                if (this.return_null_on_error) {
-                    return null;
-                }
-                throw err;
-            },
+    ): Promise<PbdReturn<AdminModel | null, M>> {
+        return await this.execute<AdminModel | null>(
+            {
+                method: "adminCreate",
+                guard: "admin",
+                fallback: null,
+                args: [options],
+            },
+            (client: Client) =>
+                client.admins.create({
+                    email: options.email,
+                    password: options.password,
+                    passwordConfirm: options.passwordConfirm,
+                    avatar: options.avatar,
+                }),
         );
     }
 
     /**
      * Update an admin by its ID.
      *
-     * @throws {ClientResponseError} - If the request to pocketbase fails
+     * @throws {PbdError} - If the request to pocketbase fails
      * @param options {PbdAdminUpdateOptions} - The options for the adminUpdate
      * @returns {Promise<AdminModel | null>} - The result of the adminUpdate
      * or null if return_null_on_error is set to true
      */
     async adminUpdate(
         options: PbdAdminUpdateOptions,
-    ): Promise<AdminModel | null> {
-        if (this.unauthorized_errors && !this.client.authStore.isAdmin) {
-            throw new Error(
-                `Attempted to make an administrator operation. The current client 'isAdmin' state is ${this.client.authStore.isAdmin}.`,
-            );
-        }
-
-        return await this.client.admins.update(options.id, {
-            email: options.email,
-            password: options.password,
-            passwordConfirm: options.passwordConfirm,
-            avatar: options.avatar,
-        }).then(
-            (res: AdminModel) => {
-                return res;
-            },
-        ).catch(
-            (err: ClientResponseError) => {
-                if (this.return_null_on_error) {
-                    return null;
-                }
-                throw err;
-            },
+    ): Promise<PbdReturn<AdminModel | null, M>> {
+        return await this.execute<AdminModel | null>(
+            {
+                method: "adminUpdate",
+                guard: "admin",
+                fallback: null,
+                args: [options],
+            },
+            (client: Client) =>
+                client.admins.update(options.id, {
+                    email: options.email,
+                    password: options.password,
+                    passwordConfirm: options.passwordConfirm,
+                    avatar: options.avatar,
+                }),
         );
     }
 
     /**
      * Delete an admin by its ID.
      *
-     * @throws {ClientResponseError} - If the request to pocketbase fails
+     * @throws {PbdError} - If the request to pocketbase fails
      * @param options {PbdAdminDeleteOptions} - The options for the adminDelete
      * @returns {Promise<boolean>} - The result of the adminDelet
      */
-    async adminDelete(options: PbdAdminDeleteOptions): Promise<boolean> {
-        if (this.unauthorized_errors && !this.client.authStore.isAdmin) {
-            throw new Error(
-                `Attempted to make an administrator operation. The current client 'isAdmin' state is ${this.client.authStore.isAdmin}.`,
-            );
-        }
-
-        return await this.client.admins.delete(options.id).then(
-            (res: boolean) => {
-                return res;
-            },
-        ).catch(
-            (err: ClientResponseError) => {
-                if (this.return_null_on_error) {
-                    return false;
-                }
-                throw err;
+    async adminDelete(
+        options: PbdAdminDeleteOptions,
+    ): Promise<PbdReturn<boolean, M>> {
+        return await this.execute<boolean>(
+            {
+                method: "adminDelete",
+                guard: "admin",
+                fallback: false,
+                args: [options],
             },
+            (client: Client) => client.admins.delete(options.id),
         );
     }
 }
 
+/**
+ * A {@linkcode Pbd} instance over several PocketBase instances: `client` is
+ * the primary and `replicas` are its read replicas (or shards). It has
+ * every method of {@linkcode Pbd}; writes go to the primary and reads are
+ * spread over the healthy replicas, see {@linkcode PbdPoolRouter}.
+ *
+ * The same as a {@linkcode Pbd} with the `pool` option, with the members
+ * at hand.
+ *
+ * @example Reads go to the fastest replica
+ * ```typescript
+ * const pbd = new PbdPool({
+ *     client: new PocketBase("http://primary:8090"),
+ *     replicas: [
+ *         new PocketBase("http://replica-1:8090"),
+ *         new PocketBase("http://replica-2:8090"),
+ *     ],
+ *     strategy: "least_latency",
+ * });
+ *
+ * // Served by a replica
+ * const cats = await pbd.getFullList<Cat>({ collectionName: "cats" });
+ *
+ * // Sent to the primary
+ * await pbd.create({ collectionName: "cats" }, { name: "Gato" });
+ * ```
+ */
+export class PbdPool<
+    M extends PbdErrorMode = "throw",
+    S extends PbdSchemaMap = PbdUntypedSchema,
+> extends Pbd<M, S> {
+    /**
+     * The router of the calls, the same as {@linkcode Pbd.pool}.
+     */
+    private router: PbdPoolRouter;
+
+    /**
+     * @param options {PbdPoolClientOptions<M>} - The options of the
+     * instance, the primary and its replicas.
+     */
+    constructor(options: PbdPoolClientOptions<M>) {
+        super({ ...options, pool: options });
+        this.router = this.pool as PbdPoolRouter;
+    }
+
+    /**
+     * The primary followed by the replicas, with their current health and
+     * latency.
+     *
+     * @returns {PbdPoolMember[]} - A snapshot of the members.
+     */
+    get members(): PbdPoolMember[] {
+        return this.router.members;
+    }
+
+    /**
+     * Health checks every member now, instead of waiting for the next
+     * background check.
+     *
+     * @returns {Promise<PbdPoolMember[]>} - The members after the check.
+     */
+    checkHealth(): Promise<PbdPoolMember[]> {
+        return this.router.checkHealth();
+    }
+}
+
 /**
  * Module exports
  */
 export { PbdExt };
+export * from "$errors";
+export * from "$filter";
+export * from "$realtime";
+export * from "$collection";
+export * from "$codegen";
+export * from "$validation";
+export * from "$batch";
+export * from "$pagination";
+export * from "$cache";
+export * from "$retry";
+export * from "$circuit";
+export * from "$pool";
+export * from "$telemetry";
+export * from "$logger";
+export * from "$authstore";
+export * from "$refresh";
+export * from "$ratelimit";
+export * from "$tenancy";
+export * from "$http";
 export type * from "$types";
 export type * from "pocketbase";
 export default Pbd;
@@ -0,0 +1,156 @@
+import { assertEquals } from "jsr:@std/assert";
+
+import Client from "pocketbase";
+import PocketBase from "pocketbase";
+
+import Pbd, {
+    PbdAuthSnapshot,
+    PbdAuthStorage,
+    PbdAuthStore,
+    PbdError,
+    PbdFileAuthStorage,
+} from "../mod.ts";
+import { StandIn, token } from "./helpers.ts";
+
+/**
+ * An in-memory {@linkcode PbdAuthStorage}, standing in for Deno KV.
+ */
+class MemoryStorage implements PbdAuthStorage {
+    snapshots: Map<string, PbdAuthSnapshot> = new Map();
+
+    get(identity: string): Promise<PbdAuthSnapshot | null> {
+        return Promise.resolve(this.snapshots.get(identity) ?? null);
+    }
+
+    set(identity: string, snapshot: PbdAuthSnapshot | null): Promise<void> {
+        if (snapshot) {
+            this.snapshots.set(identity, snapshot);
+        } else {
+            this.snapshots.delete(identity);
+        }
+        return Promise.resolve();
+    }
+
+    identities(): Promise<string[]> {
+        return Promise.resolve([...this.snapshots.keys()]);
+    }
+}
+
+/**
+ * A tiny stand-in for the PocketBase admin auth API, refreshing any token
+ * into `refreshed`.
+ */
+class RefreshStandIn extends StandIn {
+    refreshed: string;
+
+    constructor(refreshed: string) {
+        super();
+        this.refreshed = refreshed;
+    }
+
+    protected handle(req: Request): Response {
+        return new URL(req.url).pathname === "/api/admins/auth-refresh"
+            ? Response.json({ token: this.refreshed, admin: { id: "admin1" } })
+            : Response.json({}, { status: 404 });
+    }
+}
+
+Deno.test({
+    name: "Test the auth state survives a restart in an encrypted file",
+    fn: async () => {
+        const path: string = await Deno.makeTempFile();
+        await Deno.remove(path);
+        const admin: string = token({ id: "admin1", type: "admin", exp: 0 });
+
+        const before: PbdAuthStore = new PbdAuthStore({
+            storage: new PbdFileAuthStorage({ path, secret: "s3cret" }),
+        });
+        await before.load();
+        before.save(admin, { id: "admin1", email: "admin@example.com" });
+        await before.flush();
+
+        // Nothing is readable without the secret.
+        assertEquals((await Deno.readTextFile(path)).includes("admin"), false);
+
+        const after: PbdAuthStore = new PbdAuthStore({
+            storage: new PbdFileAuthStorage({ path, secret: "s3cret" }),
+        });
+        await after.load();
+        assertEquals(after.token, admin);
+        assertEquals(after.model?.email, "admin@example.com");
+
+        let error: unknown = null;
+        try {
+            await new PbdAuthStore({
+                storage: new PbdFileAuthStorage({ path, secret: "wrong" }),
+            }).load();
+        } catch (err: unknown) {
+            error = err;
+        }
+        assertEquals(error instanceof PbdError, true);
+
+        await Deno.remove(path);
+    },
+});
+
+Deno.test({
+    name: "Test every named identity keeps its own auth state",
+    fn: async () => {
+        const storage: MemoryStorage = new MemoryStorage();
+        const store: PbdAuthStore = new PbdAuthStore({ storage });
+        const admin: string = token({ id: "admin1", type: "admin", exp: 0 });
+        const service: string = token({ id: "user1", type: "authRecord" });
+
+        await store.load();
+        store.save(admin, { id: "admin1" });
+
+        await store.switchTo("service");
+        assertEquals(store.identity, "service");
+        assertEquals(store.token, "");
+
+        store.save(service, { id: "user1", collectionId: "users" });
+        assertEquals(await store.identities(), ["default", "service"]);
+
+        await store.switchTo("default");
+        assertEquals(store.token, admin);
+
+        store.clear();
+        assertEquals(await store.identities(), ["service"]);
+    },
+});
+
+Deno.test({
+    name: "Test the token is refreshed before it expires",
+    fn: async () => {
+        const refreshed: string = token({
+            id: "admin1",
+            type: "admin",
+            exp: Math.floor(Date.now() / 1000) + 3600,
+        });
+        const server: RefreshStandIn = new RefreshStandIn(refreshed);
+        const storage: MemoryStorage = new MemoryStorage();
+        const store: PbdAuthStore = new PbdAuthStore({
+            storage,
+            refreshBefore: 1_000,
+        });
+        const pb: Client = new PocketBase(server.url, store);
+
+        store.save(
+            token({
+                id: "admin1",
+                type: "admin",
+                exp: Math.floor(Date.now() / 1000) + 2,
+            }),
+            { id: "admin1" },
+        );
+        new Pbd({ client: pb });
+
+        await new Promise((resolve) => setTimeout(resolve, 1_500));
+
+        assertEquals(store.token, refreshed);
+        assertEquals(storage.snapshots.get("default")?.token, refreshed);
+
+        store.detach();
+        await server.close();
+    },
+});
@@ -0,0 +1,136 @@
+import { assertEquals } from "jsr:@std/assert";
+
+import Client from "pocketbase";
+import PocketBase from "pocketbase";
+
+import Pbd, { PbdBatchReport, PbdBatchResult } from "../mod.ts";
+import { StandIn } from "./helpers.ts";
+
+type StoredRecord = { [key: string]: unknown };
+
+/**
+ * A tiny stand-in for the PocketBase records API. It keeps the records in
+ * memory and rejects any record named "fail".
+ */
+class RecordsStandIn extends StandIn {
+    records: Map<string, StoredRecord> = new Map();
+    private ids: number = 0;
+
+    protected async handle(req: Request): Promise<Response> {
+        const [, , , collectionName, , id] = new URL(req.url).pathname.split(
+            "/",
+        );
+        const key: string = `${collectionName}/${id}`;
+
+        if (req.method === "POST") {
+            const data: StoredRecord = await req.json();
+
+            if (data.name === "fail") {
+                return Response.json({
+                    code: 400,
+                    message: "Failed to create record.",
+                    data: {
+                        name: { code: "validation_invalid", message: "Nope." },
+                    },
+                }, { status: 400 });
+            }
+
+            const record: StoredRecord = {
+                id: String(
+                    data.id ?? `record${String(++this.ids).padStart(9, "0")}`,
+                ),
+                collectionName,
+                ...data,
+            };
+            this.records.set(`${collectionName}/${record.id}`, record);
+            return Response.json(record);
+        }
+
+        const record: StoredRecord | undefined = this.records.get(key);
+
+        if (!record) {
+            return Response.json({ code: 404, message: "Not found." }, {
+                status: 404,
+            });
+        }
+
+        if (req.method === "PATCH") {
+            Object.assign(record, await req.json());
+            return Response.json(record);
+        }
+
+        if (req.method === "DELETE") {
+            this.records.delete(key);
+            return new Response(null, { status: 204 });
+        }
+
+        return Response.json(record);
+    }
+}
+
+Deno.test({
+    name: "Test batch operations are applied in order",
+    fn: async () => {
+        const server: RecordsStandIn = new RecordsStandIn();
+        const pb: Client = new PocketBase(server.url);
+        const pbd: Pbd = new Pbd({ client: pb });
+
+        const report: PbdBatchReport = await pbd.batch({ concurrency: 2 })
+            .create("owners", { id: "owner000000001", name: "Erina" })
+            .create("cats", { name: "Gato", owner: "owner000000001" })
+            .create("cats", { name: "Michi", owner: "owner000000001" })
+            .update("owners", "owner000000001", { name: "Erina Pendleton" })
+            .run();
+
+        assertEquals(report.ok, true);
+        assertEquals(
+            report.results.map((result: PbdBatchResult) => result.status),
+            ["applied", "applied", "applied", "applied"],
+        );
+        assertEquals(report.results[1].record?.name, "Gato");
+        assertEquals(
+            server.records.get("owners/owner000000001")?.name,
+            "Erina Pendleton",
+        );
+
+        await server.close();
+    },
+});
+
+Deno.test({
+    name: "Test failed batches roll back the applied operations",
+    fn: async () => {
+        const server: RecordsStandIn = new RecordsStandIn();
+        const pb: Client = new PocketBase(server.url);
+        const pbd: Pbd = new Pbd({ client: pb });
+
+        server.records.set("cats/cat00000000001", {
+            id: "cat00000000001",
+            name: "Gato",
+        });
+        server.records.set("cats/cat00000000002", {
+            id: "cat00000000002",
+            name: "Michi",
+        });
+
+        const report: PbdBatchReport = await pbd.batch()
+            .update("cats", "cat00000000001", { name: "Erina Pendleton" })
+            .delete("cats", "cat00000000002")
+            .create("cats", { name: "fail" })
+            .create("cats", { name: "Never created" })
+            .run();
+
+        assertEquals(report.ok, false);
+        assertEquals(
+            report.results.map((result: PbdBatchResult) => result.status),
+            ["rolled_back", "rolled_back", "failed", "skipped"],
+        );
+        assertEquals(report.results[2].error?.status, 400);
+        assertEquals(report.results[2].error?.method, "batch");
+        assertEquals(server.records.get("cats/cat00000000001")?.name, "Gato");
+        assertEquals(server.records.get("cats/cat00000000002")?.name, "Michi");
+        assertEquals(server.records.size, 2);
+
+        await server.close();
+    },
+});
@@ -0,0 +1,177 @@
+import { assertEquals } from "jsr:@std/assert";
+
+import Client from "pocketbase";
+import PocketBase from "pocketbase";
+
+import Pbd, { PbdMemoryCache } from "../mod.ts";
+import { StandIn, token } from "./helpers.ts";
+
+interface Cat {
+    id: string;
+    name: string;
+}
+
+/**
+ * A tiny stand-in for the PocketBase records API. It keeps the cats in
+ * memory and counts the reads it serves.
+ */
+class CatsStandIn extends StandIn {
+    cats: Cat[] = [{ id: "cat00000000001", name: "Gato" }];
+    reads: number = 0;
+
+    protected async handle(req: Request): Promise<Response> {
+        if (req.method === "POST") {
+            const cat: Cat = {
+                id: `cat${String(this.cats.length + 1).padStart(11, "0")}`,
+                ...await req.json(),
+            };
+            this.cats.push(cat);
+            return Response.json(cat);
+        }
+
+        this.reads++;
+
+        return Response.json({
+            page: 1,
+            perPage: 30,
+            totalItems: this.cats.length,
+            totalPages: 1,
+            items: this.cats,
+        });
+    }
+}
+
+Deno.test({
+    name: "Test cached reads are served without a request",
+    fn: async () => {
+        const server: CatsStandIn = new CatsStandIn();
+        const pb: Client = new PocketBase(server.url);
+        const pbd: Pbd = new Pbd({
+            client: pb,
+            cache: { store: new PbdMemoryCache() },
+        });
+
+        await pbd.getFullList<Cat>({ collectionName: "cats" });
+        await pbd.getFullList<Cat>({ collectionName: "cats" });
+        assertEquals(server.reads, 1);
+
+        // A different query is a different entry.
+        await pbd.getFullList<Cat>({ collectionName: "cats", sort: "name" });
+        assertEquals(server.reads, 2);
+
+        await server.close();
+    },
+});
+
+Deno.test({
+    name: "Test cached results can't be changed by the callers",
+    fn: async () => {
+        const server: CatsStandIn = new CatsStandIn();
+        const pb: Client = new PocketBase(server.url);
+        const pbd: Pbd = new Pbd({
+            client: pb,
+            cache: { store: new PbdMemoryCache() },
+        });
+
+        // Concurrent reads share a single request.
+        const [first, shared]: (Cat[] | null)[] = await Promise.all([
+            pbd.getFullList<Cat>({ collectionName: "cats" }),
+            pbd.getFullList<Cat>({ collectionName: "cats" }),
+        ]);
+        (first as Cat[])[0].name = "Changed";
+        (shared as Cat[]).pop();
+
+        const cats: Cat[] | null = await pbd.getFullList<Cat>({
+            collectionName: "cats",
+        });
+
+        assertEquals(server.reads, 1);
+        assertEquals(cats, [{ id: "cat00000000001", name: "Gato" }]);
+
+        await server.close();
+    },
+});
+
+Deno.test({
+    name: "Test cached results aren't shared with other tokens of the user",
+    fn: async () => {
+        const server: CatsStandIn = new CatsStandIn();
+        const pb: Client = new PocketBase(server.url);
+        const pbd: Pbd = new Pbd({
+            client: pb,
+            cache: { store: new PbdMemoryCache() },
+        });
+
+        pb.authStore.save(token({ id: "user1" }, "real"), { id: "user1" });
+        await pbd.getFullList<Cat>({ collectionName: "cats" });
+        await pbd.getFullList<Cat>({ collectionName: "cats" });
+        assertEquals(server.reads, 1);
+
+        // A forged token claiming the same user gets nothing from the cache.
+        pb.authStore.save(token({ id: "user1" }, "forged"), { id: "user1" });
+        await pbd.getFullList<Cat>({ collectionName: "cats" });
+        assertEquals(server.reads, 2);
+
+        await server.close();
+    },
+});
+
+Deno.test({
+    name: "Test writes invalidate the cached reads of the collection",
+    fn: async () => {
+        const server: CatsStandIn = new CatsStandIn();
+        const pb: Client = new PocketBase(server.url);
+        const pbd: Pbd = new Pbd({
+            client: pb,
+            cache: { store: new PbdMemoryCache() },
+        });
+
+        await pbd.getFullList<Cat>({ collectionName: "cats" });
+        await pbd.create<Cat>({ collectionName: "cats" }, { name: "Michi" });
+
+        const cats: Cat[] | null = await pbd.getFullList<Cat>({
+            collectionName: "cats",
+        });
+
+        assertEquals(server.reads, 2);
+        assertEquals(cats?.length, 2);
+
+        await server.close();
+    },
+});
+
+Deno.test({
+    name: "Test stale results are served while they're refreshed",
+    fn: async () => {
+        const server: CatsStandIn = new CatsStandIn();
+        const pb: Client = new PocketBase(server.url);
+        const pbd: Pbd = new Pbd({
+            client: pb,
+            cache: {
+                store: new PbdMemoryCache(),
+                ttl: 10,
+                staleWhileRevalidate: 60_000,
+            },
+        });
+
+        await pbd.getFullList<Cat>({ collectionName: "cats" });
+        server.cats.push({ id: "cat00000000002", name: "Michi" });
+        await new Promise((resolve) => setTimeout(resolve, 20));
+
+        const stale: Cat[] | null = await pbd.getFullList<Cat>({
+            collectionName: "cats",
+        });
+        assertEquals(stale?.length, 1);
+
+        // Wait for the background refresh.
+        await new Promise((resolve) => setTimeout(resolve, 50));
+
+        const fresh: Cat[] | null = await pbd.getFullList<Cat>({
+            collectionName: "cats",
+        });
+        assertEquals(fresh?.length, 2);
+        assertEquals(server.reads, 2);
+
+        await server.close();
+    },
+});
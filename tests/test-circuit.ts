@@ -0,0 +1,147 @@
+import { assertEquals } from "jsr:@std/assert";
+
+import Client from "pocketbase";
+import PocketBase from "pocketbase";
+
+import Pbd, {
+    PbdCircuitOpenError,
+    PbdCircuitState,
+    PbdCircuitStateChange,
+    PbdResult,
+} from "../mod.ts";
+import { StandIn } from "./helpers.ts";
+
+/**
+ * A tiny stand-in for PocketBase that can be taken down. While down it
+ * answers 503 to everything, health checks included. Records named
+ * "missing" are always 404.
+ */
+class HealthStandIn extends StandIn {
+    down: boolean = false;
+    requests: number = 0;
+    probes: number = 0;
+
+    protected handle(req: Request): Response {
+        const path: string = new URL(req.url).pathname;
+
+        if (path === "/api/health") {
+            this.probes++;
+        } else {
+            this.requests++;
+        }
+
+        if (this.down) {
+            return Response.json({ code: 503, message: "Down." }, {
+                status: 503,
+            });
+        }
+
+        if (path.endsWith("/missing")) {
+            return Response.json({ code: 404, message: "Not found." }, {
+                status: 404,
+            });
+        }
+
+        if (path === "/api/health") {
+            return Response.json({ code: 200, message: "API is healthy." });
+        }
+
+        return Response.json({ id: "cat00000000001", name: "Gato" });
+    }
+}
+
+Deno.test({
+    name: "Test the circuit opens and fails fast once PocketBase fails",
+    fn: async () => {
+        const server: HealthStandIn = new HealthStandIn();
+        const pb: Client = new PocketBase(server.url);
+        const pbd: Pbd<"result"> = new Pbd({
+            client: pb,
+            error_mode: "result",
+            circuit: { minimumCalls: 4, failureThreshold: 0.5 },
+        });
+        const changes: PbdCircuitState[] = [];
+        pbd.circuit?.onStateChange((change: PbdCircuitStateChange) =>
+            changes.push(change.to)
+        );
+
+        server.down = true;
+        for (let i: number = 0; i < 4; i++) {
+            await pbd.getOne("cat00000000001", { collectionName: "cats" });
+        }
+
+        const result: PbdResult<unknown> = await pbd.getOne(
+            "cat00000000001",
+            { collectionName: "cats" },
+        );
+
+        assertEquals(pbd.circuit?.state, "open");
+        assertEquals(changes, ["open"]);
+        assertEquals(result.error instanceof PbdCircuitOpenError, true);
+        assertEquals(result.error?.status, 503);
+        assertEquals(server.requests, 4);
+
+        pbd.circuit?.reset();
+        await server.close();
+    },
+});
+
+Deno.test({
+    name: "Test the circuit closes once a health check passes",
+    fn: async () => {
+        const server: HealthStandIn = new HealthStandIn();
+        const pb: Client = new PocketBase(server.url);
+        const pbd: Pbd<"result"> = new Pbd({
+            client: pb,
+            error_mode: "result",
+            circuit: { minimumCalls: 2, cooldown: 10 },
+        });
+        const changes: PbdCircuitState[] = [];
+        pbd.circuit?.onStateChange((change: PbdCircuitStateChange) =>
+            changes.push(change.to)
+        );
+
+        server.down = true;
+        await pbd.getOne("cat00000000001", { collectionName: "cats" });
+        await pbd.getOne("cat00000000001", { collectionName: "cats" });
+
+        // The first probe fails, the second one passes.
+        await new Promise((resolve) => setTimeout(resolve, 30));
+        server.down = false;
+        await new Promise((resolve) => setTimeout(resolve, 50));
+
+        const result: PbdResult<unknown> = await pbd.getOne(
+            "cat00000000001",
+            { collectionName: "cats" },
+        );
+
+        assertEquals(result.ok, true);
+        assertEquals(changes.slice(0, 3), ["open", "half_open", "open"]);
+        assertEquals(changes.slice(-2), ["half_open", "closed"]);
+        assertEquals(server.probes >= 2, true);
+
+        await server.close();
+    },
+});
+
+Deno.test({
+    name: "Test errors of a healthy PocketBase don't open the circuit",
+    fn: async () => {
+        const server: HealthStandIn = new HealthStandIn();
+        const pb: Client = new PocketBase(server.url);
+        const pbd: Pbd<"result"> = new Pbd({
+            client: pb,
+            error_mode: "result",
+            circuit: { minimumCalls: 2 },
+        });
+
+        for (let i: number = 0; i < 4; i++) {
+            await pbd.getOne("missing", { collectionName: "cats" });
+        }
+
+        assertEquals(pbd.circuit?.state, "closed");
+        assertEquals(pbd.circuit?.failureRate, 0);
+
+        await server.close();
+    },
+});
@@ -0,0 +1,74 @@
+import { assert, assertEquals } from "jsr:@std/assert";
+
+import { CollectionModel } from "pocketbase";
+
+import { generateSchemaModule } from "../mod.ts";
+
+const collections: CollectionModel[] = JSON.parse(
+    await Deno.readTextFile(
+        new URL("../pocketbase/collections.json", import.meta.url),
+    ),
+);
+
+Deno.test({
+    name: "Test codegen emits the types of the exported collections",
+    fn: () => {
+        const source: string = generateSchemaModule(collections);
+
+        assert(source.includes(
+            "export interface UsersRecord extends AuthSystemFields {",
+        ));
+        assert(source.includes("export interface CatsCreate {"));
+        assert(source.includes("    Age: number;"));
+        assert(source.includes("    avatar?: Blob;"));
+        assert(source.includes("    Cats: {\n        record: CatsRecord;"));
+    },
+});
+
+Deno.test({
+    name: "Test codegen emits select options and relations",
+    fn: () => {
+        const posts: CollectionModel = {
+            id: "posts",
+            created: "",
+            updated: "",
+            name: "blog_posts",
+            type: "base",
+            system: false,
+            indexes: [],
+            options: {},
+            schema: [
+                {
+                    id: "status",
+                    name: "status",
+                    type: "select",
+                    system: false,
+                    required: true,
+                    presentable: false,
+                    options: { maxSelect: 1, values: ["draft", "live"] },
+                },
+                {
+                    id: "cats",
+                    name: "cats",
+                    type: "relation",
+                    system: false,
+                    required: false,
+                    presentable: false,
+                    options: {
+                        collectionId: collections[1].id,
+                        maxSelect: null,
+                    },
+                },
+            ],
+        };
+        const source: string = generateSchemaModule([...collections, posts]);
+
+        assert(source.includes(
+            'export type BlogPostsStatusOptions =\n    | "draft"\n    | "live";',
+        ));
+        assert(source.includes("    status: BlogPostsStatusOptions;"));
+        assert(source.includes("    cats?: CatsRecord[];"));
+        assert(source.includes("    cats?: RecordIdString[];"));
+        assertEquals(source.match(/expand\?: BlogPostsExpand;/g)?.length, 1);
+    },
+});
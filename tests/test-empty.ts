@@ -0,0 +1,177 @@
+import { assert, assertEquals } from "jsr:@std/assert";
+
+import PocketBase from "pocketbase";
+
+import Pbd, {
+    PbdEmptyResultError,
+    PbdEmptyResultPolicy,
+    PbdError,
+    PbdResult,
+} from "../mod.ts";
+import { StandIn } from "./helpers.ts";
+
+/**
+ * A tiny stand-in for the list endpoints of PocketBase (records,
+ * collections, admins, logs and backups). They all return the same items,
+ * none by default.
+ */
+class ListsStandIn extends StandIn {
+    items: { id: string }[] = [];
+
+    protected handle(req: Request): Response {
+        const url: URL = new URL(req.url);
+
+        if (url.pathname === "/api/backups") {
+            return Response.json(this.items);
+        }
+
+        // Full lists stop on the first page that is not full.
+        const page: number = Number(url.searchParams.get("page") ?? 1);
+        const items: { id: string }[] = page === 1 ? this.items : [];
+
+        return Response.json({
+            page,
+            perPage: 30,
+            totalItems: this.items.length,
+            totalPages: 1,
+            items,
+        });
+    }
+}
+
+/**
+ * Calls every list method once, one after the other (the SDK cancels the
+ * concurrent requests of a collection).
+ *
+ * @param pbd {Pbd<"result">} - The instance to call.
+ * @returns {Promise<PbdResult<unknown>[]>} - The results, in order.
+ */
+async function listEverything(
+    pbd: Pbd<"result">,
+): Promise<PbdResult<unknown>[]> {
+    const page: { collectionName: string; page: number; perPage: number } = {
+        collectionName: "cats",
+        page: 1,
+        perPage: 30,
+    };
+
+    return [
+        await pbd.getList({ ...page, listoptions: {} }),
+        await pbd.getFullList({ collectionName: "cats" }),
+        await pbd.getCollectionList({ ...page, listoptions: {} }),
+        await pbd.adminGetList(page),
+        await pbd.getLogList(page),
+        await pbd.listBackups({}),
+    ];
+}
+
+/**
+ * @param url {string} - The URL of the stand-in.
+ * @param empty_result {PbdEmptyResultPolicy} - The policy.
+ * @returns {Pbd<"result">} - An instance with the policy.
+ */
+function withPolicy(
+    url: string,
+    empty_result: PbdEmptyResultPolicy,
+): Pbd<"result"> {
+    return new Pbd({
+        client: new PocketBase(url),
+        error_mode: "result",
+        empty_result,
+    });
+}
+
+Deno.test({
+    name: "Test empty lists are returned as they are by default",
+    fn: async () => {
+        const server: ListsStandIn = new ListsStandIn();
+        const results: PbdResult<unknown>[] = await listEverything(
+            new Pbd({
+                client: new PocketBase(server.url),
+                error_mode: "result",
+            }),
+        );
+
+        assertEquals(
+            results.map(({ ok }: PbdResult<unknown>) => ok),
+            [true, true, true, true, true, true],
+        );
+        assertEquals(
+            results.map(({ data }: PbdResult<unknown>) =>
+                Array.isArray(data)
+                    ? data
+                    : (data as { items: unknown[] } | null)?.items
+            ),
+            [[], [], [], [], [], []],
+        );
+
+        await server.close();
+    },
+});
+
+Deno.test({
+    name: "Test empty lists are null with the null policy",
+    fn: async () => {
+        const server: ListsStandIn = new ListsStandIn();
+        const pbd: Pbd<"result"> = withPolicy(server.url, "null");
+
+        assertEquals(
+            (await listEverything(pbd)).map((result: PbdResult<unknown>) => [
+                result.ok,
+                result.data,
+            ]),
+            Array(6).fill([true, null]),
+        );
+
+        // Lists with items are left alone.
+        server.items = [{ id: "rec00000000001" }];
+        assertEquals(
+            (await listEverything(pbd)).map(({ data }: PbdResult<unknown>) =>
+                data === null
+            ),
+            [false, false, false, false, false, false],
+        );
+
+        await server.close();
+    },
+});
+
+Deno.test({
+    name: "Test empty lists fail with the throw policy",
+    fn: async () => {
+        const server: ListsStandIn = new ListsStandIn();
+        const results: PbdResult<unknown>[] = await listEverything(
+            withPolicy(server.url, "throw"),
+        );
+
+        for (const result of results) {
+            assert(result.error instanceof PbdEmptyResultError);
+        }
+        assertEquals(
+            results.map(({ error }: PbdResult<unknown>) => error?.method),
+            [
+                "getList",
+                "getFullList",
+                "getCollectionList",
+                "adminGetList",
+                "getLogList",
+                "listBackups",
+            ],
+        );
+
+        // It's thrown in the throw error mode.
+        let thrown: unknown = null;
+        try {
+            await new Pbd({
+                client: new PocketBase(server.url),
+                empty_result: "throw",
+            }).getFullList({ collectionName: "cats" });
+        } catch (err: unknown) {
+            thrown = err;
+        }
+        assert(thrown instanceof PbdEmptyResultError);
+        assertEquals((thrown as PbdError).collectionName, "cats");
+
+        await server.close();
+    },
+});
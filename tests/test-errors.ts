@@ -0,0 +1,177 @@
+import { assert, assertEquals } from "jsr:@std/assert";
+
+import PocketBase, { ClientResponseError } from "pocketbase";
+
+import Pbd, {
+    PbdAbortedError,
+    PbdAuthError,
+    PbdError,
+    PbdNetworkError,
+    PbdNotFoundError,
+    PbdResult,
+    PbdValidationError,
+    toPbdError,
+} from "../mod.ts";
+import { StandIn } from "./helpers.ts";
+
+/**
+ * A tiny stand-in for the PocketBase records API that only knows the cat
+ * `cat00000000001`.
+ */
+class CatsStandIn extends StandIn {
+    protected handle(req: Request): Response {
+        if (new URL(req.url).pathname.endsWith("/cat00000000001")) {
+            return Response.json({ id: "cat00000000001", name: "Gato" });
+        }
+
+        return Response.json(
+            { code: 404, message: "The requested resource wasn't found." },
+            { status: 404 },
+        );
+    }
+}
+
+Deno.test({
+    name: "Test SDK errors are mapped by status",
+    fn: () => {
+        const context: { method: string; collectionName: string } = {
+            method: "getOne",
+            collectionName: "cats",
+        };
+        const sdkError = (data: unknown): ClientResponseError =>
+            new ClientResponseError(data);
+
+        const notFound: PbdError = toPbdError(
+            sdkError({ status: 404, response: { message: "Missing." } }),
+            context,
+        );
+        assert(notFound instanceof PbdNotFoundError);
+        assertEquals(
+            [notFound.status, notFound.message, notFound.method],
+            [404, "Missing.", "getOne"],
+        );
+        assertEquals(notFound.collectionName, "cats");
+        assert(notFound.cause instanceof ClientResponseError);
+
+        const invalid: PbdError = toPbdError(
+            sdkError({
+                status: 400,
+                response: {
+                    message: "Failed to create record.",
+                    data: {
+                        name: {
+                            code: "validation_required",
+                            message: "Missing required value.",
+                        },
+                    },
+                },
+            }),
+            context,
+        );
+        assert(invalid instanceof PbdValidationError);
+        assertEquals((invalid as PbdValidationError).fields, {
+            name: {
+                code: "validation_required",
+                message: "Missing required value.",
+            },
+        });
+
+        assert(toPbdError(sdkError({ status: 401 })) instanceof PbdAuthError);
+
+        const forbidden: PbdError = toPbdError(sdkError({ status: 403 }));
+        assert(forbidden instanceof PbdAuthError);
+        assertEquals(forbidden.status, 403);
+
+        assert(toPbdError(sdkError({ status: 0 })) instanceof PbdNetworkError);
+        assert(
+            toPbdError(sdkError({ status: 0, isAbort: true })) instanceof
+                PbdAbortedError,
+        );
+
+        const other: PbdError = toPbdError(sdkError({ status: 500 }));
+        assertEquals(other.constructor, PbdError);
+        assertEquals(other.status, 500);
+
+        // Errors of any other kind are wrapped, Pbd errors are kept.
+        const plain: Error = new Error("Oops.");
+        const wrapped: PbdError = toPbdError(plain, context);
+        assertEquals([wrapped.status, wrapped.message], [0, "Oops."]);
+        assertEquals(wrapped.cause, plain);
+
+        const own: PbdAuthError = new PbdAuthError("No.");
+        assertEquals(toPbdError(own, context), own);
+        assertEquals(own.method, "getOne");
+    },
+});
+
+Deno.test({
+    name: "Test the error modes report failures",
+    fn: async () => {
+        const server: CatsStandIn = new CatsStandIn();
+        const options: { collectionName: string } = { collectionName: "cats" };
+
+        const throwing: Pbd = new Pbd({ client: new PocketBase(server.url) });
+        let thrown: unknown = null;
+        try {
+            await throwing.getOne("cat00000000002", options);
+        } catch (err: unknown) {
+            thrown = err;
+        }
+        assert(thrown instanceof PbdNotFoundError);
+        assertEquals((thrown as PbdError).method, "getOne");
+
+        const nulls: Pbd<"null"> = new Pbd({
+            client: new PocketBase(server.url),
+            error_mode: "null",
+        });
+        assertEquals(await nulls.getOne("cat00000000002", options), null);
+        assertEquals(await nulls.delete("cat00000000002", options), false);
+
+        const results: Pbd<"result"> = new Pbd({
+            client: new PocketBase(server.url),
+            error_mode: "result",
+        });
+        const found: PbdResult<{ name: string } | null> = await results
+            .getOne<{ name: string }>("cat00000000001", options);
+        assertEquals(found.ok, true);
+        assertEquals(found.data?.name, "Gato");
+        assertEquals(found.error, null);
+
+        const missing: PbdResult<unknown> = await results.getOne(
+            "cat00000000002",
+            options,
+        );
+        assertEquals([missing.ok, missing.data], [false, null]);
+        assert(missing.error instanceof PbdNotFoundError);
+
+        // Nothing listens there.
+        const offline: PbdResult<unknown> = await new Pbd({
+            client: new PocketBase("http://127.0.0.1:1"),
+            error_mode: "result",
+        }).getOne("cat00000000001", options);
+        assert(offline.error instanceof PbdNetworkError);
+
+        await server.close();
+    },
+});
+
+Deno.test({
+    name: "Test the null mode doesn't swallow the errors of Pbd",
+    fn: async () => {
+        const pbd: Pbd<"null"> = new Pbd({
+            client: new PocketBase("http://127.0.0.1:1"),
+            error_mode: "null",
+            unauthorized_errors: true,
+        });
+        let thrown: unknown = null;
+
+        try {
+            await pbd.listBackups({});
+        } catch (err: unknown) {
+            thrown = err;
+        }
+
+        assert(thrown instanceof PbdAuthError);
+        assertEquals((thrown as PbdError).method, "listBackups");
+    },
+});
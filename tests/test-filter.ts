@@ -0,0 +1,195 @@
+import { assert, assertEquals } from "jsr:@std/assert";
+
+import PocketBase from "pocketbase";
+
+import Pbd, { PbdError, PbdFilter, pbdFilter } from "../mod.ts";
+import { StandIn } from "./helpers.ts";
+
+/**
+ * @param fn {() => unknown} - The code that should throw.
+ * @returns {unknown} - The thrown error, or null.
+ */
+function thrownBy(fn: () => unknown): unknown {
+    try {
+        fn();
+    } catch (err: unknown) {
+        return err;
+    }
+
+    return null;
+}
+
+Deno.test({
+    name: "Test values are quoted and escaped",
+    fn: () => {
+        assertEquals(
+            pbdFilter.eq("name", "Erina").toString(),
+            "name = 'Erina'",
+        );
+        assertEquals(
+            pbdFilter.eq("name", "O'Malley").toString(),
+            "name = 'O\\'Malley'",
+        );
+        // PocketBase doesn't unescape backslashes, they are kept as they are.
+        assertEquals(
+            pbdFilter.eq("path", "a\\b").toString(),
+            "path = 'a\\b'",
+        );
+        assertEquals(
+            pbdFilter.eq("path", "a\\'b").toString(),
+            "path = 'a\\\\'b'",
+        );
+        assertEquals(
+            pbdFilter.eq("name", "x' || id != '").toString(),
+            "name = 'x\\' || id != \\''",
+        );
+
+        assertEquals(pbdFilter.gte("age", 2).toString(), "age >= 2");
+        assertEquals(
+            pbdFilter.eq("adopted", false).toString(),
+            "adopted = false",
+        );
+        assertEquals(pbdFilter.eq("owner", null).toString(), "owner = null");
+        assertEquals(
+            pbdFilter.after("created", new Date(Date.UTC(2024, 0, 2)))
+                .toString(),
+            "created > '2024-01-02 00:00:00.000Z'",
+        );
+        assertEquals(
+            pbdFilter.eq("owner", pbdFilter.auth()).toString(),
+            "owner = @request.auth.id",
+        );
+    },
+});
+
+Deno.test({
+    name: "Test unsafe values and fields are rejected",
+    fn: () => {
+        // It would escape the closing quote and swallow what follows.
+        assert(thrownBy(() => pbdFilter.eq("path", "a\\")) instanceof PbdError);
+        assert(thrownBy(() => pbdFilter.eq("age", NaN)) instanceof PbdError);
+        assert(
+            thrownBy(() => pbdFilter.eq("name = '' || id", "x")) instanceof
+                PbdError,
+        );
+        assert(thrownBy(() => pbdFilter.field("a b")) instanceof PbdError);
+        assertEquals(
+            thrownBy(() => pbdFilter.eq("author.name:lower", "x")),
+            null,
+        );
+        assertEquals(thrownBy(() => pbdFilter.eq("tags:each", "x")), null);
+    },
+});
+
+Deno.test({
+    name: "Test filters are combined and negated",
+    fn: () => {
+        const filter: PbdFilter = pbdFilter.and(
+            pbdFilter.gte("age", 1),
+            pbdFilter.or(
+                pbdFilter.eq("color", "brown"),
+                pbdFilter.like("name", "Eri"),
+            ),
+        );
+
+        assertEquals(
+            filter.toString(),
+            "(age >= 1 && (color = 'brown' || name ~ 'Eri'))",
+        );
+        assertEquals(
+            filter.not().toString(),
+            "(age < 1 || (color != 'brown' && name !~ 'Eri'))",
+        );
+        assertEquals(
+            pbdFilter.compare("tags", "?=", "cute").not().toString(),
+            "tags != 'cute'",
+        );
+
+        // Empty filters are skipped.
+        assertEquals(
+            pbdFilter.and(pbdFilter.notIn("id", []), pbdFilter.eq("a", 1))
+                .toString(),
+            "a = 1",
+        );
+        assertEquals(pbdFilter.in("id", []).toString(), "1 = 0");
+        assertEquals(
+            pbdFilter.in("id", ["a", "b"]).toString(),
+            "(id = 'a' || id = 'b')",
+        );
+
+        assert(
+            thrownBy(() => pbdFilter.raw("a = 1").not()) instanceof PbdError,
+        );
+    },
+});
+
+/**
+ * A tiny stand-in for the list endpoints of PocketBase. It answers with
+ * empty lists and records the query of every request.
+ */
+class ListsStandIn extends StandIn {
+    queries: URLSearchParams[] = [];
+
+    protected handle(req: Request): Response {
+        const url: URL = new URL(req.url);
+
+        this.queries.push(url.searchParams);
+
+        return Response.json({
+            page: 1,
+            perPage: 30,
+            totalItems: 0,
+            totalPages: 0,
+            items: [],
+        });
+    }
+}
+
+Deno.test({
+    name: "Test lists only send the filter and sort they're given",
+    fn: async () => {
+        const server: ListsStandIn = new ListsStandIn();
+        const pbd: Pbd = new Pbd({ client: new PocketBase(server.url) });
+        const page: { collectionName: string; page: number; perPage: number } =
+            { collectionName: "cats", page: 1, perPage: 30 };
+        const sent = (): (string | null)[][] =>
+            server.queries.splice(0).map((query: URLSearchParams) => [
+                query.get("filter"),
+                query.get("sort"),
+            ]);
+
+        await pbd.getCollectionList({ ...page, listoptions: {} });
+        await pbd.getCollectionFullList({ ...page, listoptions: {} });
+        await pbd.adminGetList(page);
+        await pbd.adminGetFullList({});
+        await pbd.getLogList(page);
+        assertEquals(sent(), Array(5).fill([null, null]));
+
+        // The filter and sort of the SDK options are kept.
+        const options: { filter: string; sort: string } = {
+            filter: "name = 'users'",
+            sort: "-created",
+        };
+        await pbd.getCollectionList({ ...page, listoptions: {}, options });
+        await pbd.getCollectionFullList({ ...page, listoptions: {}, options });
+        assertEquals(sent(), Array(2).fill([options.filter, options.sort]));
+
+        // And the ones of Pbd win over them.
+        await pbd.getCollectionList({
+            ...page,
+            listoptions: {},
+            options,
+            filter: pbdFilter.eq("type", "auth"),
+            sort: "name",
+        });
+        await pbd.adminGetList({ ...page, filter: "id != ''", sort: "email" });
+        await pbd.getLogList({ ...page, filter: "level > 0" });
+        assertEquals(sent(), [
+            ["type = 'auth'", "name"],
+            ["id != ''", "email"],
+            ["level > 0", null],
+        ]);
+
+        await server.close();
+    },
+});
@@ -0,0 +1,535 @@
+import { assertEquals } from "jsr:@std/assert";
+
+import Client from "pocketbase";
+import PocketBase from "pocketbase";
+
+import Pbd, {
+    expressRequire,
+    honoRequire,
+    PbdAuthLevel,
+    pbdAuthorize,
+    PbdConnInfo,
+    pbdExpress,
+    PbdExpressErrorHandler,
+    pbdExpressErrors,
+    PbdExpressMiddleware,
+    PbdExpressResponse,
+    pbdFetch,
+    pbdHono,
+    PbdHonoContext,
+    PbdHonoMiddleware,
+    PbdHttpOptions,
+    PbdHttpState,
+    PbdJwtInfo,
+    PbdNetworkError,
+    pbdOak,
+    PbdOakContext,
+    PbdOakMiddleware,
+    PbdRateLimiter,
+    requireAdmin,
+    requireAuth,
+} from "../mod.ts";
+import { signed, StandIn, token } from "./helpers.ts";
+
+type Cat = { id: string; name: string };
+
+/**
+ * A route of the shared suite: an optional guard and a handler whose
+ * result is answered as JSON.
+ */
+type Route = {
+    level?: PbdAuthLevel;
+    handler: (state: PbdHttpState) => Promise<unknown>;
+};
+
+/**
+ * Serves a route through an adapter, as a `fetch` handler taking the
+ * client IP. Errors the adapter leaves to the framework become 500s.
+ */
+type Adapter = (
+    pbd: Pbd,
+    route: Route,
+    options?: PbdHttpOptions,
+) => (req: Request, ip?: string) => Promise<Response>;
+
+/**
+ * Runs Oak style middleware, the way Oak composes them.
+ *
+ * @param ctx {PbdOakContext} - The context.
+ * @param stack {PbdOakMiddleware[]} - The middleware.
+ * @returns {Promise<void>}
+ */
+async function oakCompose(
+    ctx: PbdOakContext,
+    stack: PbdOakMiddleware[],
+): Promise<void> {
+    const dispatch = async (i: number): Promise<void> => {
+        await stack[i]?.(ctx, () => dispatch(i + 1));
+    };
+
+    await dispatch(0);
+}
+
+/**
+ * Runs Hono style middleware, the way Hono composes them: the errors of
+ * every middleware are caught, set on `c.error` and answered with a 500.
+ *
+ * @param c {PbdHonoContext} - The context.
+ * @param stack {PbdHonoMiddleware[]} - The middleware.
+ * @returns {Promise<void>}
+ */
+async function honoCompose(
+    c: PbdHonoContext,
+    stack: PbdHonoMiddleware[],
+): Promise<void> {
+    const dispatch = async (i: number): Promise<void> => {
+        try {
+            await stack[i]?.(c, () => dispatch(i + 1));
+        } catch (err: unknown) {
+            c.error = err as Error;
+            c.res = new Response("Internal Server Error", { status: 500 });
+        }
+    };
+
+    await dispatch(0);
+}
+
+/**
+ * Runs Express style middleware, the way Express routes them: `next(err)`
+ * skips to the error handlers.
+ *
+ * @param req {Request} - The request.
+ * @param ip {string | undefined} - The client IP.
+ * @param res {PbdExpressResponse} - The response.
+ * @param stack {PbdExpressMiddleware[]} - The middleware.
+ * @param errors {PbdExpressErrorHandler[]} - The error handlers.
+ * @returns {Promise<void>}
+ */
+async function expressRun(
+    req: Request,
+    ip: string | undefined,
+    res: PbdExpressResponse,
+    stack: PbdExpressMiddleware[],
+    errors: PbdExpressErrorHandler[],
+): Promise<void> {
+    const headers: Record<string, string> = Object.fromEntries(req.headers);
+    let failure: unknown = null;
+    let i: number = 0;
+    let next: boolean = true;
+
+    while (next && i < stack.length) {
+        next = false;
+        await stack[i++]({ headers, ip }, res, (err?: unknown) => {
+            next = err === undefined;
+            failure = err ?? null;
+        });
+    }
+
+    for (const handler of failure === null ? [] : errors) {
+        const err: unknown = failure;
+        failure = null;
+        handler(err, { headers, ip }, res, (rest?: unknown) => {
+            failure = rest ?? null;
+        });
+    }
+
+    if (failure !== null) {
+        res.status(500).json("Internal Server Error");
+    }
+}
+
+const adapters: Record<string, Adapter> = {
+    Oak: (pbd: Pbd, route: Route, options?: PbdHttpOptions) =>
+    async (req: Request, ip?: string): Promise<Response> => {
+        const ctx: PbdOakContext = {
+            request: { headers: req.headers, ip },
+            response: { status: 404, headers: new Headers() },
+            state: {},
+        };
+        const guards: Record<PbdAuthLevel, PbdOakMiddleware> = {
+            auth: requireAuth(),
+            admin: requireAdmin(),
+        };
+
+        try {
+            await oakCompose(ctx, [
+                pbdOak(pbd, options),
+                ...(route.level ? [guards[route.level]] : []),
+                async (ctx: PbdOakContext): Promise<void> => {
+                    ctx.response.status = 200;
+                    ctx.response.body = await route.handler(
+                        ctx.state as unknown as PbdHttpState,
+                    );
+                },
+            ]);
+        } catch {
+            return new Response(null, { status: 500 });
+        }
+
+        return Response.json(ctx.response.body, {
+            status: ctx.response.status,
+            headers: ctx.response.headers,
+        });
+    },
+    Hono:
+        (pbd: Pbd, route: Route, options?: PbdHttpOptions) =>
+        async (req: Request, ip?: string): Promise<Response> => {
+            const vars: Map<string, unknown> = new Map();
+            const c: PbdHonoContext = {
+                req: { raw: req },
+                env: ip ? { remoteAddr: { hostname: ip } } : undefined,
+                res: new Response(null, { status: 404 }),
+                set: (key: string, value: unknown): void => {
+                    vars.set(key, value);
+                },
+                get: (key: string): unknown => vars.get(key),
+            };
+
+            await honoCompose(c, [
+                pbdHono(pbd, options),
+                ...(route.level ? [honoRequire(route.level)] : []),
+                async (c: PbdHonoContext): Promise<void> => {
+                    c.res = Response.json(
+                        await route.handler(
+                            Object.fromEntries(vars) as unknown as PbdHttpState,
+                        ),
+                    );
+                },
+            ]);
+
+            return c.res;
+        },
+    Express:
+        (pbd: Pbd, route: Route, options?: PbdHttpOptions) =>
+        async (req: Request, ip?: string): Promise<Response> => {
+            let response: Response = new Response(null, { status: 404 });
+            let status: number = 200;
+            const headers: Headers = new Headers();
+            const res: PbdExpressResponse = {
+                locals: {},
+                headersSent: false,
+                status: (code: number): PbdExpressResponse => {
+                    status = code;
+                    return res;
+                },
+                set: (values: Record<string, string>): void => {
+                    for (const [name, value] of Object.entries(values)) {
+                        headers.set(name, value);
+                    }
+                },
+                json: (body: unknown): void => {
+                    res.headersSent = true;
+                    response = Response.json(body, { status, headers });
+                },
+            };
+
+            await expressRun(req, ip, res, [
+                pbdExpress(pbd, options),
+                ...(route.level ? [expressRequire(route.level)] : []),
+                async (
+                    _req: unknown,
+                    res: PbdExpressResponse,
+                    next: (err?: unknown) => void,
+                ): Promise<void> => {
+                    try {
+                        res.json(
+                            await route.handler(
+                                res.locals as unknown as PbdHttpState,
+                            ),
+                        );
+                    } catch (err: unknown) {
+                        next(err);
+                    }
+                },
+            ], [pbdExpressErrors()]);
+
+            return response;
+        },
+    Fetch: (pbd: Pbd, route: Route, options?: PbdHttpOptions) => {
+        const handler: (
+            req: Request,
+            info?: PbdConnInfo,
+        ) => Promise<Response> = pbdFetch(
+            pbd,
+            async (_req: Request, state: PbdHttpState): Promise<Response> => {
+                if (route.level) {
+                    pbdAuthorize(state.auth, route.level);
+                }
+
+                return Response.json(await route.handler(state));
+            },
+            options,
+        );
+
+        return (req: Request, ip?: string): Promise<Response> =>
+            handler(req, ip ? { remoteAddr: { hostname: ip } } : undefined)
+                .catch(() => new Response(null, { status: 500 }));
+    },
+};
+
+/**
+ * @param auth {string} - The bearer token, if any.
+ * @returns {Request} - A request to the served route.
+ */
+function request(auth?: string): Request {
+    return new Request("http://localhost/cats", {
+        headers: auth ? { Authorization: `Bearer ${auth}` } : {},
+    });
+}
+
+/**
+ * A tiny stand-in for the PocketBase records API. The cat it returns is
+ * named after the `Authorization` header of the request, and the `status`
+ * query parameter makes it fail.
+ */
+class CatsStandIn extends StandIn {
+    protected handle(req: Request): Response {
+        const status: number = Number(
+            new URL(req.url).searchParams.get("status") ?? 200,
+        );
+
+        if (status === 400) {
+            return Response.json({
+                code: 400,
+                message: "Failed to create record.",
+                data: { name: { code: "validation_required", message: "!" } },
+            }, { status });
+        }
+
+        if (status !== 200) {
+            return Response.json({ code: status, message: "No." }, { status });
+        }
+
+        return Response.json({
+            id: "cat00000000001",
+            name: req.headers.get("Authorization") ?? "guest",
+        });
+    }
+}
+
+for (const [name, adapter] of Object.entries(adapters)) {
+    Deno.test({
+        name: `Test ${name} requests get a Pbd instance bound to their token`,
+        fn: async () => {
+            const server: CatsStandIn = new CatsStandIn();
+            const pb: Client = new PocketBase(server.url);
+            const pbd: Pbd = new Pbd({ client: pb });
+            const user: string = token({ id: "user1" });
+            const route: Route = {
+                handler: async (state: PbdHttpState): Promise<unknown> => ({
+                    auth: state.auth?.id ?? null,
+                    cat: await state.pbd.getOne<Cat>("cat00000000001", {
+                        collectionName: "cats",
+                    }),
+                }),
+            };
+            const serve: (req: Request) => Promise<Response> = adapter(
+                pbd,
+                route,
+            );
+
+            assertEquals(await (await serve(request(user))).json(), {
+                auth: "user1",
+                cat: { id: "cat00000000001", name: user },
+            });
+            assertEquals(await (await serve(request())).json(), {
+                auth: null,
+                cat: { id: "cat00000000001", name: "guest" },
+            });
+            assertEquals(pb.authStore.token, "");
+
+            // Malformed, expired and (with a secret) forged tokens are
+            // rejected before the handler runs.
+            const statuses: number[] = [];
+            for (
+                const [auth, options] of [
+                    ["nope", {}],
+                    [token({ id: "user1", exp: 1 }), {}],
+                    [user, { secret: "secret" }],
+                ] as [string, PbdHttpOptions][]
+            ) {
+                const res: Response = await adapter(pbd, route, options)(
+                    request(auth),
+                );
+                statuses.push(res.status);
+                await res.body?.cancel();
+            }
+            assertEquals(statuses, [401, 401, 401]);
+
+            await server.close();
+        },
+    });
+
+    Deno.test({
+        name: `Test ${name} maps Pbd and PocketBase errors to HTTP responses`,
+        fn: async () => {
+            const server: CatsStandIn = new CatsStandIn();
+            const pbd: Pbd = new Pbd({ client: new PocketBase(server.url) });
+            const fail = (status: number): Route => ({
+                handler: (state: PbdHttpState): Promise<unknown> =>
+                    state.pbd.getOne("cat00000000001", {
+                        collectionName: "cats",
+                        options: { query: { status } },
+                    }),
+            });
+            const statuses: number[] = [];
+
+            for (const status of [403, 404, 500]) {
+                const res: Response = await adapter(pbd, fail(status))(
+                    request(),
+                );
+                statuses.push(res.status);
+                await res.body?.cancel();
+            }
+            assertEquals(statuses, [403, 404, 502]);
+
+            const invalid: Response = await adapter(pbd, fail(400))(
+                request(),
+            );
+            assertEquals(invalid.status, 400);
+            assertEquals(await invalid.json(), {
+                code: 400,
+                message: "Failed to create record.",
+                data: { name: { code: "validation_required", message: "!" } },
+            });
+
+            const down: Response = await adapter(pbd, {
+                handler: (): Promise<unknown> =>
+                    Promise.reject(new PbdNetworkError("Failed to fetch")),
+            })(request());
+            assertEquals(down.status, 502);
+            assertEquals(await down.json(), {
+                code: 502,
+                message: "Failed to fetch",
+                data: {},
+            });
+
+            // Other errors are left to the framework.
+            const bug: Response = await adapter(pbd, {
+                handler: (): Promise<unknown> =>
+                    Promise.reject(new TypeError("Bug")),
+            })(request());
+            assertEquals(bug.status, 500);
+            await bug.body?.cancel();
+
+            await server.close();
+        },
+    });
+
+    Deno.test({
+        name: `Test ${name} auth guards answer 401 and 403`,
+        fn: async () => {
+            const pbd: Pbd = new Pbd({
+                client: new PocketBase("http://127.0.0.1:1"),
+            });
+            const guarded = async (
+                auth: string | undefined,
+                options: PbdHttpOptions,
+            ): Promise<number[]> => {
+                const results: number[] = [];
+
+                for (const level of ["auth", "admin"] as PbdAuthLevel[]) {
+                    const res: Response = await adapter(pbd, {
+                        level,
+                        handler: (state: PbdHttpState): Promise<unknown> =>
+                            Promise.resolve(
+                                (state.auth as PbdJwtInfo).type,
+                            ),
+                    }, options)(request(auth));
+                    results.push(res.status);
+                    await res.body?.cancel();
+                }
+
+                return results;
+            };
+            const secret: PbdHttpOptions = { secret: "secret" };
+
+            assertEquals(await guarded(undefined, secret), [401, 401]);
+            assertEquals(
+                await guarded(await signed({ id: "user1" }, "secret"), secret),
+                [200, 403],
+            );
+            assertEquals(
+                await guarded(
+                    await signed({ id: "a", type: "admin" }, "secret"),
+                    secret,
+                ),
+                [200, 200],
+            );
+
+            // Without a secret, the claims of a token aren't trusted.
+            assertEquals(await guarded(undefined, {}), [401, 401]);
+            assertEquals(
+                await guarded(token({ id: "a", type: "admin" }), {}),
+                [500, 500],
+            );
+        },
+    });
+
+    Deno.test({
+        name: `Test ${name} rate limits users and guests with Retry-After`,
+        fn: async () => {
+            const pbd: Pbd = new Pbd({
+                client: new PocketBase("http://127.0.0.1:1"),
+            });
+            const limiting = (
+                options: PbdHttpOptions = {},
+            ): (req: Request, ip?: string) => Promise<Response> =>
+                adapter(pbd, { handler: () => Promise.resolve("ok") }, {
+                    ...options,
+                    rateLimit: new PbdRateLimiter({
+                        limit: 2,
+                        window: 60_000,
+                        algorithm: "token-bucket",
+                    }),
+                });
+            const statuses = async (
+                serve: (req: Request, ip?: string) => Promise<Response>,
+                requests: [string | undefined, string][],
+            ): Promise<number[]> => {
+                const results: number[] = [];
+
+                for (const [auth, ip] of requests) {
+                    const res: Response = await serve(request(auth), ip);
+                    results.push(res.status);
+                    await res.body?.cancel();
+                }
+
+                return results;
+            };
+            const serve: (req: Request, ip?: string) => Promise<Response> =
+                limiting();
+
+            // Guests are counted by IP, and so are the users of tokens that
+            // aren't verified.
+            assertEquals(
+                await statuses(serve, [
+                    [undefined, "10.0.0.1"],
+                    [undefined, "10.0.0.1"],
+                    [undefined, "10.0.0.1"],
+                    [undefined, "10.0.0.2"],
+                    [token({ id: "user1" }), "10.0.0.1"],
+                    [token({ id: "user1" }), "10.0.0.3"],
+                ]),
+                [200, 200, 429, 200, 429, 200],
+            );
+
+            // Verified tokens are counted by their user, from any IP.
+            const user: string = await signed({ id: "user1" }, "secret");
+            assertEquals(
+                await statuses(limiting({ secret: "secret" }), [
+                    [user, "10.0.0.1"],
+                    [user, "10.0.0.2"],
+                    [user, "10.0.0.3"],
+                ]),
+                [200, 200, 429],
+            );
+
+            // A token refills every 30 seconds.
+            const limited: Response = await serve(request(), "10.0.0.1");
+            assertEquals(limited.status, 429);
+            assertEquals(limited.headers.get("Retry-After"), "30");
+            assertEquals((await limited.json()).code, 429);
+        },
+    });
+}
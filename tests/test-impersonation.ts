@@ -0,0 +1,160 @@
+import { assertEquals } from "jsr:@std/assert";
+
+import Client from "pocketbase";
+import PocketBase from "pocketbase";
+
+import Pbd, { PbdContext, PbdMemoryCache } from "../mod.ts";
+import { StandIn, token } from "./helpers.ts";
+
+type Cat = { id: string; name: string };
+
+/**
+ * A tiny stand-in for the PocketBase records API. Every cat it returns is
+ * named after the `Authorization` header of the request.
+ */
+class CatsStandIn extends StandIn {
+    requests: number = 0;
+
+    protected async handle(req: Request): Promise<Response> {
+        this.requests++;
+        // Answer out of order, to mix concurrent calls.
+        await new Promise((resolve) => setTimeout(resolve, Math.random() * 10));
+
+        const cat: Cat = {
+            id: "cat00000000001",
+            name: req.headers.get("Authorization") ?? "guest",
+        };
+
+        if (new URL(req.url).pathname.endsWith("/records")) {
+            return Response.json({
+                page: 1,
+                perPage: 500,
+                totalItems: 1,
+                totalPages: 1,
+                items: [cat],
+            });
+        }
+
+        return Response.json(cat);
+    }
+}
+
+Deno.test({
+    name: "Test scoped instances use their own token without leaking it",
+    fn: async () => {
+        const server: CatsStandIn = new CatsStandIn();
+        const pb: Client = new PocketBase(server.url);
+        const pbd: Pbd = new Pbd({ client: pb });
+        const admin: string = token({ id: "admin1", type: "admin" });
+        const users: string[] = ["user1", "user2", "user3"].map((id: string) =>
+            token({ id })
+        );
+
+        pb.authStore.save(admin, null);
+
+        const cats: (Cat | null)[] = await Promise.all(
+            users.map((user: string) =>
+                pbd.as(user).getOne<Cat>("cat00000000001", {
+                    collectionName: "cats",
+                })
+            ),
+        );
+
+        assertEquals(cats.map((cat: Cat | null) => cat?.name), users);
+        assertEquals(pb.authStore.token, admin);
+        assertEquals(
+            (await pbd.getOne<Cat>("cat00000000001", {
+                collectionName: "cats",
+            }))?.name,
+            admin,
+        );
+
+        // Auth changes on a scoped instance stay there.
+        const scoped: Pbd = pbd.as(users[0]);
+        scoped.authClear();
+        assertEquals(scoped.client.authStore.token, "");
+        assertEquals(pb.authStore.token, admin);
+
+        await server.close();
+    },
+});
+
+Deno.test({
+    name: "Test forRequest reads the bearer token of a request",
+    fn: async () => {
+        const server: CatsStandIn = new CatsStandIn();
+        const pb: Client = new PocketBase(server.url);
+        const pbd: Pbd = new Pbd({ client: pb });
+        const user: string = token({ id: "user1" });
+
+        pb.authStore.save(token({ id: "admin1", type: "admin" }), null);
+
+        const name = async (scoped: Pbd): Promise<string | undefined> =>
+            (await scoped.getOne<Cat>("cat00000000001", {
+                collectionName: "cats",
+            }))?.name;
+
+        // A Fetch API request, an Oak context and an Express request.
+        assertEquals(
+            await name(pbd.forRequest(
+                new Request("http://localhost", {
+                    headers: { Authorization: `Bearer ${user}` },
+                }),
+            )),
+            user,
+        );
+        assertEquals(
+            await name(pbd.forRequest({
+                request: { headers: new Headers({ authorization: user }) },
+            })),
+            user,
+        );
+        assertEquals(
+            await name(pbd.forRequest({
+                headers: { authorization: `bearer ${user}` },
+            })),
+            user,
+        );
+
+        // No token means a guest, never the shared admin.
+        assertEquals(
+            await name(pbd.forRequest(new Request("http://localhost"))),
+            "guest",
+        );
+
+        await server.close();
+    },
+});
+
+Deno.test({
+    name: "Test scoped instances share the cache but not the results",
+    fn: async () => {
+        const server: CatsStandIn = new CatsStandIn();
+        const pb: Client = new PocketBase(server.url);
+        const pbd: Pbd = new Pbd({
+            client: pb,
+            cache: { store: new PbdMemoryCache() },
+        });
+        const methods: string[] = [];
+
+        pbd.as(token({ id: "user1" })).use(
+            async (ctx: PbdContext, next: () => Promise<void>) => {
+                methods.push(ctx.method);
+                await next();
+            },
+        );
+
+        for (const id of ["user1", "user2", "user1"]) {
+            const cats: Cat[] | null = await pbd.as(token({ id })).getFullList<
+                Cat
+            >({ collectionName: "cats" });
+            assertEquals(cats?.[0].name, token({ id }));
+        }
+
+        assertEquals(server.requests, 2);
+        // Middleware added to a scoped instance don't reach the others.
+        assertEquals(methods, []);
+
+        await server.close();
+    },
+});
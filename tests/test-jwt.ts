@@ -0,0 +1,102 @@
+import { assertEquals } from "jsr:@std/assert";
+
+import Client from "pocketbase";
+import PocketBase from "pocketbase";
+
+import Pbd, { PbdExt, PbdJwtInfo } from "../mod.ts";
+import { signed, token } from "./helpers.ts";
+
+Deno.test({
+    name: "Test tokens are decoded from a string or a Pbd instance",
+    fn: async () => {
+        const pb: Client = new PocketBase("http://127.0.0.1:1");
+        const pbd: Pbd = new Pbd({ client: pb });
+        const exp: number = Math.floor(Date.now() / 1000) + 60;
+        const token: string = await signed({
+            id: "user00000000001",
+            type: "authRecord",
+            collectionId: "_pb_users_auth_",
+            exp,
+        }, "secret");
+
+        assertEquals(PbdExt.auth.inspectJwt(pbd), null);
+        assertEquals(PbdExt.auth.inspectJwt("not.a.token"), null);
+
+        pb.authStore.save(token, null);
+        const info: PbdJwtInfo | null = PbdExt.auth.inspectJwt(pbd);
+
+        assertEquals(info?.header, { alg: "HS256", typ: "JWT" });
+        assertEquals(info?.type, "authRecord");
+        assertEquals(info?.id, "user00000000001");
+        assertEquals(info?.collectionId, "_pb_users_auth_");
+        assertEquals(info?.exp, exp);
+        assertEquals(info?.expired, false);
+        assertEquals((info?.expiresIn ?? 0) > 50_000, true);
+
+        const admin: PbdJwtInfo | null = PbdExt.auth.inspectJwt(
+            await signed({ id: "admin1", type: "admin", exp: 1 }, "secret"),
+        );
+        assertEquals(admin?.collectionId, null);
+        assertEquals(admin?.expired, true);
+    },
+});
+
+Deno.test({
+    name: "Test signatures are verified locally",
+    fn: async () => {
+        const exp: number = Math.floor(Date.now() / 1000) + 60;
+        const jwt: string = await signed(
+            { id: "admin1", type: "admin", exp },
+            "tokenKeysecret",
+        );
+        const [header, , signature]: string[] = jwt.split(".");
+        const forged: string = [
+            header,
+            token({ id: "admin2", type: "admin", exp }).split(".")[1],
+            signature,
+        ].join(".");
+
+        assertEquals(
+            await PbdExt.auth.verifyJwt(jwt, "tokenKeysecret"),
+            true,
+        );
+        assertEquals(await PbdExt.auth.verifyJwt(jwt, "wrong"), false);
+        assertEquals(
+            await PbdExt.auth.verifyJwt(forged, "tokenKeysecret"),
+            false,
+        );
+        assertEquals(
+            await PbdExt.auth.verifyJwt(
+                jwt,
+                (info: PbdJwtInfo) =>
+                    `${info.id === "admin1" ? "tokenKey" : ""}secret`,
+            ),
+            true,
+        );
+        assertEquals(
+            await PbdExt.auth.verifyJwt(
+                await signed({ id: "admin1", type: "admin", exp: 1 }, "s"),
+                "s",
+            ),
+            false,
+        );
+        // Tokens without a numeric expiry never expire, they're refused.
+        assertEquals(
+            await PbdExt.auth.verifyJwt(
+                await signed(
+                    { id: "admin1", type: "admin", exp: undefined },
+                    "s",
+                ),
+                "s",
+            ),
+            false,
+        );
+        assertEquals(
+            await PbdExt.auth.verifyJwt(
+                await signed({ id: "admin1", type: "admin", exp: "9999" }, "s"),
+                "s",
+            ),
+            false,
+        );
+    },
+});
@@ -0,0 +1,195 @@
+import { assertEquals } from "jsr:@std/assert";
+
+import Client from "pocketbase";
+import PocketBase from "pocketbase";
+
+import Pbd, { PbdAuthError, PbdContext, PbdExt } from "../mod.ts";
+import { StandIn } from "./helpers.ts";
+
+/**
+ * A tiny stand-in for the PocketBase records API. It records the headers
+ * of every request and answers 404 to records named "missing".
+ */
+class EchoStandIn extends StandIn {
+    headers: Headers[] = [];
+
+    protected handle(req: Request): Response {
+        this.headers.push(req.headers);
+
+        const { pathname }: URL = new URL(req.url);
+
+        if (pathname.endsWith("/missing")) {
+            return Response.json({ code: 404, message: "Not found." }, {
+                status: 404,
+            });
+        }
+
+        if (pathname.endsWith("/records") && req.method === "GET") {
+            return Response.json({
+                page: 1,
+                perPage: 100,
+                totalItems: 1,
+                totalPages: 1,
+                items: [{ id: "cat00000000001", name: "Gato" }],
+            });
+        }
+
+        if (req.method === "DELETE") {
+            return new Response(null, { status: 204 });
+        }
+
+        return Response.json({ id: "cat00000000001", name: "Gato" });
+    }
+}
+
+Deno.test({
+    name: "Test middleware run in order around the call",
+    fn: async () => {
+        const server: EchoStandIn = new EchoStandIn();
+        const pb: Client = new PocketBase(server.url);
+        const pbd: Pbd = new Pbd({ client: pb });
+        const steps: string[] = [];
+        const seen: PbdContext[] = [];
+
+        pbd.use(async (ctx: PbdContext, next: () => Promise<void>) => {
+            steps.push("outer before");
+            await next();
+            steps.push("outer after");
+            seen.push(ctx);
+        }).use(async (_: PbdContext, next: () => Promise<void>) => {
+            steps.push("inner before");
+            await next();
+            steps.push("inner after");
+        });
+
+        await pbd.getOne("cat00000000001", { collectionName: "cats" });
+
+        assertEquals(steps, [
+            "outer before",
+            "inner before",
+            "inner after",
+            "outer after",
+        ]);
+        assertEquals(seen[0].method, "getOne");
+        assertEquals(seen[0].collectionName, "cats");
+        assertEquals(seen[0].args[0], "cat00000000001");
+        assertEquals((seen[0].result as { name: string }).name, "Gato");
+        assertEquals(seen[0].duration > 0, true);
+
+        await server.close();
+    },
+});
+
+Deno.test({
+    name: "Test middleware headers are sent and stack with each other",
+    fn: async () => {
+        const server: EchoStandIn = new EchoStandIn();
+        const pb: Client = new PocketBase(server.url);
+        const pbd: Pbd = new Pbd({ client: pb });
+
+        pb.authStore.save("a.b.c", null);
+        PbdExt.auth.setupPBTokenAuth(pbd);
+        pbd.use(async (ctx: PbdContext, next: () => Promise<void>) => {
+            ctx.headers["X-Tenant"] = "shelter";
+            await next();
+        });
+
+        await pbd.getOne("cat00000000001", { collectionName: "cats" });
+        await pb.collection("cats").getOne("cat00000000001");
+
+        assertEquals(server.headers[0].get("Authorization"), "a.b.c");
+        assertEquals(server.headers[0].get("X-Tenant"), "shelter");
+        // The client itself is left alone.
+        assertEquals(server.headers[1].get("X-Tenant"), null);
+
+        await server.close();
+    },
+});
+
+Deno.test({
+    name: "Test middleware can stop calls and see their errors",
+    fn: async () => {
+        const server: EchoStandIn = new EchoStandIn();
+        const pb: Client = new PocketBase(server.url);
+        const pbd: Pbd<"null"> = new Pbd({ client: pb, error_mode: "null" });
+        const errors: string[] = [];
+
+        pbd.use(async (ctx: PbdContext, next: () => Promise<void>) => {
+            await next();
+            if (ctx.error) errors.push(ctx.error.name);
+        }).use(async (ctx: PbdContext, next: () => Promise<void>) => {
+            if (ctx.method === "delete") {
+                ctx.error = new PbdAuthError("Nope.");
+                return;
+            }
+            await next();
+        });
+
+        const missing: unknown = await pbd.getOne("missing", {
+            collectionName: "cats",
+        });
+        assertEquals(missing, null);
+        assertEquals(errors, ["PbdNotFoundError"]);
+
+        let error: unknown = null;
+        try {
+            await pbd.delete("cat00000000001", { collectionName: "cats" });
+        } catch (err: unknown) {
+            error = err;
+        }
+
+        // Errors set by the middleware are never swallowed.
+        assertEquals(error instanceof PbdAuthError, true);
+        assertEquals(server.headers.length, 1);
+
+        await server.close();
+    },
+});
+
+Deno.test({
+    name: "Test middleware run around every page and batch operation",
+    fn: async () => {
+        const server: EchoStandIn = new EchoStandIn();
+        const pb: Client = new PocketBase(server.url);
+        const pbd: Pbd = new Pbd({ client: pb });
+        const calls: string[] = [];
+
+        pbd.use(async (ctx: PbdContext, next: () => Promise<void>) => {
+            calls.push(
+                ctx.method === "batch"
+                    ? `batch ${ctx.args[0]} ${ctx.collectionName}`
+                    : `${ctx.method} ${ctx.collectionName}`,
+            );
+            ctx.headers["X-Tenant"] = "shelter";
+            await next();
+        });
+
+        const names: string[] = [];
+        for await (
+            const cat of pbd.iterate<{ name: string }>({
+                collectionName: "cats",
+            })
+        ) {
+            names.push(cat.name);
+        }
+
+        await pbd.batch()
+            .create("cats", { name: "Michi" })
+            .delete("cats", "cat00000000001")
+            .run();
+
+        assertEquals(names, ["Gato"]);
+        assertEquals(calls, [
+            "iterate cats",
+            "batch create cats",
+            "batch getOne cats",
+            "batch delete cats",
+        ]);
+        assertEquals(
+            server.headers.map((headers: Headers) => headers.get("X-Tenant")),
+            ["shelter", "shelter", "shelter", "shelter"],
+        );
+
+        await server.close();
+    },
+});
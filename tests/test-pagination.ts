@@ -0,0 +1,182 @@
+import { assertEquals } from "jsr:@std/assert";
+
+import Client from "pocketbase";
+import PocketBase from "pocketbase";
+
+import Pbd, { PbdListIterator } from "../mod.ts";
+import { StandIn } from "./helpers.ts";
+
+interface Cat {
+    id: string;
+    created: string;
+    Name: string;
+}
+
+/**
+ * A tiny stand-in for the PocketBase list API. It serves pages of a fixed
+ * list of cats and records every query it receives.
+ */
+class ListStandIn extends StandIn {
+    queries: URLSearchParams[] = [];
+    cats: Cat[];
+
+    constructor(total: number) {
+        super();
+        this.cats = Array.from({ length: total }, (_, i: number) => ({
+            id: `cat${String(i).padStart(12, "0")}`,
+            created: `2024-01-01 00:00:${String(i).padStart(2, "0")}.000Z`,
+            Name: `Cat ${i}`,
+        }));
+    }
+
+    protected handle(req: Request): Response {
+        const query: URLSearchParams = new URL(req.url).searchParams;
+        this.queries.push(query);
+
+        const page: number = Number(query.get("page"));
+        const perPage: number = Number(query.get("perPage"));
+        const skipTotal: boolean = query.get("skipTotal") === "true";
+        const items: Cat[] = this.cats.slice(
+            (page - 1) * perPage,
+            page * perPage,
+        );
+
+        return Response.json({
+            page,
+            perPage,
+            totalItems: skipTotal ? -1 : this.cats.length,
+            totalPages: skipTotal ? -1 : Math.ceil(this.cats.length / perPage),
+            items,
+        });
+    }
+}
+
+Deno.test({
+    name: "Test iterate walks every page lazily",
+    fn: async () => {
+        const server: ListStandIn = new ListStandIn(7);
+        const pb: Client = new PocketBase(server.url);
+        const pbd: Pbd = new Pbd({ client: pb });
+
+        const cats: PbdListIterator<Cat> = pbd.iterate<Cat>({
+            collectionName: "Cats",
+            perPage: 3,
+        });
+
+        const names: string[] = [];
+        for await (const cat of cats) {
+            names.push(cat.Name);
+            if (names.length === 1) assertEquals(server.queries.length, 1);
+        }
+
+        assertEquals(names.length, 7);
+        assertEquals(cats.pages, 3);
+        assertEquals(cats.totalItems, 7);
+
+        await server.close();
+    },
+});
+
+Deno.test({
+    name: "Test iterate with skipTotal stops on the first short page",
+    fn: async () => {
+        const server: ListStandIn = new ListStandIn(6);
+        const pb: Client = new PocketBase(server.url);
+        const pbd: Pbd = new Pbd({ client: pb });
+
+        const cats: PbdListIterator<Cat> = pbd.iterate<Cat>({
+            collectionName: "Cats",
+            perPage: 3,
+            skipTotal: true,
+        });
+
+        let count: number = 0;
+        for await (const _ of cats) count++;
+
+        assertEquals(count, 6);
+        // The third (empty) page tells the iterator it's done.
+        assertEquals(cats.pages, 3);
+        assertEquals(cats.totalItems, null);
+
+        await server.close();
+    },
+});
+
+Deno.test({
+    name: "Test iterate only sends the filter, sort and expand it's given",
+    fn: async () => {
+        const server: ListStandIn = new ListStandIn(2);
+        const pb: Client = new PocketBase(server.url);
+        const pbd: Pbd = new Pbd({ client: pb });
+
+        for await (
+            const _ of pbd.iterate<Cat>({ collectionName: "Cats", perPage: 5 })
+        );
+
+        assertEquals(server.queries[0].has("filter"), false);
+        assertEquals(server.queries[0].has("sort"), false);
+        assertEquals(server.queries[0].has("expand"), false);
+
+        await server.close();
+    },
+});
+
+Deno.test({
+    name: "Test iterate with a cursor filters after the last record",
+    fn: async () => {
+        const server: ListStandIn = new ListStandIn(3);
+        const pb: Client = new PocketBase(server.url);
+        const pbd: Pbd = new Pbd({ client: pb });
+
+        const cats: PbdListIterator<Cat> = pbd.iterate<Cat>({
+            collectionName: "Cats",
+            perPage: 2,
+            filter: "Name != ''",
+            cursor: "asc",
+        });
+
+        const iterator: AsyncIterator<Cat> = cats[Symbol.asyncIterator]();
+        await iterator.next();
+        await iterator.next();
+        await iterator.next();
+        await iterator.return?.();
+
+        assertEquals(server.queries[0].get("sort"), "created,id");
+        assertEquals(server.queries[0].get("filter"), "Name != ''");
+        assertEquals(server.queries[1].get("page"), "1");
+        assertEquals(
+            server.queries[1].get("filter"),
+            "((Name != '') && (created > '2024-01-01 00:00:01.000Z' || " +
+                "(created = '2024-01-01 00:00:01.000Z' && id > 'cat000000000001')))",
+        );
+
+        await server.close();
+    },
+});
+
+Deno.test({
+    name: "Test iterate ends quietly once the signal is aborted",
+    fn: async () => {
+        const server: ListStandIn = new ListStandIn(10);
+        const pb: Client = new PocketBase(server.url);
+        const pbd: Pbd = new Pbd({ client: pb });
+        const controller: AbortController = new AbortController();
+
+        const cats: PbdListIterator<Cat> = pbd.iterate<Cat>({
+            collectionName: "Cats",
+            perPage: 2,
+            signal: controller.signal,
+        });
+
+        let count: number = 0;
+        for await (const _ of cats) {
+            if (++count === 3) controller.abort();
+        }
+
+        assertEquals(count, 3);
+        assertEquals(cats.pages, 2);
+        assertEquals(cats.error, null);
+
+        await server.close();
+    },
+});
@@ -0,0 +1,222 @@
+import { assertEquals } from "jsr:@std/assert";
+
+import Client from "pocketbase";
+import PocketBase from "pocketbase";
+
+import Pbd, { PbdPool, PbdPoolMember } from "../mod.ts";
+import { StandIn } from "./helpers.ts";
+
+/**
+ * A tiny stand-in for a PocketBase instance of a pool. Every record it
+ * returns is named after the instance, and it can be taken down.
+ */
+class MemberStandIn extends StandIn {
+    name: string;
+    down: boolean = false;
+    reads: number = 0;
+    writes: number = 0;
+
+    constructor(name: string) {
+        super();
+        this.name = name;
+    }
+
+    protected handle(req: Request): Response {
+        if (this.down) {
+            return Response.json({ code: 503, message: "Down." }, {
+                status: 503,
+            });
+        }
+
+        if (req.method === "GET") {
+            this.reads++;
+        } else {
+            this.writes++;
+        }
+
+        const cat: { id: string; name: string } = {
+            id: "cat00000000001",
+            name: this.name,
+        };
+
+        if (new URL(req.url).pathname.endsWith("/records")) {
+            return Response.json({
+                page: 1,
+                perPage: 30,
+                totalItems: 1,
+                totalPages: 1,
+                items: [cat],
+            });
+        }
+
+        return Response.json(cat);
+    }
+}
+
+/**
+ * Starts a primary and two replicas and a Pbd instance routing over them.
+ *
+ * @returns {[Pbd, MemberStandIn[]]} - The instance and the stand-ins.
+ */
+function pool(): [Pbd, MemberStandIn[]] {
+    const members: MemberStandIn[] = ["primary", "replica-1", "replica-2"]
+        .map((name: string) => new MemberStandIn(name));
+    const [primary, ...replicas]: Client[] = members.map((m: MemberStandIn) =>
+        new PocketBase(m.url)
+    );
+    const pbd: Pbd = new Pbd({ client: primary, pool: { replicas } });
+
+    return [pbd, members];
+}
+
+/**
+ * Reads a cat and returns the name of the instance that served it.
+ *
+ * @param pbd {Pbd} - The instance to read with.
+ * @returns {Promise<string>} - The name of the instance.
+ */
+async function served(pbd: Pbd): Promise<string> {
+    const cat: { name: string } | null = await pbd.getOne<{ name: string }>(
+        "cat00000000001",
+        { collectionName: "cats" },
+    );
+
+    return cat?.name ?? "";
+}
+
+Deno.test({
+    name: "Test reads go round robin to the replicas, writes to the primary",
+    fn: async () => {
+        const [pbd, members]: [Pbd, MemberStandIn[]] = pool();
+
+        assertEquals(
+            [await served(pbd), await served(pbd), await served(pbd)],
+            ["replica-1", "replica-2", "replica-1"],
+        );
+
+        await pbd.create({ collectionName: "cats" }, { name: "Gato" });
+        assertEquals(members.map((m: MemberStandIn) => m.writes), [1, 0, 0]);
+
+        await Promise.all(members.map((m: MemberStandIn) => m.close()));
+    },
+});
+
+Deno.test({
+    name: "Test iterate and batch stick to the primary",
+    fn: async () => {
+        const [pbd, members]: [Pbd, MemberStandIn[]] = pool();
+
+        const names: string[] = [];
+        for await (
+            const cat of pbd.iterate<{ name: string }>({
+                collectionName: "cats",
+            })
+        ) {
+            names.push(cat.name);
+        }
+        assertEquals(names, ["primary"]);
+
+        await pbd.batch()
+            .update("cats", "cat00000000001", { name: "Gato" })
+            .run();
+        // The page and the snapshot taken for the undo are read there too.
+        assertEquals(
+            members.map((m: MemberStandIn) => [m.reads, m.writes]),
+            [[2, 1], [0, 0], [0, 0]],
+        );
+
+        await Promise.all(members.map((m: MemberStandIn) => m.close()));
+    },
+});
+
+Deno.test({
+    name: "Test getHealth and forwarded reads stick to the primary",
+    fn: async () => {
+        const [pbd, members]: [Pbd, MemberStandIn[]] = pool();
+
+        await pbd.getHealth();
+        await pbd.forward("/api/collections/cats/records");
+
+        assertEquals(members.map((m: MemberStandIn) => m.reads), [2, 0, 0]);
+
+        await Promise.all(members.map((m: MemberStandIn) => m.close()));
+    },
+});
+
+Deno.test({
+    name: "Test a PbdPool has the methods of Pbd and its members",
+    fn: async () => {
+        const members: MemberStandIn[] = ["primary", "replica-1"]
+            .map((name: string) => new MemberStandIn(name));
+        const pbd: PbdPool = new PbdPool({
+            client: new PocketBase(members[0].url),
+            replicas: [new PocketBase(members[1].url)],
+        });
+
+        assertEquals(await served(pbd), "replica-1");
+        await pbd.create({ collectionName: "cats" }, { name: "Gato" });
+
+        assertEquals(
+            members.map((m: MemberStandIn) => [m.reads, m.writes]),
+            [[0, 1], [1, 0]],
+        );
+        assertEquals(
+            pbd.members.map((m: PbdPoolMember) => [m.primary, m.healthy]),
+            [[true, true], [false, true]],
+        );
+        assertEquals(
+            (await pbd.checkHealth()).map((m: PbdPoolMember) => m.healthy),
+            [true, true],
+        );
+
+        await Promise.all(members.map((m: MemberStandIn) => m.close()));
+    },
+});
+
+Deno.test({
+    name: "Test failing replicas are left out until a health check passes",
+    fn: async () => {
+        const [pbd, members]: [Pbd, MemberStandIn[]] = pool();
+
+        members[1].down = true;
+        await served(pbd).catch(() => {});
+
+        assertEquals([await served(pbd), await served(pbd)], [
+            "replica-2",
+            "replica-2",
+        ]);
+
+        members[1].down = false;
+        const checked: PbdPoolMember[] | undefined = await pbd.pool
+            ?.checkHealth();
+
+        assertEquals(
+            checked?.map((m: PbdPoolMember) => m.healthy),
+            [true, true, true],
+        );
+        assertEquals(
+            [await served(pbd), await served(pbd)].sort(),
+            ["replica-1", "replica-2"],
+        );
+
+        await Promise.all(members.map((m: MemberStandIn) => m.close()));
+    },
+});
+
+Deno.test({
+    name: "Test the replicas share the auth state of the primary",
+    fn: () => {
+        const primary: Client = new PocketBase("http://127.0.0.1:1");
+        const replica: Client = new PocketBase("http://127.0.0.1:2");
+        const pbd: Pbd = new Pbd({
+            client: primary,
+            pool: { replicas: [replica] },
+        });
+
+        primary.authStore.save("token", null);
+        assertEquals(replica.authStore.token, "token");
+
+        pbd.authClear();
+        assertEquals(replica.authStore.token, "");
+    },
+});
@@ -0,0 +1,237 @@
+import { assertEquals } from "jsr:@std/assert";
+
+import Client from "pocketbase";
+import PocketBase from "pocketbase";
+
+import Pbd, {
+    PbdContext,
+    PbdError,
+    PbdNetworkError,
+    PbdProxy,
+    pbdProxy,
+} from "../mod.ts";
+import { StandIn, token } from "./helpers.ts";
+
+/**
+ * A tiny stand-in for PocketBase that echoes the requests it gets, and
+ * fails the ones to `/api/fail`.
+ */
+class EchoStandIn extends StandIn {
+    protected async handle(req: Request): Promise<Response> {
+        const url: URL = new URL(req.url);
+
+        if (url.pathname === "/api/fail") {
+            return Response.json({ code: 500, message: "Broken." }, {
+                status: 500,
+            });
+        }
+
+        return Response.json({
+            method: req.method,
+            path: `${url.pathname}${url.search}`,
+            auth: req.headers.get("Authorization"),
+            gateway: req.headers.get("X-Gateway"),
+            body: await req.text(),
+        }, {
+            status: req.method === "POST" ? 201 : 200,
+            headers: { "X-Upstream": "pocketbase" },
+        });
+    }
+}
+
+/**
+ * @param proxy {PbdProxy} - The proxy.
+ * @param path {string} - The path of the request.
+ * @param init {RequestInit} - The rest of the request.
+ * @returns {Promise<Response | null>} - The response of the proxy.
+ */
+function send(
+    proxy: PbdProxy,
+    path: string,
+    init: RequestInit = {},
+): Promise<Response | null> {
+    return proxy(new Request(`http://gateway.local${path}`, init));
+}
+
+Deno.test({
+    name: "Test requests are forwarded with the rewritten path and token",
+    fn: async () => {
+        const server: EchoStandIn = new EchoStandIn();
+        const proxy: PbdProxy = pbdProxy(
+            new Pbd({ client: new PocketBase(server.url) }),
+            {
+                prefix: "/pb/",
+                rewrite: (path: string) => path.replace(/^\/v1\//, "/api/"),
+                headers: (req: Request) => ({
+                    "X-Gateway": new URL(req.url).host,
+                }),
+            },
+        );
+        const user: string = token({ id: "user1" });
+
+        const list: Response | null = await send(
+            proxy,
+            "/pb/v1/collections/cats/records?filter=name%3D'Tom'",
+            { headers: { Authorization: `Bearer ${user}` } },
+        );
+        assertEquals(list?.status, 200);
+        assertEquals(list?.headers.get("X-Upstream"), "pocketbase");
+        assertEquals(await list?.json(), {
+            method: "GET",
+            path: "/api/collections/cats/records?filter=name%3D%27Tom%27",
+            auth: user,
+            gateway: "gateway.local",
+            body: "",
+        });
+
+        const created: Response | null = await send(
+            proxy,
+            "/pb/api/collections/cats/records",
+            {
+                method: "POST",
+                body: JSON.stringify({ name: "Tom" }),
+            },
+        );
+        assertEquals(created?.status, 201);
+        assertEquals(await created?.json(), {
+            method: "POST",
+            path: "/api/collections/cats/records",
+            auth: null,
+            gateway: "gateway.local",
+            body: '{"name":"Tom"}',
+        });
+
+        assertEquals(await send(proxy, "/api/health"), null);
+        assertEquals(await send(proxy, "/pbx/api/health"), null);
+
+        const forged: Response | null = await send(proxy, "/pb/api/health", {
+            headers: { Authorization: "Bearer nope" },
+        });
+        assertEquals(forged?.status, 401);
+        await forged?.body?.cancel();
+
+        await server.close();
+    },
+});
+
+Deno.test({
+    name: "Test the admin endpoints are denied unless allowed",
+    fn: async () => {
+        const server: EchoStandIn = new EchoStandIn();
+        const pbd: Pbd = new Pbd({ client: new PocketBase(server.url) });
+        const statuses = async (
+            proxy: PbdProxy,
+            paths: string[],
+        ): Promise<number[]> => {
+            const result: number[] = [];
+
+            for (const path of paths) {
+                const res: Response | null = await send(proxy, path);
+                result.push(res?.status ?? 0);
+                await res?.body?.cancel();
+            }
+
+            return result;
+        };
+
+        assertEquals(
+            await statuses(pbdProxy(pbd), [
+                "/api/admins",
+                "/api/admins/auth-with-password",
+                "/api//backups",
+                "/api/%73ettings",
+                "/api/collections%2F..%2Fadmins",
+                "/api/%E0%A4%A",
+                "/api/adminsx",
+                "/api/health",
+            ]),
+            [403, 403, 403, 403, 400, 400, 200, 200],
+        );
+        assertEquals(
+            await statuses(
+                pbdProxy(pbd, {
+                    allow: ["/api/collections/cats", "/api/admins"],
+                    deny: [],
+                }),
+                [
+                    "/api/collections/cats/records",
+                    "/api/collections/dogs/records",
+                    "/api/admins",
+                ],
+            ),
+            [200, 403, 200],
+        );
+
+        await server.close();
+    },
+});
+
+Deno.test({
+    name: "Test the proxy uses the auth state and middleware of the instance",
+    fn: async () => {
+        const server: EchoStandIn = new EchoStandIn();
+        const pb: Client = new PocketBase(server.url);
+        const pbd: Pbd = new Pbd({ client: pb });
+        const admin: string = token({ id: "admin1", type: "admin" });
+        const calls: string[] = [];
+
+        pbd.use(async (ctx: PbdContext, next: () => Promise<void>) => {
+            await next();
+            calls.push(
+                `${ctx.method} ${ctx.args.join(" ")} ${
+                    ctx.error?.status ?? ""
+                }`,
+            );
+        });
+        pb.authStore.save(admin, null);
+
+        const proxy: PbdProxy = pbdProxy(pbd, { auth: "pbd" });
+        const res: Response | null = await send(proxy, "/api/health", {
+            headers: { Authorization: `Bearer ${token({ id: "user1" })}` },
+        });
+        assertEquals((await res?.json()).auth, admin);
+
+        await server.close();
+
+        const down: Response | null = await send(proxy, "/api/health");
+        assertEquals(down?.status, 502);
+        await down?.body?.cancel();
+
+        assertEquals(calls, [
+            "forward GET /api/health ",
+            "forward GET /api/health 0",
+        ]);
+    },
+});
+
+Deno.test({
+    name: "Test failures of PocketBase count for the circuit breaker",
+    fn: async () => {
+        const server: EchoStandIn = new EchoStandIn();
+        const pbd: Pbd = new Pbd({
+            client: new PocketBase(server.url),
+            circuit: { minimumCalls: 2, failureThreshold: 0.5 },
+        });
+        const errors: (PbdError | null)[] = [];
+
+        pbd.use(async (ctx: PbdContext, next: () => Promise<void>) => {
+            await next();
+            errors.push(ctx.error);
+        });
+
+        const proxy: PbdProxy = pbdProxy(pbd);
+        const failed: Response | null = await send(proxy, "/api/fail");
+        assertEquals(failed?.status, 502);
+        assertEquals((await failed?.json()).message, "Broken.");
+
+        await server.close();
+
+        const down: Response | null = await send(proxy, "/api/health");
+        assertEquals(down?.status, 502);
+        await down?.body?.cancel();
+
+        assertEquals(errors.map((e: PbdError | null) => e?.status), [500, 0]);
+        assertEquals(errors[1] instanceof PbdNetworkError, true);
+        assertEquals(pbd.circuit?.state, "open");
+    },
+});
@@ -0,0 +1,224 @@
+import { assert, assertEquals } from "jsr:@std/assert";
+
+import PocketBase from "pocketbase";
+
+import Pbd, {
+    PbdError,
+    PbdExt,
+    PbdMemoryRateLimitStore,
+    PbdRateLimiter,
+    PbdRateLimitError,
+    PbdRateLimitResult,
+    PbdResult,
+} from "../mod.ts";
+import { StandIn, token } from "./helpers.ts";
+
+/**
+ * @param ms {number} - How long to wait.
+ * @returns {Promise<void>}
+ */
+function sleep(ms: number): Promise<void> {
+    return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * A tiny stand-in for PocketBase, answering record reads and refreshing
+ * the tokens of the users.
+ */
+class CatsStandIn extends StandIn {
+    protected handle(req: Request): Response {
+        const path: string = new URL(req.url).pathname;
+
+        if (path === "/api/collections/users/auth-refresh") {
+            return Response.json({
+                token: token({ id: "user1" }, crypto.randomUUID()),
+                record: { id: "user1", collectionName: "users" },
+            });
+        } else if (path.startsWith("/api/collections/cats/records/")) {
+            return Response.json({ id: path.split("/").at(-1) });
+        }
+
+        return Response.json({}, { status: 404 });
+    }
+}
+
+Deno.test({
+    name: "Test the limiter counts requests with both algorithms",
+    fn: async () => {
+        const window: PbdRateLimiter = new PbdRateLimiter({ limit: 3 });
+        const results: PbdRateLimitResult[] = [];
+
+        for (let i = 0; i < 4; i++) {
+            results.push(await window.consume("user:1"));
+        }
+
+        assertEquals(
+            results.map(({ allowed, remaining }) => [allowed, remaining]),
+            [[true, 2], [true, 1], [true, 0], [false, 0]],
+        );
+        assert(results[3].retryAfter > 0 && results[3].retryAfter <= 60_000);
+        // Each key has its own counters.
+        assertEquals((await window.consume("user:2")).allowed, true);
+
+        // The count of a window is forgotten once it's two windows old.
+        const short: PbdRateLimiter = new PbdRateLimiter({
+            limit: 1,
+            window: 100,
+        });
+        assertEquals((await short.consume("ip:1")).allowed, true);
+        assertEquals((await short.consume("ip:1")).allowed, false);
+        await sleep(250);
+        assertEquals((await short.consume("ip:1")).allowed, true);
+
+        // Two tokens, one more every 500 ms.
+        const bucket: PbdRateLimiter = new PbdRateLimiter({
+            limit: 2,
+            window: 1000,
+            algorithm: "token-bucket",
+        });
+        assertEquals((await bucket.consume("ip:1")).allowed, true);
+        assertEquals((await bucket.consume("ip:1")).allowed, true);
+
+        const empty: PbdRateLimitResult = await bucket.consume("ip:1");
+        assertEquals(empty.allowed, false);
+        assert(empty.retryAfter > 400 && empty.retryAfter <= 500);
+
+        await sleep(empty.retryAfter + 20);
+        assertEquals((await bucket.consume("ip:1")).allowed, true);
+        assertEquals((await bucket.consume("ip:1")).allowed, false);
+    },
+});
+
+Deno.test({
+    name: "Test the memory store drops the least recently used keys",
+    fn: async () => {
+        const store: PbdMemoryRateLimitStore = new PbdMemoryRateLimitStore(2);
+        const limiter: PbdRateLimiter = new PbdRateLimiter({
+            limit: 1,
+            store,
+        });
+
+        await limiter.consume("a");
+        await limiter.consume("b");
+        assertEquals((await limiter.consume("a")).allowed, false);
+        await limiter.consume("c");
+
+        assertEquals(store.size, 2);
+        // "b" was dropped, "a" was used more recently.
+        assertEquals((await limiter.consume("c")).allowed, false);
+        assertEquals((await limiter.consume("a")).allowed, false);
+        assertEquals((await limiter.consume("b")).allowed, true);
+    },
+});
+
+Deno.test({
+    name: "Test Pbd rate limits calls per token, method and collection",
+    fn: async () => {
+        // Nothing listens there: the calls that are sent fail with a
+        // network error, the rate limited ones with a 429.
+        const pbd: Pbd<"result"> = new Pbd({
+            client: new PocketBase("http://127.0.0.1:1"),
+            error_mode: "result",
+            rateLimit: [{
+                limit: 1,
+                methods: ["getOne"],
+                collections: ["cats"],
+            }],
+        });
+        const statuses: number[] = [];
+
+        for (
+            const call of [
+                () => pbd.getOne("cat00000000001", { collectionName: "cats" }),
+                () => pbd.getOne("cat00000000001", { collectionName: "cats" }),
+                () => pbd.getOne("dog00000000001", { collectionName: "dogs" }),
+                () => pbd.getFullList({ collectionName: "cats" }),
+                // Forged tokens claiming a user have their own counters, and
+                // can't use up the limit of the real token.
+                () =>
+                    pbd.as(token({ id: "user1" }, "forged")).getOne(
+                        "cat00000000001",
+                        {
+                            collectionName: "cats",
+                        },
+                    ),
+                () =>
+                    pbd.as(token({ id: "user1" }, "forged")).getOne(
+                        "cat00000000001",
+                        {
+                            collectionName: "cats",
+                        },
+                    ),
+                () =>
+                    pbd.as(token({ id: "user1" })).getOne("cat00000000001", {
+                        collectionName: "cats",
+                    }),
+            ] as (() => Promise<PbdResult<unknown>>)[]
+        ) {
+            const result: PbdResult<unknown> = await call();
+            statuses.push((result.error as PbdError).status);
+        }
+
+        assertEquals(statuses, [0, 429, 0, 0, 0, 429, 0]);
+
+        const limited: PbdResult<unknown> = await pbd.getOne(
+            "cat00000000001",
+            { collectionName: "cats" },
+        );
+        const error: PbdRateLimitError = limited.error as PbdRateLimitError;
+        assert(error instanceof PbdRateLimitError);
+        assertEquals(error.method, "getOne");
+        assertEquals(error.collectionName, "cats");
+        assert(error.retryAfter > 0);
+    },
+});
+
+Deno.test({
+    name: "Test Pbd rate limits guests per IP and verified users per id",
+    fn: async () => {
+        const server: CatsStandIn = new CatsStandIn();
+        const pbd: Pbd<"result"> = new Pbd({
+            client: new PocketBase(server.url),
+            error_mode: "result",
+            rateLimit: [{ limit: 1, methods: ["getOne"] }],
+        });
+        const getOne: (scoped: Pbd<"result">) => Promise<number> = async (
+            scoped: Pbd<"result">,
+        ): Promise<number> => {
+            const { error }: PbdResult<unknown> = await scoped.getOne(
+                "cat00000000001",
+                { collectionName: "cats" },
+            );
+
+            return (error as PbdError | null)?.status ?? 200;
+        };
+
+        assertEquals(
+            [
+                await getOne(pbd.as("", { ip: "10.0.0.1" })),
+                await getOne(pbd.as("", { ip: "10.0.0.1" })),
+                await getOne(pbd.as("", { ip: "10.0.0.2" })),
+            ],
+            [200, 429, 200],
+        );
+
+        const verified: string = token({ id: "user1" }, "verified");
+        const user: Pbd<"result"> = pbd.as(verified, {
+            auth: { ...PbdExt.auth.inspectJwt(verified)!, verified: true },
+        });
+
+        assertEquals(await getOne(user), 200);
+        // The refreshed token is PocketBase's own, and still user1.
+        await user.authRefresh({
+            collectionName: "users",
+            userOrEmail: "",
+            password: "",
+        });
+        assertEquals(await getOne(user), 429);
+        // A token claiming user1 that PocketBase didn't accept yet has
+        // its own counters.
+        assertEquals(await getOne(pbd.as(token({ id: "user1" }))), 200);
+
+        await server.close();
+    },
+});
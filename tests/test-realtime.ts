@@ -0,0 +1,198 @@
+import { assertEquals } from "jsr:@std/assert";
+
+import Client from "pocketbase";
+import PocketBase from "pocketbase";
+
+import Pbd, { PbdRealtimeEvent, PbdResult, PbdSubscription } from "../mod.ts";
+import { StandIn } from "./helpers.ts";
+
+interface Cat {
+    id: string;
+    Name: string;
+}
+
+/**
+ * A tiny stand-in for the PocketBase realtime API. It speaks just enough
+ * SSE for the JS-SDK: it sends `PB_CONNECT`, stores the submitted
+ * subscriptions and lets the tests push events or drop the connection.
+ */
+class RealtimeStandIn extends StandIn {
+    connections: number = 0;
+    subscriptions: Map<string, string[]> = new Map();
+    private streams: Map<string, ReadableStreamDefaultController<Uint8Array>> =
+        new Map();
+    private encoder: TextEncoder = new TextEncoder();
+
+    /**
+     * Sends an event to every client subscribed to the given topic.
+     */
+    emit(topic: string, data: unknown): void {
+        for (const [clientId, topics] of this.subscriptions) {
+            for (const key of topics) {
+                if (key === topic || key.startsWith(`${topic}?`)) {
+                    this.streams.get(clientId)?.enqueue(this.encoder.encode(
+                        `event:${key}\ndata:${JSON.stringify(data)}\n\n`,
+                    ));
+                }
+            }
+        }
+    }
+
+    /**
+     * Closes every open SSE stream, like a PocketBase restart would.
+     */
+    drop(): void {
+        for (const stream of this.streams.values()) {
+            stream.close();
+        }
+        this.streams.clear();
+        this.subscriptions.clear();
+    }
+
+    override async close(): Promise<void> {
+        this.drop();
+        await super.close();
+    }
+
+    protected async handle(req: Request): Promise<Response> {
+        const url: URL = new URL(req.url);
+
+        if (url.pathname !== "/api/realtime") {
+            return Response.json({ message: "Not found." }, { status: 404 });
+        }
+
+        if (req.method === "POST") {
+            const body: { clientId: string; subscriptions: string[] } =
+                await req.json();
+            this.subscriptions.set(body.clientId, body.subscriptions);
+            return new Response(null, { status: 204 });
+        }
+
+        const clientId: string = crypto.randomUUID();
+        this.connections++;
+
+        return new Response(
+            new ReadableStream<Uint8Array>({
+                start: (controller) => {
+                    this.streams.set(clientId, controller);
+                    controller.enqueue(this.encoder.encode(
+                        `id:${clientId}\nevent:PB_CONNECT\ndata:{"clientId":"${clientId}"}\n\n`,
+                    ));
+                },
+            }),
+            { headers: { "content-type": "text/event-stream" } },
+        );
+    }
+}
+
+/**
+ * Waits until the condition is true or fails after a second.
+ */
+async function waitFor(condition: () => boolean): Promise<void> {
+    for (let i: number = 0; i < 100; i++) {
+        if (condition()) return;
+        await new Promise((resolve) => setTimeout(resolve, 10));
+    }
+    throw new Error("Timed out waiting for the stand-in server");
+}
+
+Deno.test({
+    name: "Test realtime events are received in order",
+    sanitizeOps: false,
+    sanitizeResources: false,
+    fn: async () => {
+        const server: RealtimeStandIn = new RealtimeStandIn();
+        const pb: Client = new PocketBase(server.url);
+        const pbd: Pbd = new Pbd({ client: pb });
+
+        const subscription: PbdSubscription<Cat> | null = await pbd
+            .subscribe<Cat>({ collectionName: "Cats" });
+
+        if (!subscription) throw new Error("Failed to subscribe");
+
+        const cat: Cat = { id: "1", Name: "Gato" };
+        server.emit("Cats/*", { action: "create", record: cat });
+        server.emit("Cats/*", { action: "update", record: cat });
+        server.emit("Cats/*", { action: "delete", record: cat });
+
+        const actions: string[] = [];
+        for await (const event of subscription) {
+            actions.push(event.action);
+            assertEquals(event.record.Name, "Gato");
+            if (actions.length === 3) break;
+        }
+
+        assertEquals(actions, ["create", "update", "delete"]);
+        assertEquals(subscription.active, false);
+
+        await server.close();
+    },
+});
+
+Deno.test({
+    name: "Test realtime subscriptions survive a reconnect",
+    sanitizeOps: false,
+    sanitizeResources: false,
+    fn: async () => {
+        const server: RealtimeStandIn = new RealtimeStandIn();
+        const pb: Client = new PocketBase(server.url);
+        const pbd: Pbd = new Pbd({ client: pb });
+
+        const subscription: PbdSubscription<Cat> | null = await pbd
+            .subscribe<Cat>({ collectionName: "Cats", topic: "1" });
+
+        if (!subscription) throw new Error("Failed to subscribe");
+
+        const iterator: AsyncIterator<PbdRealtimeEvent<Cat>> = subscription
+            [Symbol.asyncIterator]();
+
+        server.drop();
+
+        await waitFor(() =>
+            subscription.reconnects === 1 &&
+            server.connections === 2 &&
+            [...server.subscriptions.values()].some((topics: string[]) =>
+                topics.some((topic: string) => topic.startsWith("Cats/1?"))
+            )
+        );
+
+        server.emit("Cats/1", {
+            action: "update",
+            record: { id: "1", Name: "Erina Pendleton" },
+        });
+
+        const result: IteratorResult<PbdRealtimeEvent<Cat>> = await iterator
+            .next();
+
+        assertEquals(result.value?.record.Name, "Erina Pendleton");
+        assertEquals(subscription.reconnects, 1);
+
+        await subscription.unsubscribe();
+        assertEquals((await iterator.next()).done, true);
+
+        await server.close();
+    },
+});
+
+Deno.test({
+    name: "Test realtime subscriptions honour the result error mode",
+    sanitizeOps: false,
+    sanitizeResources: false,
+    fn: async () => {
+        // Nothing is listening on this port.
+        const pb: Client = new PocketBase("http://127.0.0.1:9");
+        const pbd: Pbd<"result"> = new Pbd({
+            client: pb,
+            error_mode: "result",
+        });
+
+        const result: PbdResult<PbdSubscription<Cat> | null> = await pbd
+            .subscribe<Cat>({
+                collectionName: "Cats",
+                maxAttempts: 1,
+            });
+
+        assertEquals(result.ok, false);
+        assertEquals(result.error?.method, "subscribe");
+    },
+});
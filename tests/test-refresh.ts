@@ -0,0 +1,147 @@
+import { assertEquals } from "jsr:@std/assert";
+
+import Client from "pocketbase";
+import PocketBase from "pocketbase";
+
+import Pbd, { PbdRefreshFailure } from "../mod.ts";
+import { StandIn, token } from "./helpers.ts";
+
+/**
+ * @param seconds {number} - How long the token lives.
+ * @returns {string} - A new admin token.
+ */
+function adminToken(seconds: number): string {
+    return token(
+        {
+            id: "admin1",
+            type: "admin",
+            exp: Math.floor(Date.now() / 1000) + seconds,
+        },
+        crypto.randomUUID(),
+    );
+}
+
+/**
+ * A tiny stand-in for the PocketBase admin auth API. `refreshes` holds the
+ * statuses of the next refreshes (200 once it's empty).
+ */
+class AdminsStandIn extends StandIn {
+    refreshes: number[] = [];
+    logins: string[] = [];
+    issued: string[] = [];
+
+    protected async handle(req: Request): Promise<Response> {
+        const path: string = new URL(req.url).pathname;
+
+        if (path === "/api/admins/auth-with-password") {
+            this.logins.push((await req.json()).identity);
+        } else if (path === "/api/admins/auth-refresh") {
+            const status: number = this.refreshes.shift() ?? 200;
+
+            if (status !== 200) {
+                return Response.json({ code: status, message: "No." }, {
+                    status,
+                });
+            }
+        } else {
+            return Response.json({}, { status: 404 });
+        }
+
+        this.issued.push(adminToken(3600));
+        return Response.json({
+            token: this.issued.at(-1),
+            admin: { id: "admin1" },
+        });
+    }
+}
+
+Deno.test({
+    name: "Test the token is refreshed ahead of its expiry",
+    fn: async () => {
+        const server: AdminsStandIn = new AdminsStandIn();
+        const pb: Client = new PocketBase(server.url);
+        const pbd: Pbd = new Pbd({
+            client: pb,
+            refresh: { refreshBefore: 1_000 },
+        });
+
+        pb.authStore.save(adminToken(2), { id: "admin1" });
+        await new Promise((resolve) => setTimeout(resolve, 1_500));
+
+        assertEquals(server.issued.length, 1);
+        assertEquals(pb.authStore.token, server.issued[0]);
+        assertEquals(pbd.refresher?.running, true);
+
+        pbd.refresher?.stop();
+        await server.close();
+    },
+});
+
+Deno.test({
+    name: "Test tokens that live longer than a timer can wait aren't refreshed",
+    fn: async () => {
+        const server: AdminsStandIn = new AdminsStandIn();
+        const pb: Client = new PocketBase(server.url);
+        const pbd: Pbd = new Pbd({ client: pb, refresh: true });
+
+        pb.authStore.save(adminToken(30 * 24 * 3600), { id: "admin1" });
+        await new Promise((resolve) => setTimeout(resolve, 100));
+
+        assertEquals(server.issued.length, 0);
+
+        pbd.refresher?.stop();
+        await server.close();
+    },
+});
+
+Deno.test({
+    name: "Test an expired token falls back to the stored credentials",
+    fn: async () => {
+        const server: AdminsStandIn = new AdminsStandIn();
+        const pb: Client = new PocketBase(server.url);
+
+        server.refreshes = [401];
+        pb.authStore.save(adminToken(-60), { id: "admin1" });
+
+        const pbd: Pbd = new Pbd({
+            client: pb,
+            refresh: {
+                credentials: { email: "admin@example.com", password: "pw" },
+            },
+        });
+        await new Promise((resolve) => setTimeout(resolve, 100));
+
+        assertEquals(server.logins, ["admin@example.com"]);
+        assertEquals(pb.authStore.token, server.issued[0]);
+
+        pbd.refresher?.stop();
+        await server.close();
+    },
+});
+
+Deno.test({
+    name: "Test failed refreshes are reported and retried until rejected",
+    fn: async () => {
+        const server: AdminsStandIn = new AdminsStandIn();
+        const pb: Client = new PocketBase(server.url);
+        const pbd: Pbd = new Pbd({
+            client: pb,
+            refresh: { retryDelay: 100 },
+        });
+        const failures: [number, number | null][] = [];
+
+        pbd.refresher?.onFailure((failure: PbdRefreshFailure) =>
+            failures.push([failure.error.status, failure.retryIn])
+        );
+
+        server.refreshes = [503, 401];
+        pb.authStore.save(adminToken(2), { id: "admin1" });
+        await new Promise((resolve) => setTimeout(resolve, 1_300));
+
+        assertEquals(failures, [[503, 100], [401, null]]);
+        assertEquals(pb.authStore.token, "");
+
+        pbd.refresher?.stop();
+        await server.close();
+    },
+});
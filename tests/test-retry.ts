@@ -0,0 +1,105 @@
+import { assertEquals } from "jsr:@std/assert";
+
+import Client from "pocketbase";
+import PocketBase from "pocketbase";
+
+import Pbd, { PbdError, PbdResult } from "../mod.ts";
+import { StandIn } from "./helpers.ts";
+
+/**
+ * A tiny stand-in for a PocketBase that is restarting. It answers 503 to
+ * the first `failures` requests and counts every request it receives.
+ */
+class FlakyStandIn extends StandIn {
+    requests: number = 0;
+    failures: number;
+
+    constructor(failures: number) {
+        super();
+        this.failures = failures;
+    }
+
+    protected handle(): Response {
+        if (++this.requests <= this.failures) {
+            return Response.json(
+                { code: 503, message: "Service unavailable." },
+                { status: 503 },
+            );
+        }
+
+        return Response.json({ id: "cat00000000001", name: "Gato" });
+    }
+}
+
+Deno.test({
+    name: "Test reads are retried until they succeed",
+    fn: async () => {
+        const server: FlakyStandIn = new FlakyStandIn(2);
+        const pb: Client = new PocketBase(server.url);
+        const pbd: Pbd = new Pbd({
+            client: pb,
+            retry: { attempts: 3, delay: 1 },
+        });
+
+        const cat: { name: string } | null = await pbd.getOne<
+            { name: string }
+        >("cat00000000001", { collectionName: "cats" });
+
+        assertEquals(cat?.name, "Gato");
+        assertEquals(server.requests, 3);
+
+        await server.close();
+    },
+});
+
+Deno.test({
+    name: "Test the last error is thrown once the attempts run out",
+    fn: async () => {
+        const server: FlakyStandIn = new FlakyStandIn(5);
+        const pb: Client = new PocketBase(server.url);
+        const pbd: Pbd = new Pbd({
+            client: pb,
+            retry: { attempts: 2, delay: 1 },
+        });
+
+        let error: PbdError | null = null;
+        try {
+            await pbd.getOne("cat00000000001", { collectionName: "cats" });
+        } catch (err: unknown) {
+            error = err as PbdError;
+        }
+
+        assertEquals(error?.status, 503);
+        assertEquals(server.requests, 2);
+
+        await server.close();
+    },
+});
+
+Deno.test({
+    name: "Test writes are only retried when asked to",
+    fn: async () => {
+        const server: FlakyStandIn = new FlakyStandIn(2);
+        const pb: Client = new PocketBase(server.url);
+        const pbd: Pbd<"result"> = new Pbd({
+            client: pb,
+            error_mode: "result",
+            retry: { attempts: 3, delay: 1 },
+        });
+
+        const blind: PbdResult<unknown> = await pbd.create({
+            collectionName: "cats",
+        }, { name: "Gato" });
+        assertEquals(blind.ok, false);
+        assertEquals(server.requests, 1);
+
+        const retried: PbdResult<unknown> = await pbd.create({
+            collectionName: "cats",
+            retry: { idempotentOnly: false },
+        }, { name: "Gato" });
+        assertEquals(retried.ok, true);
+        assertEquals(server.requests, 3);
+
+        await server.close();
+    },
+});
@@ -0,0 +1,288 @@
+import { assertEquals } from "jsr:@std/assert";
+
+import PocketBase from "pocketbase";
+
+import Pbd, { createPbdRouter, PbdRouter } from "../mod.ts";
+import { StandIn, token } from "./helpers.ts";
+
+/**
+ * A tiny stand-in for the PocketBase records API, recording the requests
+ * it gets as `METHOD path?query body auth`.
+ */
+class RecordsStandIn extends StandIn {
+    requests: string[] = [];
+
+    protected async handle(req: Request): Promise<Response> {
+        const url: URL = new URL(req.url);
+        const body: string = await req.text();
+
+        this.requests.push(
+            [
+                req.method,
+                decodeURIComponent(`${url.pathname}${url.search}`),
+                body,
+                req.headers.get("Authorization") ?? "guest",
+            ].join(" ").replace(/ +/g, " "),
+        );
+
+        if (req.method === "DELETE") {
+            return new Response(null, { status: 204 });
+        }
+
+        if (url.pathname.endsWith("/records") && req.method === "GET") {
+            return Response.json({
+                page: 1,
+                perPage: 30,
+                totalItems: 0,
+                totalPages: 0,
+                items: [],
+            });
+        }
+
+        return Response.json({ id: "pet00000000001", name: "Rex" });
+    }
+}
+
+/**
+ * @param router {PbdRouter} - The router.
+ * @param method {string} - The HTTP method.
+ * @param path {string} - The path and query.
+ * @param body {unknown} - The JSON body, if any.
+ * @returns {Promise<[number, string] | null>} - The status and the
+ * `Allow` header of the response, or null if no route matched.
+ */
+async function call(
+    router: PbdRouter,
+    method: string,
+    path: string,
+    body?: unknown,
+): Promise<[number, string] | null> {
+    const res: Response | null = await router(
+        new Request(`http://localhost${path}`, {
+            method,
+            headers: { Authorization: `Bearer ${token({ id: "user1" })}` },
+            body: body === undefined ? undefined : JSON.stringify(body),
+        }),
+    );
+
+    await res?.body?.cancel();
+    return res ? [res.status, res.headers.get("Allow") ?? ""] : null;
+}
+
+Deno.test({
+    name: "Test custom paths are mapped to the collection CRUD",
+    fn: async () => {
+        const server: RecordsStandIn = new RecordsStandIn();
+        const pbd: Pbd = new Pbd({
+            client: new PocketBase(server.url),
+            empty_result: "throw",
+        });
+        const router: PbdRouter = createPbdRouter(pbd, {
+            routes: [{
+                path: "/v1/pets/:id",
+                collectionName: "pets",
+                methods: ["list", "view", "create", "update", "delete"],
+                fields: ["id", "name"],
+            }],
+        });
+        const user: string = token({ id: "user1" });
+
+        assertEquals(await call(router, "GET", "/v1/pets?perPage=1000"), [
+            200,
+            "",
+        ]);
+        assertEquals(await call(router, "GET", "/v1/pets/pet00000000001"), [
+            200,
+            "",
+        ]);
+        assertEquals(
+            await call(router, "POST", "/v1/pets", { name: "Rex" }),
+            [201, ""],
+        );
+        assertEquals(
+            await call(router, "PATCH", "/v1/pets/pet00000000001", {
+                name: "Max",
+            }),
+            [200, ""],
+        );
+        assertEquals(
+            await call(router, "DELETE", "/v1/pets/pet00000000001"),
+            [204, ""],
+        );
+        assertEquals(await call(router, "GET", "/v2/pets"), null);
+        assertEquals(await call(router, "GET", "/v1/pets/a/b"), null);
+
+        assertEquals(server.requests, [
+            `GET /api/collections/pets/records?page=1&perPage=100&fields=id,name ${user}`,
+            `GET /api/collections/pets/records/pet00000000001?fields=id,name ${user}`,
+            `POST /api/collections/pets/records?fields=id,name {"name":"Rex"} ${user}`,
+            `PATCH /api/collections/pets/records/pet00000000001?fields=id,name {"name":"Max"} ${user}`,
+            `DELETE /api/collections/pets/records/pet00000000001 ${user}`,
+        ]);
+
+        await server.close();
+    },
+});
+
+Deno.test({
+    name: "Test routes only allow their methods and fields",
+    fn: async () => {
+        const server: RecordsStandIn = new RecordsStandIn();
+        const router: PbdRouter = createPbdRouter(
+            new Pbd({ client: new PocketBase(server.url) }),
+            {
+                routes: [{
+                    path: "/v1/pets",
+                    collectionName: "pets",
+                    fields: ["id", "name"],
+                }, {
+                    path: "/v1/owners",
+                    collectionName: "owners",
+                    methods: ["create", "update"],
+                    fields: ["name"],
+                }],
+            },
+        );
+
+        assertEquals(await call(router, "POST", "/v1/pets", {}), [
+            405,
+            "GET",
+        ]);
+        assertEquals(await call(router, "DELETE", "/v1/pets/pet1"), [
+            405,
+            "GET",
+        ]);
+        assertEquals(await call(router, "PUT", "/v1/owners/owner1"), [
+            405,
+            "PATCH",
+        ]);
+        assertEquals(
+            await call(router, "POST", "/v1/owners", { name: "Ann", role: 1 }),
+            [400, ""],
+        );
+        assertEquals(await call(router, "POST", "/v1/owners", ["Ann"]), [
+            400,
+            "",
+        ]);
+        assertEquals(
+            await call(router, "PATCH", "/v1/owners/owner1", { name: "Ann" }),
+            [200, ""],
+        );
+        assertEquals(server.requests.length, 1);
+
+        await server.close();
+    },
+});
+
+Deno.test({
+    name: "Test filter and sort are passed through by the route rules",
+    fn: async () => {
+        const server: RecordsStandIn = new RecordsStandIn();
+        const router: PbdRouter = createPbdRouter(
+            new Pbd({ client: new PocketBase(server.url) }),
+            {
+                routes: [{
+                    path: "/v1/pets",
+                    collectionName: "pets",
+                    fields: ["id", "name", "species", "owner"],
+                    filter: ["species", "owner"],
+                    sort: true,
+                }, {
+                    path: "/v1/owners",
+                    collectionName: "owners",
+                }],
+            },
+        );
+        const statuses: number[] = [];
+
+        for (
+            const path of [
+                `/v1/pets?filter=${
+                    encodeURIComponent(
+                        `species:lower = 'cat' && owner = @request.auth.id && species != "" && @now > @yesterday`,
+                    )
+                }&sort=-name,@random`,
+                `/v1/pets?filter=${encodeURIComponent("name = 'species'")}`,
+                `/v1/pets?filter=${
+                    encodeURIComponent(
+                        "@collection.users.email = 'a@b.c'",
+                    )
+                }`,
+                "/v1/pets?sort=-password",
+                "/v1/owners?filter=id%3D'1'",
+                "/v1/owners?sort=name",
+                "/v1/owners?filter=",
+            ]
+        ) {
+            statuses.push((await call(router, "GET", path))?.[0] ?? 0);
+        }
+
+        assertEquals(statuses, [200, 400, 400, 400, 400, 400, 200]);
+        assertEquals(
+            server.requests.map((line: string) =>
+                line.slice(4, line.lastIndexOf(" "))
+            ),
+            [
+                `/api/collections/pets/records?page=1&perPage=30&fields=id,name,species,owner&filter=species:lower = 'cat' && owner = @request.auth.id && species != "" && @now > @yesterday&sort=-name,@random`,
+                "/api/collections/owners/records?page=1&perPage=30",
+            ],
+        );
+
+        await server.close();
+    },
+});
+
+Deno.test({
+    name: "Test client filters can't escape the tenant scope",
+    fn: async () => {
+        const server: RecordsStandIn = new RecordsStandIn();
+        const router: PbdRouter = createPbdRouter(
+            new Pbd({
+                client: new PocketBase(server.url),
+                tenancy: { resolve: (): string => "acme" },
+            }),
+            {
+                routes: [{
+                    path: "/v1/pets",
+                    collectionName: "pets",
+                    filter: ["species"],
+                }],
+            },
+        );
+        const statuses: number[] = [];
+
+        for (
+            const filter of [
+                "species = 'a') || (species != 'a'",
+                "species = 'a')) || ((species != 'a'",
+                "species = ')' || species = 'a'",
+                "species = 'a\\') || (species != '",
+                "species = 'a' // )\n) || (species != 'a'",
+                "species = 'a' || species = \"b\"",
+            ]
+        ) {
+            statuses.push(
+                (await call(
+                    router,
+                    "GET",
+                    `/v1/pets?filter=${encodeURIComponent(filter)}`,
+                ))?.[0] ?? 0,
+            );
+        }
+
+        // The fourth one is a single string, escaped quote included.
+        assertEquals(statuses, [400, 400, 200, 200, 400, 200]);
+        assertEquals(
+            server.requests.map((line: string) =>
+                line.slice(line.indexOf("&filter=") + 8, line.lastIndexOf(" "))
+            ),
+            [
+                "(tenant = 'acme' && (species = ')' || species = 'a'))",
+                "(tenant = 'acme' && (species = 'a\\') || (species != '))",
+                `(tenant = 'acme' && (species = 'a' || species = "b"))`,
+            ],
+        );
+
+        await server.close();
+    },
+});
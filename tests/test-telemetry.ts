@@ -0,0 +1,257 @@
+import { assertEquals } from "jsr:@std/assert";
+
+import Client from "pocketbase";
+import PocketBase from "pocketbase";
+
+import Pbd, { PbdContext, PbdOtlpExporter, PbdTelemetry } from "../mod.ts";
+import { StandIn } from "./helpers.ts";
+
+type OtlpAttribute = { key: string; value: { [key: string]: unknown } };
+type OtlpSpan = {
+    name: string;
+    traceId: string;
+    spanId: string;
+    parentSpanId?: string;
+    status: { code: number };
+    attributes: OtlpAttribute[];
+};
+type OtlpTraces = {
+    resourceSpans: {
+        resource: { attributes: OtlpAttribute[] };
+        scopeSpans: { spans: OtlpSpan[] }[];
+    }[];
+};
+type OtlpDataPoint = {
+    attributes: OtlpAttribute[];
+    count?: string;
+    bucketCounts?: string[];
+    asInt?: string;
+};
+type OtlpMetric = {
+    name: string;
+    histogram?: { dataPoints: OtlpDataPoint[] };
+    sum?: { dataPoints: OtlpDataPoint[] };
+};
+type OtlpMetrics = {
+    resourceMetrics: { scopeMetrics: { metrics: OtlpMetric[] }[] }[];
+};
+
+/**
+ * A tiny stand-in for both PocketBase and an OTLP/HTTP collector.
+ * PocketBase answers 503 to the first `failures` requests and 404 to
+ * records named "missing". The collector keeps every payload it gets.
+ */
+class RecordsStandIn extends StandIn {
+    failures: number = 0;
+    traceparents: (string | null)[] = [];
+    payloads: Map<string, unknown[]> = new Map();
+
+    protected async handle(req: Request): Promise<Response> {
+        const path: string = new URL(req.url).pathname;
+
+        if (path.startsWith("/v1/")) {
+            this.payloads.set(path, [
+                ...this.payloads.get(path) ?? [],
+                await req.json(),
+            ]);
+            return Response.json({});
+        }
+
+        this.traceparents.push(req.headers.get("traceparent"));
+
+        if (this.failures-- > 0) {
+            return Response.json({ code: 503, message: "Down." }, {
+                status: 503,
+            });
+        }
+
+        if (path.endsWith("/missing")) {
+            return Response.json({ code: 404, message: "Not found." }, {
+                status: 404,
+            });
+        }
+
+        return Response.json({ id: "cat00000000001", name: "Gato" });
+    }
+}
+
+/**
+ * Turns OTLP attributes back into a plain object.
+ *
+ * @param attributes {OtlpAttribute[]} - The OTLP attributes.
+ * @returns {{ [key: string]: unknown }} - The attribute values by key.
+ */
+function plain(attributes: OtlpAttribute[]): { [key: string]: unknown } {
+    return Object.fromEntries(
+        attributes.map((a: OtlpAttribute) => [
+            a.key,
+            Object.values(a.value)[0],
+        ]),
+    );
+}
+
+Deno.test({
+    name: "Test every call is exported as a span with its attributes",
+    fn: async () => {
+        const server: RecordsStandIn = new RecordsStandIn();
+        const pb: Client = new PocketBase(server.url);
+        const pbd: Pbd<"null"> = new Pbd({
+            client: pb,
+            error_mode: "null",
+            retry: { attempts: 2, delay: 1 },
+        });
+        const telemetry: PbdTelemetry = new PbdTelemetry({
+            exporter: new PbdOtlpExporter({
+                url: server.url,
+                serviceName: "cats",
+            }),
+        });
+        pbd.use(telemetry.middleware());
+
+        server.failures = 1;
+        await pbd.getOne("cat00000000001", { collectionName: "cats" });
+        await pbd.getOne("missing", { collectionName: "cats" });
+        await telemetry.flush();
+
+        const traces: OtlpTraces = server.payloads.get("/v1/traces")
+            ?.[0] as OtlpTraces;
+        const [ok, missing]: OtlpSpan[] = traces.resourceSpans[0].scopeSpans[0]
+            .spans;
+
+        assertEquals(
+            plain(traces.resourceSpans[0].resource.attributes),
+            { "service.name": "cats" },
+        );
+        assertEquals(ok.name, "getOne cats");
+        assertEquals(ok.status.code, 0);
+        assertEquals(plain(ok.attributes), {
+            "pbdq.method": "getOne",
+            "pbdq.collection": "cats",
+            "pbdq.record_id": "cat00000000001",
+            "http.response.status_code": "200",
+            "pbdq.retry_count": "1",
+        });
+        assertEquals(missing.status.code, 2);
+        assertEquals(
+            plain(missing.attributes)["http.response.status_code"],
+            "404",
+        );
+        assertEquals(ok.traceId.length, 32);
+        assertEquals(ok.traceId === missing.traceId, false);
+
+        await server.close();
+    },
+});
+
+Deno.test({
+    name: "Test latency and errors are exported as metrics",
+    fn: async () => {
+        const server: RecordsStandIn = new RecordsStandIn();
+        const pb: Client = new PocketBase(server.url);
+        const pbd: Pbd<"null"> = new Pbd({ client: pb, error_mode: "null" });
+        const telemetry: PbdTelemetry = new PbdTelemetry({
+            exporter: new PbdOtlpExporter({ url: server.url }),
+            bounds: [10_000],
+        });
+        pbd.use(telemetry.middleware());
+
+        await pbd.getOne("cat00000000001", { collectionName: "cats" });
+        await pbd.getOne("missing", { collectionName: "cats" });
+        await pbd.getOne("missing", { collectionName: "cats" });
+        await telemetry.flush();
+
+        const [duration, errors]: OtlpMetric[] = (server.payloads.get(
+            "/v1/metrics",
+        )?.[0] as OtlpMetrics).resourceMetrics[0].scopeMetrics[0].metrics;
+
+        assertEquals(duration.name, "pbdq.call.duration");
+        assertEquals(duration.histogram?.dataPoints[0].count, "3");
+        assertEquals(duration.histogram?.dataPoints[0].bucketCounts, [
+            "3",
+            "0",
+        ]);
+        assertEquals(errors.name, "pbdq.call.errors");
+        assertEquals(errors.sum?.dataPoints[0].asInt, "2");
+        assertEquals(
+            plain(errors.sum?.dataPoints[0].attributes ?? []),
+            {
+                "pbdq.method": "getOne",
+                "pbdq.collection": "cats",
+                "http.response.status_code": "404",
+            },
+        );
+
+        await server.close();
+    },
+});
+
+Deno.test({
+    name: "Test spans join the incoming trace and propagate it",
+    fn: async () => {
+        const server: RecordsStandIn = new RecordsStandIn();
+        const pb: Client = new PocketBase(server.url);
+        const pbd: Pbd = new Pbd({ client: pb });
+        const telemetry: PbdTelemetry = new PbdTelemetry({
+            exporter: new PbdOtlpExporter({ url: server.url }),
+            propagate: true,
+            batchSize: 1,
+        });
+        const traceId: string = "4bf92f3577b34da6a3ce929d0e0e4736";
+
+        pbd.use(async (ctx: PbdContext, next: () => Promise<void>) => {
+            ctx.state.traceparent = `00-${traceId}-00f067aa0ba902b7-01`;
+            await next();
+        }).use(telemetry.middleware());
+
+        await pbd.getOne("cat00000000001", { collectionName: "cats" });
+        // The full batch is exported in the background.
+        await new Promise((resolve) => setTimeout(resolve, 50));
+
+        const span: OtlpSpan = (server.payloads.get("/v1/traces")
+            ?.[0] as OtlpTraces).resourceSpans[0].scopeSpans[0].spans[0];
+
+        assertEquals(span.traceId, traceId);
+        assertEquals(span.parentSpanId, "00f067aa0ba902b7");
+        assertEquals(
+            server.traceparents[0],
+            `00-${traceId}-${span.spanId}-01`,
+        );
+
+        await server.close();
+    },
+});
+
+Deno.test({
+    name: "Test batch spans carry the id of the record of their step",
+    fn: async () => {
+        const server: RecordsStandIn = new RecordsStandIn();
+        const pb: Client = new PocketBase(server.url);
+        const pbd: Pbd = new Pbd({ client: pb });
+        const telemetry: PbdTelemetry = new PbdTelemetry({
+            exporter: new PbdOtlpExporter({ url: server.url }),
+        });
+        pbd.use(telemetry.middleware());
+
+        await pbd.batch()
+            .update("cats", "cat00000000002", { name: "Gato" })
+            .delete("cats", "cat00000000003")
+            .run();
+        await telemetry.flush();
+
+        const spans: OtlpSpan[] = (server.payloads.get("/v1/traces")
+            ?.[0] as OtlpTraces).resourceSpans[0].scopeSpans[0].spans;
+
+        // Each write is preceded by the read of its snapshot.
+        assertEquals(
+            spans.map((s: OtlpSpan) => plain(s.attributes)["pbdq.record_id"]),
+            [
+                "cat00000000002",
+                "cat00000000002",
+                "cat00000000003",
+                "cat00000000003",
+            ],
+        );
+
+        await server.close();
+    },
+});
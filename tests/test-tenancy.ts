@@ -0,0 +1,318 @@
+import { assert, assertEquals } from "jsr:@std/assert";
+
+import Client, { RecordModel } from "pocketbase";
+import PocketBase from "pocketbase";
+
+import Pbd, {
+    PbdAuthError,
+    PbdBatchReport,
+    PbdBatchResult,
+    PbdError,
+    pbdFilter,
+    PbdListIterator,
+    PbdNotFoundError,
+    PbdResult,
+} from "../mod.ts";
+import { StandIn } from "./helpers.ts";
+
+type Project = { id: string; name: string; tenant: string };
+
+/**
+ * A tiny stand-in for the PocketBase records API. It keeps the projects
+ * of two tenants in memory and records every request it gets.
+ */
+class ProjectsStandIn extends StandIn {
+    projects: Project[] = [
+        { id: "prj00000000001", name: "Moon", tenant: "acme" },
+        { id: "prj00000000002", name: "Mars", tenant: "globex" },
+    ];
+    requests: { method: string; url: URL; body: unknown }[] = [];
+
+    protected async handle(req: Request): Promise<Response> {
+        const url: URL = new URL(req.url);
+        const id: string | undefined = url.pathname.split("/records/")[1];
+        const body: unknown = req.method === "POST" || req.method === "PATCH"
+            ? await req.json()
+            : null;
+
+        this.requests.push({ method: req.method, url, body });
+
+        if (!id) {
+            return req.method === "POST"
+                ? Response.json({ id: "prj00000000003", ...body as object })
+                : Response.json({
+                    page: 1,
+                    perPage: 30,
+                    totalItems: this.projects.length,
+                    totalPages: 1,
+                    items: this.projects,
+                });
+        }
+
+        const project: Project | undefined = this.projects.find((
+            project: Project,
+        ) => project.id === id);
+
+        if (!project) {
+            return Response.json({ code: 404, message: "No." }, {
+                status: 404,
+            });
+        }
+
+        if (req.method === "DELETE") {
+            return new Response(null, { status: 204 });
+        }
+
+        return Response.json({ ...project, ...body as object });
+    }
+}
+
+/**
+ * @param url {string} - The URL of the stand-in.
+ * @param tenant {string} - The tenant of the logged in user.
+ * @returns {Client} - A client logged in as a user of the tenant.
+ */
+function userOf(url: string, tenant: string): Client {
+    const pb: Client = new PocketBase(url);
+    pb.authStore.save(
+        "token",
+        { id: "usr00000000001", tenant } as unknown as RecordModel,
+    );
+    return pb;
+}
+
+Deno.test({
+    name: "Test list filters are scoped to the tenant",
+    fn: async () => {
+        const server: ProjectsStandIn = new ProjectsStandIn();
+        const pbd: Pbd = new Pbd({
+            client: userOf(server.url, "acme"),
+            tenancy: {
+                resolve: (client: Client): string | null =>
+                    client.authStore.model?.tenant ?? null,
+                collections: ["projects"],
+            },
+        });
+
+        await pbd.getList({
+            collectionName: "projects",
+            page: 1,
+            perPage: 30,
+            filter: 'name = "Moon" || name = "Mars"',
+            listoptions: {},
+        });
+        await pbd.getFullList({
+            collectionName: "projects",
+            filter: pbdFilter.eq("name", "Moon"),
+        });
+        await pbd.getFirstListItem({ collectionName: "projects" });
+        await pbd.getFullList({ collectionName: "planets" });
+        await pbd.forTenant(null).getFullList({ collectionName: "projects" });
+        // A guest has no tenant: it matches no record.
+        await new Pbd({
+            client: new PocketBase(server.url),
+            tenancy: {
+                resolve: (client: Client): string | undefined =>
+                    client.authStore.model?.tenant,
+            },
+        }).getFullList({ collectionName: "projects" });
+
+        assertEquals(
+            server.requests.map(({ url }) => url.searchParams.get("filter")),
+            [
+                `(tenant = 'acme' && (name = "Moon" || name = "Mars"))`,
+                "(tenant = 'acme' && name = 'Moon')",
+                "tenant = 'acme'",
+                null,
+                null,
+                "id = ''",
+            ],
+        );
+
+        await server.close();
+    },
+});
+
+Deno.test({
+    name: "Test writes get the tenant of the caller set",
+    fn: async () => {
+        const server: ProjectsStandIn = new ProjectsStandIn();
+        const pbd: Pbd<"result"> = new Pbd({
+            client: userOf(server.url, "acme"),
+            error_mode: "result",
+            tenancy: {
+                resolve: (client: Client): string | null =>
+                    client.authStore.model?.tenant ?? null,
+            },
+        });
+
+        const created: PbdResult<Project | null> = await pbd.create<Project>(
+            { collectionName: "projects" },
+            { name: "Venus" },
+        );
+        assertEquals(created.data?.tenant, "acme");
+
+        const updated: PbdResult<Project | null> = await pbd.update<Project>(
+            "prj00000000001",
+            { collectionName: "projects" },
+            { name: "Luna" },
+        );
+        assertEquals(updated.data, {
+            id: "prj00000000001",
+            name: "Luna",
+            tenant: "acme",
+        });
+
+        // Moving a record to another tenant is never sent.
+        const sent: number = server.requests.length;
+        const moved: PbdResult<Project | null> = await pbd.create<Project>(
+            { collectionName: "projects" },
+            { name: "Venus", tenant: "globex" },
+        );
+        assert(moved.error instanceof PbdAuthError);
+        assertEquals((moved.error as PbdError).status, 403);
+        assertEquals(server.requests.length, sent);
+
+        // The update checked the tenant of the stored record first.
+        assertEquals(
+            server.requests.map(({ method, url }) =>
+                `${method} ${url.searchParams.get("fields") ?? ""}`
+            ),
+            ["POST ", "GET tenant", "PATCH "],
+        );
+
+        await server.close();
+    },
+});
+
+Deno.test({
+    name: "Test records of other tenants are not found",
+    fn: async () => {
+        const server: ProjectsStandIn = new ProjectsStandIn();
+        const pbd: Pbd<"result"> = new Pbd({
+            client: new PocketBase(server.url),
+            error_mode: "result",
+        });
+        const acme: Pbd<"result"> = pbd.forTenant("acme");
+
+        const own: PbdResult<Project | null> = await acme.getOne<Project>(
+            "prj00000000001",
+            { collectionName: "projects", options: { fields: "id,name" } },
+        );
+        assertEquals(own.data?.name, "Moon");
+        assertEquals(
+            server.requests[0].url.searchParams.get("fields"),
+            "id,name,tenant",
+        );
+
+        const statuses: number[] = [];
+        for (
+            const result of [
+                await acme.getOne("prj00000000002", {
+                    collectionName: "projects",
+                }),
+                await acme.update("prj00000000002", {
+                    collectionName: "projects",
+                }, { name: "Phobos" }),
+                await acme.delete("prj00000000002", {
+                    collectionName: "projects",
+                }),
+            ] as PbdResult<unknown>[]
+        ) {
+            assert(result.error instanceof PbdNotFoundError);
+            statuses.push((result.error as PbdError).status);
+        }
+        assertEquals(statuses, [404, 404, 404]);
+
+        // Nothing of the other tenant was changed, and the instance the
+        // copy was made from isn't scoped.
+        assertEquals(
+            server.requests.filter(({ method }) => method !== "GET").length,
+            0,
+        );
+        assertEquals(
+            (await pbd.delete("prj00000000002", { collectionName: "projects" }))
+                .data,
+            true,
+        );
+
+        await server.close();
+    },
+});
+
+Deno.test({
+    name: "Test batch writes are scoped to the tenant",
+    fn: async () => {
+        const server: ProjectsStandIn = new ProjectsStandIn();
+        const acme: Pbd = new Pbd({
+            client: new PocketBase(server.url),
+        }).forTenant("acme");
+
+        const report: PbdBatchReport = await acme.batch({ rollback: false })
+            .create("projects", { name: "Venus" })
+            .update("projects", "prj00000000002", { name: "Phobos" })
+            .delete("projects", "prj00000000002")
+            .run();
+
+        assertEquals(
+            report.results.map(({ status }: PbdBatchResult) => status),
+            ["applied", "failed", "skipped"],
+        );
+        assert(report.results[1].error instanceof PbdNotFoundError);
+        assertEquals(report.results[0].record?.tenant, "acme");
+
+        // The project of the other tenant was only read.
+        assertEquals(
+            server.requests.map(({ method }) => method),
+            ["POST", "GET"],
+        );
+
+        await server.close();
+    },
+});
+
+Deno.test({
+    name: "Test tenant resolver errors follow the error mode",
+    fn: async () => {
+        const server: ProjectsStandIn = new ProjectsStandIn();
+        const tenancy: { resolve: () => string } = {
+            resolve: (): string => {
+                throw new Error("No session.");
+            },
+        };
+        const results: Pbd<"result"> = new Pbd({
+            client: new PocketBase(server.url),
+            error_mode: "result",
+            tenancy,
+        });
+        const nulls: Pbd<"null"> = new Pbd({
+            client: new PocketBase(server.url),
+            error_mode: "null",
+            tenancy,
+        });
+
+        const listed: PbdResult<Project[] | null> = await results.getFullList<
+            Project
+        >({ collectionName: "projects" });
+        assertEquals(listed.ok, false);
+        assertEquals(listed.error?.message, "No session.");
+        assertEquals(
+            await nulls.getOne("prj00000000001", {
+                collectionName: "projects",
+            }),
+            null,
+        );
+
+        // The iterator reports it like any failed page.
+        const projects: PbdListIterator<Project> = results.iterate<Project>({
+            collectionName: "projects",
+        });
+        for await (const _ of projects) {
+            // Nothing is returned.
+        }
+        assertEquals(projects.error?.message, "No session.");
+        assertEquals(server.requests.length, 0);
+
+        await server.close();
+    },
+});
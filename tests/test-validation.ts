@@ -0,0 +1,115 @@
+import { assertEquals } from "jsr:@std/assert";
+
+import Client, { CollectionModel } from "pocketbase";
+import PocketBase from "pocketbase";
+
+import Pbd, { PbdFieldError, PbdResult, PbdValidator } from "../mod.ts";
+
+const collections: CollectionModel[] = JSON.parse(
+    await Deno.readTextFile(
+        new URL("../pocketbase/collections.json", import.meta.url),
+    ),
+);
+
+const validator: PbdValidator = new PbdValidator(collections);
+
+Deno.test({
+    name: "Test validation reports per-field errors like PocketBase",
+    fn: async () => {
+        const errors: Record<string, PbdFieldError> = await validator.validate(
+            "Cats",
+            { Name: "x".repeat(41), Age: 2.5, Breed: "Siamese" },
+            "create",
+        );
+
+        assertEquals(errors, {
+            Name: {
+                code: "validation_max_text_constraint",
+                message: "Must be less than 40 character(s).",
+            },
+            Age: {
+                code: "validation_no_decimal_constraint",
+                message: "Decimal numbers are not allowed.",
+            },
+            Color: {
+                code: "validation_required",
+                message: "Cannot be blank.",
+            },
+        });
+    },
+});
+
+Deno.test({
+    name: "Test validation only checks the submitted fields on update",
+    fn: async () => {
+        assertEquals(
+            await validator.validate("Cats", { Age: 3 }, "update"),
+            {},
+        );
+        assertEquals(
+            (await validator.validate("Cats", { Age: 101 }, "update")).Age
+                ?.code,
+            "validation_max_number_constraint",
+        );
+    },
+});
+
+Deno.test({
+    name: "Test validation checks file types and sizes",
+    fn: async () => {
+        const avatar: File = new File(["GIF89a"], "cat.txt", {
+            type: "text/plain",
+        });
+
+        assertEquals(
+            (await validator.validate("users", { avatar }, "update")).avatar
+                ?.code,
+            "validation_invalid_mime_type",
+        );
+        const png: File = new File(["png"], "cat.png", { type: "image/png" });
+
+        assertEquals(
+            (await validator.validate(
+                "users",
+                { avatar: [png, png] },
+                "update",
+            )).avatar?.code,
+            "validation_too_many_values",
+        );
+
+        const huge: File = new File([new Uint8Array(5242881)], "cat.png", {
+            type: "image/png",
+        });
+
+        assertEquals(
+            (await validator.validate("users", { avatar: huge }, "update"))
+                .avatar?.code,
+            "validation_file_size_limit",
+        );
+    },
+});
+
+Deno.test({
+    name: "Test invalid data is rejected before it's sent",
+    fn: async () => {
+        // Nothing is listening on this port, the request must never be made.
+        const pb: Client = new PocketBase("http://127.0.0.1:9");
+        const pbd: Pbd<"result"> = new Pbd({
+            client: pb,
+            error_mode: "result",
+            validation: collections,
+        });
+
+        const result: PbdResult<unknown> = await pbd.create(
+            { collectionName: "Cats" },
+            { Name: "", Age: 2, Color: "Brown", Breed: "Siamese" },
+        );
+
+        assertEquals(result.ok, false);
+        assertEquals(result.error?.status, 400);
+        assertEquals(result.error?.method, "create");
+        assertEquals(result.error?.response.data, {
+            Name: { code: "validation_required", message: "Cannot be blank." },
+        });
+    },
+});